@@ -1,14 +1,37 @@
 
 
 import React, { useState, useEffect } from 'react';
-import LandingPage, { RecentProject } from './components/LandingPage';
+import LandingPage from './components/LandingPage';
 import PhotoLog from './components/PhotoLog';
 import DfrStandard from './components/DfrStandard';
 import DfrSaskpower from './components/DfrSaskpower';
+import DfrForm from './components/DfrForm';
 import { retrieveProject } from './components/db';
+import { describeProjectFileError, readProjectFile } from './components/projectPackage';
+import { draftToInitialData, type DraftSessionFields, type ProjectDraft } from './components/drafts';
+import { createReportFromDefaults, type ProjectRecord, type ProjectReport, type ReportFromDefaults } from './components/projectRegistry';
+import type { SearchTarget } from './components/searchIndex';
+import { createReportFromTemplate, type ReportFromTemplate } from './components/templates';
+import { createContinuationReport, type ContinuableReportType, type ContinuationReport } from './components/reportContinuation';
+import { createFormReport } from './components/formDefinitions';
+import { createSummaryReport } from './components/summaryDigest';
+import type { FormDefinition, FormDfrProject, ReportTemplate, SummaryReportProject } from './types';
 import CombinedLog from './components/CombinedLog';
+import SummaryReport from './components/SummaryReport';
 
-export type AppType = 'photoLog' | 'dfrSaskpower' | 'dfrStandard' | 'combinedLog';
+export type AppType = 'photoLog' | 'dfrSaskpower' | 'dfrStandard' | 'combinedLog' | 'dfrForm' | 'summaryReport';
+
+/**
+ * What an editor opens with: a project file as read from disk or the projects store, at any
+ * schema version and migrated by the editor, a restored draft, or a new report's initial data.
+ */
+type InitialReportData =
+    | (DraftSessionFields & Record<string, unknown>)
+    | ReportFromDefaults
+    | ReportFromTemplate
+    | ContinuationReport
+    | FormDfrProject
+    | SummaryReportProject;
 
 const PlaceholderApp: React.FC<{ title: string, onBack: () => void }> = ({ title, onBack }) => (
     <div className="bg-gray-100 min-h-screen flex flex-col justify-center items-center p-4">
@@ -27,11 +50,12 @@ const PlaceholderApp: React.FC<{ title: string, onBack: () => void }> = ({ title
 
 const App: React.FC = () => {
     const [selectedApp, setSelectedApp] = useState<AppType | null>(null);
-    const [projectToOpen, setProjectToOpen] = useState<any>(null);
+    const [projectToOpen, setProjectToOpen] = useState<InitialReportData | null>(null);
+    const [focusTarget, setFocusTarget] = useState<SearchTarget | undefined>(undefined);
 
-    const loadProjectFromFileContent = (content: string, path: string) => {
+    const loadProjectFromFileContent = async (content: Uint8Array, path: string) => {
         try {
-            const projectData = JSON.parse(content);
+            const projectData = await readProjectFile(content);
             const ext = path.split('.').pop();
             let type: AppType | null = null;
 
@@ -39,6 +63,8 @@ const App: React.FC = () => {
             else if (ext === 'dfr') type = 'dfrStandard';
             else if (ext === 'spdfr') type = 'dfrSaskpower';
             else if (ext === 'clog') type = 'combinedLog';
+            else if (ext === 'xdfr') type = 'dfrForm';
+            else if (ext === 'xsum') type = 'summaryReport';
 
             if (type) {
                 setProjectToOpen(projectData);
@@ -48,7 +74,7 @@ const App: React.FC = () => {
             }
         } catch (e) {
             console.error("Failed to parse project data:", e);
-            alert("Could not open the project. The file may be corrupt.");
+            alert(describeProjectFileError(e));
         }
     };
 
@@ -60,7 +86,7 @@ const App: React.FC = () => {
                 // @ts-ignore
                 const result = await window.electronAPI.readFile(filePath);
                 if (result.success && result.data) {
-                    loadProjectFromFileContent(result.data, result.path);
+                    await loadProjectFromFileContent(result.data, result.path);
                 } else {
                     alert(`Failed to read the file: ${result.error}`);
                 }
@@ -70,10 +96,11 @@ const App: React.FC = () => {
 
     const handleSelectApp = (app: AppType) => {
         setProjectToOpen(null);
+        setFocusTarget(undefined);
         setSelectedApp(app);
     };
 
-    const handleOpenProject = async (project: RecentProject) => {
+    const handleOpenProject = async (project: ProjectReport, target?: SearchTarget) => {
         try {
             const projectData = await retrieveProject(project.timestamp);
             if (!projectData) {
@@ -81,6 +108,7 @@ const App: React.FC = () => {
             }
             // Pass the timestamp along with the project data so the component knows its own ID
             setProjectToOpen({ ...projectData, timestamp: project.timestamp });
+            setFocusTarget(target);
             setSelectedApp(project.type);
         } catch (e) {
             console.error("Failed to load project data:", e);
@@ -88,26 +116,81 @@ const App: React.FC = () => {
         }
     };
     
+    const handleNewReport = (app: AppType, template: ReportTemplate | null, project: ProjectRecord | null) => {
+        if (template) {
+            setProjectToOpen(createReportFromTemplate(template, project));
+        } else if (project) {
+            setProjectToOpen(createReportFromDefaults(app, project));
+        } else {
+            setProjectToOpen(null);
+        }
+        setFocusTarget(undefined);
+        setSelectedApp(app);
+    };
+
+    const handleNewFormReport = (form: FormDefinition, project: ProjectRecord | null) => {
+        setProjectToOpen(createFormReport(form, project));
+        setFocusTarget(undefined);
+        setSelectedApp('dfrForm');
+    };
+
+    const handleNewSummaryReport = async (project: ProjectRecord, periodStart: string, periodEnd: string) => {
+        try {
+            setProjectToOpen(await createSummaryReport(project, periodStart, periodEnd));
+            setFocusTarget(undefined);
+            setSelectedApp('summaryReport');
+        } catch (e) {
+            console.error("Failed to build the summary report:", e);
+            alert("Could not build the summary report from the stored DFRs.");
+        }
+    };
+
+    const handleContinueReport = async (report: ProjectReport & { type: ContinuableReportType }, sections: string[]) => {
+        try {
+            const previousData = await retrieveProject(report.timestamp);
+            if (!previousData) {
+                throw new Error("Project data not found in the database.");
+            }
+            setProjectToOpen(createContinuationReport(report.type, previousData, report.timestamp, sections));
+            setFocusTarget(undefined);
+            setSelectedApp(report.type);
+        } catch (e) {
+            console.error("Failed to continue from the previous report:", e);
+            alert("Could not continue from this report. It may be corrupt or missing from the database.");
+        }
+    };
+
+    const handleRestoreDraft = (draft: ProjectDraft) => {
+        setProjectToOpen(draftToInitialData(draft));
+        setFocusTarget(undefined);
+        setSelectedApp(draft.type);
+    };
+    
     const handleBackToHome = () => {
         setSelectedApp(null);
         setProjectToOpen(null);
+        setFocusTarget(undefined);
     }
 
     if (!selectedApp) {
-        return <LandingPage onSelectApp={handleSelectApp} onOpenProject={handleOpenProject} />;
+        return <LandingPage onSelectApp={handleSelectApp} onOpenProject={handleOpenProject} onNewReport={handleNewReport} onNewFormReport={handleNewFormReport} onNewSummaryReport={handleNewSummaryReport} onContinueReport={handleContinueReport} onRestoreDraft={handleRestoreDraft} />;
     }
 
     switch (selectedApp) {
         case 'photoLog':
-            return <PhotoLog onBack={handleBackToHome} initialData={projectToOpen} />;
+            return <PhotoLog onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
         case 'dfrSaskpower':
-            return <DfrSaskpower onBack={handleBackToHome} initialData={projectToOpen} />;
+            return <DfrSaskpower onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
         case 'dfrStandard':
-            return <DfrStandard onBack={handleBackToHome} initialData={projectToOpen} />;
+            return <DfrStandard onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
+        case 'dfrForm':
+            return <DfrForm onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
         case 'combinedLog':
-            return <CombinedLog onBack={handleBackToHome} initialData={projectToOpen} />;
+            return <CombinedLog onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
+        case 'summaryReport':
+            return <SummaryReport onBack={handleBackToHome} initialData={projectToOpen} focusTarget={focusTarget} />;
         default:
-            return <LandingPage onSelectApp={handleSelectApp} onOpenProject={handleOpenProject} />;
+            return <LandingPage onSelectApp={handleSelectApp} onOpenProject={handleOpenProject} onNewReport={handleNewReport} onNewFormReport={handleNewFormReport} onNewSummaryReport={handleNewSummaryReport} onContinueReport={handleContinueReport} onRestoreDraft={handleRestoreDraft} />;
     }
 };
 
@@ -2,15 +2,21 @@ import React from 'react';
 
 interface ActionStatusModalProps {
   message: string;
+  /** Fraction complete (0-1). Omit for an indeterminate bar. */
+  progress?: number;
 }
 
-const ActionStatusModal: React.FC<ActionStatusModalProps> = ({ message }) => {
+const ActionStatusModal: React.FC<ActionStatusModalProps> = ({ message, progress }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white p-8 rounded-lg shadow-xl text-center max-w-sm w-full">
         <p className="text-lg font-semibold text-gray-700 mb-4">{message}</p>
         <div className="w-full bg-gray-200 rounded-full h-2.5 overflow-hidden">
-          <div className="bg-[#007D8C] h-2.5 rounded-full animate-progress-indeterminate"></div>
+          {progress === undefined ? (
+            <div className="bg-[#007D8C] h-2.5 rounded-full animate-progress-indeterminate"></div>
+          ) : (
+            <div className="bg-[#007D8C] h-2.5 rounded-full transition-all duration-300" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+          )}
         </div>
       </div>
       <style>{`
@@ -7,9 +7,11 @@ interface BulletPointEditorProps {
     rows?: number;
     placeholder?: string;
     isInvalid?: boolean;
+    /** DOM id of the editor's wrapper, used to scroll to it. */
+    id?: string;
 }
 
-const BulletPointEditor: React.FC<BulletPointEditorProps> = ({ label, value, onChange, placeholder, rows = 3, isInvalid = false }) => {
+const BulletPointEditor: React.FC<BulletPointEditorProps> = ({ label, value, onChange, placeholder, rows = 3, isInvalid = false, id }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -89,7 +91,7 @@ const BulletPointEditor: React.FC<BulletPointEditorProps> = ({ label, value, onC
     };
 
     return (
-        <div>
+        <div id={id}>
             {label && <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>}
             <textarea
                 ref={textareaRef}
@@ -1,218 +1,61 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Header from './Header';
 import PhotoEntry from './PhotoEntry';
-import type { HeaderData, PhotoData } from '../types';
+import {
+    PdfPreviewModal,
+    autoCropImage,
+    formatDateForRecentProject,
+    renumberPhotos,
+    useDownloadPhotosCommand,
+} from './editorShared';
+import type { HeaderData, PhotoData, PdfExportSettings } from '../types';
 import { PlusIcon, DownloadIcon, SaveIcon, FolderOpenIcon, CloseIcon, ArrowLeftIcon, FolderArrowDownIcon, DocumentDuplicateIcon } from './icons';
-import { AppType } from '../App';
-import { storeImage, retrieveImage, deleteImage, storeProject, deleteProject, retrieveProject } from './db';
+import { storeImage, deleteImage, retrieveProject } from './db';
+import { isStoredImageUrl, loadPhotoThumbnails } from './photoImages';
+import { migrateProject, withSchemaVersion } from './migrations';
+import { applyExifToPhoto, readExif } from './exif';
+import { importPhotoFiles, isSupportedImageFile } from './photoImport';
+import { storeOriginalImage } from './imageEdits';
+import { getAllReports, saveReportToRegistry, type ProjectReport } from './projectRegistry';
+import { useDraftAutosave } from './drafts';
+import { getSearchTargetElementId, useSearchTargetFocus, type SearchTarget } from './searchIndex';
+import { createProjectPackage, describeProjectFileError, isProjectPackage, readProjectFile } from './projectPackage';
 import { SpecialCharacterPalette } from './SpecialCharacterPalette';
 import ImageModal from './ImageModal';
+import ImageEditor from './ImageEditor';
 import ActionStatusModal from './ActionStatusModal';
-import { RecentProject } from './LandingPage';
-
-// @ts-ignore
-const { jsPDF } = window.jspdf;
-declare const JSZip: any;
-
-// --- Recent Projects Utility ---
-const RECENT_PROJECTS_KEY = 'xtec_recent_projects';
-
-interface RecentProjectMetadata {
-    type: AppType;
-    name: string;
-    projectNumber: string;
-    timestamp: number;
-}
-
-const getRecentProjects = (): RecentProjectMetadata[] => {
-    try {
-        const projects = localStorage.getItem(RECENT_PROJECTS_KEY);
-        return projects ? JSON.parse(projects) : [];
-    } catch (e) {
-        console.error("Failed to parse recent projects from localStorage", e);
-        return [];
-    }
-};
-
-const addRecentProject = async (projectData: any, projectInfo: { type: AppType; name: string; projectNumber: string; }): Promise<number> => {
-    const timestamp = Date.now();
-    
-    try {
-        await storeProject(timestamp, projectData);
-    } catch (e) {
-        console.error("Failed to save project to IndexedDB:", e);
-        alert("Could not save the project to the local database. Your browser's storage might be full or corrupted.");
-        return timestamp;
-    }
-    
-    const recentProjects = getRecentProjects();
-    const identifier = `${projectInfo.type}-${projectInfo.name}-${projectInfo.projectNumber}`;
-
-    const existingProject = recentProjects.find(p => `${p.type}-${p.name}-${p.projectNumber}` === identifier);
-    const filteredProjects = recentProjects.filter(p => `${p.type}-${p.name}-${p.projectNumber}` !== identifier);
-
-    if (existingProject) {
-        try {
-            const oldProjectData = await retrieveProject(existingProject.timestamp);
-            if (oldProjectData?.photosData) {
-                for (const photo of oldProjectData.photosData) {
-                    if (photo.imageId) await deleteImage(photo.imageId);
-                }
-            }
-            await deleteProject(existingProject.timestamp);
-        } catch (e) {
-            console.error(`Failed to clean up old project version (${existingProject.timestamp}):`, e);
-        }
-    }
-    
-    const newProjectMetadata: RecentProjectMetadata = { ...projectInfo, timestamp };
-    let updatedProjects = [newProjectMetadata, ...filteredProjects];
-    
-    const MAX_RECENT_PROJECTS_IN_LIST = 50;
-    if (updatedProjects.length > MAX_RECENT_PROJECTS_IN_LIST) {
-        const projectsToDelete = updatedProjects.splice(MAX_RECENT_PROJECTS_IN_LIST);
-        for (const proj of projectsToDelete) {
-             try {
-                const projectDataToDelete = await retrieveProject(proj.timestamp);
-                if (projectDataToDelete?.photosData) {
-                    for (const photo of projectDataToDelete.photosData) {
-                        if (photo.imageId) await deleteImage(photo.imageId);
-                    }
-                }
-                await deleteProject(proj.timestamp);
-            } catch (e) {
-                console.error(`Failed to cleanup old project from list (${proj.timestamp}):`, e);
-            }
-        }
-    }
-
-    try {
-        localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updatedProjects));
-    } catch (e) {
-        console.error("Failed to save recent projects to localStorage:", e);
-        alert("Could not update recent projects list. Your browser's local storage may be full.");
-    }
-    return timestamp;
-};
-
-// --- End Utility ---
-
-// Helper function to get image dimensions asynchronously
-const getImageDimensions = (url: string): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
-        img.onerror = (err) => reject(err);
-        img.src = url;
-    });
-};
-
-const formatDateForRecentProject = (dateString: string): string => {
-    if (!dateString) return '';
-    try {
-        const tempDate = new Date(dateString);
-        if (isNaN(tempDate.getTime())) {
-            return dateString; // Return original if invalid
-        }
-        // Use local methods to get the components of the date the user intended
-        const year = tempDate.getFullYear();
-        const month = tempDate.getMonth();
-        const day = tempDate.getDate();
-
-        // Reconstruct as a UTC date to avoid timezone shifts during formatting
-        const utcDate = new Date(Date.UTC(year, month, day));
-        
-        const formattedYear = utcDate.getUTCFullYear();
-        const formattedMonth = String(utcDate.getUTCMonth() + 1).padStart(2, '0');
-        const formattedDay = String(utcDate.getUTCDate()).padStart(2, '0');
-
-        return `${formattedYear}/${formattedMonth}/${formattedDay}`;
-    } catch (e) {
-        return dateString; // Fallback
-    }
-};
-
-const PdfPreviewModal: React.FC<{ url: string; filename: string; onClose: () => void; }> = ({ url, filename, onClose }) => {
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Escape') {
-                onClose();
-            }
-        };
-        window.addEventListener('keydown', handleKeyDown);
-        document.body.style.overflow = 'hidden';
-
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            document.body.style.overflow = 'auto';
-            if (url && url.startsWith('blob:')) {
-                URL.revokeObjectURL(url);
-            }
-        };
-    }, [onClose, url]);
-
-    const handleDownload = () => {
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    };
-
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
-            <div className="bg-white rounded-lg shadow-2xl w-full h-full flex flex-col">
-                <div className="flex justify-between items-center p-4 border-b bg-gray-50">
-                    <h3 className="text-xl font-bold text-gray-800">PDF Preview</h3>
-                    <div className="flex items-center gap-4">
-                        <button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
-                            <DownloadIcon />
-                            <span>Download PDF</span>
-                        </button>
-                        <button onClick={onClose} className="text-gray-500 hover:text-gray-800 transition-colors" aria-label="Close preview">
-                            <CloseIcon className="h-8 w-8" />
-                        </button>
-                    </div>
-                </div>
-                <div className="flex-grow bg-gray-200">
-                    <object data={url} type="application/pdf" className="w-full h-full">
-                        <div className="flex flex-col items-center justify-center h-full bg-gray-100 p-8 text-center text-gray-700">
-                            <p className="mb-4 text-lg font-semibold">It appears your browser cannot preview PDFs directly.</p>
-                            <p className="mb-6">You can download the file to view it instead.</p>
-                            <a
-                                href={url}
-                                download={filename}
-                                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200"
-                            >
-                                <DownloadIcon />
-                                <span>Download PDF</span>
-                            </a>
-                        </div>
-                    </object>
-                </div>
-            </div>
-        </div>
-    );
-};
+import PdfExportSettingsModal from './PdfExportSettingsModal';
+import LastSavedIndicator from './LastSavedIndicator';
+import PhotoDropZone from './PhotoDropZone';
+import SiteMapPanel from './SiteMapPanel';
+import { buildKeyMapEntry, type GeoPoint } from './siteMap';
+import { addGeoFilesToZip } from './geoExport';
+import { addPhotosToArchive, describeMissingPhotos, importPhotoArchive, isPhotoArchiveFile } from './photoArchive';
+import { describeReportData, findDuplicatePhotos, formatPhotoProvenance, importReportPhotos } from './photoProvenance';
+import JSZip from 'jszip';
+import type { HeaderBlock, ReportDocument } from './pdfLayout';
+import { DEFAULT_PDF_EXPORT_SETTINGS, formatFileSize, renderReportWithinBudget } from './pdfExport';
+import { buildPhotoEntries } from './pdfImages';
+import xterraLogo from '../assets/xterra-logo.jpg';
 
 const ImportProjectsModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
-    onImport: (selectedProjects: RecentProject[]) => void;
+    onImport: (selectedProjects: ProjectReport[]) => void;
     currentProjectTimestamp: number | null;
 }> = ({ isOpen, onClose, onImport, currentProjectTimestamp }) => {
-    const [allRecentProjects, setAllRecentProjects] = useState<RecentProject[]>([]);
+    const [allRecentProjects, setAllRecentProjects] = useState<ProjectReport[]>([]);
     const [selectedTimestamps, setSelectedTimestamps] = useState<Set<number>>(new Set());
 
     useEffect(() => {
         if (isOpen) {
-            const projects = (localStorage.getItem(RECENT_PROJECTS_KEY) ? JSON.parse(localStorage.getItem(RECENT_PROJECTS_KEY)!) : []) as RecentProject[];
-            const compatibleProjects = projects.filter(p =>
-                (p.type === 'photoLog' || p.type === 'dfrStandard' || p.type === 'dfrSaskpower') &&
-                p.timestamp !== currentProjectTimestamp
-            );
-            setAllRecentProjects(compatibleProjects);
+            getAllReports().then(reports => {
+                const compatibleProjects = reports.filter(p =>
+                    (p.type === 'photoLog' || p.type === 'dfrStandard' || p.type === 'dfrSaskpower') &&
+                    p.timestamp !== currentProjectTimestamp
+                );
+                setAllRecentProjects(compatibleProjects);
+            });
             setSelectedTimestamps(new Set());
         }
     }, [isOpen, currentProjectTimestamp]);
@@ -288,9 +131,11 @@ const ImportProjectsModal: React.FC<{
 interface CombinedLogProps {
   onBack: () => void;
   initialData?: any;
+  /** A search match to scroll to once the report has loaded. */
+  focusTarget?: SearchTarget;
 }
 
-const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
+const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData, focusTarget }) => {
     const [headerData, setHeaderData] = useState<HeaderData>({
         proponent: '',
         projectName: '',
@@ -300,55 +145,63 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
     });
 
     const [photosData, setPhotosData] = useState<PhotoData[]>([]);
+    const [exportSettings, setExportSettings] = useState<PdfExportSettings>(DEFAULT_PDF_EXPORT_SETTINGS);
     const [projectTimestamp, setProjectTimestamp] = useState<number | null>(null);
     
     const [errors, setErrors] = useState(new Set<string>());
     const [showUnsupportedFileModal, setShowUnsupportedFileModal] = useState<boolean>(false);
     const [showValidationErrorModal, setShowValidationErrorModal] = useState<boolean>(false);
-    const [showNoInternetModal, setShowNoInternetModal] = useState<boolean>(false);
     const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
+    const [editingPhotoId, setEditingPhotoId] = useState<number | null>(null);
     const [pdfPreview, setPdfPreview] = useState<{ url: string; filename: string } | null>(null);
+    const [showExportSettings, setShowExportSettings] = useState(false);
     const [showStatusModal, setShowStatusModal] = useState(false);
     const [statusMessage, setStatusMessage] = useState('');
+    const [statusProgress, setStatusProgress] = useState<number | undefined>(undefined);
     const [isImportModalOpen, setIsImportModalOpen] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
     const isDownloadingRef = useRef(false);
 
-    const parseAndLoadProject = async (fileContent: string) => {
+    useSearchTargetFocus(focusTarget);
+
+    const draftData = useMemo(() => ({ headerData, photosData, exportSettings }), [headerData, photosData, exportSettings]);
+    const { lastSavedAt, markSaved: markDraftSaved } = useDraftAutosave('combinedLog', initialData, {
+        name: headerData.projectName || 'Untitled Combined Log',
+        projectNumber: headerData.projectNumber,
+        projectData: draftData,
+    });
+
+    const parseAndLoadProject = async (fileData: Uint8Array) => {
         try {
-            const projectData = JSON.parse(fileContent);
-            const { headerData: loadedHeader, photosData: loadedPhotos } = projectData;
+            const { project } = migrateProject('combinedLog', await readProjectFile(fileData));
+            const { headerData: loadedHeader, photosData: loadedPhotos } = project;
 
             if (loadedHeader && loadedPhotos && Array.isArray(loadedPhotos)) {
+                const loadedExportSettings = project.exportSettings || DEFAULT_PDF_EXPORT_SETTINGS;
                 setHeaderData(loadedHeader);
+                setExportSettings(loadedExportSettings);
 
-                const hydratedPhotos = await Promise.all(
-                    loadedPhotos.map(async (photo: PhotoData) => {
-                        if (photo.imageId && !photo.imageUrl) {
-                            const imageUrl = await retrieveImage(photo.imageId);
-                            return { ...photo, imageUrl: imageUrl || null };
-                        }
-                        return photo;
-                    })
-                );
+                const hydratedPhotos = await loadPhotoThumbnails(loadedPhotos);
                 setPhotosData(hydratedPhotos);
 
                 const formattedDate = formatDateForRecentProject(loadedHeader.date);
                 const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
                 const projectName = `${loadedHeader.projectName || 'Untitled Combined Log'}${dateSuffix}`;
 
-                const stateForRecent = await prepareStateForRecentProjectStorage(loadedHeader, hydratedPhotos);
-                const newTimestamp = await addRecentProject(stateForRecent, {
+                const stateForRecent = await prepareStateForRecentProjectStorage(loadedHeader, hydratedPhotos, loadedExportSettings);
+                const newTimestamp = await saveReportToRegistry(stateForRecent, {
                     type: 'combinedLog',
                     name: projectName,
                     projectNumber: loadedHeader.projectNumber,
                 });
+                markDraftSaved();
                 setProjectTimestamp(newTimestamp);
             } else {
                 alert('Invalid project file format.');
             }
         } catch (err) {
-            alert('Error parsing project file. Ensure it is a valid JSON file.');
+            alert(describeProjectFileError(err));
             console.error(err);
         }
     };
@@ -357,26 +210,25 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
     useEffect(() => {
         const loadInitialData = async () => {
             if (initialData) {
-                setHeaderData(initialData.headerData || { proponent: '', projectName: '', location: '', date: '', projectNumber: '' });
-
-                if (initialData.photosData && Array.isArray(initialData.photosData)) {
-                    const hydratedPhotos = await Promise.all(
-                        initialData.photosData.map(async (photo: PhotoData) => {
-                            if (photo.imageId && !photo.imageUrl) {
-                                const imageUrl = await retrieveImage(photo.imageId);
-                                return { ...photo, imageUrl: imageUrl || null };
-                            }
-                            return photo;
-                        })
-                    );
+                const { project } = migrateProject('combinedLog', initialData);
+                setHeaderData(project.headerData || { proponent: '', projectName: '', location: '', date: '', projectNumber: '' });
+                setExportSettings(project.exportSettings || DEFAULT_PDF_EXPORT_SETTINGS);
+
+                if (project.photosData && Array.isArray(project.photosData)) {
+                    const hydratedPhotos = await loadPhotoThumbnails(project.photosData);
                     setPhotosData(hydratedPhotos);
                 } else {
-                    setPhotosData(initialData.photosData || []);
+                    setPhotosData([]);
                 }
 
                 if (initialData.timestamp) {
                     setProjectTimestamp(initialData.timestamp);
                 }
+                // Only a stored project has a timestamp. A restored draft is still unsaved, and so is a
+                // new report built from a template, the project defaults or another report.
+                if (!initialData.draftId && typeof initialData.timestamp === 'number') {
+                    markDraftSaved(initialData.timestamp);
+                }
             }
         };
         loadInitialData();
@@ -389,50 +241,20 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
     const handlePhotoDataChange = (id: number, field: keyof Omit<PhotoData, 'id' | 'imageUrl' | 'imageId'>, value: string) => {
         setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, [field]: value } : photo));
     };
-    
-    const autoCropImage = (imageUrl: string): Promise<string> => {
-        return new Promise((resolve) => {
-            const img = new Image();
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    resolve(imageUrl);
-                    return;
-                }
-    
-                const targetAspectRatio = 4 / 3;
-                const originalAspectRatio = img.width / img.height;
-    
-                const canvasWidth = 1024;
-                const canvasHeight = 768;
-    
-                canvas.width = canvasWidth;
-                canvas.height = canvasHeight;
-    
-                ctx.fillStyle = 'white';
-                ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-                let drawWidth, drawHeight, drawX, drawY;
-    
-                if (originalAspectRatio > targetAspectRatio) {
-                    drawWidth = canvas.width;
-                    drawHeight = drawWidth / originalAspectRatio;
-                    drawX = 0;
-                    drawY = (canvas.height - drawHeight) / 2;
-                } else {
-                    drawHeight = canvas.height;
-                    drawWidth = drawHeight * originalAspectRatio;
-                    drawY = 0;
-                    drawX = (canvas.width - drawWidth) / 2;
-                }
-    
-                ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
-    
-                resolve(canvas.toDataURL('image/jpeg'));
-            };
-            img.src = imageUrl;
-        });
+
+    const handlePhotoCoordinatesChange = (id: number, point: GeoPoint | null) => {
+        setPhotosData(prev => prev.map(photo => photo.id === id
+            ? { ...photo, latitude: point?.latitude, longitude: point?.longitude }
+            : photo));
+    };
+
+    const handleMapPhotoClick = (id: number) => {
+        const photo = photosData.find(p => p.id === id);
+        if (photo?.imageUrl) {
+            setEnlargedImageUrl(photo.imageUrl);
+        } else {
+            document.getElementById(getSearchTargetElementId({ kind: 'photo', id }))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
     };
     
     const handleImageChange = (id: number, file: File) => {
@@ -447,16 +269,77 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
             const dataUrl = e.target?.result as string;
             const img = new Image();
             img.onload = async () => {
+                 const sourceImageId = await storeOriginalImage(dataUrl);
                  const finalImageUrl = await autoCropImage(dataUrl);
-                 setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: finalImageUrl } : photo));
+                 const exif = readExif(await file.arrayBuffer());
+                 setPhotosData(prev => prev.map(photo => photo.id === id ? { ...applyExifToPhoto(photo, exif), imageUrl: finalImageUrl, sourceImageId } : photo));
             };
             img.src = dataUrl;
         };
         reader.readAsDataURL(file);
     };
 
-    const renumberPhotos = (photos: PhotoData[]) => {
-        return photos.map((photo, index) => ({ ...photo, photoNumber: String(index + 1) }));
+    const handlePhotoFilesDropped = async (files: File[]) => {
+        const imageFiles = files.filter(isSupportedImageFile);
+        const archiveFiles = files.filter(isPhotoArchiveFile);
+        if (imageFiles.length === 0 && archiveFiles.length === 0) {
+            setShowUnsupportedFileModal(true);
+            return;
+        }
+
+        setStatusMessage(imageFiles.length > 0 ? `Importing ${imageFiles.length} photo(s)...` : 'Reading photo archive...');
+        setStatusProgress(0);
+        setShowStatusModal(true);
+        try {
+            const onProgress = (done: number, total: number) => {
+                setStatusMessage(`Importing photo ${Math.min(done + 1, total)} of ${total}...`);
+                setStatusProgress(done / total);
+            };
+            const imported = imageFiles.length > 0 ? await importPhotoFiles(imageFiles, autoCropImage, onProgress) : [];
+            for (const archive of archiveFiles) {
+                try {
+                    imported.push(...await importPhotoArchive(archive, autoCropImage, onProgress));
+                } catch (e) {
+                    console.error(`Failed to import photos from ${archive.name}:`, e);
+                    alert(e instanceof Error ? e.message : `Could not import photos from ${archive.name}.`);
+                }
+            }
+            setPhotosData(prev => {
+                let nextId = prev.length > 0 ? Math.max(...prev.map(p => p.id)) + 1 : 1;
+                const newPhotos = imported.map(({ imageUrl, sourceImageId, exif, details }) => {
+                    const newPhoto: PhotoData = {
+                        id: nextId++,
+                        photoNumber: '', // Will be re-assigned by renumberPhotos
+                        date: '',
+                        location: '',
+                        description: '',
+                        imageUrl,
+                        sourceImageId,
+                        direction: '',
+                    };
+                    return { ...applyExifToPhoto(newPhoto, exif), ...details };
+                });
+                return renumberPhotos([...prev, ...newPhotos]);
+            });
+        } catch (e) {
+            console.error("Failed to import photos:", e);
+            alert("Some photos could not be imported. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+            setStatusProgress(undefined);
+        }
+    };
+
+    const handlePhotoArchiveSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) handlePhotoFilesDropped([file]);
+    };
+
+    const handleImageEdited = async (id: number, editedImageUrl: string, sourceImageId: string) => {
+        const finalImageUrl = await autoCropImage(editedImageUrl);
+        setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: finalImageUrl, sourceImageId } : photo));
+        setEditingPhotoId(null);
     };
 
     const addPhoto = (insertAtIndex?: number) => {
@@ -485,10 +368,8 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
 
     const removePhoto = (id: number) => {
         setPhotosData(prev => {
-            const photoToRemove = prev.find(p => p.id === id);
-            if (photoToRemove && photoToRemove.imageId) {
-                deleteImage(photoToRemove.imageId).catch(err => console.error("Failed to delete image from DB", err));
-            }
+            // The image stays stored: saved and archived versions may still use it. Deleting the
+            // report or the storage cleanup reclaims it once nothing references it.
             return renumberPhotos(prev.filter(photo => photo.id !== id));
         });
     };
@@ -529,364 +410,115 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
         return true;
     };
     
-    const prepareStateForRecentProjectStorage = async (headerData: HeaderData, photosData: PhotoData[]) => {
+    const prepareStateForRecentProjectStorage = async (headerData: HeaderData, photosData: PhotoData[], exportSettings: PdfExportSettings) => {
         const photosForStorage = await Promise.all(
             photosData.map(async (photo) => {
                 if (photo.imageUrl) {
-                    const imageId = photo.imageId || `${headerData.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
-                    await storeImage(imageId, photo.imageUrl);
+                    // A thumbnail means the stored image is unchanged. New and edited images get a fresh
+                    // id, so the image an earlier or archived version points at is never overwritten.
+                    const isStored = isStoredImageUrl(photo.imageUrl) && !!photo.imageId;
+                    const imageId = isStored ? photo.imageId! : `${headerData.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
+                    if (!isStored) await storeImage(imageId, photo.imageUrl);
                     const { imageUrl, ...rest } = photo;
                     return { ...rest, imageId };
                 }
                 return photo;
             })
         );
-        return { headerData, photosData: photosForStorage };
+        return { headerData, photosData: photosForStorage, exportSettings };
     };
 
-    const handleSavePdf = async () => {
-        if (!navigator.onLine) {
-            setShowNoInternetModal(true);
-            return;
-        }
+    const buildReportDocument = async (): Promise<ReportDocument> => {
+        const header: HeaderBlock = {
+            title: 'PHOTOGRAPHIC LOG',
+            columns: [
+                [
+                    { label: 'Proponent', value: headerData.proponent },
+                    { label: 'Location', value: headerData.location },
+                ],
+                [
+                    { label: 'Date', value: headerData.date },
+                    { label: 'Project', value: headerData.projectNumber },
+                ],
+            ],
+            fullWidth: [{ label: 'Project Name', value: headerData.projectName }],
+        };
+        const photos = await buildPhotoEntries(photosData, photo => [
+            { label: 'Photo', value: photo.photoNumber },
+            { label: 'Date', value: photo.date },
+            { label: 'Location', value: photo.location },
+            ...(exportSettings.includePhotoSources && photo.provenance ? [{ label: 'Source', value: formatPhotoProvenance(photo.provenance) }] : []),
+        ]);
+        const keyMap = exportSettings.includeKeyMap ? await buildKeyMapEntry(headerData.projectNumber, photosData) : null;
+        return { layout: 'photoLog', logo: xterraLogo, photoHeader: header, photos, maps: keyMap ? [keyMap] : [] };
+    };
+
+    const handleSavePdf = () => {
         if (!validateForm()) return;
-        
-        const stateForRecentProjects = await prepareStateForRecentProjectStorage(headerData, photosData);
+        setShowExportSettings(true);
+    };
+
+    const handleGeneratePdf = async () => {
+        setShowExportSettings(false);
+
+        const stateForRecentProjects = await prepareStateForRecentProjectStorage(headerData, photosData, exportSettings);
         const formattedDate = formatDateForRecentProject(headerData.date);
         const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
         const projectName = `${headerData.projectName || 'Untitled Combined Log'}${dateSuffix}`;
 
-        const newTimestamp = await addRecentProject(stateForRecentProjects, {
+        const newTimestamp = await saveReportToRegistry(stateForRecentProjects, {
             type: 'combinedLog',
             name: projectName,
             projectNumber: headerData.projectNumber,
         });
+        markDraftSaved();
         setProjectTimestamp(newTimestamp);
-    
-        try {
-            const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'letter' });
-            const pageWidth = doc.internal.pageSize.getWidth();
-            const pageHeight = doc.internal.pageSize.getHeight();
-            const margin = 10;
-            const contentWidth = pageWidth - margin * 2;
-    
-            const drawHeader = (docInstance: any) => {
-                const headerStartY = margin;
-                
-                const logoUrl = "https://ik.imagekit.io/fzpijprte/XTerraLogo2019_Horizontal.jpg?updatedAt=1758827714962";
-                docInstance.addImage(logoUrl, 'JPEG', margin, headerStartY, 40, 10);
-                
-                docInstance.setFontSize(18);
-                docInstance.setFont('times', 'bold');
-                docInstance.setTextColor(0, 125, 140);
-                docInstance.text('PHOTOGRAPHIC LOG', pageWidth / 2, headerStartY + 7, { align: 'center' });
-                
-                docInstance.setTextColor(0, 0, 0);
-                
-                const firstLineY = headerStartY + 18;
-                docInstance.setLineWidth(0.5);
-                docInstance.setDrawColor(0, 125, 140);
-                docInstance.line(margin, firstLineY, pageWidth - margin, firstLineY);
-                
-                const col1X = margin;
-                const col2X = pageWidth * 0.55;
-                const col1MaxWidth = col2X - col1X - 5;
-                const col2MaxWidth = pageWidth - margin - col2X;
-                const fieldGap = 2;
-                
-                const drawFieldAndGetHeight = (label: string, value: string, x: number, y: number, maxWidth: number): number => {
-                    const valueOrDefault = value || ' '; 
-                    const labelText = `${label}:`;
-                    
-                    docInstance.setFontSize(13);
-                    docInstance.setFont('times', 'bold');
-                    const labelWidth = docInstance.getTextWidth(labelText);
-                    const labelHeight = docInstance.getTextDimensions(labelText).h;
-                    docInstance.text(labelText, x, y);
-                    
-                    docInstance.setFontSize(12);
-                    docInstance.setFont('times', 'normal');
-            
-                    const valueX = x + labelWidth + 1;
-                    const valueMaxWidth = maxWidth - labelWidth - 1;
-            
-                    const valueLines = docInstance.splitTextToSize(valueOrDefault, valueMaxWidth);
-                    const valueHeight = docInstance.getTextDimensions(valueLines).h;
-                    
-                    docInstance.text(valueLines, valueX, y);
-            
-                    return Math.max(labelHeight, valueHeight);
-                };
-                
-                const topPadding = 5;
-                let yPos = firstLineY + topPadding;
-            
-                const proponentHeight = drawFieldAndGetHeight('Proponent', headerData.proponent, col1X, yPos, col1MaxWidth);
-                const dateHeight = drawFieldAndGetHeight('Date', headerData.date, col2X, yPos, col2MaxWidth);
-                yPos += Math.max(proponentHeight, dateHeight) + fieldGap;
-            
-                const locationHeight = drawFieldAndGetHeight('Location', headerData.location, col1X, yPos, col1MaxWidth);
-                const projectNumHeight = drawFieldAndGetHeight('Project', headerData.projectNumber, col2X, yPos, col2MaxWidth);
-                yPos += Math.max(locationHeight, projectNumHeight) + fieldGap;
-                
-                const projectNameHeight = drawFieldAndGetHeight('Project Name', headerData.projectName, col1X, yPos, contentWidth);
-                yPos += projectNameHeight;
-            
-                const contentEndY = yPos;
-                const bottomPadding = 2;
-                const secondLineY = contentEndY + bottomPadding;
-            
-                docInstance.setLineWidth(0.5);
-                docInstance.setDrawColor(0, 125, 140);
-                docInstance.line(margin, secondLineY, pageWidth - margin, secondLineY);
-                
-                return secondLineY; 
-            };
-    
-            const footerHeight = 15;
-            const maxYPos = pageHeight - footerHeight;
-
-            const drawFooterLine = (docInstance: any) => {
-                const lineY = pageHeight - 12;
-                docInstance.setLineWidth(0.5);
-                docInstance.setDrawColor(0, 125, 140);
-                docInstance.line(margin, lineY, pageWidth - margin, lineY);
-            };
-
-            const calculateEntryHeight = async (docInstance: any, photo: PhotoData) => {
-                const tempDoc = new jsPDF({ format: 'letter', unit: 'mm' });
-                const gap = 5;
-                const availableWidth = contentWidth - gap;
-                const textBlockWidth = availableWidth * 0.40;
-                const imageBlockWidth = availableWidth * 0.60;
-                
-                let totalTextHeight = 0;
-                
-                const measureFieldHeight = (label: string, value: string, isDesc = false) => {
-                    if (isDesc) {
-                         tempDoc.setFontSize(13);
-                         let height = tempDoc.getTextDimensions(label + ':', { maxWidth: textBlockWidth }).h + 2;
-                         
-                         tempDoc.setFontSize(12);
-                         const valueLines = tempDoc.splitTextToSize(value || ' ', textBlockWidth);
-                         height += tempDoc.getTextDimensions(valueLines).h;
-                         return height;
-                    }
-                    
-                    const labelText = `${label}:`;
-                    tempDoc.setFontSize(13);
-                    const labelWidth = tempDoc.getTextWidth(labelText);
-                    const labelHeight = tempDoc.getTextDimensions(labelText).h;
-                    
-                    tempDoc.setFontSize(12);
-                    const valueMaxWidth = textBlockWidth - labelWidth - 1;
-                    const valueLines = tempDoc.splitTextToSize(value || ' ', valueMaxWidth);
-                    const valueHeight = tempDoc.getTextDimensions(valueLines).h;
-                    
-                    return Math.max(labelHeight, valueHeight) + 2;
-                };
-
-                totalTextHeight += measureFieldHeight('Photo', photo.photoNumber);
-                totalTextHeight += measureFieldHeight('Date', photo.date);
-                totalTextHeight += measureFieldHeight('Location', photo.location);
-                totalTextHeight += measureFieldHeight('Description', photo.description, true);
-
-                let scaledHeight = 0;
-                if (photo.imageUrl) {
-                    const { width, height } = await getImageDimensions(photo.imageUrl);
-                    scaledHeight = height * (imageBlockWidth / width);
-                }
-                
-                return Math.max(totalTextHeight, scaledHeight);
-            };
-
-            const drawPhotoEntry = async (docInstance: any, photo: PhotoData, yStart: number) => {
-                const gap = 5;
-                const availableWidth = contentWidth - gap;
-                const textBlockWidth = availableWidth * 0.40;
-                const imageBlockWidth = availableWidth * 0.60;
-                const imageX = margin + textBlockWidth + gap;
-
-                let textY = yStart;
-                
-                const drawTextField = (label: string, value: string, isDesc = false) => {
-                    const valueOrDefault = value || ' ';
-                    if (isDesc) {
-                        docInstance.setFontSize(13); // Label size
-                        docInstance.setFont('times', 'bold');
-                        docInstance.text(`${label}:`, margin, textY);
-                        textY += docInstance.getTextDimensions(`${label}:`, { maxWidth: textBlockWidth }).h + 2;
-                        
-                        docInstance.setFontSize(12); // Value size
-                        docInstance.setFont('times', 'normal');
-                        const dims = docInstance.getTextDimensions(valueOrDefault, { maxWidth: textBlockWidth });
-                        docInstance.text(valueOrDefault, margin, textY, { maxWidth: textBlockWidth });
-                        textY += dims.h;
-                        return;
-                    }
-                    
-                    const labelText = `${label}:`;
-                    docInstance.setFontSize(13);
-                    docInstance.setFont('times', 'bold');
-                    const labelWidth = docInstance.getTextWidth(labelText);
-                    const labelHeight = docInstance.getTextDimensions(labelText).h;
-                    docInstance.text(labelText, margin, textY);
-                    docInstance.setFontSize(12);
-                    docInstance.setFont('times', 'normal');
-                    const valueX = margin + labelWidth + 1;
-                    const valueMaxWidth = textBlockWidth - labelWidth - 1;
-                    const valueLines = docInstance.splitTextToSize(valueOrDefault, valueMaxWidth);
-                    const valueHeight = docInstance.getTextDimensions(valueLines).h;
-                    docInstance.text(valueLines, valueX, textY);
-                    textY += Math.max(labelHeight, valueHeight) + 2;
-                };
-
-                drawTextField('Photo', photo.photoNumber);
-                drawTextField('Date', photo.date);
-                drawTextField('Location', photo.location);
-                drawTextField('Description', photo.description, true);
-
-                const textBottom = textY;
-
-                let scaledHeight = 0;
-                let imageBottom = yStart;
-                if (photo.imageUrl) {
-                    const { width, height } = await getImageDimensions(photo.imageUrl);
-                    scaledHeight = height * (imageBlockWidth / width);
-                    docInstance.addImage(photo.imageUrl, 'JPEG', imageX, yStart, imageBlockWidth, scaledHeight);
-                    imageBottom = yStart + scaledHeight;
-                }
-
-                return Math.max(textBottom, imageBottom);
-            };
-            
-            const entryHeights = await Promise.all(
-                photosData.map(photo => calculateEntryHeight(doc, photo))
-            );
-
-            const pages: number[][] = [];
-            if (photosData.length > 0) {
-                const tempDoc = new jsPDF();
-                const yAfterHeader = drawHeader(tempDoc);
-                const pageContentHeight = maxYPos - yAfterHeader;
-                const separatorHeight = 10;
-
-                let currentPageGroup: number[] = [];
-                let currentHeight = 0;
-
-                photosData.forEach((_, i) => {
-                    const photoHeight = entryHeights[i];
-                    const spaceForSeparator = currentPageGroup.length > 0 ? separatorHeight : 0;
-                    const spaceNeeded = photoHeight + spaceForSeparator;
-
-                    if (currentPageGroup.length < 2 && currentHeight + spaceNeeded <= pageContentHeight) {
-                        currentPageGroup.push(i);
-                        currentHeight += spaceNeeded;
-                    } else {
-                        pages.push(currentPageGroup);
-                        currentPageGroup = [i];
-                        currentHeight = photoHeight;
-                    }
-                });
-                pages.push(currentPageGroup);
-            }
-            
-            for (let i = 0; i < pages.length; i++) {
-                const group = pages[i];
-                if (i > 0) {
-                    doc.addPage();
-                }
 
-                let yPos = drawHeader(doc);
-                const photosOnPage = group.map(i => photosData[i]);
-                const heightsOnPage = group.map(i => entryHeights[i]);
-                const numPhotosOnPage = photosOnPage.length;
-
-                if (numPhotosOnPage > 0) {
-                    const availableHeight = maxYPos - yPos;
-
-                    if (numPhotosOnPage === 1) {
-                        const photoHeight = heightsOnPage[0];
-                        const virtualTotalContentHeight = photoHeight * 2;
-                        const totalGapsHeight = availableHeight - virtualTotalContentHeight;
-                        const numGaps = 4;
-                        const gap = totalGapsHeight > 0 ? totalGapsHeight / numGaps : 2;
-
-                        yPos += gap;
-                        await drawPhotoEntry(doc, photosOnPage[0], yPos);
-                        yPos += photoHeight;
-                        
-                        yPos += gap;
-                        doc.setLineWidth(0.5);
-                        doc.setDrawColor(0, 125, 140);
-                        doc.line(margin, yPos, pageWidth - margin, yPos);
-                    } else {
-                        const totalContentHeight = heightsOnPage.reduce((sum, h) => sum + h, 0);
-                        const totalGapsHeight = availableHeight - totalContentHeight;
-                        const numGaps = numPhotosOnPage * 2;
-                        const gap = totalGapsHeight > 0 ? totalGapsHeight / numGaps : 2;
-
-                        yPos += gap; 
-
-                        for (let i = 0; i < numPhotosOnPage; i++) {
-                            const photo = photosOnPage[i];
-                            const photoHeight = heightsOnPage[i];
-                            await drawPhotoEntry(doc, photo, yPos);
-
-                            yPos += photoHeight;
-
-                            if (i < numPhotosOnPage - 1) {
-                                yPos += gap; 
-                                doc.setLineWidth(0.5);
-                                doc.setDrawColor(0, 125, 140);
-                                doc.line(margin, yPos, pageWidth - margin, yPos);
-                                yPos += gap; 
-                            }
-                        }
-                    }
-                }
-                
-                drawFooterLine(doc);
-            }
-            
-            const totalPages = doc.internal.getNumberOfPages();
-            for (let i = 1; i <= totalPages; i++) {
-                doc.setPage(i);
-                doc.setFontSize(10);
-                doc.setFont('times', 'normal');
-                doc.setTextColor(0, 0, 0);
-                doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin, pageHeight - 7, { align: 'right' });
+        setStatusMessage('Generating PDF...');
+        setShowStatusModal(true);
+        let oversizeWarning: string | null = null;
+        try {
+            const report = await renderReportWithinBudget(await buildReportDocument(), exportSettings, attempt => {
+                setStatusMessage(`Generating PDF (images at ${attempt.maxImageSize}px, ${Math.round(attempt.jpegQuality * 100)}% quality)...`);
+            });
+            if (!report.withinTarget) {
+                oversizeWarning = `The PDF is ${formatFileSize(report.sizeBytes)}, which is still over the ${exportSettings.targetSizeMb} MB target at the lowest image quality.`;
             }
 
             const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
             const filename = `${sanitize(headerData.projectNumber) || 'project'}_${sanitize(headerData.projectName) || 'combinedlog'}_Photolog.pdf`;
             
-            const pdfBlob = doc.output('blob');
+            const pdfBlob = report.doc.output('blob');
             const pdfUrl = URL.createObjectURL(pdfBlob);
             setPdfPreview({ url: pdfUrl, filename });
 
         } catch (error) {
             console.error("Failed to generate PDF:", error);
             alert("An unexpected error occurred while generating the PDF. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+        if (oversizeWarning) {
+            alert(oversizeWarning);
         }
     };
 
     const handleSaveProject = async () => {
-        const stateForRecentProjects = await prepareStateForRecentProjectStorage(headerData, photosData);
+        const stateForRecentProjects = await prepareStateForRecentProjectStorage(headerData, photosData, exportSettings);
         
         const formattedDate = formatDateForRecentProject(headerData.date);
         const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
         const projectName = `${headerData.projectName || 'Untitled Combined Log'}${dateSuffix}`;
 
-        const newTimestamp = await addRecentProject(stateForRecentProjects, {
+        const newTimestamp = await saveReportToRegistry(stateForRecentProjects, {
             type: 'combinedLog',
             name: projectName,
             projectNumber: headerData.projectNumber,
         });
+        markDraftSaved();
         setProjectTimestamp(newTimestamp);
         
-        const photosForExport = photosData.map(({ imageId, ...photo }) => photo);
-        const stateForFileExport = { headerData, photosData: photosForExport };
+        const projectPackage = await createProjectPackage(withSchemaVersion({ headerData, photosData, exportSettings }));
 
         const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
         const filename = `${sanitize(headerData.projectNumber) || 'project'}_${sanitize(headerData.projectName) || 'combinedlog'}_CombinedLog.clog`;
@@ -894,9 +526,9 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
         // @ts-ignore
         if (window.electronAPI) {
             // @ts-ignore
-            await window.electronAPI.saveProject(JSON.stringify(stateForFileExport), filename);
+            await window.electronAPI.saveProject(projectPackage, filename);
         } else {
-            const blob = new Blob([JSON.stringify(stateForFileExport)], { type: 'application/json;charset=utf-8;' });
+            const blob = new Blob([projectPackage], { type: 'application/zip' });
             const link = document.createElement('a');
             link.href = URL.createObjectURL(blob);
             link.setAttribute('download', filename);
@@ -911,6 +543,7 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
         if (isDownloadingRef.current) return;
         isDownloadingRef.current = true;
 
+        let missingPhotos: PhotoData[] = [];
         try {
             setStatusMessage('Checking for photos...');
             setShowStatusModal(true);
@@ -929,28 +562,10 @@ const CombinedLog: React.FC<CombinedLogProps> = ({ onBack, initialData }) => {
             await new Promise(resolve => setTimeout(resolve, 100));
 
             const zip = new JSZip();
-            let metadata = '';
-            const sanitizeFilename = (name: string) => name.replace(/[^a-z0-9_.\-]/gi, '_');
-
-            for (const photo of photosWithImages) {
-                const photoNumberSanitized = sanitizeFilename(photo.photoNumber);
-                const filename = `${photoNumberSanitized}.jpg`;
-
-                metadata += `---
-File: ${filename}
-Photo Number: ${photo.photoNumber}
-Date: ${photo.date || 'N/A'}
-Location: ${photo.location || 'N/A'}
-Direction: ${photo.direction || 'N/A'}
-Description: ${photo.description || 'N/A'}
----\n\n`;
-
-                const response = await fetch(photo.imageUrl!);
-                const blob = await response.blob();
-                zip.file(filename, blob);
-            }
-
-            zip.file('metadata.txt', metadata);
+            const formattedDate = formatDateForRecentProject(headerData.date);
+            const { files, missing } = await addPhotosToArchive(zip, photosWithImages, `${headerData.projectName || 'Untitled Combined Log'}${formattedDate ? ` - ${formattedDate}` : ''}`);
+            missingPhotos = missing;
+            addGeoFilesToZip(zip, [headerData.projectNumber, headerData.projectName].filter(Boolean).join(' ') || 'Photo locations', photosWithImages, files);
             
             setStatusMessage('Creating zip file...');
             await new Promise(resolve => setTimeout(resolve, 100));
@@ -978,40 +593,20 @@ Description: ${photo.description || 'N/A'}
             setShowStatusModal(false);
             isDownloadingRef.current = false;
         }
+        if (missingPhotos.length > 0) {
+            alert(describeMissingPhotos(missingPhotos));
+        }
     }, [photosData, headerData]);
 
-    const downloadHandlerRef = useRef(handleDownloadPhotos);
-    useEffect(() => {
-        downloadHandlerRef.current = handleDownloadPhotos;
-    }, [handleDownloadPhotos]);
-
-    const stableListener = useCallback(() => {
-        if (downloadHandlerRef.current) {
-            downloadHandlerRef.current();
-        }
-    }, []);
-
-    useEffect(() => {
-        const api = window.electronAPI;
-        if (api && api.onDownloadPhotos && api.removeAllDownloadPhotosListeners) {
-            api.removeAllDownloadPhotosListeners();
-            api.onDownloadPhotos(stableListener);
-        }
-        
-        return () => {
-            if (api && api.removeDownloadPhotosListener) {
-                api.removeDownloadPhotosListener(stableListener);
-            }
-        };
-    }, [stableListener]);
+    useDownloadPhotosCommand(handleDownloadPhotos);
 
     const handleOpenProject = async () => {
         // @ts-ignore
         if (window.electronAPI) {
             // @ts-ignore
-            const fileContent = await window.electronAPI.loadProject('clog');
-            if (fileContent) {
-                await parseAndLoadProject(fileContent);
+            const fileData = await window.electronAPI.loadProject('clog');
+            if (fileData) {
+                await parseAndLoadProject(fileData);
             }
         } else {
             fileInputRef.current?.click();
@@ -1022,40 +617,55 @@ Description: ${photo.description || 'N/A'}
         const file = event.target.files?.[0];
         if (!file) return;
 
-        const fileContent = await file.text();
-        await parseAndLoadProject(fileContent);
+        const fileData = new Uint8Array(await file.arrayBuffer());
+        await parseAndLoadProject(fileData);
 
         if (event.target) {
             event.target.value = '';
         }
     };
     
-    const importPhotosFromContent = (filesContent: string[]) => {
-        setStatusMessage(`Importing photos from ${filesContent.length} file(s)...`);
+    /**
+     * Adds imported photos to the log, offering to skip any whose image is already in it.
+     * Skipped photos' image records were created for the import, so they are deleted.
+     */
+    const addImportedPhotos = async (importedPhotos: PhotoData[]) => {
+        const duplicates = await findDuplicatePhotos(photosData, importedPhotos);
+        let photosToAdd = importedPhotos;
+        if (duplicates.size > 0 && window.confirm(`${duplicates.size} imported photo(s) are already in this log. Skip them?\n\nChoose Cancel to import them anyway.`)) {
+            photosToAdd = importedPhotos.filter(photo => !duplicates.has(photo.id));
+            for (const photo of importedPhotos.filter(p => duplicates.has(p.id))) {
+                if (photo.imageId) deleteImage(photo.imageId).catch(err => console.error("Failed to delete image from DB", err));
+                if (photo.sourceImageId) deleteImage(photo.sourceImageId).catch(err => console.error("Failed to delete original image from DB", err));
+            }
+        }
+        setPhotosData(prev => renumberPhotos([...prev, ...photosToAdd]));
+    };
+
+    const importPhotosFromContent = async (filesData: Uint8Array[]) => {
+        setStatusMessage(`Importing photos from ${filesData.length} file(s)...`);
         setShowStatusModal(true);
         
         let allImportedPhotos: PhotoData[] = [];
+        let missingImages = 0;
     
-        for (const content of filesContent) {
+        for (const fileData of filesData) {
             try {
-                const projectData = JSON.parse(content);
-                const photosToImport = projectData.photosData;
-    
-                if (photosToImport && Array.isArray(photosToImport)) {
-                    const newPhotos = photosToImport.map((photo: PhotoData) => ({
-                        ...photo,
-                        id: Date.now() + Math.random(),
-                        imageId: undefined, // Clear imageId to prevent conflicts
-                    }));
-                    allImportedPhotos.push(...newPhotos);
-                }
+                const projectData = await readProjectFile(fileData);
+                // Packages restore their images under fresh ids; ids inside legacy JSON may belong to another report or machine.
+                const imported = await importReportPhotos(projectData, describeReportData(projectData), isProjectPackage(fileData));
+                allImportedPhotos.push(...imported.photos);
+                missingImages += imported.missingImages;
             } catch (e) {
                 console.error("Could not parse one of the imported files.", e);
             }
         }
         
-        setPhotosData(prev => renumberPhotos([...prev, ...allImportedPhotos]));
         setShowStatusModal(false);
+        await addImportedPhotos(allImportedPhotos);
+        if (missingImages > 0) {
+            alert(`${missingImages} imported photo(s) have no image. Their files refer to images stored on another computer.`);
+        }
     }
 
     const handleImportFromFile = async () => {
@@ -1065,7 +675,7 @@ Description: ${photo.description || 'N/A'}
             // @ts-ignore
             const result = await window.electronAPI.loadMultipleProjects();
             if (result.success && result.data) {
-                importPhotosFromContent(result.data);
+                await importPhotosFromContent(result.data);
             } else if (result.error) {
                 alert(`Error loading files: ${result.error}`);
             }
@@ -1079,9 +689,9 @@ Description: ${photo.description || 'N/A'}
         const files = event.target.files;
         if (!files || files.length === 0) return;
     
-        const contentPromises = Array.from(files).map(file => file.text());
-        const filesContent = await Promise.all(contentPromises);
-        importPhotosFromContent(filesContent);
+        const contentPromises = Array.from(files).map(async file => new Uint8Array(await file.arrayBuffer()));
+        const filesData = await Promise.all(contentPromises);
+        await importPhotosFromContent(filesData);
     
         if (event.target) {
             event.target.value = ''; // Reset file input
@@ -1109,50 +719,66 @@ Description: ${photo.description || 'N/A'}
         return headerErrors;
     };
 
-    const handleImportFromRecent = async (projectsToImport: RecentProject[]) => {
+    const handleImportFromRecent = async (projectsToImport: ProjectReport[]) => {
         setStatusMessage(`Importing photos...`);
         setShowStatusModal(true);
     
         let importedPhotos: PhotoData[] = [];
+        let missingImages = 0;
     
         for (const project of projectsToImport) {
-            const projectData = await retrieveProject(project.timestamp);
-            if (projectData?.photosData) {
-                for (const photo of projectData.photosData) {
-                    let imageUrl = photo.imageUrl || null;
-                    if (photo.imageId && !imageUrl) {
-                        imageUrl = await retrieveImage(photo.imageId);
-                    }
-    
-                    importedPhotos.push({
-                        ...photo,
-                        id: Date.now() + Math.random(),
-                        imageUrl,
-                    });
-                }
+            try {
+                const projectData = await retrieveProject(project.timestamp);
+                const imported = await importReportPhotos(projectData, project.name || describeReportData(projectData));
+                importedPhotos.push(...imported.photos);
+                missingImages += imported.missingImages;
+            } catch (e) {
+                console.error(`Could not import the photos of report (${project.timestamp}).`, e);
             }
         }
     
-        setPhotosData(prev => {
-            const combined = [...prev, ...importedPhotos];
-            return renumberPhotos(combined);
-        });
-        
         setShowStatusModal(false);
+        await addImportedPhotos(importedPhotos);
+        if (missingImages > 0) {
+            alert(`${missingImages} imported photo(s) have no image. It may have been removed from the source report.`);
+        }
     };
 
+    const editingPhoto = photosData.find(p => p.id === editingPhotoId);
+    const enlargedPhoto = photosData.find(p => p.imageUrl === enlargedImageUrl);
+
     return (
-        <div className="bg-gray-100 min-h-screen">
+        <PhotoDropZone className="bg-gray-100 min-h-screen" onFilesDropped={handlePhotoFilesDropped}>
             {pdfPreview && <PdfPreviewModal url={pdfPreview.url} filename={pdfPreview.filename} onClose={() => setPdfPreview(null)} />}
-            {enlargedImageUrl && <ImageModal imageUrl={enlargedImageUrl} onClose={() => setEnlargedImageUrl(null)} />}
-            {showStatusModal && <ActionStatusModal message={statusMessage} />}
+            {enlargedImageUrl && <ImageModal imageUrl={enlargedImageUrl} imageId={enlargedPhoto?.imageId} onClose={() => setEnlargedImageUrl(null)} onEdit={enlargedPhoto ? () => { setEnlargedImageUrl(null); setEditingPhotoId(enlargedPhoto.id); } : undefined} />}
+            {showStatusModal && <ActionStatusModal message={statusMessage} progress={statusProgress} />}
+            {showExportSettings && (
+                <PdfExportSettingsModal
+                    settings={exportSettings}
+                    onSettingsChange={setExportSettings}
+                    buildReport={buildReportDocument}
+                    showPhotoSourcesOption
+                    onGenerate={handleGeneratePdf}
+                    onClose={() => setShowExportSettings(false)}
+                />
+            )}
+            {editingPhoto && (
+                <ImageEditor
+                    photo={editingPhoto}
+                    onSave={(imageUrl, sourceImageId) => handleImageEdited(editingPhoto.id, imageUrl, sourceImageId)}
+                    onClose={() => setEditingPhotoId(null)}
+                />
+            )}
             <ImportProjectsModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onImport={handleImportFromRecent} currentProjectTimestamp={projectTimestamp} />
             <SpecialCharacterPalette />
             <div className="max-w-7xl mx-auto p-4 md:p-8">
                 <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
-                    <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
-                        <ArrowLeftIcon /> <span>Home</span>
-                    </button>
+                    <div className="flex items-center gap-4">
+                        <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <ArrowLeftIcon /> <span>Home</span>
+                        </button>
+                        <LastSavedIndicator lastSavedAt={lastSavedAt} />
+                    </div>
                     <div className="flex flex-wrap justify-end gap-2">
                         <button onClick={handleOpenProject} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
                             <FolderOpenIcon /> <span>Open Project</span>
@@ -1180,10 +806,18 @@ Description: ${photo.description || 'N/A'}
                     </div>
                 </div>
                 <div className="main-content">
-                    <Header data={headerData} onDataChange={handleHeaderChange} errors={getHeaderErrors()} />
+                    <div id={getSearchTargetElementId({ kind: 'header' })}>
+                        <Header data={headerData} onDataChange={handleHeaderChange} errors={getHeaderErrors()} />
+                    </div>
+                    <SiteMapPanel
+                        projectNumber={headerData.projectNumber}
+                        photos={photosData}
+                        onPhotoClick={handleMapPhotoClick}
+                        onPhotoCoordinatesChange={handlePhotoCoordinatesChange}
+                    />
                     <div className="mt-8">
                         {photosData.map((photo, index) => (
-                           <div key={photo.id}>
+                           <div key={photo.id} id={getSearchTargetElementId({ kind: 'photo', id: photo.id })}>
                                 <PhotoEntry
                                     data={photo}
                                     onDataChange={(field, value) => handlePhotoDataChange(photo.id, field, value)}
@@ -1194,6 +828,7 @@ Description: ${photo.description || 'N/A'}
                                     isFirst={index === 0}
                                     isLast={index === photosData.length - 1}
                                     onImageClick={setEnlargedImageUrl}
+                                    onEditImage={() => setEditingPhotoId(photo.id)}
                                     errors={getPhotoErrors(photo.id)}
                                     showDirectionField={true}
                                 />
@@ -1218,7 +853,7 @@ Description: ${photo.description || 'N/A'}
                         ))}
                     </div>
                 </div>
-                <div className="mt-8 flex justify-center">
+                <div className="mt-8 flex justify-center gap-4">
                     <button
                         onClick={() => addPhoto()}
                         className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-3 px-6 rounded-lg shadow-md inline-flex items-center gap-2 transition duration-200 text-lg"
@@ -1226,6 +861,20 @@ Description: ${photo.description || 'N/A'}
                         <PlusIcon />
                         <span>Add Photo</span>
                     </button>
+                    <button
+                        onClick={() => archiveInputRef.current?.click()}
+                        className="bg-white hover:bg-gray-100 text-[#007D8C] font-bold py-3 px-6 rounded-lg border-2 border-[#007D8C] shadow-md inline-flex items-center gap-2 transition duration-200 text-lg"
+                        title="Add the photos from a Download Photos zip, with their captions"
+                    >
+                        <FolderOpenIcon /><span>Import Photos from ZIP</span>
+                    </button>
+                    <input
+                        type="file"
+                        ref={archiveInputRef}
+                        onChange={handlePhotoArchiveSelected}
+                        style={{ display: 'none' }}
+                        accept=".zip"
+                    />
                 </div>
                 {photosData.length > 0 && <div className="border-t-4 border-[#007D8C] my-8" />}
                 <footer className="text-center text-gray-500 text-sm py-4">
@@ -1244,8 +893,8 @@ Description: ${photo.description || 'N/A'}
                         </button>
                         <img src="https://ik.imagekit.io/fzpijprte/200.gif?updatedAt=1758919911063" alt="Unsupported file type animation" className="mx-auto mb-4 w-40 h-40" />
                         <h3 className="text-2xl font-bold mb-2 text-gray-800">Unsupported File Type</h3>
-                        <p className="text-gray-600">Please upload a supported image file.</p>
-                        <p className="text-sm text-gray-500 mt-3">Supported formats: <strong>JPG, PNG</strong></p>
+                        <p className="text-gray-600">Please upload a supported image file or photo ZIP.</p>
+                        <p className="text-sm text-gray-500 mt-3">Supported formats: <strong>JPG, PNG, ZIP</strong></p>
                     </div>
                 </div>
             )}
@@ -1266,18 +915,7 @@ Description: ${photo.description || 'N/A'}
                     </div>
                 </div>
             )}
-             {showNoInternetModal && (
-                <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
-                    <div className="bg-white p-8 rounded-lg shadow-2xl text-center relative max-w-md">
-                        <button onClick={() => setShowNoInternetModal(false)} className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700" aria-label="Close">
-                            <CloseIcon className="h-6 w-6" />
-                        </button>
-                        <h3 className="text-2xl font-bold mb-2 text-gray-800">No Internet Connection</h3>
-                        <p className="text-gray-600">An internet connection is required to save the PDF. Please connect to the internet and try again.</p>
-                    </div>
-                </div>
-            )}
-        </div>
+        </PhotoDropZone>
     );
 };
 
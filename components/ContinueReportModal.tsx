@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+import type { ProjectReport } from './projectRegistry';
+import { CONTINUABLE_SECTIONS, getDefaultContinuationSections, type ContinuableReportType } from './reportContinuation';
+
+interface ContinueReportModalProps {
+    report: ProjectReport & { type: ContinuableReportType };
+    onContinue: (sections: string[]) => void;
+    onClose: () => void;
+}
+
+const ContinueReportModal: React.FC<ContinueReportModalProps> = ({ report, onContinue, onClose }) => {
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(getDefaultContinuationSections(report.type)));
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const toggle = (field: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(field)) next.delete(field);
+            else next.add(field);
+            return next;
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-800">Continue as Today's Report</h2>
+                        <p className="text-sm text-gray-500 truncate">From {report.name || 'Untitled Project'}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <p className="text-sm text-gray-600">
+                        The report header is copied and dated today. Photos start empty. Choose which sections to carry over as a starting point:
+                    </p>
+                    <div className="space-y-2">
+                        {CONTINUABLE_SECTIONS[report.type].map(section => (
+                            <label key={section.field} className="flex items-center gap-2 text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(section.field)}
+                                    onChange={() => toggle(section.field)}
+                                    className="accent-[#007D8C]"
+                                />
+                                {section.label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t">
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                    <button onClick={() => onContinue([...selected])} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Start Report
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ContinueReportModal;
@@ -0,0 +1,974 @@
+import React, { useState, ReactElement, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { FormDefinition, FormDfrProject, FormFieldDefinition, LocationActivity, PhotoData, PdfExportSettings } from '../types';
+import { DownloadIcon, SaveIcon, FolderOpenIcon, ArrowLeftIcon, PlusIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon, CloseIcon, FolderArrowDownIcon, DocumentTextIcon } from './icons';
+import PhotoEntry from './PhotoEntry';
+import {
+    MigrationNotice,
+    PdfPreviewModal,
+    Section,
+    autoCropImage,
+    formatDateForFilename,
+    formatDateForRecentProject,
+    renumberPhotos,
+    useDownloadPhotosCommand,
+} from './editorShared';
+import { storeImage } from './db';
+import { isStoredImageUrl, loadPhotoThumbnails } from './photoImages';
+import { migrateProject, withSchemaVersion } from './migrations';
+import { applyExifToPhoto, readExif } from './exif';
+import { importPhotoFiles, isSupportedImageFile } from './photoImport';
+import { storeOriginalImage } from './imageEdits';
+import { saveReportToRegistry } from './projectRegistry';
+import { useDraftAutosave, type DraftSessionFields } from './drafts';
+import { getSearchTargetElementId, useSearchTargetFocus, type SearchTarget } from './searchIndex';
+import { createProjectPackage, describeProjectFileError, readProjectFile } from './projectPackage';
+import {
+    DFR_STANDARD_FORM,
+    FORM_REPORT_FILE_EXTENSION,
+    buildFormBody,
+    buildFormHeaders,
+    createFormValues,
+    validateFormValues,
+    type FormValidationIssue,
+} from './formDefinitions';
+import { SpecialCharacterPalette } from './SpecialCharacterPalette';
+import BulletPointEditor from './BulletPointEditor';
+import ImageModal from './ImageModal';
+import ImageEditor from './ImageEditor';
+import ActionStatusModal from './ActionStatusModal';
+import PdfExportSettingsModal from './PdfExportSettingsModal';
+import LastSavedIndicator from './LastSavedIndicator';
+import PhotoDropZone from './PhotoDropZone';
+import SiteMapPanel from './SiteMapPanel';
+import { buildKeyMapEntry, type GeoPoint } from './siteMap';
+import { addGeoFilesToZip } from './geoExport';
+import { addPhotosToArchive, describeMissingPhotos, importPhotoArchive, isPhotoArchiveFile } from './photoArchive';
+import JSZip from 'jszip';
+import type { ReportDocument } from './pdfLayout';
+import { DEFAULT_PDF_EXPORT_SETTINGS, formatFileSize, renderReportWithinBudget } from './pdfExport';
+import { renderReportDocx } from './docxReport';
+import { buildPhotoEntries, dfrPhotoFields } from './pdfImages';
+import xterraLogo from '../assets/xterra-logo.jpg';
+
+// --- UI Components ---
+const FormField: React.FC<{ field: FormFieldDefinition; value: string; onChange: (value: string) => void; isInvalid?: boolean; }> = ({ field, value, onChange, isInvalid = false }) => {
+    const commonClasses = `block w-full p-2 border rounded-md shadow-sm focus:ring-2 focus:ring-[#007D8C] focus:border-[#007D8C] transition ${isInvalid ? 'border-red-500' : 'border-gray-300'}`;
+    const inputId = `form-field-${field.key}`;
+
+    return (
+        <div>
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+            {field.kind === 'select' ? (
+                <select id={inputId} value={value} onChange={(e) => onChange(e.target.value)} className={commonClasses}>
+                    {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            ) : field.kind === 'textarea' ? (
+                <textarea
+                    id={inputId}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    rows={2}
+                    className={commonClasses}
+                    placeholder={field.placeholder}
+                    spellCheck={true}
+                />
+            ) : (
+                <input
+                    id={inputId}
+                    type="text"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className={commonClasses}
+                    placeholder={field.placeholder}
+                    spellCheck={true}
+                />
+            )}
+        </div>
+    );
+};
+
+const ChecklistRow: React.FC<{ name: string; label: string; options: string[]; value: string; onChange: (value: string) => void; isInvalid?: boolean; }> = ({ name, label, options, value, onChange, isInvalid = false }) => (
+    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between py-2 border-b border-gray-200 last:border-b-0">
+        <span className={`font-medium mb-2 sm:mb-0 ${isInvalid ? 'text-red-600' : 'text-gray-800'}`}>{label}</span>
+        <div className="flex items-center space-x-6">
+            {options.map(option => (
+                <label key={option} className="flex items-center space-x-2 cursor-pointer text-gray-600">
+                    <input
+                        type="radio"
+                        name={name}
+                        value={option}
+                        checked={value === option}
+                        onChange={() => onChange(option)}
+                        className="h-5 w-5 text-[#007D8C] border-gray-300 focus:ring-[#006b7a]"
+                    />
+                    <span>{option}</span>
+                </label>
+            ))}
+        </div>
+    </div>
+);
+
+const LocationBlockEntry: React.FC<{
+    data: LocationActivity;
+    onDataChange: (id: number, field: keyof Omit<LocationActivity, 'id'>, value: string) => void;
+    onRemove: (id: number) => void;
+    onMove: (id: number, direction: 'up' | 'down') => void;
+    isFirst: boolean;
+    isLast: boolean;
+    id?: string;
+}> = ({ data, onDataChange, onRemove, onMove, isFirst, isLast, id }) => (
+    <div id={id} className="p-4 border border-gray-200 rounded-md">
+        <div className="flex justify-between items-center mb-2">
+            <h3 className="font-bold text-gray-600">Location Specific Activity</h3>
+            <div className="flex items-center space-x-2">
+                <button onClick={() => onMove(data.id, 'up')} disabled={isFirst} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition duration-200" aria-label="Move Up">
+                    <ArrowUpIcon className="h-6 w-6" />
+                </button>
+                <button onClick={() => onMove(data.id, 'down')} disabled={isLast} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed transition duration-200" aria-label="Move Down">
+                    <ArrowDownIcon className="h-6 w-6" />
+                </button>
+                <button onClick={() => onRemove(data.id)} className="p-1 text-red-500 hover:text-red-700 transition duration-200" aria-label="Remove Location Activity">
+                    <TrashIcon className="h-6 w-6" />
+                </button>
+            </div>
+        </div>
+        <div className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <input
+                    type="text"
+                    value={data.location || ''}
+                    onChange={(e) => onDataChange(data.id, 'location', e.target.value)}
+                    className="block w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-[#007D8C] focus:border-[#007D8C] transition"
+                    spellCheck={true}
+                />
+            </div>
+            <BulletPointEditor label="Activities (detailed description with timestamps)" value={data.activities} onChange={v => onDataChange(data.id, 'activities', v)} rows={8} />
+        </div>
+    </div>
+);
+
+// --- Main Component ---
+interface DfrFormProps {
+    onBack: () => void;
+    /** A FormDfrProject; its embedded form definition decides what the editor shows. */
+    initialData?: any;
+    /** A search match to scroll to once the report has loaded. */
+    focusTarget?: SearchTarget;
+}
+
+const DfrForm = ({ onBack, initialData, focusTarget }: DfrFormProps): ReactElement => {
+    const [form, setForm] = useState<FormDefinition>(() => initialData?.form || DFR_STANDARD_FORM);
+    const [values, setValues] = useState<Record<string, string>>(() => createFormValues(initialData?.form || DFR_STANDARD_FORM));
+    const [locationActivities, setLocationActivities] = useState<LocationActivity[]>([]);
+    const [photosData, setPhotosData] = useState<PhotoData[]>([]);
+    const [exportSettings, setExportSettings] = useState<PdfExportSettings>(DEFAULT_PDF_EXPORT_SETTINGS);
+    const [errors, setErrors] = useState(new Set<string>());
+    const [validationIssues, setValidationIssues] = useState<FormValidationIssue[]>([]);
+    const [showValidationErrorModal, setShowValidationErrorModal] = useState(false);
+    const [showUnsupportedFileModal, setShowUnsupportedFileModal] = useState<boolean>(false);
+    const [showMigrationNotice, setShowMigrationNotice] = useState(false);
+    const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
+    const [editingPhotoId, setEditingPhotoId] = useState<number | null>(null);
+    const [pdfPreview, setPdfPreview] = useState<{ url: string; filename: string } | null>(null);
+    const [showExportSettings, setShowExportSettings] = useState(false);
+    const [showStatusModal, setShowStatusModal] = useState(false);
+    const [statusMessage, setStatusMessage] = useState('');
+    const [statusProgress, setStatusProgress] = useState<number | undefined>(undefined);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+    const isDownloadingRef = useRef(false);
+
+    useSearchTargetFocus(focusTarget);
+
+    const reportName = (formToName: FormDefinition, valuesToName: Record<string, string>) => {
+        const formattedDate = formatDateForRecentProject(valuesToName.date);
+        const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
+        return `${valuesToName.projectName || 'Untitled'} (${formToName.name})${dateSuffix}`;
+    };
+
+    const draftData = useMemo(() => ({ form, values, locationActivities, photosData, exportSettings }), [form, values, locationActivities, photosData, exportSettings]);
+    const { lastSavedAt, markSaved: markDraftSaved } = useDraftAutosave('dfrForm', initialData, {
+        name: reportName(form, values),
+        projectNumber: values.projectNumber || '',
+        projectData: draftData,
+    });
+
+    const processLoadedData = async (projectData: any) => {
+        const { project, migrated } = migrateProject('dfrForm', projectData);
+        const { form: loadedForm, values: loadedValues, locationActivities: loadedActivities, photosData: loadedPhotos, exportSettings: loadedExportSettings } = project as FormDfrProject & DraftSessionFields;
+        // Fields added to the definition since the report was written start at their defaults.
+        const finalValues = { ...createFormValues(loadedForm), ...loadedValues };
+        const finalExportSettings = loadedExportSettings || DEFAULT_PDF_EXPORT_SETTINGS;
+
+        setForm(loadedForm);
+        setValues(finalValues);
+        setLocationActivities(loadedActivities);
+        setExportSettings(finalExportSettings);
+        setErrors(new Set());
+
+        if (migrated) {
+            setShowMigrationNotice(true);
+        }
+
+        const hydratedPhotos = await loadPhotoThumbnails(loadedPhotos);
+        setPhotosData(hydratedPhotos);
+
+        return { finalForm: loadedForm, finalValues, finalActivities: loadedActivities, finalPhotos: hydratedPhotos, finalExportSettings };
+    };
+
+    const parseAndLoadProject = async (fileData: Uint8Array) => {
+        try {
+            const projectData = await readProjectFile(fileData);
+            const { finalForm, finalValues, finalActivities, finalPhotos, finalExportSettings } = await processLoadedData(projectData);
+
+            const stateForRecent = await prepareStateForRecentProjectStorage(finalForm, finalValues, finalActivities, finalPhotos, finalExportSettings);
+            await saveReportToRegistry(stateForRecent, { type: 'dfrForm', name: reportName(finalForm, finalValues), projectNumber: finalValues.projectNumber || '' });
+            markDraftSaved();
+        } catch (err) {
+            alert(describeProjectFileError(err));
+            console.error(err);
+        }
+    }
+
+    useEffect(() => {
+        const loadInitialData = async () => {
+            if (initialData) {
+                await processLoadedData(initialData);
+                // Only a stored project has a timestamp. A restored draft is still unsaved, and so is a
+                // new report built from a template, the project defaults or another report.
+                if (!initialData.draftId && typeof initialData.timestamp === 'number') {
+                    markDraftSaved(initialData.timestamp);
+                }
+            }
+        };
+        loadInitialData();
+    }, [initialData]);
+
+    const handleChange = (key: string, value: string) => {
+        setValues(prev => ({ ...prev, [key]: value }));
+    };
+
+    // --- Location Activity Handlers ---
+    const addLocationActivity = () => {
+        const newId = locationActivities.length > 0 ? Math.max(...locationActivities.map(a => a.id)) + 1 : 1;
+        setLocationActivities(prev => [...prev, { id: newId, location: '', activities: '' }]);
+    };
+
+    const removeLocationActivity = (id: number) => {
+        setLocationActivities(prev => prev.filter(a => a.id !== id));
+    };
+
+    const updateLocationActivity = (id: number, field: keyof Omit<LocationActivity, 'id'>, value: string) => {
+        setLocationActivities(prev => prev.map(block => block.id === id ? { ...block, [field]: value } : block));
+    };
+
+    const moveLocationActivity = (id: number, direction: 'up' | 'down') => {
+        const index = locationActivities.findIndex(a => a.id === id);
+        if (index === -1) return;
+
+        const newIndex = direction === 'up' ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= locationActivities.length) return;
+
+        const newActivities = [...locationActivities];
+        [newActivities[index], newActivities[newIndex]] = [newActivities[newIndex], newActivities[index]];
+        setLocationActivities(newActivities);
+    };
+
+    // --- Photo Handlers ---
+    const handlePhotoDataChange = (id: number, field: keyof Omit<PhotoData, 'id' | 'imageUrl' | 'imageId'>, value: string) => {
+        setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, [field]: value } : photo));
+    };
+
+    const handlePhotoCoordinatesChange = (id: number, point: GeoPoint | null) => {
+        setPhotosData(prev => prev.map(photo => photo.id === id
+            ? { ...photo, latitude: point?.latitude, longitude: point?.longitude }
+            : photo));
+    };
+
+    const handleMapPhotoClick = (id: number) => {
+        const photo = photosData.find(p => p.id === id);
+        if (photo?.imageUrl) {
+            setEnlargedImageUrl(photo.imageUrl);
+        } else {
+            document.getElementById(getSearchTargetElementId({ kind: 'photo', id }))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    };
+
+    const handleLocationActivityCoordinatesChange = (id: number, point: GeoPoint | null) => {
+        setLocationActivities(prev => prev.map(block => block.id === id
+            ? { ...block, latitude: point?.latitude, longitude: point?.longitude }
+            : block));
+    };
+
+    const handleImageChange = (id: number, file: File) => {
+        const allowedTypes = ['image/jpeg', 'image/png'];
+        if (!allowedTypes.includes(file.type)) {
+            setShowUnsupportedFileModal(true);
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+             const dataUrl = e.target?.result as string;
+             autoCropImage(dataUrl).then(async croppedImageUrl => {
+                const sourceImageId = await storeOriginalImage(dataUrl);
+                const exif = readExif(await file.arrayBuffer());
+                setPhotosData(prev => prev.map(photo => photo.id === id ? { ...applyExifToPhoto(photo, exif), imageUrl: croppedImageUrl, sourceImageId } : photo));
+             }).catch(e => {
+                 console.error('Failed to read the chosen image:', e);
+                 alert('This image could not be read. Please choose a different JPG or PNG file.');
+             });
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const handlePhotoFilesDropped = async (files: File[]) => {
+        const imageFiles = files.filter(isSupportedImageFile);
+        const archiveFiles = files.filter(isPhotoArchiveFile);
+        if (imageFiles.length === 0 && archiveFiles.length === 0) {
+            setShowUnsupportedFileModal(true);
+            return;
+        }
+
+        setStatusMessage(imageFiles.length > 0 ? `Importing ${imageFiles.length} photo(s)...` : 'Reading photo archive...');
+        setStatusProgress(0);
+        setShowStatusModal(true);
+        try {
+            const onProgress = (done: number, total: number) => {
+                setStatusMessage(`Importing photo ${Math.min(done + 1, total)} of ${total}...`);
+                setStatusProgress(done / total);
+            };
+            const imported = imageFiles.length > 0 ? await importPhotoFiles(imageFiles, autoCropImage, onProgress) : [];
+            for (const archive of archiveFiles) {
+                try {
+                    imported.push(...await importPhotoArchive(archive, autoCropImage, onProgress));
+                } catch (e) {
+                    console.error(`Failed to import photos from ${archive.name}:`, e);
+                    alert(e instanceof Error ? e.message : `Could not import photos from ${archive.name}.`);
+                }
+            }
+            setPhotosData(prev => {
+                let nextId = prev.length > 0 ? Math.max(...prev.map(p => p.id)) + 1 : 1;
+                const newPhotos = imported.map(({ imageUrl, sourceImageId, exif, details }) => {
+                    const newPhoto: PhotoData = {
+                        id: nextId++,
+                        photoNumber: '', // Will be re-assigned by renumberPhotos
+                        date: '',
+                        location: '',
+                        description: '',
+                        imageUrl,
+                        sourceImageId,
+                        direction: '',
+                    };
+                    return { ...applyExifToPhoto(newPhoto, exif), ...details };
+                });
+                return renumberPhotos([...prev, ...newPhotos]);
+            });
+        } catch (e) {
+            console.error("Failed to import photos:", e);
+            alert("Some photos could not be imported. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+            setStatusProgress(undefined);
+        }
+    };
+
+    const handlePhotoArchiveSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) handlePhotoFilesDropped([file]);
+    };
+
+    const handleImageEdited = async (id: number, editedImageUrl: string, sourceImageId: string) => {
+        const finalImageUrl = await autoCropImage(editedImageUrl);
+        setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: finalImageUrl, sourceImageId } : photo));
+        setEditingPhotoId(null);
+    };
+
+    const addPhoto = (insertAtIndex?: number) => {
+        const newId = photosData.length > 0 ? Math.max(...photosData.map(p => p.id)) + 1 : 1;
+        const newPhoto: PhotoData = {
+            id: newId,
+            photoNumber: '',
+            date: '',
+            location: '',
+            description: '',
+            imageUrl: null,
+            direction: '',
+            isMap: false,
+        };
+
+        setPhotosData(prev => {
+            let newPhotos;
+            if (insertAtIndex !== undefined) {
+                const insertionPoint = insertAtIndex + 1;
+                newPhotos = [...prev.slice(0, insertionPoint), newPhoto, ...prev.slice(insertionPoint)];
+            } else {
+                newPhotos = [...prev, newPhoto];
+            }
+            return renumberPhotos(newPhotos);
+        });
+    };
+
+    const removePhoto = (id: number) => {
+        setPhotosData(prev => {
+            // The image stays stored: saved and archived versions may still use it. Deleting the
+            // report or the storage cleanup reclaims it once nothing references it.
+            return renumberPhotos(prev.filter(photo => photo.id !== id));
+        });
+    };
+
+    const movePhoto = (id: number, direction: 'up' | 'down') => {
+        const index = photosData.findIndex(p => p.id === id);
+        if (index === -1) return;
+
+        const newIndex = direction === 'up' ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= photosData.length) return;
+
+        const newPhotos = [...photosData];
+        [newPhotos[index], newPhotos[newIndex]] = [newPhotos[newIndex], newPhotos[index]];
+
+        setPhotosData(renumberPhotos(newPhotos));
+    };
+
+    const prepareStateForRecentProjectStorage = async (
+        formToStore: FormDefinition,
+        valuesToStore: Record<string, string>,
+        activitiesToStore: LocationActivity[],
+        photosToStore: PhotoData[],
+        settingsToStore: PdfExportSettings
+    ) => {
+        const photosForStorage = await Promise.all(
+            photosToStore.map(async (photo) => {
+                if (photo.imageUrl) {
+                    // A thumbnail means the stored image is unchanged. New and edited images get a fresh
+                    // id, so the image an earlier or archived version points at is never overwritten.
+                    const isStored = isStoredImageUrl(photo.imageUrl) && !!photo.imageId;
+                    const imageId = isStored ? photo.imageId! : `${valuesToStore.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
+                    if (!isStored) await storeImage(imageId, photo.imageUrl);
+                    const { imageUrl, ...rest } = photo;
+                    return { ...rest, imageId };
+                }
+                return photo;
+            })
+        );
+        return { form: formToStore, values: valuesToStore, locationActivities: activitiesToStore, photosData: photosForStorage, exportSettings: settingsToStore };
+    };
+
+    const validateForm = (): boolean => {
+        const issues = validateFormValues(form, values, locationActivities);
+        const newErrors = new Set<string>(issues.map(issue => issue.key));
+
+        photosData.forEach(photo => {
+            const prefix = `photo-${photo.id}-`;
+            if (!photo.date) newErrors.add(`${prefix}date`);
+            if (!photo.location) newErrors.add(`${prefix}location`);
+            if (!photo.description) newErrors.add(`${prefix}description`);
+            if (!photo.imageUrl) newErrors.add(`${prefix}imageUrl`);
+            if (!photo.isMap && !photo.direction) newErrors.add(`${prefix}direction`);
+        });
+
+        setErrors(newErrors);
+        setValidationIssues(issues);
+        if (newErrors.size > 0) {
+            setShowValidationErrorModal(true);
+            return false;
+        }
+        return true;
+    };
+
+    const buildReportDocument = async (): Promise<ReportDocument> => {
+        const { bodyHeader, photoHeader } = buildFormHeaders(form, values);
+        const sitePhotos = photosData.filter(p => !p.isMap && p.imageUrl);
+        const mapPhotosData = photosData.filter(p => p.isMap && p.imageUrl);
+        const keyMap = exportSettings.includeKeyMap ? await buildKeyMapEntry(values.projectNumber, photosData, locationActivities) : null;
+
+        return {
+            layout: 'dfr',
+            logo: xterraLogo,
+            bodyHeader,
+            photoHeader,
+            body: buildFormBody(form, values, locationActivities),
+            photos: await buildPhotoEntries(sitePhotos, dfrPhotoFields),
+            maps: [...(keyMap ? [keyMap] : []), ...await buildPhotoEntries(mapPhotosData, dfrPhotoFields)],
+        };
+    };
+
+    const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+    const exportFilename = (extension: string) => `${sanitize(values.projectNumber || '') || 'project'}_${sanitize(form.name) || 'dfr'}.${extension}`;
+
+    const handleSavePdf = () => {
+        if (!validateForm()) return;
+        setShowExportSettings(true);
+    };
+
+    const saveToRecentProjects = async () => {
+        const stateForSaving = await prepareStateForRecentProjectStorage(form, values, locationActivities, photosData, exportSettings);
+        await saveReportToRegistry(stateForSaving, { type: 'dfrForm', name: reportName(form, values), projectNumber: values.projectNumber || '' });
+        markDraftSaved();
+    };
+
+    const handleGeneratePdf = async () => {
+        setShowExportSettings(false);
+        await saveToRecentProjects();
+
+        setStatusMessage('Generating PDF...');
+        setShowStatusModal(true);
+        let oversizeWarning: string | null = null;
+        try {
+            const report = await renderReportWithinBudget(await buildReportDocument(), exportSettings, attempt => {
+                setStatusMessage(`Generating PDF (images at ${attempt.maxImageSize}px, ${Math.round(attempt.jpegQuality * 100)}% quality)...`);
+            });
+            if (!report.withinTarget) {
+                oversizeWarning = `The PDF is ${formatFileSize(report.sizeBytes)}, which is still over the ${exportSettings.targetSizeMb} MB target at the lowest image quality.`;
+            }
+
+            const pdfBlob = report.doc.output('blob');
+            const pdfUrl = URL.createObjectURL(pdfBlob);
+            setPdfPreview({ url: pdfUrl, filename: exportFilename('pdf') });
+        } catch (error) {
+            console.error("Failed to generate PDF:", error);
+            alert("An unexpected error occurred while generating the PDF. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+        if (oversizeWarning) {
+            alert(oversizeWarning);
+        }
+    };
+
+    const handleSaveDocx = async () => {
+        if (!validateForm()) return;
+        await saveToRecentProjects();
+
+        setStatusMessage('Generating Word document...');
+        setShowStatusModal(true);
+        try {
+            const docxBlob = await renderReportDocx(await buildReportDocument());
+            const filename = exportFilename('docx');
+
+            // @ts-ignore
+            if (window.electronAPI?.saveDocxFile) {
+                // @ts-ignore
+                await window.electronAPI.saveDocxFile(await docxBlob.arrayBuffer(), filename);
+            } else {
+                const link = document.createElement('a');
+                link.href = URL.createObjectURL(docxBlob);
+                link.setAttribute('download', filename);
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(link.href);
+            }
+        } catch (error) {
+            console.error("Failed to generate Word document:", error);
+            alert("An unexpected error occurred while generating the Word document. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+    };
+
+    const handleSaveProject = async () => {
+        await saveToRecentProjects();
+
+        const projectPackage = await createProjectPackage(withSchemaVersion({ form, values, locationActivities, photosData, exportSettings }));
+        const filename = `${sanitize(values.projectName || '') || 'project'}_${formatDateForFilename(values.date || '')}.${FORM_REPORT_FILE_EXTENSION}`;
+
+        // @ts-ignore
+        if (window.electronAPI) {
+            // @ts-ignore
+            await window.electronAPI.saveProject(projectPackage, filename);
+        } else {
+            const blob = new Blob([projectPackage], { type: 'application/zip' });
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(blob);
+            link.setAttribute('download', filename);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(link.href);
+        }
+    };
+
+    const handleDownloadPhotos = useCallback(async () => {
+        if (isDownloadingRef.current) return;
+        isDownloadingRef.current = true;
+
+        let missingPhotos: PhotoData[] = [];
+        try {
+            setStatusMessage('Checking for photos...');
+            setShowStatusModal(true);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            const photosWithImages = photosData.filter(p => p.imageUrl);
+
+            if (photosWithImages.length === 0) {
+                setStatusMessage('No photos found to download.');
+                await new Promise(resolve => setTimeout(resolve, 2000));
+                setShowStatusModal(false);
+                return;
+            }
+
+            setStatusMessage(`Preparing ${photosWithImages.length} photos...`);
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            const zip = new JSZip();
+            const { files, missing } = await addPhotosToArchive(zip, photosWithImages, reportName(form, values));
+            missingPhotos = missing;
+            addGeoFilesToZip(zip, [values.projectNumber, values.projectName].filter(Boolean).join(' ') || 'Photo locations', photosWithImages, files, locationActivities);
+
+            setStatusMessage('Creating zip file...');
+            await new Promise(resolve => setTimeout(resolve, 100));
+
+            const zipFilename = `${sanitize(values.projectNumber || '') || 'project'}_${sanitize(values.projectName || '') || 'dfr'}_Photos.zip`;
+
+            // @ts-ignore
+            if (window.electronAPI?.saveZipFile) {
+                const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+                // @ts-ignore
+                await window.electronAPI.saveZipFile(buffer, zipFilename);
+            } else {
+                const zipBlob = await zip.generateAsync({ type: 'blob' });
+                const link = document.createElement('a');
+                link.href = URL.createObjectURL(zipBlob);
+                link.setAttribute('download', zipFilename);
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(link.href);
+            }
+        } finally {
+            setShowStatusModal(false);
+            isDownloadingRef.current = false;
+        }
+        if (missingPhotos.length > 0) {
+            alert(describeMissingPhotos(missingPhotos));
+        }
+    }, [photosData, form, values, locationActivities]);
+
+    useDownloadPhotosCommand(handleDownloadPhotos);
+
+    const handleOpenProject = async () => {
+        // @ts-ignore
+        if (window.electronAPI) {
+            // @ts-ignore
+            const fileData = await window.electronAPI.loadProject(FORM_REPORT_FILE_EXTENSION);
+            if (fileData) {
+                await parseAndLoadProject(fileData);
+            }
+        } else {
+            fileInputRef.current?.click();
+        }
+    };
+
+    const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const fileData = new Uint8Array(await file.arrayBuffer());
+        await parseAndLoadProject(fileData);
+        if (event.target) {
+            event.target.value = '';
+        }
+    };
+
+    const getPhotoErrors = (id: number): Set<keyof PhotoData> => {
+        const photoErrors = new Set<keyof PhotoData>();
+        errors.forEach(errorKey => {
+            const prefix = `photo-${id}-`;
+            if (errorKey.startsWith(prefix)) {
+                photoErrors.add(errorKey.substring(prefix.length) as keyof PhotoData);
+            }
+        });
+        return photoErrors;
+    };
+
+    // Location blocks sit under the section the PDF prints them with, or after the last section.
+    const activitiesItem = form.pdf.body.find(item => item.kind === 'activities');
+    const locationActivitiesAfter = form.locationActivities
+        ? (activitiesItem?.kind === 'activities' && activitiesItem.field) || form.sections[form.sections.length - 1]?.key
+        : undefined;
+
+    const editingPhoto = photosData.find(p => p.id === editingPhotoId);
+    const enlargedPhoto = photosData.find(p => p.imageUrl === enlargedImageUrl);
+
+    return (
+        <PhotoDropZone className="bg-gray-100 min-h-screen" onFilesDropped={handlePhotoFilesDropped}>
+            {pdfPreview && (
+                <PdfPreviewModal
+                    url={pdfPreview.url}
+                    filename={pdfPreview.filename}
+                    onClose={() => setPdfPreview(null)}
+                />
+            )}
+            {enlargedImageUrl && (
+                <ImageModal
+                    imageUrl={enlargedImageUrl}
+                    imageId={enlargedPhoto?.imageId}
+                    onClose={() => setEnlargedImageUrl(null)}
+                    onEdit={enlargedPhoto ? () => { setEnlargedImageUrl(null); setEditingPhotoId(enlargedPhoto.id); } : undefined}
+                />
+            )}
+            {showStatusModal && <ActionStatusModal message={statusMessage} progress={statusProgress} />}
+            {showExportSettings && (
+                <PdfExportSettingsModal
+                    settings={exportSettings}
+                    onSettingsChange={setExportSettings}
+                    buildReport={buildReportDocument}
+                    onGenerate={handleGeneratePdf}
+                    onClose={() => setShowExportSettings(false)}
+                />
+            )}
+            {editingPhoto && (
+                <ImageEditor
+                    photo={editingPhoto}
+                    onSave={(imageUrl, sourceImageId) => handleImageEdited(editingPhoto.id, imageUrl, sourceImageId)}
+                    onClose={() => setEditingPhotoId(null)}
+                />
+            )}
+            <SpecialCharacterPalette />
+            <div className="max-w-7xl mx-auto p-4 md:p-8">
+                {showMigrationNotice && <MigrationNotice onDismiss={() => setShowMigrationNotice(false)} />}
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <div className="flex items-center gap-4">
+                        <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <ArrowLeftIcon /> <span>Home</span>
+                        </button>
+                        <LastSavedIndicator lastSavedAt={lastSavedAt} />
+                    </div>
+                    <div className="text-center">
+                        <h1 className="text-2xl font-bold text-gray-700">{form.name}</h1>
+                        <p className="text-sm text-gray-500">Form version {form.version}{form.client ? ` · ${form.client}` : ''}</p>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-2">
+                        <button onClick={handleOpenProject} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <FolderOpenIcon /> <span>Open</span>
+                        </button>
+                        <input
+                            type="file"
+                            ref={fileInputRef}
+                            onChange={handleFileSelected}
+                            style={{ display: 'none' }}
+                            accept={`.${FORM_REPORT_FILE_EXTENSION}`}
+                        />
+                        <button onClick={handleSaveProject} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <SaveIcon /> <span>Save</span>
+                        </button>
+                        {/* @ts-ignore */}
+                        {!window.electronAPI && (
+                            <button onClick={handleDownloadPhotos} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                                <FolderArrowDownIcon /> <span>Download Photos</span>
+                            </button>
+                        )}
+                        <button onClick={handleSavePdf} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DownloadIcon /> <span>Save PDF</span>
+                        </button>
+                        <button onClick={handleSaveDocx} className="bg-sky-700 hover:bg-sky-800 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DocumentTextIcon /> <span>Save Word</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="space-y-8">
+                    {/* Header Section */}
+                    <Section title="Report Information" id={getSearchTargetElementId({ kind: 'header' })}>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                            {form.headerFields.map(field => (
+                                <FormField
+                                    key={field.key}
+                                    field={field}
+                                    value={values[field.key] || ''}
+                                    onChange={v => handleChange(field.key, v)}
+                                    isInvalid={errors.has(field.key)}
+                                />
+                            ))}
+                        </div>
+                    </Section>
+
+                    {/* Checklist Section */}
+                    {form.checklist && (
+                        <Section title={form.checklist.title}>
+                            {form.checklist.rows.map(row => (
+                                <ChecklistRow
+                                    key={row.key}
+                                    name={row.key}
+                                    label={row.label}
+                                    options={form.checklist!.options}
+                                    value={values[row.key] || ''}
+                                    onChange={v => handleChange(row.key, v)}
+                                    isInvalid={errors.has(row.key)}
+                                />
+                            ))}
+                        </Section>
+                    )}
+
+                    {/* Body Sections */}
+                    {form.sections.length > 0 && (
+                        <Section title="Activities & Observations">
+                            {form.sections.map(section => (
+                                <React.Fragment key={section.key}>
+                                    <BulletPointEditor
+                                        id={getSearchTargetElementId({ kind: 'field', field: section.key })}
+                                        label={section.label}
+                                        value={values[section.key] || ''}
+                                        onChange={v => handleChange(section.key, v)}
+                                        rows={section.rows || 3}
+                                        placeholder={section.placeholder}
+                                        isInvalid={errors.has(section.key)}
+                                    />
+                                    {section.key === locationActivitiesAfter && (
+                                        <>
+                                            <div className="space-y-4">
+                                                {locationActivities.map((block, index) => (
+                                                    <LocationBlockEntry
+                                                        key={block.id}
+                                                        id={getSearchTargetElementId({ kind: 'locationActivity', id: block.id })}
+                                                        data={block}
+                                                        onDataChange={updateLocationActivity}
+                                                        onRemove={removeLocationActivity}
+                                                        onMove={moveLocationActivity}
+                                                        isFirst={index === 0}
+                                                        isLast={index === locationActivities.length - 1}
+                                                    />
+                                                ))}
+                                            </div>
+                                            <div className="text-center">
+                                                <button onClick={addLocationActivity} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                                                    <PlusIcon />
+                                                    <span>Add Location-Specific Activity</span>
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </Section>
+                    )}
+
+                    {/* Photo Log Section */}
+                    <div className="border-t-4 border-[#007D8C] my-10" />
+                    <h2 className="text-3xl font-bold text-gray-700 text-center">Photographic Log</h2>
+                    <SiteMapPanel
+                        projectNumber={values.projectNumber}
+                        photos={photosData}
+                        locationActivities={locationActivities}
+                        onPhotoClick={handleMapPhotoClick}
+                        onPhotoCoordinatesChange={handlePhotoCoordinatesChange}
+                        onLocationActivityCoordinatesChange={handleLocationActivityCoordinatesChange}
+                    />
+
+                    <div>
+                        {photosData.map((photo, index) => (
+                           <div key={photo.id} id={getSearchTargetElementId({ kind: 'photo', id: photo.id })}>
+                                <PhotoEntry
+                                    data={photo}
+                                    onDataChange={(field, value) => handlePhotoDataChange(photo.id, field, value)}
+                                    onImageChange={(file) => handleImageChange(photo.id, file)}
+                                    onRemove={() => removePhoto(photo.id)}
+                                    onMoveUp={() => movePhoto(photo.id, 'up')}
+                                    onMoveDown={() => movePhoto(photo.id, 'down')}
+                                    isFirst={index === 0}
+                                    isLast={index === photosData.length - 1}
+                                    onImageClick={setEnlargedImageUrl}
+                                    onEditImage={() => setEditingPhotoId(photo.id)}
+                                    errors={getPhotoErrors(photo.id)}
+                                    showDirectionField={!photo.isMap}
+                                />
+                                {index < photosData.length - 1 && (
+                                    <div className="relative my-6 flex items-center justify-center">
+                                        <div className="absolute inset-0 flex items-center" aria-hidden="true"><div className="w-full border-t-2 border-gray-300"></div></div>
+                                        <div className="relative">
+                                            <button onClick={() => addPhoto(index)} className="bg-white hover:bg-gray-100 text-[#007D8C] font-bold py-2 px-4 rounded-full border border-gray-300 inline-flex items-center gap-2 transition duration-200 shadow-sm">
+                                                <PlusIcon /><span>Add Photo Here</span>
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="mt-8 flex justify-center gap-4">
+                        <button onClick={() => addPhoto()} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-3 px-6 rounded-lg shadow-md inline-flex items-center gap-2 transition duration-200 text-lg">
+                            <PlusIcon /><span>Add Photo</span>
+                        </button>
+                        <button
+                            onClick={() => archiveInputRef.current?.click()}
+                            className="bg-white hover:bg-gray-100 text-[#007D8C] font-bold py-3 px-6 rounded-lg border-2 border-[#007D8C] shadow-md inline-flex items-center gap-2 transition duration-200 text-lg"
+                            title="Add the photos from a Download Photos zip, with their captions"
+                        >
+                            <FolderOpenIcon /><span>Import Photos from ZIP</span>
+                        </button>
+                        <input
+                            type="file"
+                            ref={archiveInputRef}
+                            onChange={handlePhotoArchiveSelected}
+                            style={{ display: 'none' }}
+                            accept=".zip"
+                        />
+                    </div>
+                </div>
+                <footer className="text-center text-gray-500 text-sm py-4 mt-8">
+                    X-TES Digital Reporting v1.0.2
+                </footer>
+            </div>
+            {showUnsupportedFileModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 transition-opacity duration-300">
+                    <div className="bg-white p-8 rounded-lg shadow-2xl text-center relative max-w-md transform scale-95 hover:scale-100 transition-transform duration-300">
+                        <button
+                            onClick={() => setShowUnsupportedFileModal(false)}
+                            className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                            aria-label="Close"
+                        >
+                            <CloseIcon className="h-6 w-6" />
+                        </button>
+                        <img
+                            src="https://ik.imagekit.io/fzpijprte/200.gif?updatedAt=1758919911063"
+                            alt="Unsupported file type animation"
+                            className="mx-auto mb-4 w-40 h-40"
+                        />
+                        <h3 className="text-2xl font-bold mb-2 text-gray-800">Unsupported File Type</h3>
+                        <p className="text-gray-600">
+                            Please upload a supported image file or photo ZIP.
+                        </p>
+                        <p className="text-sm text-gray-500 mt-3">
+                            Supported formats: <strong>JPG, PNG, ZIP</strong>
+                        </p>
+                    </div>
+                </div>
+            )}
+            {showValidationErrorModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 transition-opacity duration-300">
+                    <div className="bg-white p-8 rounded-lg shadow-2xl text-center relative max-w-md transform scale-95 hover:scale-100 transition-transform duration-300">
+                        <button
+                            onClick={() => setShowValidationErrorModal(false)}
+                            className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                            aria-label="Close"
+                        >
+                            <CloseIcon className="h-6 w-6" />
+                        </button>
+                        <img
+                            src="https://ik.imagekit.io/fzpijprte/200.gif?updatedAt=1758919911063"
+                            alt="Missing information animation"
+                            className="mx-auto mb-4 w-40 h-40"
+                        />
+                        <h3 className="text-2xl font-bold mb-2 text-gray-800">Missing Information</h3>
+                        <p className="text-gray-600">
+                            Please fill in all required fields.
+                        </p>
+                        {validationIssues.length > 0 && (
+                            <ul className="mt-3 text-sm text-left text-red-600 list-disc list-inside">
+                                {validationIssues.map(issue => <li key={issue.key}>{issue.message}</li>)}
+                            </ul>
+                        )}
+                        <p className="text-sm text-gray-500 mt-3">
+                            Missing fields are highlighted in red.
+                        </p>
+                    </div>
+                </div>
+            )}
+        </PhotoDropZone>
+    );
+};
+
+export default DfrForm;
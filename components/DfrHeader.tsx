@@ -1,5 +1,6 @@
 import React, { useRef, useLayoutEffect, useEffect } from 'react';
 import type { DfrHeaderData } from '../types';
+import xterraLogo from '../assets/xterra-logo.jpg';
 
 interface HeaderProps {
     data: DfrHeaderData;
@@ -13,7 +14,7 @@ interface HeaderProps {
 const XterraLogo: React.FC<{ isPrintable?: boolean }> = ({ isPrintable = false }) => (
     <div className="flex items-center">
         <img
-            src="https://ik.imagekit.io/fzpijprte/XTerraLogo2019_Horizontal.jpg?updatedAt=1758827714962"
+            src={xterraLogo}
             alt="X-TERRA Logo"
             className={isPrintable ? "h-10 w-auto" : "h-14 w-auto"}
         />
@@ -1,20 +1,49 @@
-import React, { useState, ReactElement, useEffect, useRef, useCallback } from 'react';
+import React, { useState, ReactElement, useEffect, useRef, useCallback, useMemo } from 'react';
 import { DfrHeader } from './DfrHeader';
 import PhotoEntry from './PhotoEntry';
-import type { DfrHeaderData, DfrStandardBodyData, PhotoData, ActivityBlock, LocationActivity } from '../types';
-import { PlusIcon, DownloadIcon, SaveIcon, FolderOpenIcon, ArrowLeftIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon, CloseIcon, FolderArrowDownIcon } from './icons';
-import { AppType } from '../App';
-import { storeImage, retrieveImage, deleteImage, storeProject, deleteProject, retrieveProject } from './db';
+import {
+    PdfPreviewModal,
+    Section,
+    autoCropImage,
+    formatDateForFilename,
+    formatDateForRecentProject,
+    renumberPhotos,
+    useDownloadPhotosCommand,
+} from './editorShared';
+import type { DfrHeaderData, DfrStandardBodyData, PhotoData, LocationActivity, PdfExportSettings } from '../types';
+import { PlusIcon, DownloadIcon, SaveIcon, FolderOpenIcon, ArrowLeftIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon, CloseIcon, FolderArrowDownIcon, DocumentTextIcon, DocumentDuplicateIcon } from './icons';
+import { storeImage } from './db';
+import { isStoredImageUrl, loadPhotoThumbnails } from './photoImages';
+import { migrateProject, withSchemaVersion } from './migrations';
+import { applyExifToPhoto, readExif } from './exif';
+import { importPhotoFiles, isSupportedImageFile } from './photoImport';
+import { storeOriginalImage } from './imageEdits';
+import { saveReportToRegistry } from './projectRegistry';
+import { useDraftAutosave } from './drafts';
+import { getSearchTargetElementId, useSearchTargetFocus, type SearchTarget } from './searchIndex';
+import { createProjectPackage, describeProjectFileError, readProjectFile } from './projectPackage';
 import { SpecialCharacterPalette } from './SpecialCharacterPalette';
 import BulletPointEditor from './BulletPointEditor';
 import ImageModal from './ImageModal';
+import ImageEditor from './ImageEditor';
 import ActionStatusModal from './ActionStatusModal';
+import PdfExportSettingsModal from './PdfExportSettingsModal';
+import SaveTemplateModal from './SaveTemplateModal';
+import { createTemplateFromReport, saveReportTemplate } from './templates';
+import LastSavedIndicator from './LastSavedIndicator';
+import PhotoDropZone from './PhotoDropZone';
+import SiteMapPanel from './SiteMapPanel';
+import { buildKeyMapEntry, type GeoPoint } from './siteMap';
+import { addGeoFilesToZip } from './geoExport';
+import { addPhotosToArchive, describeMissingPhotos, importPhotoArchive, isPhotoArchiveFile } from './photoArchive';
+import JSZip from 'jszip';
+import { textSection, type BodyBlock, type HeaderBlock, type ReportDocument } from './pdfLayout';
+import { DEFAULT_PDF_EXPORT_SETTINGS, formatFileSize, renderReportWithinBudget } from './pdfExport';
+import { renderReportDocx } from './docxReport';
+import { buildPhotoEntries, dfrPhotoFields } from './pdfImages';
+import xterraLogo from '../assets/xterra-logo.jpg';
 
 
-// @ts-ignore
-const { jsPDF } = window.jspdf;
-declare const JSZip: any;
-
 const dfrPlaceholders = {
     header: {
         proponent: "Cenovus",
@@ -50,271 +79,14 @@ const dfrPlaceholders = {
 };
 
 
-// --- Recent Projects Utility ---
-const RECENT_PROJECTS_KEY = 'xtec_recent_projects';
-
-interface RecentProjectMetadata {
-    type: AppType;
-    name: string;
-    projectNumber: string;
-    timestamp: number;
-}
-
-const getRecentProjects = (): RecentProjectMetadata[] => {
-    try {
-        const projects = localStorage.getItem(RECENT_PROJECTS_KEY);
-        return projects ? JSON.parse(projects) : [];
-    } catch (e) {
-        console.error("Failed to parse recent projects from localStorage", e);
-        return [];
-    }
-};
-
-const addRecentProject = async (projectData: any, projectInfo: { type: AppType; name: string; projectNumber: string; }) => {
-    const timestamp = Date.now();
-    
-    try {
-        await storeProject(timestamp, projectData);
-    } catch (e) {
-        console.error("Failed to save project to IndexedDB:", e);
-        alert("Could not save the project to the local database. Your browser's storage might be full or corrupted.");
-        return;
-    }
-    
-    const recentProjects = getRecentProjects();
-    const identifier = `${projectInfo.type}-${projectInfo.name}-${projectInfo.projectNumber}`;
-
-    const existingProject = recentProjects.find(p => `${p.type}-${p.name}-${p.projectNumber}` === identifier);
-    const filteredProjects = recentProjects.filter(p => `${p.type}-${p.name}-${p.projectNumber}` !== identifier);
-
-    if (existingProject) {
-        try {
-            const oldProjectData = await retrieveProject(existingProject.timestamp);
-            if (oldProjectData?.photosData) {
-                for (const photo of oldProjectData.photosData) {
-                    if (photo.imageId) await deleteImage(photo.imageId);
-                }
-            }
-            await deleteProject(existingProject.timestamp);
-        } catch (e) {
-            console.error(`Failed to clean up old project version (${existingProject.timestamp}):`, e);
-        }
-    }
-    
-    const newProjectMetadata: RecentProjectMetadata = { ...projectInfo, timestamp };
-    let updatedProjects = [newProjectMetadata, ...filteredProjects];
-    
-    const MAX_RECENT_PROJECTS_IN_LIST = 50;
-    if (updatedProjects.length > MAX_RECENT_PROJECTS_IN_LIST) {
-        const projectsToDelete = updatedProjects.splice(MAX_RECENT_PROJECTS_IN_LIST);
-        for (const proj of projectsToDelete) {
-             try {
-                const projectDataToDelete = await retrieveProject(proj.timestamp);
-                if (projectDataToDelete?.photosData) {
-                    for (const photo of projectDataToDelete.photosData) {
-                        if (photo.imageId) await deleteImage(photo.imageId);
-                    }
-                }
-                await deleteProject(proj.timestamp);
-            } catch (e) {
-                console.error(`Failed to cleanup old project from list (${proj.timestamp}):`, e);
-            }
-        }
-    }
-
-    try {
-        localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updatedProjects));
-    } catch (e) {
-        console.error("Failed to save recent projects to localStorage:", e);
-        alert("Could not update recent projects list. Your browser's local storage may be full.");
-    }
-};
-// --- End Utility ---
-
-// --- Helper function to get image dimensions asynchronously
-const getImageDimensions = (url: string): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
-        img.onerror = (err) => reject(err);
-        img.src = url;
-    });
-};
-
-const autoCropImage = (imageUrl: string): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                resolve(imageUrl);
-                return;
-            }
-            
-            const canvasWidth = 1024;
-            const canvasHeight = 768; // 4:3 aspect ratio
-
-            canvas.width = canvasWidth;
-            canvas.height = canvasHeight;
-
-            ctx.fillStyle = 'white';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-            const targetAspectRatio = canvasWidth / canvasHeight;
-            const originalAspectRatio = img.width / img.height;
-
-            let drawWidth, drawHeight, drawX, drawY;
-
-            if (originalAspectRatio > targetAspectRatio) {
-                // Image is wider than target, fit to width
-                drawWidth = canvas.width;
-                drawHeight = drawWidth / originalAspectRatio;
-                drawX = 0;
-                drawY = (canvas.height - drawHeight) / 2;
-            } else {
-                // Image is taller than target, fit to height
-                drawHeight = canvas.height;
-                drawWidth = drawHeight * originalAspectRatio;
-                drawY = 0;
-                drawX = (canvas.width - drawWidth) / 2;
-            }
-
-            ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
-
-            resolve(canvas.toDataURL('image/jpeg'));
-        };
-        img.src = imageUrl;
-    });
-};
-
-const PdfPreviewModal: React.FC<{ url: string; filename: string; onClose: () => void; }> = ({ url, filename, onClose }) => {
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'Escape') {
-                onClose();
-            }
-        };
-        window.addEventListener('keydown', handleKeyDown);
-        document.body.style.overflow = 'hidden';
-
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            document.body.style.overflow = 'auto';
-            if (url && url.startsWith('blob:')) {
-                URL.revokeObjectURL(url);
-            }
-        };
-    }, [onClose, url]);
-
-    const handleDownload = () => {
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    };
-
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
-            <div className="bg-white rounded-lg shadow-2xl w-full h-full flex flex-col">
-                <div className="flex justify-between items-center p-4 border-b bg-gray-50">
-                    <h3 className="text-xl font-bold text-gray-800">PDF Preview</h3>
-                    <div className="flex items-center gap-4">
-                        <button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
-                            <DownloadIcon />
-                            <span>Download PDF</span>
-                        </button>
-                        <button onClick={onClose} className="text-gray-500 hover:text-gray-800 transition-colors" aria-label="Close preview">
-                            <CloseIcon className="h-8 w-8" />
-                        </button>
-                    </div>
-                </div>
-                <div className="flex-grow bg-gray-200">
-                    <object data={url} type="application/pdf" className="w-full h-full">
-                        <div className="flex flex-col items-center justify-center h-full bg-gray-100 p-8 text-center text-gray-700">
-                            <p className="mb-4 text-lg font-semibold">It appears your browser cannot preview PDFs directly.</p>
-                            <p className="mb-6">You can download the file to view it instead.</p>
-                            <a
-                                href={url}
-                                download={filename}
-                                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200"
-                            >
-                                <DownloadIcon />
-                                <span>Download PDF</span>
-                            </a>
-                        </div>
-                    </object>
-                </div>
-            </div>
-        </div>
-    );
-};
-
-
 interface DfrStandardProps {
   onBack: () => void;
   initialData?: any;
+  /** A search match to scroll to once the report has loaded. */
+  focusTarget?: SearchTarget;
 }
 
-const formatDateForRecentProject = (dateString: string): string => {
-    if (!dateString) return '';
-    try {
-        const tempDate = new Date(dateString);
-        if (isNaN(tempDate.getTime())) {
-            return dateString; // Return original if invalid
-        }
-        // Use local methods to get the components of the date the user intended
-        const year = tempDate.getFullYear();
-        const month = tempDate.getMonth();
-        const day = tempDate.getDate();
-
-        // Reconstruct as a UTC date to avoid timezone shifts during formatting
-        const utcDate = new Date(Date.UTC(year, month, day));
-        
-        const formattedYear = utcDate.getUTCFullYear();
-        const formattedMonth = String(utcDate.getUTCMonth() + 1).padStart(2, '0');
-        const formattedDay = String(utcDate.getUTCDate()).padStart(2, '0');
-
-        return `${formattedYear}/${formattedMonth}/${formattedDay}`;
-    } catch (e) {
-        return dateString; // Fallback
-    }
-};
-
-const formatDateForFilename = (dateString: string): string => {
-    if (!dateString) return 'NoDate';
-    try {
-        const tempDate = new Date(dateString);
-        if (isNaN(tempDate.getTime())) {
-            return dateString.replace(/[^a-z0-9]/gi, '');
-        }
-        const year = tempDate.getFullYear();
-        const month = tempDate.getMonth();
-        const day = tempDate.getDate();
-
-        const utcDate = new Date(Date.UTC(year, month, day));
-        
-        const formattedMonth = String(utcDate.getUTCMonth() + 1).padStart(2, '0');
-        const formattedDay = String(utcDate.getUTCDate()).padStart(2, '0');
-        const formattedYear = utcDate.getUTCFullYear();
-        
-        return `${formattedMonth}-${formattedDay}-${formattedYear}`;
-    } catch (e) {
-        // A simple fallback for unexpected formats
-        return dateString.replace(/[^a-z0-9]/gi, '');
-    }
-};
-
 // --- Local UI Components ---
-const Section: React.FC<{ title: string; children: React.ReactNode; }> = ({ title, children }) => (
-    <div className="bg-white p-6 shadow-md rounded-lg">
-        <h2 className="text-xl font-bold text-gray-800 border-b-2 border-gray-200 pb-2 mb-4">{title}</h2>
-        <div className="space-y-4">{children}</div>
-    </div>
-);
-
 const EditableField: React.FC<{ label: string; value: string; onChange: (value: string) => void; type?: string; isTextArea?: boolean; rows?: number; placeholder?: string; }> = ({ label, value, onChange, type = 'text', isTextArea = false, rows = 1, placeholder = '' }) => {
     const commonClasses = "block w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-[#007D8C] focus:border-[#007D8C] transition";
     const elementRef = React.useRef<HTMLInputElement & HTMLTextAreaElement>(null);
@@ -358,9 +130,10 @@ const LocationBlockEntry: React.FC<{
     onMove: (id: number, direction: 'up' | 'down') => void;
     isFirst: boolean;
     isLast: boolean;
-}> = ({ data, onDataChange, onRemove, onMove, isFirst, isLast }) => {
+    id?: string;
+}> = ({ data, onDataChange, onRemove, onMove, isFirst, isLast, id }) => {
     return (
-        <div className="p-4 border border-gray-200 rounded-md">
+        <div id={id} className="p-4 border border-gray-200 rounded-md">
             <div className="flex justify-between items-center mb-2">
                 <h3 className="font-bold text-gray-600">Location Specific Activity</h3>
                 <div className="flex items-center space-x-2">
@@ -384,7 +157,7 @@ const LocationBlockEntry: React.FC<{
 };
 
 
-const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement => {
+const DfrStandard = ({ onBack, initialData, focusTarget }: DfrStandardProps): ReactElement => {
     const [headerData, setHeaderData] = useState<DfrHeaderData>({
         proponent: '',
         projectName: '',
@@ -407,106 +180,75 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
     });
 
     const [photosData, setPhotosData] = useState<PhotoData[]>([]);
+    const [exportSettings, setExportSettings] = useState<PdfExportSettings>(DEFAULT_PDF_EXPORT_SETTINGS);
     
     const [errors, setErrors] = useState(new Set<string>());
     const [showValidationErrorModal, setShowValidationErrorModal] = useState(false);
-    const [showNoInternetModal, setShowNoInternetModal] = useState(false);
     const [showMigrationNotice, setShowMigrationNotice] = useState(false);
     const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
+    const [editingPhotoId, setEditingPhotoId] = useState<number | null>(null);
     const [showUnsupportedFileModal, setShowUnsupportedFileModal] = useState<boolean>(false);
     const [pdfPreview, setPdfPreview] = useState<{ url: string; filename: string } | null>(null);
+    const [showExportSettings, setShowExportSettings] = useState(false);
+    const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+    const [continuedFrom, setContinuedFrom] = useState<number | undefined>(undefined);
     const [showStatusModal, setShowStatusModal] = useState(false);
     const [statusMessage, setStatusMessage] = useState('');
+    const [statusProgress, setStatusProgress] = useState<number | undefined>(undefined);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
     const isDownloadingRef = useRef(false);
 
-     const parseAndLoadProject = async (fileContent: string) => {
-        try {
-            const projectData = JSON.parse(fileContent);
-            const { headerData: loadedHeader, bodyData: loadedBody, textData: loadedText, photosData: loadedPhotos } = projectData;
+    useSearchTargetFocus(focusTarget);
 
-            if (loadedHeader && (loadedBody || loadedText) && loadedPhotos && Array.isArray(loadedPhotos)) {
-                
-                let migrationOccurred = false;
-                let finalBodyData: DfrStandardBodyData;
-
-                // Check for new format first
-                if (loadedBody.generalActivity !== undefined || loadedBody.locationActivities !== undefined) {
-                    finalBodyData = {
-                        ...bodyData, // start with defaults
-                        ...loadedBody,
-                        generalActivity: loadedBody.generalActivity || '',
-                        locationActivities: loadedBody.locationActivities || [],
-                    };
-                } else { // Old format, needs migration
-                    migrationOccurred = true;
-                    let general = '';
-                    let locations: LocationActivity[] = [];
-
-                    if (loadedBody.activityBlocks && Array.isArray(loadedBody.activityBlocks)) {
-                        const generalBlock = loadedBody.activityBlocks.find((b: ActivityBlock) => b.type === 'general');
-                        general = generalBlock ? generalBlock.activities : '';
-                        locations = loadedBody.activityBlocks
-                            .filter((b: ActivityBlock) => b.type === 'location')
-                            .map(({ id, location, activities }: ActivityBlock) => ({ id, location: location || '', activities }));
-                    } else if (loadedBody.projectActivities) { // even older format
-                        general = loadedBody.projectActivities;
-                    } else if (loadedText && loadedText.projectActivities) { // legacy textData format
-                         general = loadedText.projectActivities;
-                    }
-                    
-                    finalBodyData = {
-                        generalActivity: general,
-                        locationActivities: locations,
-                        communication: loadedBody.communication || loadedText?.communication || '',
-                        weatherAndGroundConditions: loadedBody.weatherAndGroundConditions || loadedText?.weatherAndGroundConditions ||'',
-                        environmentalProtection: loadedBody.environmentalProtection || loadedText?.environmentalProtection || '',
-                        wildlifeObservations: loadedBody.wildlifeObservations || loadedText?.wildlifeObservations || '',
-                        furtherRestoration: loadedBody.furtherRestoration || loadedText?.furtherRestoration || '',
-                    };
-                }
-                
-                let loadedHeaderWithDefaults = { ...headerData, ...loadedHeader };
-                if (loadedHeader.envFile !== undefined) {
-                    migrationOccurred = true;
-                    loadedHeaderWithDefaults.envFileType = 'ENV File #';
-                    loadedHeaderWithDefaults.envFileValue = loadedHeader.envFile;
-                    delete (loadedHeaderWithDefaults as any).envFile;
-                }
+    const draftData = useMemo(() => ({ headerData, bodyData, photosData, exportSettings, continuedFrom }), [headerData, bodyData, photosData, exportSettings, continuedFrom]);
+    const { lastSavedAt, markSaved: markDraftSaved } = useDraftAutosave('dfrStandard', initialData, {
+        name: headerData.projectName || 'Untitled DFR',
+        projectNumber: headerData.projectNumber,
+        projectData: draftData,
+    });
 
-                setHeaderData(loadedHeaderWithDefaults);
-                setBodyData(finalBodyData);
-
-                const hydratedPhotos = await Promise.all(
-                    loadedPhotos.map(async (photo: PhotoData) => {
-                        if (photo.imageId && !photo.imageUrl) {
-                            const imageUrl = await retrieveImage(photo.imageId);
-                            return { ...photo, imageUrl: imageUrl || null };
-                        }
-                        return photo;
-                    })
-                );
-                setPhotosData(hydratedPhotos);
-
-                if (migrationOccurred) {
-                    setShowMigrationNotice(true);
-                }
-                
-                const formattedDate = formatDateForRecentProject(loadedHeaderWithDefaults.date);
-                const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
-                const projectName = `${loadedHeaderWithDefaults.projectName || 'Untitled DFR'}${dateSuffix}`;
-
-                const stateForRecent = { headerData: loadedHeaderWithDefaults, bodyData: finalBodyData, photosData };
-                await addRecentProject(stateForRecent, {
-                    type: 'dfrStandard',
-                    name: projectName,
-                    projectNumber: loadedHeaderWithDefaults.projectNumber
-                });
-            } else {
+    const applyLoadedProject = async (projectData: any) => {
+        const { project, migrated } = migrateProject('dfrStandard', projectData);
+        const loadedHeader: DfrHeaderData = { ...headerData, ...project.headerData };
+        const loadedBody: DfrStandardBodyData = { ...bodyData, ...project.bodyData };
+        const loadedExportSettings = project.exportSettings || DEFAULT_PDF_EXPORT_SETTINGS;
+
+        setHeaderData(loadedHeader);
+        setBodyData(loadedBody);
+        setExportSettings(loadedExportSettings);
+        setContinuedFrom(project.continuedFrom);
+
+        const hydratedPhotos = await loadPhotoThumbnails(project.photosData);
+        setPhotosData(hydratedPhotos);
+
+        if (migrated) {
+            setShowMigrationNotice(true);
+        }
+        return { headerData: loadedHeader, bodyData: loadedBody, photosData: project.photosData, exportSettings: loadedExportSettings, continuedFrom: project.continuedFrom };
+    };
+
+    const parseAndLoadProject = async (fileData: Uint8Array) => {
+        try {
+            const projectData = await readProjectFile(fileData);
+            if (!projectData.headerData || !(projectData.bodyData || projectData.textData) || !Array.isArray(projectData.photosData)) {
                 alert('Invalid project file format.');
+                return;
             }
+            const loaded = await applyLoadedProject(projectData);
+
+            const formattedDate = formatDateForRecentProject(loaded.headerData.date);
+            const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
+            const projectName = `${loaded.headerData.projectName || 'Untitled DFR'}${dateSuffix}`;
+
+            await saveReportToRegistry(loaded, {
+                type: 'dfrStandard',
+                name: projectName,
+                projectNumber: loaded.headerData.projectNumber
+            });
+            markDraftSaved();
         } catch (error) {
-            alert('Error parsing project file. Ensure it is a valid project file.');
+            alert(describeProjectFileError(error));
             console.error(error);
         }
     };
@@ -514,46 +256,11 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
     useEffect(() => {
         const loadInitialData = async () => {
             if (initialData) {
-                 const { headerData: loadedHeader, bodyData: loadedBody, photosData: loadedPhotos } = initialData;
-                 setHeaderData(loadedHeader || {});
-                 
-                 // Handle migration on open from recent projects list
-                if (loadedBody.generalActivity !== undefined || loadedBody.locationActivities !== undefined) {
-                    setBodyData(loadedBody);
-                } else {
-                    let general = '';
-                    let locations: LocationActivity[] = [];
-                    if (loadedBody.activityBlocks && Array.isArray(loadedBody.activityBlocks)) {
-                        const generalBlock = loadedBody.activityBlocks.find((b: ActivityBlock) => b.type === 'general');
-                        general = generalBlock ? generalBlock.activities : '';
-                        locations = loadedBody.activityBlocks
-                            .filter((b: ActivityBlock) => b.type === 'location')
-                            .map(({ id, location, activities }: ActivityBlock) => ({ id, location: location || '', activities }));
-                    } else if (loadedBody.projectActivities) {
-                        general = loadedBody.projectActivities;
-                    }
-                    setBodyData({
-                        generalActivity: general,
-                        locationActivities: locations,
-                        communication: loadedBody.communication || '',
-                        weatherAndGroundConditions: loadedBody.weatherAndGroundConditions || '',
-                        environmentalProtection: loadedBody.environmentalProtection || '',
-                        wildlifeObservations: loadedBody.wildlifeObservations || '',
-                        furtherRestoration: loadedBody.furtherRestoration || '',
-                    });
-                }
-
-                 if (loadedPhotos && Array.isArray(loadedPhotos)) {
-                    const hydratedPhotos = await Promise.all(
-                        loadedPhotos.map(async (photo: PhotoData) => {
-                            if (photo.imageId && !photo.imageUrl) {
-                                const imageUrl = await retrieveImage(photo.imageId);
-                                return { ...photo, imageUrl: imageUrl || null };
-                            }
-                            return photo;
-                        })
-                    );
-                    setPhotosData(hydratedPhotos);
+                await applyLoadedProject(initialData);
+                // Only a stored project has a timestamp. A restored draft is still unsaved, and so is a
+                // new report built from a template, the project defaults or another report.
+                if (!initialData.draftId && typeof initialData.timestamp === 'number') {
+                    markDraftSaved(initialData.timestamp);
                 }
             }
         };
@@ -620,6 +327,30 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
     const handlePhotoDataChange = (id: number, field: keyof Omit<PhotoData, 'id' | 'imageUrl' | 'imageId'>, value: string) => {
         setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, [field]: value } : photo));
     };
+
+    const handlePhotoCoordinatesChange = (id: number, point: GeoPoint | null) => {
+        setPhotosData(prev => prev.map(photo => photo.id === id
+            ? { ...photo, latitude: point?.latitude, longitude: point?.longitude }
+            : photo));
+    };
+
+    const handleMapPhotoClick = (id: number) => {
+        const photo = photosData.find(p => p.id === id);
+        if (photo?.imageUrl) {
+            setEnlargedImageUrl(photo.imageUrl);
+        } else {
+            document.getElementById(getSearchTargetElementId({ kind: 'photo', id }))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    };
+
+    const handleLocationActivityCoordinatesChange = (id: number, point: GeoPoint | null) => {
+        setBodyData(prev => ({
+            ...prev,
+            locationActivities: prev.locationActivities.map(block => block.id === id
+                ? { ...block, latitude: point?.latitude, longitude: point?.longitude }
+                : block)
+        }));
+    };
     
     const handleImageChange = (id: number, file: File) => {
         const allowedTypes = ['image/jpeg', 'image/png'];
@@ -631,25 +362,81 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
         const reader = new FileReader();
         reader.onload = (e) => {
              const dataUrl = e.target?.result as string;
-             autoCropImage(dataUrl).then(croppedImageUrl => {
-                setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: croppedImageUrl } : photo));
+             autoCropImage(dataUrl).then(async croppedImageUrl => {
+                const sourceImageId = await storeOriginalImage(dataUrl);
+                const exif = readExif(await file.arrayBuffer());
+                setPhotosData(prev => prev.map(photo => photo.id === id ? { ...applyExifToPhoto(photo, exif, headerData.date), imageUrl: croppedImageUrl, sourceImageId } : photo));
+             }).catch(e => {
+                 console.error('Failed to read the chosen image:', e);
+                 alert('This image could not be read. Please choose a different JPG or PNG file.');
              });
         };
         reader.readAsDataURL(file);
     };
 
-    const renumberPhotos = (photos: PhotoData[]) => {
-        let photoCounter = 0;
-        let mapCounter = 0;
-        return photos.map((photo) => {
-            if (photo.isMap) {
-                 mapCounter++;
-                 return { ...photo, photoNumber: `Map ${mapCounter}` };
-            } else {
-                photoCounter++;
-                return { ...photo, photoNumber: String(photoCounter) };
+    const handlePhotoFilesDropped = async (files: File[]) => {
+        const imageFiles = files.filter(isSupportedImageFile);
+        const archiveFiles = files.filter(isPhotoArchiveFile);
+        if (imageFiles.length === 0 && archiveFiles.length === 0) {
+            setShowUnsupportedFileModal(true);
+            return;
+        }
+
+        setStatusMessage(imageFiles.length > 0 ? `Importing ${imageFiles.length} photo(s)...` : 'Reading photo archive...');
+        setStatusProgress(0);
+        setShowStatusModal(true);
+        try {
+            const onProgress = (done: number, total: number) => {
+                setStatusMessage(`Importing photo ${Math.min(done + 1, total)} of ${total}...`);
+                setStatusProgress(done / total);
+            };
+            const imported = imageFiles.length > 0 ? await importPhotoFiles(imageFiles, autoCropImage, onProgress) : [];
+            for (const archive of archiveFiles) {
+                try {
+                    imported.push(...await importPhotoArchive(archive, autoCropImage, onProgress));
+                } catch (e) {
+                    console.error(`Failed to import photos from ${archive.name}:`, e);
+                    alert(e instanceof Error ? e.message : `Could not import photos from ${archive.name}.`);
+                }
             }
-        });
+            setPhotosData(prev => {
+                let nextId = prev.length > 0 ? Math.max(...prev.map(p => p.id)) + 1 : 1;
+                const newPhotos = imported.map(({ imageUrl, sourceImageId, exif, details }) => {
+                    const newPhoto: PhotoData = {
+                        id: nextId++,
+                        photoNumber: '', // Will be re-assigned by renumberPhotos
+                        date: '',
+                        location: '',
+                        description: '',
+                        imageUrl,
+                        sourceImageId,
+                        direction: '',
+                    };
+                    const withExif = { ...applyExifToPhoto(newPhoto, exif), ...details };
+                    // Photos without a capture date fall back to the report date, as new entries do.
+                    return { ...withExif, date: withExif.date || headerData.date };
+                });
+                return renumberPhotos([...prev, ...newPhotos]);
+            });
+        } catch (e) {
+            console.error("Failed to import photos:", e);
+            alert("Some photos could not be imported. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+            setStatusProgress(undefined);
+        }
+    };
+
+    const handlePhotoArchiveSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) handlePhotoFilesDropped([file]);
+    };
+
+    const handleImageEdited = async (id: number, editedImageUrl: string, sourceImageId: string) => {
+        const finalImageUrl = await autoCropImage(editedImageUrl);
+        setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: finalImageUrl, sourceImageId } : photo));
+        setEditingPhotoId(null);
     };
 
     const addPhoto = (isMap: boolean = false, insertAtIndex?: number) => {
@@ -679,10 +466,8 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
 
     const removePhoto = (id: number) => {
         setPhotosData(prev => {
-            const photoToRemove = prev.find(p => p.id === id);
-            if (photoToRemove && photoToRemove.imageId) {
-                deleteImage(photoToRemove.imageId).catch(err => console.error("Failed to delete image from DB", err));
-            }
+            // The image stays stored: saved and archived versions may still use it. Deleting the
+            // report or the storage cleanup reclaims it once nothing references it.
             return renumberPhotos(prev.filter(photo => photo.id !== id));
         });
     };
@@ -704,15 +489,18 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
         const photosForStorage = await Promise.all(
             photosData.map(async (photo) => {
                 if (photo.imageUrl) {
-                    const imageId = photo.imageId || `${headerData.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
-                    await storeImage(imageId, photo.imageUrl);
+                    // A thumbnail means the stored image is unchanged. New and edited images get a fresh
+                    // id, so the image an earlier or archived version points at is never overwritten.
+                    const isStored = isStoredImageUrl(photo.imageUrl) && !!photo.imageId;
+                    const imageId = isStored ? photo.imageId! : `${headerData.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
+                    if (!isStored) await storeImage(imageId, photo.imageUrl);
                     const { imageUrl, ...rest } = photo;
                     return { ...rest, imageId };
                 }
                 return photo;
             })
         );
-        return { headerData, bodyData, photosData: photosForStorage };
+        return { headerData, bodyData, photosData: photosForStorage, exportSettings, continuedFrom };
     };
 
     const handleSaveProject = async () => {
@@ -723,15 +511,15 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
         const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
         const projectName = `${headerData.projectName || 'Untitled DFR'}${dateSuffix}`;
 
-        await addRecentProject(stateForRecentProjects, {
+        await saveReportToRegistry(stateForRecentProjects, {
             type: 'dfrStandard',
             name: projectName,
             projectNumber: headerData.projectNumber,
         });
+        markDraftSaved();
         
-        // Second, prepare a self-contained state for file export with embedded images
-        const photosForExport = photosData.map(({ imageId, ...photo }) => photo);
-        const stateForFileExport = { headerData, bodyData, photosData: photosForExport };
+        // Second, package the project and its images into a self-contained file
+        const projectPackage = await createProjectPackage(withSchemaVersion({ headerData, bodyData, photosData, exportSettings, continuedFrom }));
 
         const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
         const formattedFilenameDate = formatDateForFilename(headerData.date);
@@ -742,9 +530,9 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
         // @ts-ignore
         if (window.electronAPI) {
             // @ts-ignore
-            await window.electronAPI.saveProject(JSON.stringify(stateForFileExport), filename);
+            await window.electronAPI.saveProject(projectPackage, filename);
         } else {
-            const blob = new Blob([JSON.stringify(stateForFileExport)], { type: 'application/json;charset=utf-8;' });
+            const blob = new Blob([projectPackage], { type: 'application/zip' });
             const link = document.createElement('a');
             link.href = URL.createObjectURL(blob);
             link.setAttribute('download', filename);
@@ -759,6 +547,7 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
         if (isDownloadingRef.current) return;
         isDownloadingRef.current = true;
     
+        let missingPhotos: PhotoData[] = [];
         try {
             setStatusMessage('Checking for photos...');
             setShowStatusModal(true);
@@ -777,28 +566,10 @@ const DfrStandard = ({ onBack, initialData }: DfrStandardProps): ReactElement =>
             await new Promise(resolve => setTimeout(resolve, 100));
     
             const zip = new JSZip();
-            let metadata = '';
-            const sanitizeFilename = (name: string) => name.replace(/[^a-z0-9_.\-]/gi, '_');
-    
-            for (const photo of photosWithImages) {
-                const photoNumberSanitized = sanitizeFilename(photo.photoNumber);
-                const filename = `${photoNumberSanitized}.jpg`;
-    
-                metadata += `---
-File: ${filename}
-Photo Number: ${photo.photoNumber}
-Date: ${photo.date || 'N/A'}
-Location: ${photo.location || 'N/A'}
-Direction: ${photo.direction || 'N/A'}
-Description: ${photo.description || 'N/A'}
----\n\n`;
-    
-                const response = await fetch(photo.imageUrl!);
-                const blob = await response.blob();
-                zip.file(filename, blob);
-            }
-    
-            zip.file('metadata.txt', metadata);
+            const formattedDate = formatDateForRecentProject(headerData.date);
+            const { files, missing } = await addPhotosToArchive(zip, photosWithImages, `${headerData.projectName || 'Untitled DFR'}${formattedDate ? ` - ${formattedDate}` : ''}`);
+            missingPhotos = missing;
+            addGeoFilesToZip(zip, [headerData.projectNumber, headerData.projectName].filter(Boolean).join(' ') || 'Photo locations', photosWithImages, files, bodyData.locationActivities);
             
             setStatusMessage('Creating zip file...');
             await new Promise(resolve => setTimeout(resolve, 100));
@@ -826,48 +597,19 @@ Description: ${photo.description || 'N/A'}
             setShowStatusModal(false);
             isDownloadingRef.current = false;
         }
-    }, [photosData, headerData]);
-
-    // Create a ref to hold the latest handler function.
-    const downloadHandlerRef = useRef(handleDownloadPhotos);
-    useEffect(() => {
-        downloadHandlerRef.current = handleDownloadPhotos;
-    }, [handleDownloadPhotos]);
-
-    // Create a stable listener function that always calls the latest handler from the ref.
-    const stableListener = useCallback(() => {
-        if (downloadHandlerRef.current) {
-            downloadHandlerRef.current();
+        if (missingPhotos.length > 0) {
+            alert(describeMissingPhotos(missingPhotos));
         }
-    }, []);
-
-    // Effect to add and remove the stable listener.
-    useEffect(() => {
-        const api = window.electronAPI;
-        if (api && api.onDownloadPhotos && api.removeAllDownloadPhotosListeners) {
-            // On mount, defensively remove any lingering listeners. This ensures that only
-            // this active component instance reacts to the download command from the main menu.
-            api.removeAllDownloadPhotosListeners();
-            
-            // Then, add the listener for this specific component instance.
-            api.onDownloadPhotos(stableListener);
-        }
-        
-        return () => {
-            // On unmount, clean up the listener we added to prevent memory leaks.
-            if (api && api.removeDownloadPhotosListener) {
-                api.removeDownloadPhotosListener(stableListener);
-            }
-        };
-    }, [stableListener]); // stableListener is memoized, so this effect runs once on mount/unmount.
+    }, [photosData, headerData, bodyData]);
 
+    useDownloadPhotosCommand(handleDownloadPhotos);
 
     const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
 
-        const fileContent = await file.text();
-        await parseAndLoadProject(fileContent);
+        const fileData = new Uint8Array(await file.arrayBuffer());
+        await parseAndLoadProject(fileData);
        
         if (event.target) {
             event.target.value = '';
@@ -878,9 +620,9 @@ Description: ${photo.description || 'N/A'}
         // @ts-ignore
         if (window.electronAPI) {
             // @ts-ignore
-            const fileContent = await window.electronAPI.loadProject('dfr');
-            if (fileContent) {
-                await parseAndLoadProject(fileContent);
+            const fileData = await window.electronAPI.loadProject('dfr');
+            if (fileData) {
+                await parseAndLoadProject(fileData);
             }
         } else {
             fileInputRef.current?.click();
@@ -931,527 +673,151 @@ Description: ${photo.description || 'N/A'}
     };
 
 
-    const handleSavePdf = async () => {
-        if (!navigator.onLine) {
-            setShowNoInternetModal(true);
-            return;
+    const buildReportDocument = async (): Promise<ReportDocument> => {
+        const infoColumns: HeaderBlock['columns'] = [
+            [
+                { label: 'Date', value: headerData.date },
+                { label: 'Proponent', value: headerData.proponent },
+                { label: 'Location', value: headerData.location },
+            ],
+            [
+                { label: 'Project #', value: headerData.projectNumber },
+                { label: 'Monitor', value: headerData.monitor },
+                { label: headerData.envFileType, value: headerData.envFileValue },
+            ],
+        ];
+        const fullWidth = [{ label: 'Project Name', value: headerData.projectName }];
+
+        const body: BodyBlock[] = [];
+        if (bodyData.generalActivity || bodyData.locationActivities.length > 0) {
+            body.push({ kind: 'heading', text: 'Project Activities:' });
+            if (bodyData.generalActivity && bodyData.generalActivity.trim()) {
+                body.push({ kind: 'bulletList', text: bodyData.generalActivity });
+            }
+            bodyData.locationActivities.forEach(block => {
+                if (!block.activities || !block.activities.trim()) return;
+                body.push({ kind: 'heading', text: `Location: ${block.location || 'N/A'}`, level: 2 });
+                body.push({ kind: 'bulletList', text: block.activities, spaceAfter: 2 });
+            });
+        }
+        body.push(
+            ...textSection('Communication:', bodyData.communication),
+            ...textSection('Weather and Ground Conditions:', bodyData.weatherAndGroundConditions),
+            ...textSection('Environmental Protection Measures & Mitigation:', bodyData.environmentalProtection),
+            ...textSection('Wildlife Observations:', bodyData.wildlifeObservations),
+            ...textSection('Further Restoration or Monitoring Required:', bodyData.furtherRestoration),
+        );
+
+        const sitePhotos = photosData.filter(p => !p.isMap && p.imageUrl);
+        const mapPhotosData = photosData.filter(p => p.isMap && p.imageUrl);
+        const keyMap = exportSettings.includeKeyMap ? await buildKeyMapEntry(headerData.projectNumber, photosData, bodyData.locationActivities) : null;
+
+        return {
+            layout: 'dfr',
+            logo: xterraLogo,
+            bodyHeader: { title: 'DAILY FIELD REPORT', columns: infoColumns, fullWidth },
+            photoHeader: { title: 'PHOTOGRAPHIC LOG', columns: infoColumns, fullWidth },
+            body,
+            photos: await buildPhotoEntries(sitePhotos, dfrPhotoFields),
+            maps: [...(keyMap ? [keyMap] : []), ...await buildPhotoEntries(mapPhotosData, dfrPhotoFields)],
+        };
+    };
+
+    const handleSaveTemplate = async (name: string, client: string) => {
+        setShowSaveTemplate(false);
+        try {
+            await saveReportTemplate(createTemplateFromReport('dfrStandard', { headerData, bodyData }, name, client));
+            alert(`Template "${name.trim()}" saved. It will be offered when you start a new Daily Field Report.`);
+        } catch (e) {
+            console.error("Failed to save template:", e);
+            alert("Could not save the template. Your browser's storage might be full.");
         }
+    };
+
+    const handleSavePdf = () => {
         if (!validateForm()) return;
+        setShowExportSettings(true);
+    };
 
+    const saveToRecentProjects = async () => {
         const stateForSaving = await prepareStateForRecentProjectStorage();
     
         const formattedDate = formatDateForRecentProject(headerData.date);
         const dateSuffix = formattedDate ? ` - ${formattedDate}` : '';
         const projectName = `${headerData.projectName || 'Untitled DFR'}${dateSuffix}`;
 
-        await addRecentProject(stateForSaving, {
+        await saveReportToRegistry(stateForSaving, {
             type: 'dfrStandard',
             name: projectName,
             projectNumber: headerData.projectNumber
         });
+        markDraftSaved();
+    };
 
-        const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'letter' });
-        const pageWidth = doc.internal.pageSize.getWidth();
-        const pageHeight = doc.internal.pageSize.getHeight();
-        
-        const borderMargin = 12.7;
-        const contentPadding = 4;
-        const contentMargin = borderMargin + contentPadding;
-        const contentWidth = pageWidth - contentMargin * 2;
-        
-        const maxYPos = pageHeight - contentMargin;
-        let pageNum = 1;
-
-        const drawPageBorder = (docInstance: any) => {
-            docInstance.setDrawColor(0, 125, 140); // Teal
-            docInstance.setLineWidth(0.5);
-            const startX = borderMargin;
-            const endX = pageWidth - borderMargin;
-            const bottomY = pageHeight - borderMargin;
-
-            // Bottom line only
-            docInstance.line(startX, bottomY, endX, bottomY);
-        };
-
-        const drawProjectInfoBlock = (docInstance: any, startY: number, options: { drawTopLine?: boolean, drawBottomLine?: boolean } = {}) => {
-            const { drawTopLine = true, drawBottomLine = true } = options;
-            
-            const blockPaddingTop = 4;
-            const blockPaddingBottom = 0; // Move line up
-            
-            let yPos = startY + blockPaddingTop;
-
-            const drawField = (label: string, value: string, x: number, y: number, maxWidth: number): number => {
-                const labelText = (label || '').toUpperCase();
-                
-                docInstance.setFontSize(12);
-                docInstance.setFont('times', 'bold');
-                const labelWidth = docInstance.getTextWidth(labelText);
-                docInstance.text(labelText, x, y);
-                
-                docInstance.setFontSize(11);
-                docInstance.setFont('times', 'normal');
-                const valueMaxWidth = maxWidth - labelWidth - 2;
-                const valueLines = docInstance.splitTextToSize(value || ' ', valueMaxWidth);
-                docInstance.text(valueLines, x + labelWidth + 2, y);
-                
-                return docInstance.getTextDimensions(valueLines).h;
-            };
+    const handleGeneratePdf = async () => {
+        setShowExportSettings(false);
+        await saveToRecentProjects();
 
-            const col1Fields = [
-                {label: 'DATE:', value: headerData.date},
-                {label: 'PROPONENT:', value: headerData.proponent},
-                {label: 'LOCATION:', value: headerData.location},
-            ];
-            const col2Fields = [
-                {label: 'Project #:', value: headerData.projectNumber},
-                {label: 'MONITOR:', value: headerData.monitor},
-                {label: `${headerData.envFileType}:`, value: headerData.envFileValue},
-            ];
-            const fullWidthFields = [
-                {label: 'PROJECT NAME:', value: headerData.projectName},
-            ];
-        
-            const col1X = contentMargin;
-            const col1MaxWidth = contentWidth * 0.55;
-            const col2X = contentMargin + contentWidth * 0.60;
-            const col2MaxWidth = contentWidth * 0.40;
-            
-            let yPos1 = yPos;
-            let yPos2 = yPos;
-        
-            col1Fields.forEach(field => {
-                const height = drawField(field.label, field.value, col1X, yPos1, col1MaxWidth);
-                yPos1 += height + 1.5;
-            });
-        
-            col2Fields.forEach(field => {
-                const height = drawField(field.label, field.value, col2X, yPos2, col2MaxWidth);
-                yPos2 += height + 1.5;
-            });
-        
-            yPos = Math.max(yPos1, yPos2);
-        
-            fullWidthFields.forEach(field => {
-                const height = drawField(field.label, field.value, contentMargin, yPos, contentWidth);
-                yPos += height + 1.5;
+        setStatusMessage('Generating PDF...');
+        setShowStatusModal(true);
+        let oversizeWarning: string | null = null;
+        try {
+            const report = await renderReportWithinBudget(await buildReportDocument(), exportSettings, attempt => {
+                setStatusMessage(`Generating PDF (images at ${attempt.maxImageSize}px, ${Math.round(attempt.jpegQuality * 100)}% quality)...`);
             });
-
-
-            const fieldsEndY = yPos;
-            const blockBottomY = fieldsEndY - 1.5 + blockPaddingBottom;
-            
-            docInstance.setDrawColor(0, 125, 140); // Teal
-            docInstance.setLineWidth(0.5);
-            if (drawTopLine) {
-                docInstance.line(borderMargin, startY, pageWidth - borderMargin, startY);
+            if (!report.withinTarget) {
+                oversizeWarning = `The PDF is ${formatFileSize(report.sizeBytes)}, which is still over the ${exportSettings.targetSizeMb} MB target at the lowest image quality.`;
             }
-            if (drawBottomLine) {
-                docInstance.line(borderMargin, blockBottomY, pageWidth - borderMargin, blockBottomY);
-            }
-
-            return blockBottomY;
-        };
-        
-        const drawDfrHeader = (docInstance: any) => {
-            const headerContentStartY = contentMargin;
-
-            const logoUrl = "/assets/xterra-logo.jpg";
-            docInstance.addImage(logoUrl, 'JPEG', contentMargin, headerContentStartY, 40, 10);
-            
-            docInstance.setFontSize(18);
-            docInstance.setFont('times', 'bold');
-            docInstance.setTextColor(0, 125, 140);
-            docInstance.text('DAILY FIELD REPORT', pageWidth / 2, headerContentStartY + 7, { align: 'center' });
-            
-            docInstance.setTextColor(0, 0, 0);
-            
-            let yPos = headerContentStartY + 15;
-            
-            yPos = drawProjectInfoBlock(docInstance, yPos);
-            
-            return yPos + 6; // Keep content in same spot by increasing padding here
-        };
-
-        const drawPhotoPageHeader = (docInstance: any) => {
-            const startY = borderMargin;
 
-            const headerContentStartY = contentMargin;
-
-            const logoUrl = "/assets/xterra-logo.jpg";
-            docInstance.addImage(logoUrl, 'JPEG', contentMargin, headerContentStartY, 40, 10);
-
-            docInstance.setFontSize(18);
-            docInstance.setFont('times', 'bold');
-            docInstance.setTextColor(0, 125, 140);
-            const titleY = headerContentStartY + 7;
-            docInstance.text('PHOTOGRAPHIC LOG', pageWidth / 2, titleY, { align: 'center' });
-            
-            docInstance.setTextColor(0, 0, 0);
-            
-            let yPos = headerContentStartY + 15;
+            const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+            const formattedFilenameDate = formatDateForFilename(headerData.date);
+            const sanitizedProjectName = sanitize(headerData.projectName);
+            const filename = `${sanitizedProjectName || 'project'}_DFR_${formattedFilenameDate}.pdf`;
             
-            // Manually draw the top line since drawPageBorder no longer does it.
-            docInstance.setDrawColor(0, 125, 140); // Teal
-            docInstance.setLineWidth(0.5);
-            docInstance.line(borderMargin, yPos, pageWidth - borderMargin, yPos);
-
-            // The project info block is positioned at the top and should not draw its own top line
-            const yAfterBlock = drawProjectInfoBlock(docInstance, yPos, { drawTopLine: false });
-            return yAfterBlock + 1;
-        };
-        
-        let yPos = drawDfrHeader(doc);
-        
-        const renderTextWithBullets = (text: string, startY: number) => {
-            let y = startY;
-            doc.setFontSize(12);
-            doc.setFont('times', 'normal');
-            if (!text) return y;
-            const contentParagraphs = text.split('\n');
-
-            contentParagraphs.forEach(paragraph => {
-                if (paragraph.trim() === '') {
-                    if (y + 3 <= maxYPos) { y += 3; }
-                    return;
-                }
-                
-                const indentationMatch = paragraph.match(/^\s*/);
-                const indentation = indentationMatch ? indentationMatch[0].length : 0;
-                const indentLevel = Math.floor(indentation / 2);
-                const indentWidth = indentLevel * 5;
-
-                const trimmedPara = paragraph.trim();
-                const isBulleted = trimmedPara.startsWith('-');
-                const textToRender = isBulleted ? trimmedPara.substring(1).trim() : trimmedPara;
-
-                if (!textToRender) return;
-
-                const textMaxWidth = contentWidth - (isBulleted ? 5 : 0) - indentWidth;
-                const splitText = doc.splitTextToSize(textToRender, textMaxWidth);
-                const textHeight = doc.getTextDimensions(splitText).h;
-
-                if (y + textHeight > maxYPos) {
-                    drawPageBorder(doc); doc.addPage(); pageNum++; y = drawDfrHeader(doc);
-                    doc.setFontSize(12); doc.setFont('times', 'normal');
-                }
-                
-                const textX = contentMargin + (isBulleted ? 5 : 0) + indentWidth;
-
-                if (isBulleted) {
-                    const bulletX = contentMargin + 2 + indentWidth;
-                    doc.text('-', bulletX, y);
-                }
-                doc.text(splitText, textX, y);
-
-                y += textHeight + 2;
-            });
-            return y;
+            const pdfBlob = report.doc.output('blob');
+            const pdfUrl = URL.createObjectURL(pdfBlob);
+            setPdfPreview({ url: pdfUrl, filename });
+        } catch (error) {
+            console.error("Failed to generate PDF:", error);
+            alert("An unexpected error occurred while generating the PDF. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
         }
-
-        // Render Activity Blocks
-        if (bodyData.generalActivity || bodyData.locationActivities.length > 0) {
-            const mainTitle = 'Project Activities:';
-            doc.setFontSize(13); doc.setFont('times', 'bold');
-            const mainTitleDims = doc.getTextDimensions(mainTitle);
-            if (yPos + mainTitleDims.h + 2 > maxYPos) {
-                drawPageBorder(doc); doc.addPage(); pageNum++; yPos = drawDfrHeader(doc);
-            }
-            doc.text(mainTitle, contentMargin, yPos);
-            yPos += mainTitleDims.h + 2;
-
-            if (bodyData.generalActivity && bodyData.generalActivity.trim()) {
-                yPos = renderTextWithBullets(bodyData.generalActivity, yPos);
-            }
-
-            bodyData.locationActivities.forEach(block => {
-                if (!block.activities || !block.activities.trim()) return;
-                doc.setFontSize(12); doc.setFont('times', 'bold');
-                const subTitle = `Location: ${block.location || 'N/A'}`;
-                const subTitleHeight = doc.getTextDimensions(subTitle).h + 2;
-                if (yPos + subTitleHeight > maxYPos) {
-                    drawPageBorder(doc); doc.addPage(); pageNum++; yPos = drawDfrHeader(doc);
-                }
-                doc.text(subTitle, contentMargin, yPos);
-                yPos += subTitleHeight;
-                yPos = renderTextWithBullets(block.activities, yPos);
-                yPos += 2;
-            });
+        if (oversizeWarning) {
+            alert(oversizeWarning);
         }
+    };
 
-        const textSections = [
-            { title: 'Communication:', content: bodyData.communication },
-            { title: 'Weather and Ground Conditions:', content: bodyData.weatherAndGroundConditions },
-            { title: 'Environmental Protection Measures & Mitigation:', content: bodyData.environmentalProtection },
-            { title: 'Wildlife Observations:', content: bodyData.wildlifeObservations },
-            { title: 'Further Restoration or Monitoring Required:', content: bodyData.furtherRestoration },
-        ];
-
-        textSections.forEach(({ title, content }) => {
-            if (!content || !content.trim()) return;
-            const spaceBeforeSection = 4;
-            doc.setFontSize(13); doc.setFont('times', 'bold');
-            const titleHeight = doc.getTextDimensions(title).h + 2;
-            if (yPos + spaceBeforeSection + titleHeight > maxYPos) {
-                drawPageBorder(doc); doc.addPage(); pageNum++; yPos = drawDfrHeader(doc);
-            } else {
-                yPos += spaceBeforeSection;
-            }
-            doc.setFontSize(13); doc.setFont('times', 'bold');
-            doc.text(title, contentMargin, yPos);
-            yPos += titleHeight;
-            yPos = renderTextWithBullets(content, yPos);
-        });
-
-
-        drawPageBorder(doc);
-        
-        const sitePhotos = photosData.filter(p => !p.isMap && p.imageUrl);
-        const mapPhotosData = photosData.filter(p => p.isMap && p.imageUrl);
-        
-        const calculatePhotoEntryHeight = async (docInstance: any, photo: PhotoData): Promise<number> => {
-            const gap = 5;
-            const availableWidth = contentWidth - gap;
-            const textBlockWidth = availableWidth * 0.35;
-            const imageBlockWidth = availableWidth * 0.65;
-            
-            docInstance.setFontSize(12);
-            let textHeight = 0;
-            const textMetrics = docInstance.getTextDimensions('Photo');
-            textHeight += textMetrics.h * 0.75;
-            
-            const measureField = (label: string, value: string) => {
-                const labelText = `${label}:`;
-                docInstance.setFont('times', 'bold');
-                const labelWidth = docInstance.getTextWidth(labelText);
-                docInstance.setFont('times', 'normal');
-                const valueMaxWidth = textBlockWidth - labelWidth - 2;
-                const valueLines = docInstance.splitTextToSize(value || ' ', valueMaxWidth);
-                return docInstance.getTextDimensions(valueLines).h + 1.5;
-            };
-
-            textHeight += measureField(photo.isMap ? "Map" : "Photo", photo.photoNumber);
-            if (!photo.isMap) textHeight += measureField("Direction", photo.direction || 'N/A');
-            textHeight += measureField("Date", photo.date);
-            textHeight += measureField("Location", photo.location);
-            textHeight += 5;
-            const descLines = docInstance.splitTextToSize(photo.description || ' ', textBlockWidth);
-            textHeight += docInstance.getTextDimensions(descLines).h;
-
-            let imageH = 0;
-            if (photo.imageUrl) {
-                try {
-                    const { width, height } = await getImageDimensions(photo.imageUrl);
-                    imageH = height * (imageBlockWidth / width);
-                } catch (e) {
-                    console.error("Could not load image for height calculation", e);
-                }
-            }
-            return Math.max(textHeight, imageH);
-        };
-        
-        const drawPhotoEntryText = (docInstance: any, photo: PhotoData, xStart: number, yStart: number, textBlockWidth: number) => {
-            docInstance.setFontSize(12);
-            docInstance.setFont('times', 'normal');
-
-            const textMetrics = docInstance.getTextDimensions('Photo');
-            const ascent = textMetrics.h * 0.75;
-            let textY = yStart + ascent;
-
-            const drawTextField = (label: string, value: string) => {
-                docInstance.setFont('times', 'bold');
-                const labelText = `${label}:`;
-                docInstance.text(labelText, xStart, textY);
-                
-                docInstance.setFont('times', 'normal');
-                const labelWidth = docInstance.getTextWidth(labelText);
-                const valueMaxWidth = textBlockWidth - labelWidth - 2;
-                const valueLines = docInstance.splitTextToSize(value || ' ', valueMaxWidth);
-                docInstance.text(valueLines, xStart + labelWidth + 2, textY);
-                textY += docInstance.getTextDimensions(valueLines).h + 1.5;
-            };
-
-            drawTextField(photo.isMap ? "Map" : "Photo", photo.photoNumber);
-            if (!photo.isMap) drawTextField("Direction", photo.direction || 'N/A');
-            drawTextField("Date", photo.date);
-            drawTextField("Location", photo.location);
-
-            docInstance.setFont('times', 'bold');
-            docInstance.text(`Description:`, xStart, textY);
-            textY += 5;
-            docInstance.setFont('times', 'normal');
-            const descLines = docInstance.splitTextToSize(photo.description || ' ', textBlockWidth);
-            docInstance.text(descLines, xStart, textY);
-        };
-        
-        const drawPhotoEntry = async (docInstance: any, photo: PhotoData, yStart: number) => {
-            const gap = 5;
-            const availableWidth = contentWidth - gap;
-            const textBlockWidth = availableWidth * 0.35;
-            const imageBlockWidth = availableWidth * 0.65;
-            const imageX = contentMargin + textBlockWidth + gap;
-            
-            drawPhotoEntryText(docInstance, photo, contentMargin, yStart, textBlockWidth);
-
-            if (photo.imageUrl) {
-                const { width, height } = await getImageDimensions(photo.imageUrl);
-                const scaledHeight = height * (imageBlockWidth / width);
-                docInstance.addImage(photo.imageUrl, 'JPEG', imageX, yStart, imageBlockWidth, scaledHeight);
-            }
-        };
-
-        if (sitePhotos.length > 0) {
-            const entryHeights = await Promise.all(sitePhotos.map(p => calculatePhotoEntryHeight(doc, p)));
-            const dummyDoc = new jsPDF();
-            const yAfterHeader = drawPhotoPageHeader(dummyDoc);
-            const pageContentHeight = maxYPos - yAfterHeader;
-            
-            const pages: number[][] = [];
-            let currentPageGroup: number[] = [];
-            let currentHeight = 0;
-
-            sitePhotos.forEach((_, i) => {
-                const photoHeight = entryHeights[i];
-                if (currentPageGroup.length === 0) {
-                    currentPageGroup.push(i);
-                    currentHeight = photoHeight;
-                } else if (currentPageGroup.length === 1) {
-                    if (currentHeight + photoHeight + 10 <= pageContentHeight) { 
-                        currentPageGroup.push(i);
-                    } else {
-                        pages.push(currentPageGroup);
-                        currentPageGroup = [i];
-                        currentHeight = photoHeight;
-                    }
-                }
-                
-                if (currentPageGroup.length === 2) {
-                    pages.push(currentPageGroup);
-                    currentPageGroup = [];
-                    currentHeight = 0;
-                }
-            });
-
-            if (currentPageGroup.length > 0) pages.push(currentPageGroup);
-
-            let isFirstPhotoPage = true;
-            for (const group of pages) {
-                doc.addPage(); pageNum++;
-                isFirstPhotoPage = false;
-                
-                let yPos = drawPhotoPageHeader(doc);
-                const photosOnPage = group.map(i => sitePhotos[i]);
-                const heightsOnPage = group.map(i => entryHeights[i]);
-                const availableHeight = maxYPos - yPos;
-
-                if (photosOnPage.length === 1) {
-                    await drawPhotoEntry(doc, photosOnPage[0], yPos);
-                } else {
-                    const totalContentHeight = heightsOnPage.reduce((sum, h) => sum + h, 0);
-                    const tightGap = 4; // The smaller gap above photos
-                    
-                    const totalRemainingSpace = availableHeight - totalContentHeight - (tightGap * 2);
-                    const largeGap = totalRemainingSpace > 0 ? totalRemainingSpace / 2 : 2;
-
-                    // Position first photo
-                    yPos += tightGap;
-                    await drawPhotoEntry(doc, photosOnPage[0], yPos);
-                    yPos += heightsOnPage[0];
-
-                    // Position separator line
-                    yPos += largeGap;
-                    doc.setDrawColor(0, 125, 140); // Teal
-                    doc.setLineWidth(0.5);
-                    doc.line(borderMargin, yPos, pageWidth - borderMargin, yPos);
-                    
-                    // Position second photo
-                    yPos += tightGap;
-                    await drawPhotoEntry(doc, photosOnPage[1], yPos);
-                }
-                drawPageBorder(doc);
-            }
-        }
-        
-        const calculateMapTextHeight = (docInstance: any, photo: PhotoData, textBlockWidth: number): number => {
-            let height = 0;
-            docInstance.setFontSize(12);
-            docInstance.setFont('times', 'normal');
-            
-            const textMetrics = docInstance.getTextDimensions('Photo');
-            height += textMetrics.h * 0.75; // ascent
-
-            const measureField = (label: string, value: string) => {
-                docInstance.setFont('times', 'bold');
-                const labelText = `${label}:`;
-                const labelWidth = docInstance.getTextWidth(labelText);
-                docInstance.setFont('times', 'normal');
-                const valueMaxWidth = textBlockWidth - labelWidth - 2;
-                const valueLines = docInstance.splitTextToSize(value || ' ', valueMaxWidth);
-                return docInstance.getTextDimensions(valueLines).h + 1.5;
-            };
-            
-            height += measureField("Map", photo.photoNumber);
-            height += measureField("Date", photo.date);
-            height += measureField("Location", photo.location);
-
-            // Replicate drawing logic's height calculation for description part
-            height += 5; // The gap from drawPhotoEntryText
-            const descLines = docInstance.splitTextToSize(photo.description || ' ', textBlockWidth);
-            height += docInstance.getTextDimensions(descLines).h;
+    const handleSaveDocx = async () => {
+        if (!validateForm()) return;
+        await saveToRecentProjects();
 
-            return height;
-        };
+        setStatusMessage('Generating Word document...');
+        setShowStatusModal(true);
+        try {
+            const docxBlob = await renderReportDocx(await buildReportDocument());
+            const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+            const filename = `${sanitize(headerData.projectName) || 'project'}_DFR_${formatDateForFilename(headerData.date)}.docx`;
 
-        if (mapPhotosData.length > 0) {
-            for (const map of mapPhotosData) {
-                doc.addPage(); 
-                pageNum++;
-        
-                let yPos = drawPhotoPageHeader(doc);
-                const footerAndGapHeight = 25;
-                const textBlockHeight = calculateMapTextHeight(doc, map, contentWidth);
-                const availableHeightForImage = pageHeight - yPos - footerAndGapHeight - textBlockHeight;
-                const availableWidthForImage = contentWidth;
-        
-                let yPosAfterImage = yPos;
-        
-                if (map.imageUrl) {
-                    const { width: imgW, height: imgH } = await getImageDimensions(map.imageUrl);
-                    
-                    const ratio = Math.min(availableWidthForImage / imgW, availableHeightForImage / imgH);
-                    const drawWidth = imgW * ratio;
-                    const drawHeight = imgH * ratio;
-                    
-                    const drawX = contentMargin + (availableWidthForImage - drawWidth) / 2;
-                    
-                    doc.addImage(map.imageUrl, 'JPEG', drawX, yPos, drawWidth, drawHeight);
-                    yPosAfterImage = yPos + drawHeight + 8; // Add a gap
-                }
-                
-                drawPhotoEntryText(doc, map, contentMargin, yPosAfterImage, contentWidth);
-                
-                drawPageBorder(doc);
+            // @ts-ignore
+            if (window.electronAPI?.saveDocxFile) {
+                // @ts-ignore
+                await window.electronAPI.saveDocxFile(await docxBlob.arrayBuffer(), filename);
+            } else {
+                const link = document.createElement('a');
+                link.href = URL.createObjectURL(docxBlob);
+                link.setAttribute('download', filename);
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(link.href);
             }
+        } catch (error) {
+            console.error("Failed to generate Word document:", error);
+            alert("An unexpected error occurred while generating the Word document. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
         }
-
-        const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
-        const formattedFilenameDate = formatDateForFilename(headerData.date);
-        const sanitizedProjectName = sanitize(headerData.projectName);
-        const filename = `${sanitizedProjectName || 'project'}_DFR_${formattedFilenameDate}.pdf`;
-        
-        const totalPages = doc.internal.getNumberOfPages();
-        for (let i = 1; i <= totalPages; i++) {
-            doc.setPage(i);
-            doc.setFontSize(10);
-            doc.setFont('times', 'normal');
-            doc.setTextColor(0, 0, 0);
-            const footerTextY = pageHeight - borderMargin + 4;
-            doc.text(`Page ${i} of ${totalPages}`, pageWidth - borderMargin, footerTextY, { align: 'right' });
-        }
-        
-        const pdfBlob = doc.output('blob');
-        const pdfUrl = URL.createObjectURL(pdfBlob);
-        setPdfPreview({ url: pdfUrl, filename });
     };
 
     const getHeaderErrors = (): Set<keyof DfrHeaderData> => {
@@ -1475,8 +841,11 @@ Description: ${photo.description || 'N/A'}
         return photoErrors;
     };
     
+    const editingPhoto = photosData.find(p => p.id === editingPhotoId);
+    const enlargedPhoto = photosData.find(p => p.imageUrl === enlargedImageUrl);
+
     return (
-        <div className="bg-gray-100 min-h-screen">
+        <PhotoDropZone className="bg-gray-100 min-h-screen" onFilesDropped={handlePhotoFilesDropped}>
             {pdfPreview && (
                 <PdfPreviewModal 
                     url={pdfPreview.url} 
@@ -1485,9 +854,31 @@ Description: ${photo.description || 'N/A'}
                 />
             )}
             {enlargedImageUrl && (
-                <ImageModal imageUrl={enlargedImageUrl} onClose={() => setEnlargedImageUrl(null)} />
+                <ImageModal
+                    imageUrl={enlargedImageUrl}
+                    imageId={enlargedPhoto?.imageId}
+                    onClose={() => setEnlargedImageUrl(null)}
+                    onEdit={enlargedPhoto ? () => { setEnlargedImageUrl(null); setEditingPhotoId(enlargedPhoto.id); } : undefined}
+                />
+            )}
+            {showStatusModal && <ActionStatusModal message={statusMessage} progress={statusProgress} />}
+            {showExportSettings && (
+                <PdfExportSettingsModal
+                    settings={exportSettings}
+                    onSettingsChange={setExportSettings}
+                    buildReport={buildReportDocument}
+                    onGenerate={handleGeneratePdf}
+                    onClose={() => setShowExportSettings(false)}
+                />
+            )}
+            {showSaveTemplate && <SaveTemplateModal defaultClient={headerData.proponent} onSave={handleSaveTemplate} onClose={() => setShowSaveTemplate(false)} />}
+            {editingPhoto && (
+                <ImageEditor
+                    photo={editingPhoto}
+                    onSave={(imageUrl, sourceImageId) => handleImageEdited(editingPhoto.id, imageUrl, sourceImageId)}
+                    onClose={() => setEditingPhotoId(null)}
+                />
             )}
-            {showStatusModal && <ActionStatusModal message={statusMessage} />}
             <SpecialCharacterPalette />
             <div className="max-w-7xl mx-auto p-4 md:p-8">
                 {showMigrationNotice && (
@@ -1508,9 +899,12 @@ Description: ${photo.description || 'N/A'}
                     </div>
                 )}
                 <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
-                    <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
-                        <ArrowLeftIcon /> <span>Home</span>
-                    </button>
+                    <div className="flex items-center gap-4">
+                        <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <ArrowLeftIcon /> <span>Home</span>
+                        </button>
+                        <LastSavedIndicator lastSavedAt={lastSavedAt} />
+                    </div>
                     <div className="flex flex-wrap justify-end gap-2">
                         <button onClick={handleOpenProject} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
                             <FolderOpenIcon /> <span>Open Project</span>
@@ -1525,6 +919,9 @@ Description: ${photo.description || 'N/A'}
                         <button onClick={handleSaveProject} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
                             <SaveIcon /> <span>Save Project</span>
                         </button>
+                        <button onClick={() => setShowSaveTemplate(true)} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DocumentDuplicateIcon /> <span>Save as Template</span>
+                        </button>
                         {/* @ts-ignore */}
                         {!window.electronAPI && (
                             <button onClick={handleDownloadPhotos} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
@@ -1534,14 +931,20 @@ Description: ${photo.description || 'N/A'}
                         <button onClick={handleSavePdf} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
                             <DownloadIcon /> <span>Save to PDF</span>
                         </button>
+                        <button onClick={handleSaveDocx} className="bg-sky-700 hover:bg-sky-800 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DocumentTextIcon /> <span>Save to Word</span>
+                        </button>
                     </div>
                 </div>
                 
                 <div className="main-content space-y-8">
-                    <DfrHeader data={headerData} onDataChange={handleHeaderChange} errors={getHeaderErrors()} placeholders={dfrPlaceholders.header} />
+                    <div id={getSearchTargetElementId({ kind: 'header' })}>
+                        <DfrHeader data={headerData} onDataChange={handleHeaderChange} errors={getHeaderErrors()} placeholders={dfrPlaceholders.header} />
+                    </div>
                     
                     <Section title="Project Activities">
                          <BulletPointEditor 
+                            id={getSearchTargetElementId({ kind: 'field', field: 'generalActivity' })}
                             label="General Activity"
                             value={bodyData.generalActivity} 
                             onChange={handleGeneralActivityChange} 
@@ -1553,6 +956,7 @@ Description: ${photo.description || 'N/A'}
                             {bodyData.locationActivities.map((block, index) => (
                                 <LocationBlockEntry 
                                     key={block.id}
+                                    id={getSearchTargetElementId({ kind: 'locationActivity', id: block.id })}
                                     data={block}
                                     onDataChange={updateLocationActivity}
                                     onRemove={removeLocationActivity}
@@ -1571,23 +975,31 @@ Description: ${photo.description || 'N/A'}
                     </Section>
 
                     <Section title="Communications & Conditions">
-                        <BulletPointEditor label="Communication" value={bodyData.communication} onChange={v => handleBodyDataChange('communication', v)} rows={3} placeholder={dfrPlaceholders.body.communication} isInvalid={errors.has('communication')}/>
-                        <BulletPointEditor label="Weather and Ground Conditions" value={bodyData.weatherAndGroundConditions} onChange={v => handleBodyDataChange('weatherAndGroundConditions', v)} rows={3} placeholder={dfrPlaceholders.body.weatherAndGroundConditions} isInvalid={errors.has('weatherAndGroundConditions')}/>
+                        <BulletPointEditor id={getSearchTargetElementId({ kind: 'field', field: 'communication' })} label="Communication" value={bodyData.communication} onChange={v => handleBodyDataChange('communication', v)} rows={3} placeholder={dfrPlaceholders.body.communication} isInvalid={errors.has('communication')}/>
+                        <BulletPointEditor id={getSearchTargetElementId({ kind: 'field', field: 'weatherAndGroundConditions' })} label="Weather and Ground Conditions" value={bodyData.weatherAndGroundConditions} onChange={v => handleBodyDataChange('weatherAndGroundConditions', v)} rows={3} placeholder={dfrPlaceholders.body.weatherAndGroundConditions} isInvalid={errors.has('weatherAndGroundConditions')}/>
                     </Section>
                     
                     <Section title="Environmental & Wildlife">
-                         <BulletPointEditor label="Environmental Protection Measures & Mitigation" value={bodyData.environmentalProtection} onChange={v => handleBodyDataChange('environmentalProtection', v)} rows={7} placeholder={dfrPlaceholders.body.environmentalProtection} isInvalid={errors.has('environmentalProtection')} />
-                         <BulletPointEditor label="Wildlife Observations" value={bodyData.wildlifeObservations} onChange={v => handleBodyDataChange('wildlifeObservations', v)} rows={3} placeholder={dfrPlaceholders.body.wildlifeObservations} isInvalid={errors.has('wildlifeObservations')}/>
-                         <BulletPointEditor label="Further Restoration or Monitoring Required" value={bodyData.furtherRestoration} onChange={v => handleBodyDataChange('furtherRestoration', v)} rows={3} placeholder={dfrPlaceholders.body.furtherRestoration} isInvalid={errors.has('furtherRestoration')} />
+                         <BulletPointEditor id={getSearchTargetElementId({ kind: 'field', field: 'environmentalProtection' })} label="Environmental Protection Measures & Mitigation" value={bodyData.environmentalProtection} onChange={v => handleBodyDataChange('environmentalProtection', v)} rows={7} placeholder={dfrPlaceholders.body.environmentalProtection} isInvalid={errors.has('environmentalProtection')} />
+                         <BulletPointEditor id={getSearchTargetElementId({ kind: 'field', field: 'wildlifeObservations' })} label="Wildlife Observations" value={bodyData.wildlifeObservations} onChange={v => handleBodyDataChange('wildlifeObservations', v)} rows={3} placeholder={dfrPlaceholders.body.wildlifeObservations} isInvalid={errors.has('wildlifeObservations')}/>
+                         <BulletPointEditor id={getSearchTargetElementId({ kind: 'field', field: 'furtherRestoration' })} label="Further Restoration or Monitoring Required" value={bodyData.furtherRestoration} onChange={v => handleBodyDataChange('furtherRestoration', v)} rows={3} placeholder={dfrPlaceholders.body.furtherRestoration} isInvalid={errors.has('furtherRestoration')} />
                     </Section>
 
                     <div className="border-t-4 border-[#007D8C] my-10" />
 
                     <h2 className="text-3xl font-bold text-gray-700 text-center">Photographic Log</h2>
+                    <SiteMapPanel
+                        projectNumber={headerData.projectNumber}
+                        photos={photosData}
+                        locationActivities={bodyData.locationActivities}
+                        onPhotoClick={handleMapPhotoClick}
+                        onPhotoCoordinatesChange={handlePhotoCoordinatesChange}
+                        onLocationActivityCoordinatesChange={handleLocationActivityCoordinatesChange}
+                    />
                     
                     <div>
                         {photosData.map((photo, index) => (
-                           <div key={photo.id}>
+                           <div key={photo.id} id={getSearchTargetElementId({ kind: 'photo', id: photo.id })}>
                                 <PhotoEntry
                                     data={photo}
                                     onDataChange={(field, value) => handlePhotoDataChange(photo.id, field, value)}
@@ -1598,6 +1010,7 @@ Description: ${photo.description || 'N/A'}
                                     isFirst={index === 0}
                                     isLast={index === photosData.length - 1}
                                     onImageClick={setEnlargedImageUrl}
+                                    onEditImage={() => setEditingPhotoId(photo.id)}
                                     errors={getPhotoErrors(photo.id)}
                                     showDirectionField={!photo.isMap}
                                 />
@@ -1629,6 +1042,20 @@ Description: ${photo.description || 'N/A'}
                             <PlusIcon />
                             <span>Add Photo</span>
                         </button>
+                        <button
+                            onClick={() => archiveInputRef.current?.click()}
+                            className="bg-white hover:bg-gray-100 text-[#007D8C] font-bold py-3 px-6 rounded-lg border-2 border-[#007D8C] shadow-md inline-flex items-center gap-2 transition duration-200 text-lg"
+                            title="Add the photos from a Download Photos zip, with their captions"
+                        >
+                            <FolderOpenIcon /><span>Import Photos from ZIP</span>
+                        </button>
+                        <input
+                            type="file"
+                            ref={archiveInputRef}
+                            onChange={handlePhotoArchiveSelected}
+                            style={{ display: 'none' }}
+                            accept=".zip"
+                        />
                          <button
                             onClick={() => addPhoto(true)}
                             className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-lg shadow-md inline-flex items-center gap-2 transition duration-200 text-lg"
@@ -1660,10 +1087,10 @@ Description: ${photo.description || 'N/A'}
                         />
                         <h3 className="text-2xl font-bold mb-2 text-gray-800">Unsupported File Type</h3>
                         <p className="text-gray-600">
-                            Please upload a supported image file.
+                            Please upload a supported image file or photo ZIP.
                         </p>
                         <p className="text-sm text-gray-500 mt-3">
-                            Supported formats: <strong>JPG, PNG</strong>
+                            Supported formats: <strong>JPG, PNG, ZIP</strong>
                         </p>
                     </div>
                 </div>
@@ -1693,24 +1120,7 @@ Description: ${photo.description || 'N/A'}
                     </div>
                 </div>
             )}
-             {showNoInternetModal && (
-                <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
-                    <div className="bg-white p-8 rounded-lg shadow-2xl text-center relative max-w-md">
-                        <button
-                            onClick={() => setShowNoInternetModal(false)}
-                            className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700"
-                            aria-label="Close"
-                        >
-                            <CloseIcon className="h-6 w-6" />
-                        </button>
-                        <h3 className="text-2xl font-bold mb-2 text-gray-800">No Internet Connection</h3>
-                        <p className="text-gray-600">
-                            An internet connection is required to save the PDF. Please connect to the internet and try again.
-                        </p>
-                    </div>
-                </div>
-            )}
-        </div>
+        </PhotoDropZone>
     );
 };
 
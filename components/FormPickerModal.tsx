@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FormDefinition } from '../types';
+import { CloseIcon, DownloadIcon, FolderOpenIcon, TrashIcon } from './icons';
+import {
+    exportFormDefinitionFile,
+    getFormDefinitions,
+    isBuiltInForm,
+    parseFormDefinitionFile,
+    removeFormDefinition,
+    saveFormDefinition,
+} from './formDefinitions';
+
+interface FormPickerModalProps {
+    /** The project number the report will be filed under, if started from a project. */
+    projectNumber?: string;
+    onSelect: (form: FormDefinition) => void;
+    onClose: () => void;
+}
+
+const FormPickerModal: React.FC<FormPickerModalProps> = ({ projectNumber, onSelect, onClose }) => {
+    const [forms, setForms] = useState<FormDefinition[] | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshForms = async () => {
+        setForms(await getFormDefinitions());
+    };
+
+    useEffect(() => {
+        refreshForms();
+    }, []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleDelete = async (form: FormDefinition) => {
+        if (!window.confirm(`Remove the form "${form.name}"? Reports already written on it keep their own copy and still open.`)) {
+            return;
+        }
+        try {
+            await removeFormDefinition(form.id);
+        } catch (e) {
+            console.error("Failed to delete form definition:", e);
+        }
+        await refreshForms();
+    };
+
+    const handleExport = async (form: FormDefinition) => {
+        try {
+            await exportFormDefinitionFile(form);
+        } catch (e) {
+            console.error("Failed to export form definition:", e);
+            alert("Could not export the form definition.");
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const form = parseFormDefinitionFile(await file.text());
+            const existing = forms?.find(f => f.id === form.id);
+            if (existing && !window.confirm(`Replace "${existing.name}" (version ${existing.version}) with version ${form.version}?`)) {
+                return;
+            }
+            await saveFormDefinition(form);
+            await refreshForms();
+        } catch (e) {
+            console.error("Failed to import form definition:", e);
+            alert(e instanceof Error ? e.message : "Could not import the form definition.");
+        }
+    };
+
+    const builtIn = (forms || []).filter(isBuiltInForm);
+    const custom = (forms || []).filter(form => !isBuiltInForm(form));
+
+    const renderForm = (form: FormDefinition) => (
+        <li key={form.id} className="flex items-center">
+            <button
+                onClick={() => onSelect(form)}
+                className="flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50 focus:outline-none focus:bg-gray-100"
+            >
+                <p className="font-semibold text-[#007D8C] truncate">{form.name}</p>
+                <p className="text-sm text-gray-500 truncate">
+                    {[form.client, `Version ${form.version}`, form.description].filter(Boolean).join(' · ')}
+                </p>
+            </button>
+            <button onClick={() => handleExport(form)} className="p-2 text-gray-500 hover:text-gray-800" aria-label={`Export ${form.name}`} title="Export definition">
+                <DownloadIcon className="h-5 w-5" />
+            </button>
+            {!isBuiltInForm(form) && (
+                <button onClick={() => handleDelete(form)} className="p-2 text-red-500 hover:text-red-700" aria-label={`Delete ${form.name}`} title="Remove form">
+                    <TrashIcon className="h-5 w-5" />
+                </button>
+            )}
+            <span className="w-2" />
+        </li>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">New Client Form Report</h2>
+                        {projectNumber && <p className="text-sm text-gray-500">For project {projectNumber}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close form picker">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-4 overflow-y-auto space-y-4">
+                    {forms === null ? (
+                        <p className="text-sm text-gray-500">Loading forms...</p>
+                    ) : (
+                        <>
+                            <div>
+                                <h3 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-1">Client forms</h3>
+                                {custom.length === 0 ? (
+                                    <p className="text-sm text-gray-500">
+                                        No client forms yet. Export a built-in form below as a starting point, edit its JSON for the client, then import it.
+                                    </p>
+                                ) : (
+                                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                                        {custom.map(renderForm)}
+                                    </ul>
+                                )}
+                            </div>
+                            <div>
+                                <h3 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-1">Built-in forms</h3>
+                                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                                    {builtIn.map(renderForm)}
+                                </ul>
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="flex justify-between items-center p-4 border-t">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="text-[#007D8C] hover:text-[#006b7a] font-semibold inline-flex items-center gap-2"
+                    >
+                        <FolderOpenIcon className="h-5 w-5" /> <span>Import form definition</span>
+                    </button>
+                    <input
+                        type="file"
+                        ref={fileInputRef}
+                        onChange={handleImport}
+                        style={{ display: 'none' }}
+                        accept=".json"
+                    />
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FormPickerModal;
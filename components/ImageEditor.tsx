@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PhotoData } from '../types';
+import { CloseIcon } from './icons';
+import { storeImageSource } from './db';
+import {
+    loadImage,
+    loadImageSource,
+    renderEditedImage,
+    resolveEdits,
+    unrotatePoint,
+    type ImageEditOperation,
+    type ImageSource,
+    type NormalizedPoint,
+} from './imageEdits';
+import { getFullImageUrl } from './photoImages';
+
+type Tool = 'crop' | 'arrow' | 'circle' | 'text';
+
+const TOOLS: { id: Tool; label: string }[] = [
+    { id: 'crop', label: 'Crop' },
+    { id: 'arrow', label: 'Arrow' },
+    { id: 'circle', label: 'Circle' },
+    { id: 'text', label: 'Text' },
+];
+
+const COLORS = ['#DC2626', '#FACC15', '#FFFFFF', '#000000'];
+
+const DISPLAY_SIZE = 1200;
+
+interface ImageEditorProps {
+    photo: PhotoData;
+    /** Called with the flattened image and the id of the stored original and edits. */
+    onSave: (imageUrl: string, sourceImageId: string) => void;
+    onClose: () => void;
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ photo, onSave, onClose }) => {
+    const [source, setSource] = useState<ImageSource | null>(null);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [operations, setOperations] = useState<ImageEditOperation[]>([]);
+    const [pendingOperation, setPendingOperation] = useState<ImageEditOperation | null>(null);
+    const [tool, setTool] = useState<Tool>('arrow');
+    const [color, setColor] = useState(COLORS[0]);
+    const [isSaving, setIsSaving] = useState(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragStartRef = useRef<NormalizedPoint | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const loaded = await loadImageSource(photo.sourceImageId, (await getFullImageUrl(photo)) || '');
+                setSource(loaded);
+                setOperations(loaded.operations);
+                setImage(await loadImage(loaded.original));
+            } catch (e) {
+                console.error("Failed to load image for editing:", e);
+                alert("Could not open this image for editing.");
+                onClose();
+            }
+        };
+        load();
+    }, [photo.sourceImageId, photo.imageUrl]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        document.body.style.overflow = 'hidden';
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            document.body.style.overflow = 'auto';
+        };
+    }, [onClose]);
+
+    // Redraw the preview whenever the edits change.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !image) return;
+        const allOperations = pendingOperation ? [...operations, pendingOperation] : operations;
+        const rendered = renderEditedImage(image, allOperations, { showCropOverlay: true, maxSize: DISPLAY_SIZE });
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+    }, [image, operations, pendingOperation]);
+
+    const { rotation } = resolveEdits(operations);
+
+    /** Converts a pointer position on the preview to a normalized point in the original image. */
+    const getImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): NormalizedPoint => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const rotated = {
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        };
+        return unrotatePoint(rotated, rotation);
+    };
+
+    const buildDragOperation = (from: NormalizedPoint, to: NormalizedPoint): ImageEditOperation | null => {
+        if (tool === 'crop') return { type: 'crop', from, to };
+        if (tool === 'arrow') return { type: 'arrow', from, to, color };
+        if (tool === 'circle') return { type: 'circle', from, to, color };
+        return null;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = getImagePoint(e);
+        if (tool === 'text') {
+            const text = window.prompt('Callout text:');
+            if (text && text.trim()) {
+                setOperations(prev => [...prev, { type: 'text', at: point, text: text.trim(), color }]);
+            }
+            return;
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragStartRef.current = point;
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!dragStartRef.current) return;
+        setPendingOperation(buildDragOperation(dragStartRef.current, getImagePoint(e)));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const from = dragStartRef.current;
+        dragStartRef.current = null;
+        setPendingOperation(null);
+        if (!from) return;
+        const to = getImagePoint(e);
+        // Ignore clicks that did not drag far enough to draw anything.
+        if (Math.abs(to.x - from.x) < 0.01 && Math.abs(to.y - from.y) < 0.01) return;
+        const operation = buildDragOperation(from, to);
+        if (operation) {
+            setOperations(prev => [...prev, operation]);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!image || !source) return;
+        setIsSaving(true);
+        try {
+            const flattened = renderEditedImage(image, operations).toDataURL('image/jpeg', 0.92);
+            // Always a new record: saved and archived versions keep the edits they were saved with.
+            const sourceImageId = `source-${Date.now()}-${photo.id}`;
+            const updatedSource: ImageSource = { original: source.original, operations };
+            await storeImageSource(sourceImageId, updatedSource);
+            onSave(flattened, sourceImageId);
+        } catch (e) {
+            console.error("Failed to save image edits:", e);
+            alert("Could not save the edited image. Your browser's storage might be full.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const toolButtonClass = (active: boolean) =>
+        `font-bold py-2 px-3 rounded-lg transition duration-200 ${active ? 'bg-[#007D8C] text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-6xl max-h-full flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold text-gray-800">Edit {photo.isMap ? 'Map' : 'Photo'} {photo.photoNumber}</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close editor">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 p-4 border-b">
+                    <button onClick={() => setOperations(prev => [...prev, { type: 'rotate', degrees: -90 }])} className={toolButtonClass(false)}>
+                        Rotate Left
+                    </button>
+                    <button onClick={() => setOperations(prev => [...prev, { type: 'rotate', degrees: 90 }])} className={toolButtonClass(false)}>
+                        Rotate Right
+                    </button>
+                    <span className="w-px h-8 bg-gray-300 mx-1" aria-hidden="true"></span>
+                    {TOOLS.map(({ id, label }) => (
+                        <button key={id} onClick={() => setTool(id)} className={toolButtonClass(tool === id)} aria-pressed={tool === id}>
+                            {label}
+                        </button>
+                    ))}
+                    <span className="w-px h-8 bg-gray-300 mx-1" aria-hidden="true"></span>
+                    {COLORS.map(c => (
+                        <button
+                            key={c}
+                            onClick={() => setColor(c)}
+                            className={`h-8 w-8 rounded-full border-2 ${color === c ? 'border-[#007D8C] ring-2 ring-[#007D8C]' : 'border-gray-300'}`}
+                            style={{ backgroundColor: c }}
+                            aria-label={`Use colour ${c}`}
+                            aria-pressed={color === c}
+                        />
+                    ))}
+                    <span className="w-px h-8 bg-gray-300 mx-1" aria-hidden="true"></span>
+                    <button onClick={() => setOperations(prev => prev.slice(0, -1))} disabled={operations.length === 0} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+                        Undo
+                    </button>
+                    <button onClick={() => setOperations([])} disabled={operations.length === 0} className={`${toolButtonClass(false)} disabled:opacity-40`}>
+                        Revert to Original
+                    </button>
+                </div>
+                <div className="flex-1 min-h-0 overflow-auto bg-gray-800 flex items-center justify-center p-4">
+                    {image ? (
+                        <canvas
+                            ref={canvasRef}
+                            className="max-w-full max-h-[65vh] cursor-crosshair touch-none"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                        />
+                    ) : (
+                        <p className="text-white">Loading image...</p>
+                    )}
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t">
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} disabled={!image || isSaving} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50">
+                        {isSaving ? 'Saving...' : 'Save Changes'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImageEditor;
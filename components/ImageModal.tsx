@@ -1,12 +1,37 @@
-import React, { useEffect } from 'react';
-import { CloseIcon } from './icons';
+import React, { useEffect, useState } from 'react';
+import { CloseIcon, PencilSquareIcon } from './icons';
+import { retrieveImageBlob } from './db';
+import { isStoredImageUrl } from './photoImages';
 
 interface ImageModalProps {
   imageUrl: string;
+  /** The stored image behind a thumbnail imageUrl, loaded at full resolution once the modal opens. */
+  imageId?: string;
   onClose: () => void;
+  onEdit?: () => void;
 }
 
-const ImageModal: React.FC<ImageModalProps> = ({ imageUrl, onClose }) => {
+const ImageModal: React.FC<ImageModalProps> = ({ imageUrl, imageId, onClose, onEdit }) => {
+  const [fullImageUrl, setFullImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageId || !isStoredImageUrl(imageUrl)) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    retrieveImageBlob(imageId)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setFullImageUrl(objectUrl);
+      })
+      .catch(err => console.error("Failed to load the full-resolution image", err));
+    return () => {
+      cancelled = true;
+      setFullImageUrl(null);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageUrl, imageId]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -36,13 +61,25 @@ const ImageModal: React.FC<ImageModalProps> = ({ imageUrl, onClose }) => {
       >
         <CloseIcon className="h-10 w-10" />
       </button>
+      {onEdit && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onEdit();
+          }}
+          className="absolute top-4 right-20 text-white hover:text-gray-300 transition-colors inline-flex items-center gap-2 font-bold"
+          aria-label="Edit image"
+        >
+          <PencilSquareIcon className="h-8 w-8" /> <span>Edit</span>
+        </button>
+      )}
 
       <div
         className="relative max-w-full max-h-full"
         onClick={(e) => e.stopPropagation()} // Prevent clicks on the image from closing the modal
       >
         <img
-          src={imageUrl}
+          src={fullImageUrl || imageUrl}
           alt="Enlarged view"
           className="object-contain max-w-[90vw] max-h-[90vh] rounded-lg shadow-2xl"
         />
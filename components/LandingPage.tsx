@@ -1,32 +1,53 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { DocumentTextIcon, CameraIcon, ClipboardDocumentListIcon, SearchIcon, FolderOpenIcon, EllipsisVerticalIcon, DocumentDuplicateIcon } from './icons';
 import { AppType } from '../App';
-import { deleteImage, deleteProject, retrieveProject } from './db';
-
-export interface RecentProject {
-    type: AppType;
-    name: string;
-    projectNumber: string;
-    timestamp: number; // Used as project ID
-}
+import { deleteDraft } from './db';
+import { getDrafts, type ProjectDraft } from './drafts';
+import { archiveReport, deleteReport, getProjectKey, getProjectRecords, restoreReport, type ProjectRecord, type ProjectReport } from './projectRegistry';
+import { applyRetentionPolicy, getRetentionPolicy } from './storageLifecycle';
+import { buildSearchIndex, searchReports, type SearchIndex, type SearchTarget } from './searchIndex';
+import StorageDashboardModal from './StorageDashboardModal';
+import TemplatePickerModal from './TemplatePickerModal';
+import ContinueReportModal from './ContinueReportModal';
+import FormPickerModal from './FormPickerModal';
+import SummaryPeriodModal from './SummaryPeriodModal';
+import { exportProjectGeoFiles } from './geoExport';
+import { isContinuableReportType, type ContinuableReportType } from './reportContinuation';
+import type { FormDefinition, ReportTemplate, TemplateReportType } from '../types';
+import xterraLogo from '../assets/xterra-logo.jpg';
 
 interface LandingPageProps {
   onSelectApp: (app: AppType) => void;
-  onOpenProject: (project: RecentProject) => void;
+  onOpenProject: (report: ProjectReport, target?: SearchTarget) => void;
+  onNewReport: (app: TemplateReportType, template: ReportTemplate | null, project: ProjectRecord | null) => void;
+  onNewFormReport: (form: FormDefinition, project: ProjectRecord | null) => void;
+  onNewSummaryReport: (project: ProjectRecord, periodStart: string, periodEnd: string) => void;
+  onContinueReport: (report: ProjectReport & { type: ContinuableReportType }, sections: string[]) => void;
+  onRestoreDraft: (draft: ProjectDraft) => void;
 }
 
-const RECENT_PROJECTS_KEY = 'xtec_recent_projects';
-const MAX_RECENT_PROJECTS = 5;
+const MAX_PROJECTS = 5;
+const MAX_MATCHES_PER_REPORT = 3;
 
+// Report types that can be started from a template or a project's defaults.
+const NEW_REPORT_TYPES: TemplateReportType[] = ['dfrStandard', 'dfrSaskpower', 'photoLog'];
 
-const getRecentProjects = (): RecentProject[] => {
-    try {
-        const projects = localStorage.getItem(RECENT_PROJECTS_KEY);
-        return projects ? JSON.parse(projects) : [];
-    } catch (e) {
-        console.error("Failed to parse recent projects from localStorage", e);
-        return [];
-    }
+// The report a continuation was started from, which may since have been archived.
+const findPredecessor = (project: ProjectRecord, report: ProjectReport): ProjectReport | undefined =>
+    report.continuedFrom === undefined
+        ? undefined
+        : [...project.reports, ...project.archived].find(r => r.timestamp === report.continuedFrom);
+
+const projectMatchesSearch = (project: ProjectRecord, term: string): boolean => {
+    const lowerTerm = term.toLowerCase();
+    const fields = [
+        project.projectNumber,
+        project.defaults.projectName,
+        project.defaults.proponent,
+        project.defaults.location,
+        ...project.reports.map(r => r.name),
+    ];
+    return fields.some(field => (field || '').toLowerCase().includes(lowerTerm));
 };
 
 const getReportTypeName = (type: AppType): string => {
@@ -39,6 +60,10 @@ const getReportTypeName = (type: AppType): string => {
             return 'Sask Power Daily Field Report';
         case 'combinedLog':
             return 'Combined Log';
+        case 'dfrForm':
+            return 'Client Form Daily Field Report';
+        case 'summaryReport':
+            return 'Summary Report';
         default:
             return 'Report';
     }
@@ -62,69 +87,112 @@ const AppSelectionCard: React.FC<{ title: string; description: string; icon: Rea
     </div>
 );
 
-const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject }) => {
-    const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject, onNewReport, onNewFormReport, onNewSummaryReport, onContinueReport, onRestoreDraft }) => {
+    const [projects, setProjects] = useState<ProjectRecord[]>([]);
+    const [drafts, setDrafts] = useState<ProjectDraft[]>([]);
     const [searchTerm, setSearchTerm] = useState('');
+    const [expandedProjectKey, setExpandedProjectKey] = useState<string | null>(null);
     const [openMenuTimestamp, setOpenMenuTimestamp] = useState<number | null>(null);
-    const [isRecentProjectsExpanded, setIsRecentProjectsExpanded] = useState(false);
+    const [isProjectListExpanded, setIsProjectListExpanded] = useState(false);
+    const [showArchivedKey, setShowArchivedKey] = useState<string | null>(null);
+    const [showStorage, setShowStorage] = useState(false);
+    const [searchIndex, setSearchIndex] = useState<SearchIndex | null>(null);
+    const [continuingReport, setContinuingReport] = useState<(ProjectReport & { type: ContinuableReportType }) | null>(null);
+    const [templatePicker, setTemplatePicker] = useState<{ type: TemplateReportType; project: ProjectRecord | null } | null>(null);
+    const [formPicker, setFormPicker] = useState<{ project: ProjectRecord | null } | null>(null);
+    const [summaryProject, setSummaryProject] = useState<ProjectRecord | null>(null);
+
+    const refreshProjects = async () => {
+        setProjects(await getProjectRecords());
+        setSearchIndex(null);
+    };
 
     useEffect(() => {
-        setRecentProjects(getRecentProjects());
+        applyRetentionPolicy(getRetentionPolicy())
+            .catch(e => console.error("Failed to apply the retention policy:", e))
+            .finally(refreshProjects);
+        getDrafts().then(setDrafts);
     }, []);
 
     const filteredProjects = useMemo(() => {
         if (!searchTerm) {
-            return recentProjects;
+            return projects;
         }
-        return recentProjects.filter(p => 
-            p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-            p.projectNumber.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-    }, [searchTerm, recentProjects]);
+        return projects.filter(p => projectMatchesSearch(p, searchTerm));
+    }, [searchTerm, projects]);
+
+    // The content index is built the first time it is needed and again after reports change.
+    useEffect(() => {
+        if (!searchTerm.trim() || searchIndex) return;
+        let cancelled = false;
+        buildSearchIndex()
+            .then(index => { if (!cancelled) setSearchIndex(index); })
+            .catch(e => console.error("Failed to build the search index:", e));
+        return () => { cancelled = true; };
+    }, [searchTerm, searchIndex]);
 
-    const handleRemoveFromRecent = (timestamp: number) => {
-        const updatedProjects = recentProjects.filter(p => p.timestamp !== timestamp);
-        localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updatedProjects));
-        setRecentProjects(updatedProjects);
+    const contentResults = useMemo(() => {
+        if (!searchIndex || !searchTerm.trim()) return [];
+        return searchReports(searchIndex, searchTerm);
+    }, [searchIndex, searchTerm]);
+
+    const handleDeleteReport = async (reportToDelete: ProjectReport) => {
         setOpenMenuTimestamp(null);
+        if (!window.confirm(`Are you sure you want to permanently delete "${reportToDelete.name || 'Untitled Project'}"? This action cannot be undone.`)) {
+            return;
+        }
+        try {
+            await deleteReport(reportToDelete);
+        } catch (e) {
+            console.error("Failed to delete report from the project registry:", e);
+        }
+        await refreshProjects();
     };
 
-    const handleDeleteProject = async (projectToDelete: RecentProject) => {
-        if (!window.confirm(`Are you sure you want to permanently delete "${projectToDelete.name || 'Untitled Project'}"? This action cannot be undone.`)) {
-            setOpenMenuTimestamp(null);
-            return;
+    const handleArchiveReport = async (report: ProjectReport) => {
+        setOpenMenuTimestamp(null);
+        try {
+            await archiveReport(report);
+        } catch (e) {
+            console.error("Failed to archive report:", e);
         }
+        await refreshProjects();
+    };
 
-        // 1. Remove from recent list in localStorage
-        const updatedProjects = recentProjects.filter(p => p.timestamp !== projectToDelete.timestamp);
-        localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updatedProjects));
-        setRecentProjects(updatedProjects);
+    const handleRestoreReport = async (report: ProjectReport) => {
+        try {
+            await restoreReport(report);
+        } catch (e) {
+            console.error("Failed to restore report from the archive:", e);
+        }
+        await refreshProjects();
+    };
 
-        // 2. Delete associated images from IndexedDB by first retrieving the project data
+    const handleExportLocations = async (project: ProjectRecord) => {
         try {
-            const projectData = await retrieveProject(projectToDelete.timestamp);
-            if (projectData?.photosData && Array.isArray(projectData.photosData)) {
-                for (const photo of projectData.photosData) {
-                    if (photo.imageId) {
-                        await deleteImage(photo.imageId);
-                    }
-                }
+            const count = await exportProjectGeoFiles(project.projectNumber);
+            if (count === 0) {
+                alert("None of this project's photos have a location yet.");
             }
         } catch (e) {
-            console.error("Failed to retrieve project data for image deletion:", e);
+            console.error("Failed to export photo locations:", e);
+            alert("Could not export the photo locations.");
         }
+    };
 
-        // 3. Delete the project itself from IndexedDB
+    const handleDiscardDraft = async (draft: ProjectDraft) => {
+        if (!window.confirm(`Discard the unsaved changes to "${draft.name}"? This action cannot be undone.`)) {
+            return;
+        }
         try {
-            await deleteProject(projectToDelete.timestamp);
-        } catch(e) {
-            console.error("Failed to delete project from DB:", e);
+            await deleteDraft(draft.id);
+            setDrafts(prev => prev.filter(d => d.id !== draft.id));
+        } catch (e) {
+            console.error("Failed to delete draft from DB:", e);
         }
-        
-        setOpenMenuTimestamp(null);
     };
-    
-    const projectsToShow = isRecentProjectsExpanded ? filteredProjects : filteredProjects.slice(0, MAX_RECENT_PROJECTS);
+
+    const projectsToShow = isProjectListExpanded ? filteredProjects : filteredProjects.slice(0, MAX_PROJECTS);
 
 
     return (
@@ -143,7 +211,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject })
                 <div className="bg-white rounded-lg shadow-xl p-8 md:p-12">
                     <div className="text-center border-b border-gray-200 pb-8">
                         <img
-                            src="https://ik.imagekit.io/fzpijprte/XTerraLogo2019_Horizontal.jpg?updatedAt=1758827714962"
+                            src={xterraLogo}
                             alt="X-TERRA Logo"
                             className="h-16 w-auto mx-auto mb-4"
                         />
@@ -155,24 +223,30 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject })
                         </p>
                     </div>
 
-                    <div className="mt-10 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                    <div className="mt-10 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                         <AppSelectionCard 
                             title="Photographic Log"
                             description="Create and edit photographic logs with project details and image uploads."
                             icon={<CameraIcon className="h-16 w-16" />}
-                            onClick={() => onSelectApp('photoLog')}
+                            onClick={() => setTemplatePicker({ type: 'photoLog', project: null })}
                         />
                         <AppSelectionCard 
                             title="Daily field Report"
                             description="A standard Daily Field Report for general project documentation."
                             icon={<DocumentTextIcon className="h-16 w-16" />}
-                            onClick={() => onSelectApp('dfrStandard')}
+                            onClick={() => setTemplatePicker({ type: 'dfrStandard', project: null })}
                         />
                         <AppSelectionCard 
                             title="Sask Power Daily Field Report"
                             description="Daily Field Report tailored for SaskPower projects."
                             icon={<ClipboardDocumentListIcon className="h-16 w-16" />}
-                            onClick={() => onSelectApp('dfrSaskpower')}
+                            onClick={() => setTemplatePicker({ type: 'dfrSaskpower', project: null })}
+                        />
+                        <AppSelectionCard 
+                            title="Client Form DFR"
+                            description="A Daily Field Report laid out by a client's form definition."
+                            icon={<ClipboardDocumentListIcon className="h-16 w-16" />}
+                            onClick={() => setFormPicker({ project: null })}
                         />
                          <AppSelectionCard 
                             title="Combined Log"
@@ -183,14 +257,67 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject })
                     </div>
                 </div>
 
+                {drafts.length > 0 && (
+                    <div className="mt-16">
+                        <div className="text-center mb-8">
+                            <h2 className="text-3xl font-extrabold text-gray-800 sm:text-4xl">
+                                Unsaved Drafts
+                            </h2>
+                            <p className="mt-3 text-lg text-gray-600 max-w-2xl mx-auto">
+                                These reports were closed before they were saved. Restore one to pick up where you left off.
+                            </p>
+                        </div>
+                        <div className="bg-white rounded-lg shadow-xl border-l-4 border-amber-400">
+                            <ul className="divide-y divide-gray-200">
+                                {drafts.map((draft) => (
+                                    <li key={draft.id} className="px-4 py-4 sm:px-6 flex items-center justify-between gap-4">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-lg font-semibold text-gray-800 truncate">
+                                                {draft.name}
+                                            </p>
+                                            <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                <span className="font-medium text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">{getReportTypeName(draft.type)}</span>
+                                                <span className="text-gray-300 hidden sm:inline">|</span>
+                                                <span>Project #: {draft.projectNumber || 'N/A'}</span>
+                                                <span className="text-gray-300 hidden sm:inline">|</span>
+                                                <span>Autosaved: {new Date(draft.savedAt).toLocaleString()}</span>
+                                            </div>
+                                        </div>
+                                        <div className="flex-shrink-0 flex gap-2">
+                                            <button
+                                                onClick={() => onRestoreDraft(draft)}
+                                                className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200"
+                                            >
+                                                Restore
+                                            </button>
+                                            <button
+                                                onClick={() => handleDiscardDraft(draft)}
+                                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200"
+                                            >
+                                                Discard
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                )}
+
                 <div className="mt-16">
                     <div className="text-center mb-8">
                          <h2 className="text-3xl font-extrabold text-gray-800 sm:text-4xl">
-                            Recent Projects
+                            Projects
                         </h2>
                         <p className="mt-3 text-lg text-gray-600 max-w-2xl mx-auto">
-                           Continue working on a previously saved report. Your projects are stored in this browser.
+                           Every saved report is filed under its project number. Open a project to continue a report or start a new one with the project's details filled in.
                         </p>
+                        <button
+                            onClick={() => setShowStorage(true)}
+                            className="mt-3 text-[#007D8C] hover:text-[#006b7a] font-semibold transition-colors duration-200"
+                        >
+                            Manage storage
+                        </button>
                     </div>
 
                     <div className="max-w-xl mx-auto mb-6">
@@ -202,7 +329,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject })
                                 type="search"
                                 value={searchTerm}
                                 onChange={(e) => setSearchTerm(e.target.value)}
-                                placeholder="Search by project name or number..."
+                                placeholder="Search by project number, name, proponent or report..."
                                 className="block w-full pl-10 pr-3 py-3 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-[#007D8C] focus:border-[#007D8C] sm:text-sm"
                             />
                         </div>
@@ -212,88 +339,298 @@ const LandingPage: React.FC<LandingPageProps> = ({ onSelectApp, onOpenProject })
                         {filteredProjects.length > 0 ? (
                             <>
                                 <ul className="divide-y divide-gray-200">
-                                    {projectsToShow.map((project) => (
-                                        <li key={project.timestamp} className={`relative ${openMenuTimestamp === project.timestamp ? 'z-20' : 'z-auto'}`}>
-                                            <button onClick={() => onOpenProject(project)} className="w-full text-left block hover:bg-gray-50 focus:outline-none focus:bg-gray-100 transition duration-150 ease-in-out pr-12">
-                                                <div className="px-4 py-4 sm:px-6 flex items-center justify-between">
-                                                    <div className="flex-1 min-w-0">
-                                                        <p className="text-lg font-semibold text-[#007D8C] truncate">
-                                                            {project.name || 'Untitled Project'}
-                                                        </p>
-                                                        <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
-                                                            <span className="font-medium text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">{getReportTypeName(project.type)}</span>
-                                                            <span className="text-gray-300 hidden sm:inline">|</span>
-                                                            <span>Project #: {project.projectNumber || 'N/A'}</span>
-                                                            <span className="text-gray-300 hidden sm:inline">|</span>
-                                                            <span>Last updated: {new Date(project.timestamp).toLocaleDateString()}</span>
-                                                        </div>
-                                                    </div>
-                                                    <div className="ml-4 flex-shrink-0">
-                                                        <FolderOpenIcon className="h-7 w-7 text-gray-400" />
-                                                    </div>
-                                                </div>
-                                            </button>
-                                            <div className="absolute top-1/2 right-4 -translate-y-1/2">
+                                    {projectsToShow.map((project) => {
+                                        const projectKey = getProjectKey(project.projectNumber);
+                                        const isExpanded = expandedProjectKey === projectKey;
+                                        return (
+                                            <li key={projectKey}>
                                                 <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        setOpenMenuTimestamp(openMenuTimestamp === project.timestamp ? null : project.timestamp);
-                                                    }}
-                                                    className="p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#007D8C]"
-                                                    aria-haspopup="true"
-                                                    aria-expanded={openMenuTimestamp === project.timestamp}
+                                                    onClick={() => setExpandedProjectKey(isExpanded ? null : projectKey)}
+                                                    className="w-full text-left block hover:bg-gray-50 focus:outline-none focus:bg-gray-100 transition duration-150 ease-in-out"
+                                                    aria-expanded={isExpanded}
                                                 >
-                                                    <EllipsisVerticalIcon className="h-6 w-6" />
+                                                    <div className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                                                        <div className="flex-1 min-w-0">
+                                                            <p className="text-lg font-semibold text-[#007D8C] truncate">
+                                                                {project.projectNumber || 'No Project Number'}
+                                                                {project.defaults.projectName && <span className="text-gray-800"> &ndash; {project.defaults.projectName}</span>}
+                                                            </p>
+                                                            <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                                <span className="font-medium text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">
+                                                                    {project.reports.length} {project.reports.length === 1 ? 'report' : 'reports'}
+                                                                </span>
+                                                                {project.defaults.proponent && (
+                                                                    <>
+                                                                        <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                        <span>Proponent: {project.defaults.proponent}</span>
+                                                                    </>
+                                                                )}
+                                                                {project.defaults.location && (
+                                                                    <>
+                                                                        <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                        <span>Location: {project.defaults.location}</span>
+                                                                    </>
+                                                                )}
+                                                                <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                <span>Last updated: {new Date(project.updatedAt).toLocaleDateString()}</span>
+                                                            </div>
+                                                        </div>
+                                                        <div className="ml-4 flex-shrink-0">
+                                                            <FolderOpenIcon className="h-7 w-7 text-gray-400" />
+                                                        </div>
+                                                    </div>
                                                 </button>
-                                                 {openMenuTimestamp === project.timestamp && (
-                                                    <div 
-                                                        className="origin-top-right absolute right-0 mt-2 w-56 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-10"
-                                                        onMouseLeave={() => setOpenMenuTimestamp(null)}
-                                                    >
-                                                        <div className="py-1" role="menu" aria-orientation="vertical">
+                                                {isExpanded && (
+                                                    <div className="bg-gray-50 border-t border-gray-200 px-4 py-4 sm:px-6">
+                                                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                                                            <span className="text-sm font-semibold text-gray-700 mr-2">New report for this project:</span>
+                                                            {NEW_REPORT_TYPES.map(type => (
+                                                                <button
+                                                                    key={type}
+                                                                    onClick={() => setTemplatePicker({ type, project })}
+                                                                    className="bg-[#007D8C] hover:bg-[#006b7a] text-white text-sm font-bold py-1.5 px-3 rounded-lg transition duration-200"
+                                                                >
+                                                                    {getReportTypeName(type)}
+                                                                </button>
+                                                            ))}
                                                             <button
-                                                                onClick={() => handleRemoveFromRecent(project.timestamp)}
-                                                                className="w-full text-left block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                                                                role="menuitem"
+                                                                onClick={() => setFormPicker({ project })}
+                                                                className="bg-[#007D8C] hover:bg-[#006b7a] text-white text-sm font-bold py-1.5 px-3 rounded-lg transition duration-200"
                                                             >
-                                                                Remove from recent
+                                                                Client Form DFR
                                                             </button>
                                                             <button
-                                                                onClick={() => handleDeleteProject(project)}
-                                                                className="w-full text-left block px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                                                                role="menuitem"
+                                                                onClick={() => setSummaryProject(project)}
+                                                                className="bg-white hover:bg-gray-100 text-[#007D8C] text-sm font-bold py-1.5 px-3 rounded-lg border border-[#007D8C] transition duration-200"
+                                                                title="Roll this project's DFRs for a week or month up into one report"
                                                             >
-                                                                Delete project permanently
+                                                                Summary Report
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleExportLocations(project)}
+                                                                className="ml-auto text-[#007D8C] hover:text-[#006b7a] text-sm font-semibold"
+                                                                title="Save the photo points of every report as KML and GeoJSON"
+                                                            >
+                                                                Export photo locations
                                                             </button>
                                                         </div>
+                                                        <ul className="divide-y divide-gray-200 bg-white rounded-md border border-gray-200">
+                                                            {project.reports.map(report => {
+                                                                const predecessor = findPredecessor(project, report);
+                                                                return (
+                                                                    <li key={report.timestamp} className={`relative ${openMenuTimestamp === report.timestamp ? 'z-20' : 'z-auto'}`}>
+                                                                        <button onClick={() => onOpenProject(report)} className="w-full text-left block hover:bg-gray-50 focus:outline-none focus:bg-gray-100 transition duration-150 ease-in-out pr-12">
+                                                                            <div className="px-4 py-3">
+                                                                                <p className="font-semibold text-gray-800 truncate">
+                                                                                    {report.name || 'Untitled Project'}
+                                                                                </p>
+                                                                                <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                                                    <span className="font-medium text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">{getReportTypeName(report.type)}</span>
+                                                                                    <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                                    <span>Last updated: {new Date(report.timestamp).toLocaleDateString()}</span>
+                                                                                    {predecessor && (
+                                                                                        <>
+                                                                                            <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                                            <span>Continued from: {predecessor.name || 'Untitled Project'}</span>
+                                                                                        </>
+                                                                                    )}
+                                                                                </div>
+                                                                            </div>
+                                                                        </button>
+                                                                        <div className="absolute top-1/2 right-4 -translate-y-1/2">
+                                                                            <button
+                                                                                onClick={(e) => {
+                                                                                    e.stopPropagation();
+                                                                                    setOpenMenuTimestamp(openMenuTimestamp === report.timestamp ? null : report.timestamp);
+                                                                                }}
+                                                                                className="p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#007D8C]"
+                                                                                aria-haspopup="true"
+                                                                                aria-expanded={openMenuTimestamp === report.timestamp}
+                                                                            >
+                                                                                <EllipsisVerticalIcon className="h-6 w-6" />
+                                                                            </button>
+                                                                            {openMenuTimestamp === report.timestamp && (
+                                                                                <div
+                                                                                    className="origin-top-right absolute right-0 mt-2 w-56 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-10"
+                                                                                    onMouseLeave={() => setOpenMenuTimestamp(null)}
+                                                                                >
+                                                                                    <div className="py-1" role="menu" aria-orientation="vertical">
+                                                                                        {isContinuableReportType(report.type) && (
+                                                                                            <button
+                                                                                                onClick={() => {
+                                                                                                    setOpenMenuTimestamp(null);
+                                                                                                    setContinuingReport(report as ProjectReport & { type: ContinuableReportType });
+                                                                                                }}
+                                                                                                className="w-full text-left block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                                                role="menuitem"
+                                                                                            >
+                                                                                                Continue as today's report
+                                                                                            </button>
+                                                                                        )}
+                                                                                        <button
+                                                                                            onClick={() => handleArchiveReport(report)}
+                                                                                            className="w-full text-left block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                                            role="menuitem"
+                                                                                        >
+                                                                                            Move to archive
+                                                                                        </button>
+                                                                                        <button
+                                                                                            onClick={() => handleDeleteReport(report)}
+                                                                                            className="w-full text-left block px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                                                                                            role="menuitem"
+                                                                                        >
+                                                                                            Delete report permanently
+                                                                                        </button>
+                                                                                    </div>
+                                                                                </div>
+                                                                            )}
+                                                                        </div>
+                                                                    </li>
+                                                                );
+                                                            })}
+                                                        </ul>
+                                                        {project.archived.length > 0 && (
+                                                            <div className="mt-3">
+                                                                <button
+                                                                    onClick={() => setShowArchivedKey(showArchivedKey === projectKey ? null : projectKey)}
+                                                                    className="text-sm text-[#007D8C] hover:text-[#006b7a] font-semibold"
+                                                                >
+                                                                    {showArchivedKey === projectKey ? 'Hide' : 'Show'} archived reports ({project.archived.length})
+                                                                </button>
+                                                                {showArchivedKey === projectKey && (
+                                                                    <ul className="mt-2 divide-y divide-gray-200 bg-white rounded-md border border-gray-200">
+                                                                        {project.archived.map(report => (
+                                                                            <li key={report.timestamp} className="px-4 py-3 flex items-center justify-between gap-4">
+                                                                                <button onClick={() => onOpenProject(report)} className="flex-1 min-w-0 text-left">
+                                                                                    <p className="font-semibold text-gray-600 truncate">{report.name || 'Untitled Project'}</p>
+                                                                                    <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                                                        <span>{getReportTypeName(report.type)}</span>
+                                                                                        <span className="text-gray-300 hidden sm:inline">|</span>
+                                                                                        <span>Saved {new Date(report.timestamp).toLocaleDateString()}</span>
+                                                                                        {report.replacedBy && <span className="font-medium text-amber-800 bg-amber-100 px-2 py-0.5 rounded-full">Older version</span>}
+                                                                                    </div>
+                                                                                </button>
+                                                                                <div className="flex gap-2">
+                                                                                    <button
+                                                                                        onClick={() => handleRestoreReport(report)}
+                                                                                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-bold py-1 px-3 rounded-lg transition duration-200"
+                                                                                    >
+                                                                                        Restore
+                                                                                    </button>
+                                                                                    <button
+                                                                                        onClick={() => handleDeleteReport(report)}
+                                                                                        className="text-red-600 hover:bg-red-50 text-sm font-bold py-1 px-3 rounded-lg transition duration-200"
+                                                                                    >
+                                                                                        Delete
+                                                                                    </button>
+                                                                                </div>
+                                                                            </li>
+                                                                        ))}
+                                                                    </ul>
+                                                                )}
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 )}
-                                            </div>
-                                        </li>
-                                    ))}
+                                            </li>
+                                        );
+                                    })}
                                 </ul>
-                                {filteredProjects.length > MAX_RECENT_PROJECTS && (
+                                {filteredProjects.length > MAX_PROJECTS && (
                                     <div className="p-4 text-center border-t border-gray-200">
                                         <button
-                                            onClick={() => setIsRecentProjectsExpanded(!isRecentProjectsExpanded)}
+                                            onClick={() => setIsProjectListExpanded(!isProjectListExpanded)}
                                             className="text-[#007D8C] hover:text-[#006b7a] font-semibold transition-colors duration-200"
                                         >
-                                            {isRecentProjectsExpanded ? 'Show Less' : 'Show More'}
+                                            {isProjectListExpanded ? 'Show Less' : 'Show More'}
                                         </button>
                                     </div>
                                 )}
                             </>
                         ) : (
                             <div className="text-center py-12 px-6">
-                                <h3 className="text-lg font-medium text-gray-900">No Recent Projects Found</h3>
+                                <h3 className="text-lg font-medium text-gray-900">No Projects Found</h3>
                                 <p className="mt-1 text-sm text-gray-500">
-                                    {searchTerm ? 'Try adjusting your search.' : 'Projects you save or open will appear here.'}
+                                    {searchTerm ? 'Try adjusting your search.' : 'Reports you save or open will be filed here by project number.'}
                                 </p>
                             </div>
                         )}
                     </div>
                 </div>
+                {searchTerm.trim() && (
+                    <div className="mt-8 bg-white rounded-lg shadow-xl">
+                        <h3 className="text-lg font-bold text-gray-800 px-4 py-3 sm:px-6 border-b border-gray-200">
+                            Matches in report contents
+                        </h3>
+                        {!searchIndex ? (
+                            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Searching reports...</p>
+                        ) : contentResults.length === 0 ? (
+                            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">No report sections or photo captions match your search.</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-200">
+                                {contentResults.map(result => (
+                                    <li key={result.report.timestamp} className="px-4 py-4 sm:px-6">
+                                        <div className="flex flex-wrap items-center gap-x-2 text-sm text-gray-500">
+                                            <span className="text-base font-semibold text-[#007D8C]">{result.report.name || 'Untitled Project'}</span>
+                                            <span className="font-medium text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">{getReportTypeName(result.report.type)}</span>
+                                            <span>{result.report.projectNumber || 'No Project Number'}</span>
+                                            {result.archived && <span className="font-medium text-amber-800 bg-amber-100 px-2 py-0.5 rounded-full">Archived</span>}
+                                        </div>
+                                        <ul className="mt-2 space-y-1">
+                                            {result.matches.slice(0, MAX_MATCHES_PER_REPORT).map((match, i) => (
+                                                <li key={i}>
+                                                    <button
+                                                        onClick={() => onOpenProject(result.report, match.target)}
+                                                        className="w-full text-left rounded-md px-2 py-1 hover:bg-gray-50 focus:outline-none focus:bg-gray-100"
+                                                    >
+                                                        <span className="block text-xs font-bold uppercase tracking-wide text-gray-500">{match.label}</span>
+                                                        <span className="text-sm text-gray-700">
+                                                            {match.snippet.map((part, j) => part.highlight
+                                                                ? <mark key={j} className="bg-amber-200 rounded px-0.5">{part.text}</mark>
+                                                                : <React.Fragment key={j}>{part.text}</React.Fragment>)}
+                                                        </span>
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
             </main>
+            {continuingReport && (
+                <ContinueReportModal
+                    report={continuingReport}
+                    onContinue={(sections) => onContinueReport(continuingReport, sections)}
+                    onClose={() => setContinuingReport(null)}
+                />
+            )}
+            {templatePicker && (
+                <TemplatePickerModal
+                    type={templatePicker.type}
+                    reportTypeName={getReportTypeName(templatePicker.type)}
+                    projectNumber={templatePicker.project?.projectNumber}
+                    onSelect={(template) => onNewReport(templatePicker.type, template, templatePicker.project)}
+                    onClose={() => setTemplatePicker(null)}
+                />
+            )}
+            {formPicker && (
+                <FormPickerModal
+                    projectNumber={formPicker.project?.projectNumber}
+                    onSelect={(form) => onNewFormReport(form, formPicker.project)}
+                    onClose={() => setFormPicker(null)}
+                />
+            )}
+            {summaryProject && (
+                <SummaryPeriodModal
+                    project={summaryProject}
+                    onCreate={(periodStart, periodEnd) => onNewSummaryReport(summaryProject, periodStart, periodEnd)}
+                    onClose={() => setSummaryProject(null)}
+                />
+            )}
+            {showStorage && <StorageDashboardModal onClose={() => setShowStorage(false)} onStorageChanged={refreshProjects} />}
             <footer className="text-center text-gray-500 text-sm py-4">
                 X-TES Digital Reporting v1.0.2
             </footer>
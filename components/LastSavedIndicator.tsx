@@ -0,0 +1,15 @@
+import React from 'react';
+
+const formatSavedAt = (timestamp: number): string => {
+    const saved = new Date(timestamp);
+    const time = saved.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    return saved.toDateString() === new Date().toDateString() ? time : `${saved.toLocaleDateString()} ${time}`;
+};
+
+const LastSavedIndicator: React.FC<{ lastSavedAt: number | null }> = ({ lastSavedAt }) => (
+    <span className="text-sm text-gray-500" aria-live="polite">
+        {lastSavedAt ? `Last saved ${formatSavedAt(lastSavedAt)}` : 'Not saved yet'}
+    </span>
+);
+
+export default LastSavedIndicator;
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import type { PdfExportSettings } from '../types';
+import { CloseIcon } from './icons';
+import type { ReportDocument } from './pdfLayout';
+import { DEFAULT_PDF_EXPORT_SETTINGS, IMAGE_SIZE_OPTIONS, estimatePdfSize, formatFileSize } from './pdfExport';
+
+const ESTIMATE_DELAY_MS = 500;
+const DEFAULT_TARGET_SIZE_MB = 10;
+
+interface PdfExportSettingsModalProps {
+    settings: PdfExportSettings;
+    onSettingsChange: (settings: PdfExportSettings) => void;
+    /** Builds the report model the estimate is based on. */
+    buildReport: () => Promise<ReportDocument>;
+    /** Offer the Source caption line for imported photos. */
+    showPhotoSourcesOption?: boolean;
+    onGenerate: () => void;
+    onClose: () => void;
+}
+
+const PdfExportSettingsModal: React.FC<PdfExportSettingsModalProps> = ({ settings, onSettingsChange, buildReport, showPhotoSourcesOption = false, onGenerate, onClose }) => {
+    const [model, setModel] = useState<ReportDocument | null>(null);
+    const [estimatedBytes, setEstimatedBytes] = useState<number | null>(null);
+    const [isEstimating, setIsEstimating] = useState(true);
+
+    // Rebuilt when the key map or source lines are toggled, since they change the layout.
+    useEffect(() => {
+        buildReport()
+            .then(setModel)
+            .catch(e => {
+                console.error("Failed to prepare the report for size estimation:", e);
+                setIsEstimating(false);
+            });
+    }, [settings.includeKeyMap, settings.includePhotoSources]);
+
+    // Re-estimate shortly after the image settings stop changing.
+    useEffect(() => {
+        if (!model) return;
+        let cancelled = false;
+        setIsEstimating(true);
+        const timer = setTimeout(async () => {
+            try {
+                const bytes = await estimatePdfSize(model, settings);
+                if (!cancelled) setEstimatedBytes(bytes);
+            } catch (e) {
+                console.error("Failed to estimate PDF size:", e);
+            } finally {
+                if (!cancelled) setIsEstimating(false);
+            }
+        }, ESTIMATE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [model, settings.maxImageSize, settings.jpegQuality]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const targetBytes = settings.targetSizeMb ? settings.targetSizeMb * 1024 * 1024 : null;
+    const overTarget = targetBytes !== null && estimatedBytes !== null && estimatedBytes > targetBytes;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold text-gray-800">PDF Export Settings</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close export settings">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-5">
+                    <div>
+                        <label htmlFor="pdf-image-size" className="block text-sm font-bold text-gray-700 mb-1">Image resolution</label>
+                        <select
+                            id="pdf-image-size"
+                            value={settings.maxImageSize}
+                            onChange={(e) => onSettingsChange({ ...settings, maxImageSize: Number(e.target.value) })}
+                            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                        >
+                            {IMAGE_SIZE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="pdf-jpeg-quality" className="block text-sm font-bold text-gray-700 mb-1">
+                            Image quality: {Math.round(settings.jpegQuality * 100)}%
+                        </label>
+                        <input
+                            id="pdf-jpeg-quality"
+                            type="range"
+                            min={40}
+                            max={100}
+                            step={5}
+                            value={Math.round(settings.jpegQuality * 100)}
+                            onChange={(e) => onSettingsChange({ ...settings, jpegQuality: Number(e.target.value) / 100 })}
+                            className="w-full accent-[#007D8C]"
+                        />
+                    </div>
+                    <div>
+                        <label className="inline-flex items-center gap-2 text-sm font-bold text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={settings.targetSizeMb !== null}
+                                onChange={(e) => onSettingsChange({ ...settings, targetSizeMb: e.target.checked ? DEFAULT_TARGET_SIZE_MB : null })}
+                                className="accent-[#007D8C]"
+                            />
+                            Limit PDF size
+                        </label>
+                        {settings.targetSizeMb !== null && (
+                            <div className="mt-2 flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={1}
+                                    value={settings.targetSizeMb}
+                                    onChange={(e) => onSettingsChange({ ...settings, targetSizeMb: Math.max(1, Number(e.target.value) || 1) })}
+                                    className="w-24 border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                                    aria-label="Maximum PDF size in MB"
+                                />
+                                <span className="text-gray-600">MB maximum</span>
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label className="inline-flex items-center gap-2 text-sm font-bold text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={!!settings.includeKeyMap}
+                                onChange={(e) => onSettingsChange({ ...settings, includeKeyMap: e.target.checked })}
+                                className="accent-[#007D8C]"
+                            />
+                            Add a photo location key map page
+                        </label>
+                        <p className="mt-1 text-xs text-gray-500">Shows every photo with a location on the project's site map.</p>
+                    </div>
+                    {showPhotoSourcesOption && (
+                        <div>
+                            <label className="inline-flex items-center gap-2 text-sm font-bold text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={!!settings.includePhotoSources}
+                                    onChange={(e) => onSettingsChange({ ...settings, includePhotoSources: e.target.checked })}
+                                    className="accent-[#007D8C]"
+                                />
+                                Show where each imported photo came from
+                            </label>
+                            <p className="mt-1 text-xs text-gray-500">Adds a Source line with the original report, project number and photo number.</p>
+                        </div>
+                    )}
+                    <div className="bg-gray-50 border border-gray-200 rounded-md p-3 text-sm">
+                        <p className="text-gray-700">
+                            <span className="font-bold">Estimated size: </span>
+                            {isEstimating ? 'Estimating...' : estimatedBytes !== null ? formatFileSize(estimatedBytes) : 'Unavailable'}
+                        </p>
+                        {overTarget && !isEstimating && (
+                            <p className="mt-1 text-amber-700">
+                                Images will be recompressed further to keep the PDF under {settings.targetSizeMb} MB.
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <div className="flex justify-between items-center gap-2 p-4 border-t">
+                    <button
+                        onClick={() => onSettingsChange(DEFAULT_PDF_EXPORT_SETTINGS)}
+                        className="text-[#007D8C] hover:text-[#006b7a] font-semibold"
+                    >
+                        Reset to defaults
+                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                            Cancel
+                        </button>
+                        <button onClick={onGenerate} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition duration-200">
+                            Generate PDF
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PdfExportSettingsModal;
@@ -0,0 +1,70 @@
+import React, { useRef, useState } from 'react';
+import { getDroppedFiles } from './photoImport';
+
+interface PhotoDropZoneProps {
+    className?: string;
+    onFilesDropped: (files: File[]) => void;
+    children: React.ReactNode;
+}
+
+const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+// Drops onto a photo card's own file input are left to that input, so a single
+// image can still be dropped onto a specific entry.
+const isFileInput = (target: EventTarget) =>
+    target instanceof HTMLInputElement && target.type === 'file';
+
+const PhotoDropZone: React.FC<PhotoDropZoneProps> = ({ className, onFilesDropped, children }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const dragDepthRef = useRef(0);
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        dragDepthRef.current++;
+        setIsDragging(true);
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setIsDragging(false);
+    };
+
+    const handleDrop = async (e: React.DragEvent) => {
+        dragDepthRef.current = 0;
+        setIsDragging(false);
+        if (!hasFiles(e) || isFileInput(e.target)) return;
+        e.preventDefault();
+        const files = await getDroppedFiles(e.dataTransfer);
+        if (files.length > 0) {
+            onFilesDropped(files);
+        }
+    };
+
+    return (
+        <div
+            className={className}
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {children}
+            {isDragging && (
+                <div className="fixed inset-0 z-40 pointer-events-none bg-[#007D8C] bg-opacity-10 border-4 border-dashed border-[#007D8C] flex items-center justify-center">
+                    <p className="bg-white px-6 py-4 rounded-lg shadow-xl text-xl font-bold text-[#007D8C]">
+                        Drop photos or a folder to add them to the report
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PhotoDropZone;
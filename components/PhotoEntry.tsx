@@ -1,6 +1,7 @@
 import React, { useRef, useEffect } from 'react';
 import type { PhotoData } from '../types';
-import { TrashIcon, CameraIcon, ArrowUpIcon, ArrowDownIcon, ArrowsPointingOutIcon } from './icons';
+import { TrashIcon, CameraIcon, ArrowUpIcon, ArrowDownIcon, ArrowsPointingOutIcon, PencilSquareIcon } from './icons';
+import { formatPhotoProvenance } from './photoProvenance';
 
 interface PhotoEntryProps {
   data: PhotoData;
@@ -17,6 +18,7 @@ interface PhotoEntryProps {
   showDirectionField?: boolean;
   isLocationLocked?: boolean;
   onImageClick?: (imageUrl: string) => void;
+  onEditImage?: () => void;
 }
 
 const EditableField: React.FC<{ label: string; value: string; onChange: (value: string) => void; isTextArea?: boolean; printable?: boolean; isInvalid?: boolean; readOnly?: boolean; placeholder?: string; }> = ({ label, value, onChange, isTextArea = false, printable = false, isInvalid = false, readOnly = false, placeholder = '' }) => {
@@ -82,7 +84,7 @@ const EditableField: React.FC<{ label: string; value: string; onChange: (value:
 };
 
 
-const PhotoEntry: React.FC<PhotoEntryProps> = ({ data, onDataChange, onImageChange, onRemove, onMoveUp, onMoveDown, isFirst, isLast, printable = false, errors, showDirectionField = false, isLocationLocked = false, onImageClick }) => {
+const PhotoEntry: React.FC<PhotoEntryProps> = ({ data, onDataChange, onImageChange, onRemove, onMoveUp, onMoveDown, isFirst, isLast, printable = false, errors, showDirectionField = false, isLocationLocked = false, onImageClick, onEditImage }) => {
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             onImageChange(e.target.files[0]);
@@ -121,6 +123,9 @@ const PhotoEntry: React.FC<PhotoEntryProps> = ({ data, onDataChange, onImageChan
                     <EditableField label="Date" value={data.date} onChange={(v) => onDataChange('date', v)} printable={printable} isInvalid={errors?.has('date')} placeholder="October 1, 2025" />
                     <EditableField label="Location" value={data.location} onChange={(v) => onDataChange('location', v)} printable={printable} isInvalid={errors?.has('location')} readOnly={isLocationLocked} />
                     <EditableField label="Description" value={data.description} onChange={(v) => onDataChange('description', v)} isTextArea printable={printable} isInvalid={errors?.has('description')} />
+                    {data.provenance && (
+                        <p className="text-xs text-gray-500">From {formatPhotoProvenance(data.provenance)}</p>
+                    )}
                 </div>
                 {/* Right Column: Image */}
                 <div className="flex items-center justify-center md:col-span-2">
@@ -146,6 +151,16 @@ const PhotoEntry: React.FC<PhotoEntryProps> = ({ data, onDataChange, onImageChan
                                         <ArrowsPointingOutIcon className="h-5 w-5" />
                                     </button>
                                 )}
+                                {!printable && onEditImage && (
+                                    <button
+                                        type="button"
+                                        onClick={onEditImage}
+                                        className="absolute top-2 right-14 bg-black bg-opacity-50 text-white p-2 rounded-full opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
+                                        aria-label="Edit image"
+                                    >
+                                        <PencilSquareIcon className="h-5 w-5" />
+                                    </button>
+                                )}
                             </>
                         ) : (
                             <div className="text-center text-gray-500 p-4 h-[280px] w-full flex flex-col justify-center items-center pointer-events-none">
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+
+interface SaveTemplateModalProps {
+    /** Pre-filled client, usually the report's proponent. */
+    defaultClient: string;
+    onSave: (name: string, client: string) => void;
+    onClose: () => void;
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ defaultClient, onSave, onClose }) => {
+    const [name, setName] = useState('');
+    const [client, setClient] = useState(defaultClient);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (name.trim()) {
+            onSave(name, client);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-2xl w-full max-w-md">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold text-gray-800">Save as Template</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        The header, section text and checklist answers of this report are saved. Photos and the report date are not.
+                    </p>
+                    <div>
+                        <label htmlFor="template-name" className="block text-sm font-bold text-gray-700 mb-1">Template name</label>
+                        <input
+                            id="template-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="e.g. Pipeline construction monitoring"
+                            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                            autoFocus
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="template-client" className="block text-sm font-bold text-gray-700 mb-1">Client (optional)</label>
+                        <input
+                            id="template-client"
+                            value={client}
+                            onChange={(e) => setClient(e.target.value)}
+                            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                        />
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t">
+                    <button type="button" onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                    <button type="submit" disabled={!name.trim()} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50">
+                        Save Template
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SaveTemplateModal;
@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { GeoBounds, LocationActivity, PhotoData, SiteBasemap } from '../types';
+import { FolderOpenIcon, TrashIcon } from './icons';
+import {
+    checkBounds,
+    collectMarkers,
+    formatCoordinates,
+    getBasemapAspect,
+    getBasemaps,
+    getMapFrame,
+    hasCoordinates,
+    importSitePlan,
+    importTileArchive,
+    markBasemapUsed,
+    paintSiteMap,
+    projectPoint,
+    removeBasemap,
+    unprojectPoint,
+    type GeoPoint,
+} from './siteMap';
+
+interface SiteMapPanelProps {
+    projectNumber: string;
+    photos: PhotoData[];
+    locationActivities?: LocationActivity[];
+    /** Called when a photo marker is clicked. */
+    onPhotoClick: (id: number) => void;
+    onPhotoCoordinatesChange: (id: number, point: GeoPoint | null) => void;
+    onLocationActivityCoordinatesChange?: (id: number, point: GeoPoint | null) => void;
+}
+
+interface PendingSitePlan {
+    imageUrl: string;
+    name: string;
+    north: string;
+    south: string;
+    east: string;
+    west: string;
+    shared: boolean;
+}
+
+const inputClass = "w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]";
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+const fileBaseName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+const SiteMapPanel: React.FC<SiteMapPanelProps> = ({
+    projectNumber,
+    photos,
+    locationActivities = [],
+    onPhotoClick,
+    onPhotoCoordinatesChange,
+    onLocationActivityCoordinatesChange,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [basemaps, setBasemaps] = useState<SiteBasemap[]>([]);
+    const [aspect, setAspect] = useState(4 / 3);
+    const [width, setWidth] = useState(0);
+    const [placingKey, setPlacingKey] = useState('');
+    const [isPlacing, setIsPlacing] = useState(false);
+    const [pendingSitePlan, setPendingSitePlan] = useState<PendingSitePlan | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const sitePlanInputRef = useRef<HTMLInputElement>(null);
+    const tilesInputRef = useRef<HTMLInputElement>(null);
+
+    const basemap = basemaps[0] || null;
+    const markers = useMemo(() => collectMarkers(photos, locationActivities), [photos, locationActivities]);
+    const frame = useMemo(() => getMapFrame(basemap, markers, aspect), [basemap, markers, aspect]);
+    const frameKey = frame ? JSON.stringify(frame) : '';
+    const height = Math.round(width / aspect);
+
+    const placeable = [
+        ...photos.filter(p => !p.isMap).map(p => ({
+            key: `photo-${p.id}`,
+            label: `Photo ${p.photoNumber}${p.location ? `: ${p.location}` : ''}`,
+            point: hasCoordinates(p) ? p : null,
+            apply: (point: GeoPoint | null) => onPhotoCoordinatesChange(p.id, point),
+        })),
+        ...(onLocationActivityCoordinatesChange ? locationActivities.map((a, index) => ({
+            key: `location-${a.id}`,
+            label: `Location L${index + 1}${a.location ? `: ${a.location}` : ''}`,
+            point: hasCoordinates(a) ? a : null,
+            apply: (point: GeoPoint | null) => onLocationActivityCoordinatesChange(a.id, point),
+        })) : []),
+    ];
+    const placing = placeable.find(item => item.key === placingKey) || null;
+
+    const refreshBasemaps = async () => {
+        setBasemaps(await getBasemaps(projectNumber));
+    };
+
+    useEffect(() => {
+        refreshBasemaps();
+    }, [projectNumber]);
+
+    useEffect(() => {
+        let cancelled = false;
+        getBasemapAspect(basemap).then(value => {
+            if (!cancelled) setAspect(value);
+        });
+        return () => { cancelled = true; };
+    }, [basemap?.id]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isOpen || !container) return;
+        const observer = new ResizeObserver(() => setWidth(Math.round(container.clientWidth)));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [isOpen]);
+
+    // Repaint only when what the map shows changes, not on every edit to the report.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !frame || width === 0) return;
+        canvas.width = width;
+        canvas.height = height;
+        paintSiteMap(canvas, basemap, frame).catch(e => console.error("Failed to draw the site map:", e));
+    }, [basemap?.id, frameKey, width, height]);
+
+    const handleSelectBasemap = async (id: string) => {
+        const selected = basemaps.find(b => b.id === id);
+        if (!selected) return;
+        try {
+            await markBasemapUsed(selected);
+        } catch (e) {
+            console.error("Failed to select basemap:", e);
+        }
+        await refreshBasemaps();
+    };
+
+    const handleDeleteBasemap = async () => {
+        if (!basemap || !window.confirm(`Delete the basemap "${basemap.name}"? Photo locations are kept.`)) return;
+        try {
+            await removeBasemap(basemap.id);
+        } catch (e) {
+            console.error("Failed to delete basemap:", e);
+        }
+        await refreshBasemaps();
+    };
+
+    const handleSitePlanSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const imageUrl = await readFileAsDataUrl(file);
+            setPendingSitePlan({ imageUrl, name: fileBaseName(file), north: '', south: '', east: '', west: '', shared: false });
+        } catch (e) {
+            console.error("Failed to read site plan image:", e);
+            alert("Could not read the site plan image.");
+        }
+    };
+
+    const handleSaveSitePlan = async () => {
+        if (!pendingSitePlan) return;
+        const bounds: GeoBounds = {
+            north: parseFloat(pendingSitePlan.north),
+            south: parseFloat(pendingSitePlan.south),
+            east: parseFloat(pendingSitePlan.east),
+            west: parseFloat(pendingSitePlan.west),
+        };
+        const problem = checkBounds(bounds);
+        if (problem) {
+            alert(problem);
+            return;
+        }
+        try {
+            await importSitePlan(pendingSitePlan.imageUrl, pendingSitePlan.name, bounds, pendingSitePlan.shared ? '' : projectNumber);
+            setPendingSitePlan(null);
+            await refreshBasemaps();
+        } catch (e) {
+            console.error("Failed to import site plan:", e);
+            alert("Could not save the site plan. It may be too large for local storage.");
+        }
+    };
+
+    const handleTilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        try {
+            await importTileArchive(await file.arrayBuffer(), fileBaseName(file), projectNumber);
+            await refreshBasemaps();
+        } catch (e) {
+            console.error("Failed to import map tiles:", e);
+            alert(e instanceof Error ? e.message : "Could not import the map tiles.");
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleMapClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (!isPlacing || !placing || !frame) return;
+        const rect = event.currentTarget.getBoundingClientRect();
+        const point = unprojectPoint(frame, (event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height);
+        placing.apply({ latitude: Number(point.latitude.toFixed(6)), longitude: Number(point.longitude.toFixed(6)) });
+        setIsPlacing(false);
+    };
+
+    const locatedCount = placeable.filter(item => item.point).length;
+
+    return (
+        <div className="mt-8 border border-gray-200 rounded-lg bg-white">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex justify-between items-center p-4 text-left"
+                aria-expanded={isOpen}
+            >
+                <span className="text-lg font-bold text-gray-800">Site Map</span>
+                <span className="text-sm text-gray-500">
+                    {locatedCount} of {placeable.length} located {isOpen ? '▲' : '▼'}
+                </span>
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {basemaps.length > 0 ? (
+                            <>
+                                <select
+                                    value={basemap?.id || ''}
+                                    onChange={(e) => handleSelectBasemap(e.target.value)}
+                                    className="border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                                    aria-label="Basemap"
+                                >
+                                    {basemaps.map(b => (
+                                        <option key={b.id} value={b.id}>
+                                            {b.name} ({b.kind === 'sitePlan' ? 'site plan' : 'tiles'}{b.projectKey ? '' : ', shared'})
+                                        </option>
+                                    ))}
+                                </select>
+                                <button onClick={handleDeleteBasemap} className="p-2 text-red-500 hover:text-red-700" aria-label="Delete basemap" title="Delete basemap">
+                                    <TrashIcon className="h-5 w-5" />
+                                </button>
+                            </>
+                        ) : (
+                            <span className="text-sm text-gray-500">No basemap imported. Photos are shown on a plain grid.</span>
+                        )}
+                        <button
+                            onClick={() => sitePlanInputRef.current?.click()}
+                            className="text-[#007D8C] hover:text-[#006b7a] font-semibold inline-flex items-center gap-1"
+                        >
+                            <FolderOpenIcon className="h-5 w-5" /> <span>Import site plan</span>
+                        </button>
+                        <button
+                            onClick={() => tilesInputRef.current?.click()}
+                            disabled={isImporting}
+                            className="text-[#007D8C] hover:text-[#006b7a] font-semibold inline-flex items-center gap-1 disabled:text-gray-400"
+                        >
+                            <FolderOpenIcon className="h-5 w-5" /> <span>{isImporting ? 'Importing tiles...' : 'Import tiles (ZIP)'}</span>
+                        </button>
+                        <input type="file" ref={sitePlanInputRef} onChange={handleSitePlanSelected} style={{ display: 'none' }} accept="image/jpeg,image/png" />
+                        <input type="file" ref={tilesInputRef} onChange={handleTilesSelected} style={{ display: 'none' }} accept=".zip" />
+                    </div>
+
+                    {pendingSitePlan && (
+                        <div className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-2">
+                            <p className="text-sm text-gray-600">Enter the coordinates of the plan's edges in decimal degrees (west is negative in Canada).</p>
+                            <input
+                                type="text"
+                                value={pendingSitePlan.name}
+                                onChange={(e) => setPendingSitePlan({ ...pendingSitePlan, name: e.target.value })}
+                                className={inputClass}
+                                placeholder="Name"
+                                aria-label="Site plan name"
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['north', 'south', 'west', 'east'] as const).map(edge => (
+                                    <input
+                                        key={edge}
+                                        type="number"
+                                        step="any"
+                                        value={pendingSitePlan[edge]}
+                                        onChange={(e) => setPendingSitePlan({ ...pendingSitePlan, [edge]: e.target.value })}
+                                        className={inputClass}
+                                        placeholder={`${edge[0].toUpperCase()}${edge.slice(1)} edge`}
+                                        aria-label={`${edge} edge`}
+                                    />
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={pendingSitePlan.shared}
+                                    onChange={(e) => setPendingSitePlan({ ...pendingSitePlan, shared: e.target.checked })}
+                                    className="accent-[#007D8C]"
+                                />
+                                Use for all projects
+                            </label>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setPendingSitePlan(null)} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                                    Cancel
+                                </button>
+                                <button onClick={handleSaveSitePlan} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200">
+                                    Save Site Plan
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {placeable.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value={placingKey}
+                                onChange={(e) => { setPlacingKey(e.target.value); setIsPlacing(false); }}
+                                className="border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C] max-w-xs"
+                                aria-label="Photo or location to place"
+                            >
+                                <option value="">Set a location...</option>
+                                {placeable.map(item => (
+                                    <option key={item.key} value={item.key}>{item.label}</option>
+                                ))}
+                            </select>
+                            {placing && (
+                                <>
+                                    <span className="text-sm text-gray-600">
+                                        {placing.point ? formatCoordinates(placing.point) : 'No location'}
+                                    </span>
+                                    <button
+                                        onClick={() => setIsPlacing(p => !p)}
+                                        disabled={!frame}
+                                        className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-1 px-3 rounded-lg transition duration-200 disabled:bg-gray-400"
+                                    >
+                                        {isPlacing ? 'Cancel' : 'Place on map'}
+                                    </button>
+                                    {placing.point && (
+                                        <button onClick={() => placing.apply(null)} className="text-red-600 hover:text-red-800 font-semibold">
+                                            Clear
+                                        </button>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    <div ref={containerRef} className="w-full">
+                        {frame ? (
+                            <div
+                                className={`relative border border-gray-300 ${isPlacing ? 'cursor-crosshair' : ''}`}
+                                style={{ height }}
+                                onClick={handleMapClick}
+                            >
+                                <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+                                {markers.map(marker => {
+                                    const { x, y } = projectPoint(frame, marker);
+                                    if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+                                    const isPhoto = marker.kind === 'photo';
+                                    return (
+                                        <button
+                                            key={marker.key}
+                                            onClick={(e) => {
+                                                if (isPlacing) return;
+                                                e.stopPropagation();
+                                                if (isPhoto) onPhotoClick(marker.id);
+                                            }}
+                                            className={`absolute -translate-x-1/2 -translate-y-1/2 min-w-[1.75rem] h-7 px-1 text-xs font-bold text-white border-2 border-white shadow ${isPhoto ? 'rounded-full bg-[#007D8C] hover:bg-[#006b7a]' : 'bg-amber-600 cursor-default'}`}
+                                            style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                                            title={`${marker.description} (${formatCoordinates(marker)})`}
+                                        >
+                                            {marker.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500 border border-dashed border-gray-300 rounded-md p-6 text-center">
+                                No photos have a location yet. Locations are read from photo GPS data when available, or import a basemap and place photos on it.
+                            </p>
+                        )}
+                    </div>
+                    {isPlacing && placing && (
+                        <p className="text-sm text-[#007D8C] font-semibold">Click the map where {placing.label} was taken.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SiteMapPanel;
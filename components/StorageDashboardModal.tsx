@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+import { formatFileSize } from './pdfExport';
+import type { ImagePruneResult } from './db';
+import { archiveReport, deleteReport, restoreReport, type ProjectReport } from './projectRegistry';
+import {
+    applyRetentionPolicy,
+    cleanUpOrphanedImages,
+    findOrphanedImages,
+    getRetentionPolicy,
+    getStorageUsage,
+    saveRetentionPolicy,
+    type RetentionPolicy,
+    type StorageUsage,
+} from './storageLifecycle';
+
+interface StorageDashboardModalProps {
+    onClose: () => void;
+    /** Called after reports were archived, restored or deleted. */
+    onStorageChanged: () => void;
+}
+
+const ARCHIVE_AFTER_OPTIONS: { value: number | null; label: string }[] = [
+    { value: null, label: 'Never' },
+    { value: 30, label: '30 days' },
+    { value: 90, label: '90 days' },
+    { value: 180, label: '6 months' },
+    { value: 365, label: '1 year' },
+];
+
+const DELETE_ARCHIVED_AFTER_OPTIONS: { value: number | null; label: string }[] = [
+    { value: null, label: 'Never (delete by hand)' },
+    { value: 90, label: '90 days' },
+    { value: 365, label: '1 year' },
+    { value: 730, label: '2 years' },
+];
+
+const optionLabel = (options: { value: number | null; label: string }[], value: number | null) =>
+    options.find(o => o.value === value)?.label || `${value} days`;
+
+const StorageDashboardModal: React.FC<StorageDashboardModalProps> = ({ onClose, onStorageChanged }) => {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [policy, setPolicy] = useState<RetentionPolicy>(getRetentionPolicy);
+    const [isWorking, setIsWorking] = useState(false);
+    // The last unused-image scan; reclaiming is offered only after one.
+    const [orphanScan, setOrphanScan] = useState<ImagePruneResult | null>(null);
+
+    const refreshUsage = async () => {
+        try {
+            setUsage(await getStorageUsage());
+        } catch (e) {
+            console.error("Failed to measure storage usage:", e);
+        }
+    };
+
+    useEffect(() => {
+        refreshUsage();
+    }, []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        try {
+            await action();
+        } catch (e) {
+            console.error("Storage action failed:", e);
+            alert("The storage action could not be completed. Please try again.");
+        }
+        await refreshUsage();
+        onStorageChanged();
+        setIsWorking(false);
+    };
+
+    const handleDelete = (report: ProjectReport) => {
+        if (!window.confirm(`Are you sure you want to permanently delete "${report.name || 'Untitled Project'}"? This action cannot be undone.`)) {
+            return;
+        }
+        runAction(() => deleteReport(report));
+    };
+
+    const handlePolicyChange = (updated: RetentionPolicy) => {
+        if (updated.deleteArchivedAfterDays !== null && updated.deleteArchivedAfterDays !== policy.deleteArchivedAfterDays) {
+            const period = optionLabel(DELETE_ARCHIVED_AFTER_OPTIONS, updated.deleteArchivedAfterDays);
+            if (!window.confirm(`Archived reports will be permanently deleted ${period} after they were archived, including their photos. Continue?`)) {
+                return;
+            }
+        }
+        saveRetentionPolicy(updated);
+        setPolicy(updated);
+    };
+
+    const handleApplyPolicy = () => {
+        runAction(async () => {
+            const result = await applyRetentionPolicy(policy);
+            alert(`Retention policy applied: ${result.archived} report(s) archived, ${result.deleted} archived report(s) deleted.`);
+        });
+    };
+
+    const handleScanImages = () => {
+        runAction(async () => {
+            setOrphanScan(await findOrphanedImages());
+        });
+    };
+
+    const handleReclaimImages = () => {
+        runAction(async () => {
+            const result = await cleanUpOrphanedImages();
+            setOrphanScan(null);
+            alert(`Removed ${result.orphanedImages} unused image(s), freeing about ${formatFileSize(result.orphanedBytes)}.`);
+        });
+    };
+
+    const usedFraction = usage?.usageBytes != null && usage.quotaBytes ? Math.min(1, usage.usageBytes / usage.quotaBytes) : null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold text-gray-800">Storage</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close storage dashboard">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {!usage ? (
+                        <p className="text-gray-600">Measuring storage...</p>
+                    ) : (
+                        <>
+                            <div>
+                                <p className="text-sm text-gray-700 mb-2">
+                                    <span className="font-bold">Used: </span>
+                                    {usage.usageBytes != null ? formatFileSize(usage.usageBytes) : 'Unavailable'}
+                                    {usage.quotaBytes != null && ` of ${formatFileSize(usage.quotaBytes)} available`}
+                                </p>
+                                {usedFraction !== null && (
+                                    <div className="w-full bg-gray-200 rounded-full h-2.5 overflow-hidden">
+                                        <div
+                                            className={`h-2.5 rounded-full ${usedFraction > 0.8 ? 'bg-red-600' : 'bg-[#007D8C]'}`}
+                                            style={{ width: `${Math.max(1, Math.round(usedFraction * 100))}%` }}
+                                        ></div>
+                                    </div>
+                                )}
+                                <div className="mt-3 grid grid-cols-3 gap-3 text-sm">
+                                    <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                                        <p className="font-bold text-gray-700">Active reports</p>
+                                        <p className="text-gray-600">{usage.reports.filter(r => !r.archived).length} &middot; {formatFileSize(usage.activeBytes)}</p>
+                                    </div>
+                                    <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                                        <p className="font-bold text-gray-700">Archived reports</p>
+                                        <p className="text-gray-600">{usage.reports.filter(r => r.archived).length} &middot; {formatFileSize(usage.archivedBytes)}</p>
+                                    </div>
+                                    <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                                        <p className="font-bold text-gray-700">Unsaved drafts</p>
+                                        <p className="text-gray-600">{formatFileSize(usage.draftBytes)}</p>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div>
+                                <h3 className="text-lg font-bold text-gray-800 mb-2">Retention policy</h3>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="archive-after" className="block text-sm font-bold text-gray-700 mb-1">Archive reports not saved for</label>
+                                        <select
+                                            id="archive-after"
+                                            value={policy.archiveAfterDays ?? ''}
+                                            onChange={(e) => handlePolicyChange({ ...policy, archiveAfterDays: e.target.value ? Number(e.target.value) : null })}
+                                            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                                        >
+                                            {ARCHIVE_AFTER_OPTIONS.map(option => (
+                                                <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="delete-archived-after" className="block text-sm font-bold text-gray-700 mb-1">Permanently delete archived reports after</label>
+                                        <select
+                                            id="delete-archived-after"
+                                            value={policy.deleteArchivedAfterDays ?? ''}
+                                            onChange={(e) => handlePolicyChange({ ...policy, deleteArchivedAfterDays: e.target.value ? Number(e.target.value) : null })}
+                                            className="w-full border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-[#007D8C]"
+                                        >
+                                            {DELETE_ARCHIVED_AFTER_OPTIONS.map(option => (
+                                                <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                <p className="mt-2 text-sm text-gray-500">
+                                    The policy is applied every time the app starts. Replaced versions of a report are archived when a newer version is saved.
+                                </p>
+                                <button
+                                    onClick={handleApplyPolicy}
+                                    disabled={isWorking}
+                                    className="mt-3 text-[#007D8C] hover:text-[#006b7a] font-semibold disabled:text-gray-400"
+                                >
+                                    Apply now
+                                </button>
+                            </div>
+
+                            <div>
+                                <h3 className="text-lg font-bold text-gray-800 mb-2">Unused images</h3>
+                                <p className="text-sm text-gray-500">
+                                    Identical photos are stored once, however many reports use them. Images of removed photos, interrupted saves and discarded drafts stay behind until they are reclaimed here.
+                                </p>
+                                {orphanScan && (
+                                    <p className="mt-2 text-sm text-gray-700">
+                                        {orphanScan.orphanedImages === 0 && orphanScan.orphanedBlobs === 0
+                                            ? 'No unused images were found.'
+                                            : `Found ${orphanScan.orphanedImages} image(s) and edit original(s) that no report or draft uses, taking up about ${formatFileSize(orphanScan.orphanedBytes)}.`}
+                                    </p>
+                                )}
+                                <div className="mt-3 flex gap-4">
+                                    <button
+                                        onClick={handleScanImages}
+                                        disabled={isWorking}
+                                        className="text-[#007D8C] hover:text-[#006b7a] font-semibold disabled:text-gray-400"
+                                    >
+                                        {orphanScan ? 'Scan again' : 'Scan for unused images'}
+                                    </button>
+                                    {orphanScan && (orphanScan.orphanedImages > 0 || orphanScan.orphanedBlobs > 0) && (
+                                        <button
+                                            onClick={handleReclaimImages}
+                                            disabled={isWorking}
+                                            className="text-red-600 hover:text-red-700 font-semibold disabled:text-gray-400"
+                                        >
+                                            Reclaim space
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div>
+                                <h3 className="text-lg font-bold text-gray-800 mb-2">Reports by size</h3>
+                                {usage.reports.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No saved reports.</p>
+                                ) : (
+                                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                                        {usage.reports.map(({ report, archived, bytes }) => (
+                                            <li key={report.timestamp} className="px-4 py-3 flex items-center justify-between gap-4">
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="font-semibold text-gray-800 truncate">{report.name || 'Untitled Project'}</p>
+                                                    <div className="mt-1 text-sm text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                        <span>{report.projectNumber || 'No Project Number'}</span>
+                                                        <span className="text-gray-300">|</span>
+                                                        <span>Saved {new Date(report.timestamp).toLocaleDateString()}</span>
+                                                        {archived && (
+                                                            <span className="font-medium text-amber-800 bg-amber-100 px-2 py-0.5 rounded-full">
+                                                                {report.replacedBy ? 'Older version' : 'Archived'}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                                <span className="text-sm font-medium text-gray-700 whitespace-nowrap">{formatFileSize(bytes)}</span>
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => runAction(() => (archived ? restoreReport(report) : archiveReport(report)))}
+                                                        disabled={isWorking}
+                                                        className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-bold py-1 px-3 rounded-lg transition duration-200 disabled:opacity-50"
+                                                    >
+                                                        {archived ? 'Restore' : 'Archive'}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDelete(report)}
+                                                        disabled={isWorking}
+                                                        className="text-red-600 hover:bg-red-50 text-sm font-bold py-1 px-3 rounded-lg transition duration-200 disabled:opacity-50"
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="flex justify-end p-4 border-t">
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StorageDashboardModal;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+import type { ProjectRecord } from './projectRegistry';
+import { getMonthPeriod, getWeekPeriod } from './summaryDigest';
+
+interface SummaryPeriodModalProps {
+    project: ProjectRecord;
+    onCreate: (periodStart: string, periodEnd: string) => void;
+    onClose: () => void;
+}
+
+const PRESETS: { label: string; period: () => { start: string; end: string } }[] = [
+    { label: 'Last 7 days', period: () => getWeekPeriod() },
+    { label: 'This month', period: () => getMonthPeriod(0) },
+    { label: 'Last month', period: () => getMonthPeriod(-1) },
+];
+
+const SummaryPeriodModal: React.FC<SummaryPeriodModalProps> = ({ project, onCreate, onClose }) => {
+    const [period, setPeriod] = useState(getWeekPeriod);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const isValid = !!period.start && !!period.end && period.start <= period.end;
+    const inputClasses = 'block w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-[#007D8C] focus:border-[#007D8C] transition';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-800">New Summary Report</h2>
+                        <p className="text-sm text-gray-500 truncate">For {project.projectNumber || 'No Project Number'}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <p className="text-sm text-gray-600">
+                        Every saved DFR for this project dated within the period is digested into the summary. You can edit it before exporting.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {PRESETS.map(preset => (
+                            <button
+                                key={preset.label}
+                                onClick={() => setPeriod(preset.period())}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-bold py-1.5 px-3 rounded-lg transition duration-200"
+                            >
+                                {preset.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="summary-period-start" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                            <input id="summary-period-start" type="date" value={period.start} onChange={(e) => setPeriod(prev => ({ ...prev, start: e.target.value }))} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="summary-period-end" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                            <input id="summary-period-end" type="date" value={period.end} onChange={(e) => setPeriod(prev => ({ ...prev, end: e.target.value }))} className={inputClasses} />
+                        </div>
+                    </div>
+                    {!isValid && <p className="text-sm text-red-600">The period must end on or after the day it starts.</p>}
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t">
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onCreate(period.start, period.end)}
+                        disabled={!isValid}
+                        className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Build Summary
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SummaryPeriodModal;
@@ -0,0 +1,653 @@
+import React, { useState, ReactElement, useEffect, useRef, useMemo } from 'react';
+import type { PdfExportSettings, PhotoData, SummaryDay, SummaryReportData, SummaryReportProject } from '../types';
+import { DownloadIcon, SaveIcon, FolderOpenIcon, ArrowLeftIcon, TrashIcon, DocumentTextIcon } from './icons';
+import PhotoEntry from './PhotoEntry';
+import { MigrationNotice, PdfPreviewModal, Section, autoCropImage } from './editorShared';
+import { storeImage } from './db';
+import { isStoredImageUrl, loadPhotoThumbnails } from './photoImages';
+import { migrateProject, withSchemaVersion } from './migrations';
+import { saveReportToRegistry } from './projectRegistry';
+import { useDraftAutosave, type DraftSessionFields } from './drafts';
+import { getSearchTargetElementId, useSearchTargetFocus, type SearchTarget } from './searchIndex';
+import { createProjectPackage, describeProjectFileError, readProjectFile } from './projectPackage';
+import {
+    SUMMARY_REPORT_FILE_EXTENSION,
+    buildSummaryBody,
+    buildSummaryHeaders,
+    createEmptySummary,
+    formatSummaryDay,
+    gatherSummary,
+    getSummaryReportName,
+    getTotalHoursWorked,
+    type SummaryPhotoCandidate,
+} from './summaryDigest';
+import { SpecialCharacterPalette } from './SpecialCharacterPalette';
+import BulletPointEditor from './BulletPointEditor';
+import ImageModal from './ImageModal';
+import ActionStatusModal from './ActionStatusModal';
+import PdfExportSettingsModal from './PdfExportSettingsModal';
+import LastSavedIndicator from './LastSavedIndicator';
+import type { ReportDocument } from './pdfLayout';
+import { DEFAULT_PDF_EXPORT_SETTINGS, formatFileSize, renderReportWithinBudget } from './pdfExport';
+import { renderReportDocx } from './docxReport';
+import { buildPhotoEntries, dfrPhotoFields } from './pdfImages';
+import xterraLogo from '../assets/xterra-logo.jpg';
+
+// --- UI Components ---
+const EditableField: React.FC<{ label: string; value: string; onChange: (value: string) => void; type?: string; isInvalid?: boolean; }> = ({ label, value, onChange, type = 'text', isInvalid = false }) => (
+    <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+        <input
+            type={type}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`block w-full p-2 border rounded-md shadow-sm focus:ring-2 focus:ring-[#007D8C] focus:border-[#007D8C] transition ${isInvalid ? 'border-red-500' : 'border-gray-300'}`}
+            spellCheck={type === 'text'}
+        />
+    </div>
+);
+
+const SummaryDayEntry: React.FC<{
+    day: SummaryDay;
+    onChange: (field: 'activities' | 'hoursWorked', value: string) => void;
+    onRemove: () => void;
+    id?: string;
+}> = ({ day, onChange, onRemove, id }) => (
+    <div id={id} className="p-4 border border-gray-200 rounded-md">
+        <div className="flex justify-between items-start mb-2 gap-4">
+            <div className="min-w-0">
+                <h3 className="font-bold text-gray-700">{formatSummaryDay(day.date)}</h3>
+                {day.sources.length > 0 && <p className="text-sm text-gray-500 truncate">From {day.sources.join(', ')}</p>}
+            </div>
+            <button onClick={onRemove} className="p-1 text-red-500 hover:text-red-700 transition duration-200" aria-label="Remove Day">
+                <TrashIcon className="h-6 w-6" />
+            </button>
+        </div>
+        <div className="space-y-4">
+            <div className="max-w-xs">
+                <EditableField label="Hours Worked" value={day.hoursWorked} onChange={v => onChange('hoursWorked', v)} />
+            </div>
+            <BulletPointEditor label="Activities" value={day.activities} onChange={v => onChange('activities', v)} rows={6} />
+        </div>
+    </div>
+);
+
+// --- Main Component ---
+interface SummaryReportProps {
+    onBack: () => void;
+    /** A SummaryReportProject. */
+    initialData?: any;
+    /** A search match to scroll to once the report has loaded. */
+    focusTarget?: SearchTarget;
+}
+
+const SummaryReport = ({ onBack, initialData, focusTarget }: SummaryReportProps): ReactElement => {
+    const [summary, setSummary] = useState<SummaryReportData>(createEmptySummary);
+    const [photosData, setPhotosData] = useState<PhotoData[]>([]);
+    const [exportSettings, setExportSettings] = useState<PdfExportSettings>(DEFAULT_PDF_EXPORT_SETTINGS);
+    const [candidates, setCandidates] = useState<SummaryPhotoCandidate[]>([]);
+    const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
+    const [undatedReports, setUndatedReports] = useState<string[]>([]);
+    const [errors, setErrors] = useState(new Set<string>());
+    const [showMigrationNotice, setShowMigrationNotice] = useState(false);
+    const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
+    const [pdfPreview, setPdfPreview] = useState<{ url: string; filename: string } | null>(null);
+    const [showExportSettings, setShowExportSettings] = useState(false);
+    const [showStatusModal, setShowStatusModal] = useState(false);
+    const [statusMessage, setStatusMessage] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useSearchTargetFocus(focusTarget);
+
+    const draftData = useMemo(() => ({ summary, photosData, exportSettings }), [summary, photosData, exportSettings]);
+    const { lastSavedAt, markSaved: markDraftSaved } = useDraftAutosave('summaryReport', initialData, {
+        name: getSummaryReportName(summary),
+        projectNumber: summary.projectNumber || '',
+        projectData: draftData,
+    });
+
+    // The photo pool is read fresh from the DFRs; only the chosen photos are saved with the summary.
+    const loadCandidates = async (summaryToLoad: SummaryReportData) => {
+        if (!summaryToLoad.projectNumber || !summaryToLoad.periodStart || !summaryToLoad.periodEnd) {
+            setCandidates([]);
+            return;
+        }
+        setIsLoadingCandidates(true);
+        try {
+            const { candidates: loaded, undated } = await gatherSummary(summaryToLoad.projectNumber, summaryToLoad.periodStart, summaryToLoad.periodEnd);
+            setCandidates(loaded);
+            setUndatedReports(undated);
+        } catch (e) {
+            console.error("Failed to load the DFR photos for the summary:", e);
+        } finally {
+            setIsLoadingCandidates(false);
+        }
+    };
+
+    const processLoadedData = async (projectData: any) => {
+        const { project, migrated } = migrateProject('summaryReport', projectData);
+        const { summary: loadedSummary, photosData: loadedPhotos, exportSettings: loadedExportSettings } = project as SummaryReportProject & DraftSessionFields;
+        const finalSummary = { ...createEmptySummary(), ...loadedSummary };
+        const finalExportSettings = loadedExportSettings || DEFAULT_PDF_EXPORT_SETTINGS;
+
+        setSummary(finalSummary);
+        setExportSettings(finalExportSettings);
+        setErrors(new Set());
+
+        if (migrated) {
+            setShowMigrationNotice(true);
+        }
+
+        const hydratedPhotos = await loadPhotoThumbnails(loadedPhotos);
+        setPhotosData(hydratedPhotos);
+        loadCandidates(finalSummary);
+
+        return { finalSummary, finalPhotos: hydratedPhotos, finalExportSettings };
+    };
+
+    const parseAndLoadProject = async (fileData: Uint8Array) => {
+        try {
+            const projectData = await readProjectFile(fileData);
+            const { finalSummary, finalPhotos, finalExportSettings } = await processLoadedData(projectData);
+
+            const stateForRecent = await prepareStateForRecentProjectStorage(finalSummary, finalPhotos, finalExportSettings);
+            await saveReportToRegistry(stateForRecent, { type: 'summaryReport', name: getSummaryReportName(finalSummary), projectNumber: finalSummary.projectNumber || '' });
+            markDraftSaved();
+        } catch (err) {
+            alert(describeProjectFileError(err));
+            console.error(err);
+        }
+    }
+
+    useEffect(() => {
+        const loadInitialData = async () => {
+            if (initialData) {
+                await processLoadedData(initialData);
+                // Only a stored project has a timestamp. A restored draft is still unsaved, and so is a
+                // new report built from a template, the project defaults or another report.
+                if (!initialData.draftId && typeof initialData.timestamp === 'number') {
+                    markDraftSaved(initialData.timestamp);
+                }
+            }
+        };
+        loadInitialData();
+    }, [initialData]);
+
+    const handleChange = (field: keyof Omit<SummaryReportData, 'days' | 'photoSources'>, value: string) => {
+        setSummary(prev => ({ ...prev, [field]: value }));
+    };
+
+    // --- Day Handlers ---
+    const updateDay = (date: string, field: 'activities' | 'hoursWorked', value: string) => {
+        setSummary(prev => ({ ...prev, days: prev.days.map(day => day.date === date ? { ...day, [field]: value } : day) }));
+    };
+
+    const removeDay = (date: string) => {
+        setSummary(prev => ({ ...prev, days: prev.days.filter(day => day.date !== date) }));
+    };
+
+    const handleRebuild = async () => {
+        const newErrors = new Set<string>();
+        if (!summary.projectNumber) newErrors.add('projectNumber');
+        if (!summary.periodStart) newErrors.add('periodStart');
+        if (!summary.periodEnd || summary.periodEnd < summary.periodStart) newErrors.add('periodEnd');
+        setErrors(newErrors);
+        if (newErrors.size > 0) {
+            alert('Enter the project number and a period that ends on or after it starts.');
+            return;
+        }
+        if ((summary.days.length > 0 || summary.wildlifeObservations) && !window.confirm('Rebuild the daily activities and wildlife observations from the stored DFRs? Edits to them will be replaced.')) {
+            return;
+        }
+
+        setStatusMessage('Reading DFRs...');
+        setShowStatusModal(true);
+        try {
+            const gathered = await gatherSummary(summary.projectNumber, summary.periodStart, summary.periodEnd);
+            setSummary(prev => ({ ...prev, days: gathered.days, wildlifeObservations: gathered.wildlifeObservations }));
+            setCandidates(gathered.candidates);
+            setUndatedReports(gathered.undated);
+            if (gathered.days.length === 0) {
+                alert('No DFRs for this project are dated within the period.');
+            }
+        } catch (e) {
+            console.error("Failed to rebuild the summary:", e);
+            alert("Could not read the stored DFRs. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+    };
+
+    // --- Photo Appendix Handlers ---
+    const renumberPhotos = (photos: PhotoData[]) => photos.map((photo, index) => ({ ...photo, photoNumber: String(index + 1) }));
+
+    const selectedKeys = useMemo(() => new Set(Object.values(summary.photoSources)), [summary.photoSources]);
+
+    const removePhoto = (id: number) => {
+        setPhotosData(prev => {
+            // The image stays stored: saved and archived versions may still use it. Deleting the
+            // report or the storage cleanup reclaims it once nothing references it.
+            return renumberPhotos(prev.filter(photo => photo.id !== id));
+        });
+        setSummary(prev => {
+            const { [id]: removed, ...photoSources } = prev.photoSources;
+            return { ...prev, photoSources };
+        });
+    };
+
+    const toggleCandidate = (candidate: SummaryPhotoCandidate) => {
+        const selectedId = Object.keys(summary.photoSources).map(Number).find(id => summary.photoSources[id] === candidate.key);
+        if (selectedId !== undefined) {
+            removePhoto(selectedId);
+            return;
+        }
+        const newId = photosData.length > 0 ? Math.max(...photosData.map(p => p.id)) + 1 : 1;
+        const { photo } = candidate;
+        // A copy, so the appendix is unaffected when the DFR's photo is edited or removed.
+        const newPhoto: PhotoData = {
+            id: newId,
+            photoNumber: '',
+            date: photo.date,
+            location: photo.location,
+            description: photo.description,
+            imageUrl: photo.imageUrl,
+            direction: photo.direction,
+            latitude: photo.latitude,
+            longitude: photo.longitude,
+            provenance: photo.provenance || { reportName: candidate.reportName, projectNumber: summary.projectNumber, photoNumber: photo.photoNumber },
+        };
+        setPhotosData(prev => renumberPhotos([...prev, newPhoto]));
+        setSummary(prev => ({ ...prev, photoSources: { ...prev.photoSources, [newId]: candidate.key } }));
+    };
+
+    const movePhoto = (id: number, direction: 'up' | 'down') => {
+        const index = photosData.findIndex(p => p.id === id);
+        if (index === -1) return;
+
+        const newIndex = direction === 'up' ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= photosData.length) return;
+
+        const newPhotos = [...photosData];
+        [newPhotos[index], newPhotos[newIndex]] = [newPhotos[newIndex], newPhotos[index]];
+
+        setPhotosData(renumberPhotos(newPhotos));
+    };
+
+    const handlePhotoDataChange = (id: number, field: keyof Omit<PhotoData, 'id' | 'imageUrl' | 'imageId'>, value: string) => {
+        setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, [field]: value } : photo));
+    };
+
+    const handleImageChange = (id: number, file: File) => {
+        if (!['image/jpeg', 'image/png'].includes(file.type)) {
+            alert('Please choose a JPG or PNG image.');
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            autoCropImage(e.target?.result as string).then(croppedImageUrl => {
+                setPhotosData(prev => prev.map(photo => photo.id === id ? { ...photo, imageUrl: croppedImageUrl } : photo));
+            }).catch(e => {
+                console.error('Failed to read the chosen image:', e);
+                alert('This image could not be read. Please choose a different JPG or PNG file.');
+            });
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const prepareStateForRecentProjectStorage = async (
+        summaryToStore: SummaryReportData,
+        photosToStore: PhotoData[],
+        settingsToStore: PdfExportSettings
+    ) => {
+        const photosForStorage = await Promise.all(
+            photosToStore.map(async (photo) => {
+                if (photo.imageUrl) {
+                    // A thumbnail means the stored image is unchanged. New and edited images get a fresh
+                    // id, so the image an earlier or archived version points at is never overwritten.
+                    const isStored = isStoredImageUrl(photo.imageUrl) && !!photo.imageId;
+                    const imageId = isStored ? photo.imageId! : `${summaryToStore.projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
+                    if (!isStored) await storeImage(imageId, photo.imageUrl);
+                    const { imageUrl, ...rest } = photo;
+                    return { ...rest, imageId };
+                }
+                return photo;
+            })
+        );
+        return { summary: summaryToStore, photosData: photosForStorage, exportSettings: settingsToStore };
+    };
+
+    const validateForm = (): boolean => {
+        const newErrors = new Set<string>();
+        if (!summary.projectNumber) newErrors.add('projectNumber');
+        if (!summary.periodStart) newErrors.add('periodStart');
+        if (!summary.periodEnd) newErrors.add('periodEnd');
+        setErrors(newErrors);
+        if (newErrors.size > 0) {
+            alert('Please fill in the project number and the period before exporting.');
+            return false;
+        }
+        return true;
+    };
+
+    const buildReportDocument = async (): Promise<ReportDocument> => {
+        const { bodyHeader, photoHeader } = buildSummaryHeaders(summary);
+        return {
+            layout: 'dfr',
+            logo: xterraLogo,
+            bodyHeader,
+            photoHeader,
+            body: buildSummaryBody(summary),
+            photos: await buildPhotoEntries(photosData.filter(p => p.imageUrl), dfrPhotoFields),
+        };
+    };
+
+    const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+    const exportFilename = (extension: string) =>
+        `${sanitize(summary.projectNumber || '') || 'project'}_summary_${summary.periodStart || 'start'}_${summary.periodEnd || 'end'}.${extension}`;
+
+    const handleSavePdf = () => {
+        if (!validateForm()) return;
+        setShowExportSettings(true);
+    };
+
+    const saveToRecentProjects = async () => {
+        const stateForSaving = await prepareStateForRecentProjectStorage(summary, photosData, exportSettings);
+        await saveReportToRegistry(stateForSaving, { type: 'summaryReport', name: getSummaryReportName(summary), projectNumber: summary.projectNumber || '' });
+        markDraftSaved();
+    };
+
+    const handleGeneratePdf = async () => {
+        setShowExportSettings(false);
+        await saveToRecentProjects();
+
+        setStatusMessage('Generating PDF...');
+        setShowStatusModal(true);
+        let oversizeWarning: string | null = null;
+        try {
+            const report = await renderReportWithinBudget(await buildReportDocument(), exportSettings, attempt => {
+                setStatusMessage(`Generating PDF (images at ${attempt.maxImageSize}px, ${Math.round(attempt.jpegQuality * 100)}% quality)...`);
+            });
+            if (!report.withinTarget) {
+                oversizeWarning = `The PDF is ${formatFileSize(report.sizeBytes)}, which is still over the ${exportSettings.targetSizeMb} MB target at the lowest image quality.`;
+            }
+
+            const pdfBlob = report.doc.output('blob');
+            const pdfUrl = URL.createObjectURL(pdfBlob);
+            setPdfPreview({ url: pdfUrl, filename: exportFilename('pdf') });
+        } catch (error) {
+            console.error("Failed to generate PDF:", error);
+            alert("An unexpected error occurred while generating the PDF. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+        if (oversizeWarning) {
+            alert(oversizeWarning);
+        }
+    };
+
+    const handleSaveDocx = async () => {
+        if (!validateForm()) return;
+        await saveToRecentProjects();
+
+        setStatusMessage('Generating Word document...');
+        setShowStatusModal(true);
+        try {
+            const docxBlob = await renderReportDocx(await buildReportDocument());
+            const filename = exportFilename('docx');
+
+            // @ts-ignore
+            if (window.electronAPI?.saveDocxFile) {
+                // @ts-ignore
+                await window.electronAPI.saveDocxFile(await docxBlob.arrayBuffer(), filename);
+            } else {
+                const link = document.createElement('a');
+                link.href = URL.createObjectURL(docxBlob);
+                link.setAttribute('download', filename);
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(link.href);
+            }
+        } catch (error) {
+            console.error("Failed to generate Word document:", error);
+            alert("An unexpected error occurred while generating the Word document. Please check the console for details.");
+        } finally {
+            setShowStatusModal(false);
+        }
+    };
+
+    const handleSaveProject = async () => {
+        await saveToRecentProjects();
+
+        const projectPackage = await createProjectPackage(withSchemaVersion({ summary, photosData, exportSettings }));
+        const filename = exportFilename(SUMMARY_REPORT_FILE_EXTENSION);
+
+        // @ts-ignore
+        if (window.electronAPI) {
+            // @ts-ignore
+            await window.electronAPI.saveProject(projectPackage, filename);
+        } else {
+            const blob = new Blob([projectPackage], { type: 'application/zip' });
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(blob);
+            link.setAttribute('download', filename);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(link.href);
+        }
+    };
+
+    const handleOpenProject = async () => {
+        // @ts-ignore
+        if (window.electronAPI) {
+            // @ts-ignore
+            const fileData = await window.electronAPI.loadProject(SUMMARY_REPORT_FILE_EXTENSION);
+            if (fileData) {
+                await parseAndLoadProject(fileData);
+            }
+        } else {
+            fileInputRef.current?.click();
+        }
+    };
+
+    const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const fileData = new Uint8Array(await file.arrayBuffer());
+        await parseAndLoadProject(fileData);
+        if (event.target) {
+            event.target.value = '';
+        }
+    };
+
+    const totalHoursWorked = getTotalHoursWorked(summary.days);
+
+    return (
+        <div className="bg-gray-100 min-h-screen">
+            {pdfPreview && (
+                <PdfPreviewModal
+                    url={pdfPreview.url}
+                    filename={pdfPreview.filename}
+                    onClose={() => setPdfPreview(null)}
+                />
+            )}
+            {enlargedImageUrl && <ImageModal imageUrl={enlargedImageUrl} imageId={photosData.find(p => p.imageUrl === enlargedImageUrl)?.imageId} onClose={() => setEnlargedImageUrl(null)} />}
+            {showStatusModal && <ActionStatusModal message={statusMessage} />}
+            {showExportSettings && (
+                <PdfExportSettingsModal
+                    settings={exportSettings}
+                    onSettingsChange={setExportSettings}
+                    buildReport={buildReportDocument}
+                    onGenerate={handleGeneratePdf}
+                    onClose={() => setShowExportSettings(false)}
+                />
+            )}
+            <SpecialCharacterPalette />
+            <div className="max-w-7xl mx-auto p-4 md:p-8">
+                {showMigrationNotice && <MigrationNotice onDismiss={() => setShowMigrationNotice(false)} />}
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <div className="flex items-center gap-4">
+                        <button onClick={onBack} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <ArrowLeftIcon /> <span>Home</span>
+                        </button>
+                        <LastSavedIndicator lastSavedAt={lastSavedAt} />
+                    </div>
+                    <h1 className="text-2xl font-bold text-gray-700">Summary Report</h1>
+                    <div className="flex flex-wrap justify-end gap-2">
+                        <button onClick={handleOpenProject} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <FolderOpenIcon /> <span>Open</span>
+                        </button>
+                        <input
+                            type="file"
+                            ref={fileInputRef}
+                            onChange={handleFileSelected}
+                            style={{ display: 'none' }}
+                            accept={`.${SUMMARY_REPORT_FILE_EXTENSION}`}
+                        />
+                        <button onClick={handleSaveProject} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <SaveIcon /> <span>Save</span>
+                        </button>
+                        <button onClick={handleSavePdf} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DownloadIcon /> <span>Save PDF</span>
+                        </button>
+                        <button onClick={handleSaveDocx} className="bg-sky-700 hover:bg-sky-800 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DocumentTextIcon /> <span>Save Word</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="space-y-8">
+                    {/* Header Section */}
+                    <Section title="Summary Information" id={getSearchTargetElementId({ kind: 'header' })}>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                            <EditableField label="X-Terra Project #" value={summary.projectNumber} onChange={v => handleChange('projectNumber', v)} isInvalid={errors.has('projectNumber')} />
+                            <EditableField label="Project Name" value={summary.projectName} onChange={v => handleChange('projectName', v)} />
+                            <EditableField label="Proponent" value={summary.proponent} onChange={v => handleChange('proponent', v)} />
+                            <EditableField label="Location" value={summary.location} onChange={v => handleChange('location', v)} />
+                            <EditableField label="Monitor" value={summary.monitor} onChange={v => handleChange('monitor', v)} />
+                            <div className="grid grid-cols-2 gap-4">
+                                <EditableField label="Period Start" type="date" value={summary.periodStart} onChange={v => handleChange('periodStart', v)} isInvalid={errors.has('periodStart')} />
+                                <EditableField label="Period End" type="date" value={summary.periodEnd} onChange={v => handleChange('periodEnd', v)} isInvalid={errors.has('periodEnd')} />
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="text-sm text-gray-500">
+                                The daily activities, hours and wildlife observations are digested from this project's saved DFRs dated within the period.
+                            </p>
+                            <button onClick={handleRebuild} className="bg-[#007D8C] hover:bg-[#006b7a] text-white font-bold py-2 px-4 rounded-lg transition duration-200">
+                                Rebuild from DFRs
+                            </button>
+                        </div>
+                        {undatedReports.length > 0 && (
+                            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+                                Left out because their date could not be read: {undatedReports.join(', ')}.
+                            </p>
+                        )}
+                    </Section>
+
+                    <Section title="Overview">
+                        <BulletPointEditor
+                            id={getSearchTargetElementId({ kind: 'field', field: 'overview' })}
+                            label="Summary of the period"
+                            value={summary.overview}
+                            onChange={v => handleChange('overview', v)}
+                            rows={4}
+                        />
+                    </Section>
+
+                    <Section title="Daily Activities">
+                        {summary.days.length === 0 ? (
+                            <p className="text-gray-500">No DFRs for this project are dated within the period. Set the period and rebuild to digest them.</p>
+                        ) : (
+                            summary.days.map(day => (
+                                <SummaryDayEntry
+                                    key={day.date}
+                                    id={getSearchTargetElementId({ kind: 'field', field: `day-${day.date}` })}
+                                    day={day}
+                                    onChange={(field, value) => updateDay(day.date, field, value)}
+                                    onRemove={() => removeDay(day.date)}
+                                />
+                            ))
+                        )}
+                        {totalHoursWorked && (
+                            <p className="font-bold text-gray-800">Total Hours Worked (SaskPower DFRs): {totalHoursWorked}</p>
+                        )}
+                    </Section>
+
+                    <Section title="Wildlife Observations">
+                        <BulletPointEditor
+                            id={getSearchTargetElementId({ kind: 'field', field: 'wildlifeObservations' })}
+                            label="Observations for the period"
+                            value={summary.wildlifeObservations}
+                            onChange={v => handleChange('wildlifeObservations', v)}
+                            rows={6}
+                        />
+                    </Section>
+
+                    {/* Photo Appendix Section */}
+                    <div className="border-t-4 border-[#007D8C] my-10" />
+                    <h2 className="text-3xl font-bold text-gray-700 text-center">Photo Appendix</h2>
+
+                    <Section title="DFR Photos">
+                        {isLoadingCandidates ? (
+                            <p className="text-gray-500">Loading photos...</p>
+                        ) : candidates.length === 0 ? (
+                            <p className="text-gray-500">The DFRs in this period have no photos.</p>
+                        ) : (
+                            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                                {candidates.map(candidate => {
+                                    const isSelected = selectedKeys.has(candidate.key);
+                                    return (
+                                        <label key={candidate.key} className={`block rounded-md border-2 p-1 cursor-pointer transition ${isSelected ? 'border-[#007D8C] bg-teal-50' : 'border-gray-200 hover:border-gray-400'}`}>
+                                            <img src={candidate.photo.imageUrl!} alt={candidate.photo.description} className="w-full aspect-[4/3] object-cover rounded" />
+                                            <span className="flex items-start gap-2 mt-1 text-xs text-gray-700">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => toggleCandidate(candidate)}
+                                                    className="mt-0.5 accent-[#007D8C]"
+                                                />
+                                                <span className="min-w-0">
+                                                    <span className="block font-semibold">Photo {candidate.photo.photoNumber} · {formatSummaryDay(candidate.day)}</span>
+                                                    <span className="block truncate text-gray-500">{candidate.photo.description || candidate.reportName}</span>
+                                                </span>
+                                            </span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </Section>
+
+                    <div>
+                        {photosData.length === 0 && (
+                            <p className="text-center text-gray-500">Select photos above to add them to the appendix.</p>
+                        )}
+                        {photosData.map((photo, index) => (
+                            <div key={photo.id} id={getSearchTargetElementId({ kind: 'photo', id: photo.id })} className={index < photosData.length - 1 ? 'mb-6' : ''}>
+                                <PhotoEntry
+                                    data={photo}
+                                    onDataChange={(field, value) => handlePhotoDataChange(photo.id, field, value)}
+                                    onImageChange={(file) => handleImageChange(photo.id, file)}
+                                    onRemove={() => removePhoto(photo.id)}
+                                    onMoveUp={() => movePhoto(photo.id, 'up')}
+                                    onMoveDown={() => movePhoto(photo.id, 'down')}
+                                    isFirst={index === 0}
+                                    isLast={index === photosData.length - 1}
+                                    onImageClick={setEnlargedImageUrl}
+                                    showDirectionField
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <footer className="text-center text-gray-500 text-sm py-4 mt-8">
+                    X-TES Digital Reporting v1.0.2
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default SummaryReport;
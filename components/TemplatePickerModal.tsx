@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ReportTemplate, TemplateReportType } from '../types';
+import { CloseIcon, DownloadIcon, FolderOpenIcon, TrashIcon } from './icons';
+import {
+    TEMPLATE_FILE_EXTENSION,
+    deleteReportTemplate,
+    exportTemplateFile,
+    getReportTemplates,
+    parseTemplateFile,
+    saveReportTemplate,
+} from './templates';
+
+interface TemplatePickerModalProps {
+    type: TemplateReportType;
+    /** Shown in the title, e.g. "Daily Field Report". */
+    reportTypeName: string;
+    /** The project number the report will be filed under, if started from a project. */
+    projectNumber?: string;
+    onSelect: (template: ReportTemplate | null) => void;
+    onClose: () => void;
+}
+
+const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({ type, reportTypeName, projectNumber, onSelect, onClose }) => {
+    const [templates, setTemplates] = useState<ReportTemplate[] | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshTemplates = async () => {
+        setTemplates(await getReportTemplates(type));
+    };
+
+    useEffect(() => {
+        refreshTemplates();
+    }, [type]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleDelete = async (template: ReportTemplate) => {
+        if (!window.confirm(`Delete the template "${template.name}"? Reports already created from it are not affected.`)) {
+            return;
+        }
+        try {
+            await deleteReportTemplate(template.id);
+        } catch (e) {
+            console.error("Failed to delete template:", e);
+        }
+        await refreshTemplates();
+    };
+
+    const handleExport = async (template: ReportTemplate) => {
+        try {
+            await exportTemplateFile(template);
+        } catch (e) {
+            console.error("Failed to export template:", e);
+            alert("Could not export the template.");
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const template = parseTemplateFile(await file.text());
+            await saveReportTemplate(template);
+            if (template.type !== type) {
+                alert(`"${template.name}" was imported, but it is a template for a different report type.`);
+            }
+            await refreshTemplates();
+        } catch (e) {
+            console.error("Failed to import template:", e);
+            alert(e instanceof Error ? e.message : "Could not import the template. The file may be corrupt.");
+        }
+    };
+
+    // Group by client, general templates first.
+    const groups = (templates || []).reduce<Map<string, ReportTemplate[]>>((map, template) => {
+        const list = map.get(template.client) || [];
+        list.push(template);
+        map.set(template.client, list);
+        return map;
+    }, new Map());
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">New {reportTypeName}</h2>
+                        {projectNumber && <p className="text-sm text-gray-500">For project {projectNumber}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-800" aria-label="Close template picker">
+                        <CloseIcon className="h-8 w-8" />
+                    </button>
+                </div>
+                <div className="p-4 overflow-y-auto space-y-4">
+                    <button
+                        onClick={() => onSelect(null)}
+                        className="w-full text-left border border-gray-200 rounded-md px-4 py-3 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#007D8C]"
+                    >
+                        <p className="font-semibold text-gray-800">Blank report</p>
+                        <p className="text-sm text-gray-500">{projectNumber ? "Start with the project's details only." : 'Start from scratch.'}</p>
+                    </button>
+
+                    {templates === null ? (
+                        <p className="text-sm text-gray-500">Loading templates...</p>
+                    ) : templates.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                            No templates yet. Use "Save as Template" in an open report to create one, or import a template file.
+                        </p>
+                    ) : (
+                        [...groups.entries()].map(([client, clientTemplates]) => (
+                            <div key={client}>
+                                <h3 className="text-xs font-bold uppercase tracking-wide text-gray-500 mb-1">{client || 'General'}</h3>
+                                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                                    {clientTemplates.map(template => (
+                                        <li key={template.id} className="flex items-center">
+                                            <button
+                                                onClick={() => onSelect(template)}
+                                                className="flex-1 min-w-0 text-left px-4 py-3 hover:bg-gray-50 focus:outline-none focus:bg-gray-100"
+                                            >
+                                                <p className="font-semibold text-[#007D8C] truncate">{template.name}</p>
+                                                <p className="text-sm text-gray-500">Updated {new Date(template.updatedAt).toLocaleDateString()}</p>
+                                            </button>
+                                            <button onClick={() => handleExport(template)} className="p-2 text-gray-500 hover:text-gray-800" aria-label={`Export ${template.name}`} title="Export to file">
+                                                <DownloadIcon className="h-5 w-5" />
+                                            </button>
+                                            <button onClick={() => handleDelete(template)} className="p-2 mr-2 text-red-500 hover:text-red-700" aria-label={`Delete ${template.name}`} title="Delete template">
+                                                <TrashIcon className="h-5 w-5" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))
+                    )}
+                </div>
+                <div className="flex justify-between items-center p-4 border-t">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="text-[#007D8C] hover:text-[#006b7a] font-semibold inline-flex items-center gap-2"
+                    >
+                        <FolderOpenIcon className="h-5 w-5" /> <span>Import template</span>
+                    </button>
+                    <input
+                        type="file"
+                        ref={fileInputRef}
+                        onChange={handleImport}
+                        style={{ display: 'none' }}
+                        accept={`.${TEMPLATE_FILE_EXTENSION},.json`}
+                    />
+                    <button onClick={onClose} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded-lg transition duration-200">
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TemplatePickerModal;
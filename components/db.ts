@@ -1,16 +1,26 @@
-// This file uses the 'idb' library, which is loaded via a script tag in index.html.
+// This file uses the 'idb' library, which is bundled with the app.
 // It provides a Promise-based API for IndexedDB.
-declare const idb: any;
+import { openDB } from 'idb';
+import { blobToDataUrl, createThumbnail, hashImageData, toImageBlob } from './imageBlobs';
 
 let dbPromise: Promise<any> | null = null;
 
 const DB_NAME = 'XtecProjectsDB';
 const IMAGE_STORE_NAME = 'images';
 const PROJECT_STORE_NAME = 'projects';
+const REGISTRY_STORE_NAME = 'registry';
+const TEMPLATE_STORE_NAME = 'templates';
+const FORM_STORE_NAME = 'forms';
+const BASEMAP_STORE_NAME = 'basemaps';
+// Image data keyed by content hash. Entries in the images store point at a blob here,
+// so identical photos saved under different imageIds are stored only once.
+const IMAGE_BLOB_STORE_NAME = 'imageBlobs';
+// Set while images stored as base64 data URLs (before version 8) still need converting to Blobs.
+const BLOB_MIGRATION_KEY = 'xtec_image_blob_migration';
 
 const initDB = () => {
   if (!dbPromise) {
-    dbPromise = idb.openDB(DB_NAME, 2, {
+    dbPromise = openDB(DB_NAME, 8, {
       upgrade(db: any, oldVersion: number) {
         if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
           db.createObjectStore(IMAGE_STORE_NAME);
@@ -20,39 +30,299 @@ const initDB = () => {
                 db.createObjectStore(PROJECT_STORE_NAME);
             }
         }
+        if (oldVersion < 3) {
+            if (!db.objectStoreNames.contains(REGISTRY_STORE_NAME)) {
+                db.createObjectStore(REGISTRY_STORE_NAME);
+            }
+        }
+        if (oldVersion < 4) {
+            if (!db.objectStoreNames.contains(TEMPLATE_STORE_NAME)) {
+                db.createObjectStore(TEMPLATE_STORE_NAME);
+            }
+        }
+        if (oldVersion < 5) {
+            if (!db.objectStoreNames.contains(FORM_STORE_NAME)) {
+                db.createObjectStore(FORM_STORE_NAME);
+            }
+        }
+        if (oldVersion < 6) {
+            if (!db.objectStoreNames.contains(BASEMAP_STORE_NAME)) {
+                db.createObjectStore(BASEMAP_STORE_NAME);
+            }
+        }
+        if (oldVersion < 7) {
+            if (!db.objectStoreNames.contains(IMAGE_BLOB_STORE_NAME)) {
+                db.createObjectStore(IMAGE_BLOB_STORE_NAME);
+            }
+        }
+        if (oldVersion > 0 && oldVersion < 8) {
+            // Converting needs async work that cannot run inside the upgrade transaction.
+            localStorage.setItem(BLOB_MIGRATION_KEY, 'pending');
+        }
       },
+    }).then(async (db: any) => {
+      if (localStorage.getItem(BLOB_MIGRATION_KEY)) {
+        await migrateImagesToBlobs(db);
+      }
+      return db;
     });
   }
   return dbPromise;
 };
 
+interface ImagePointer {
+  blobHash: string;
+}
+
+interface ImageBlob {
+  blob: Blob;
+  /** A scaled-down copy for the editor grid; null when the image is small enough already. */
+  thumbnail: Blob | null;
+  /** How many entries in the images store point at this blob. */
+  refCount: number;
+}
+
+const isImagePointer = (value: any): value is ImagePointer => typeof value?.blobHash === 'string';
+
+// Reads the image an entry of the images store holds, including the formats used
+// before version 8: a data URL, or a pointer to a blob record holding one.
+const readImageBlob = async (db: any, value: any, thumbnail: boolean): Promise<Blob | undefined> => {
+  if (typeof value === 'string') return toImageBlob(value);
+  if (!isImagePointer(value)) return undefined;
+  const record = await db.get(IMAGE_BLOB_STORE_NAME, value.blobHash);
+  if (record?.blob instanceof Blob) return (thumbnail && record.thumbnail) || record.blob;
+  return typeof record?.data === 'string' ? toImageBlob(record.data) : undefined;
+};
+
+// Drops one reference to a blob within an open transaction, deleting it when none remain.
+const releaseImageBlob = async (blobs: any, hash: string) => {
+  const blob: ImageBlob | undefined = await blobs.get(hash);
+  if (!blob) return;
+  if (blob.refCount <= 1) {
+    await blobs.delete(hash);
+  } else {
+    await blobs.put({ ...blob, refCount: blob.refCount - 1 }, hash);
+  }
+};
+
+const putImage = async (db: any, id: string, blob: Blob) => {
+  // Hash and scale before opening the transaction, which would otherwise commit while waiting.
+  const hash = await hashImageData(blob);
+  const stored = await db.get(IMAGE_BLOB_STORE_NAME, hash);
+  const thumbnail = stored?.blob ? null : await createThumbnail(blob);
+
+  const tx = db.transaction([IMAGE_STORE_NAME, IMAGE_BLOB_STORE_NAME], 'readwrite');
+  const images = tx.objectStore(IMAGE_STORE_NAME);
+  const blobs = tx.objectStore(IMAGE_BLOB_STORE_NAME);
+
+  const existing = await images.get(id);
+  if (isImagePointer(existing) && existing.blobHash === hash) {
+    await tx.done;
+    return;
+  }
+  if (isImagePointer(existing)) {
+    await releaseImageBlob(blobs, existing.blobHash);
+  }
+  const current = await blobs.get(hash);
+  const record: ImageBlob = current?.blob
+    ? { ...current, refCount: current.refCount + 1 }
+    : { blob, thumbnail, refCount: (current?.refCount ?? 0) + 1 };
+  await blobs.put(record, hash);
+  await images.put({ blobHash: hash } as ImagePointer, id);
+  await tx.done;
+};
+
 /**
- * Stores image data (base64 string) in IndexedDB.
+ * Stores an image in IndexedDB as a Blob, with a thumbnail for the editor grid.
+ * The data is stored once per distinct image; the id points at it by content hash.
  * @param id A unique key for the image.
- * @param imageData The base64 string of the image.
+ * @param imageData The image, as a Blob or a data URL.
  */
-export const storeImage = async (id: string, imageData: string): Promise<void> => {
+export const storeImage = async (id: string, imageData: string | Blob): Promise<void> => {
   const db = await initDB();
-  await db.put(IMAGE_STORE_NAME, imageData, id);
+  await putImage(db, id, typeof imageData === 'string' ? await toImageBlob(imageData) : imageData);
 };
 
 /**
- * Retrieves image data from IndexedDB.
+ * Retrieves an image from IndexedDB at full resolution, as the PDF, DOCX and zip exports need it.
  * @param id The unique key of the image to retrieve.
- * @returns The base64 string of the image, or undefined if not found.
+ * @returns The image as a data URL, or undefined if not found.
  */
 export const retrieveImage = async (id: string): Promise<string | undefined> => {
+  const blob = await retrieveImageBlob(id);
+  return blob ? blobToDataUrl(blob) : undefined;
+};
+
+/**
+ * Retrieves an image from IndexedDB as a Blob.
+ * @param id The unique key of the image to retrieve.
+ * @param thumbnail Return the scaled-down copy, when the image has one.
+ * @returns The image, or undefined if not found.
+ */
+export const retrieveImageBlob = async (id: string, thumbnail = false): Promise<Blob | undefined> => {
   const db = await initDB();
-  return db.get(IMAGE_STORE_NAME, id);
+  return readImageBlob(db, await db.get(IMAGE_STORE_NAME, id), thumbnail);
 };
 
 /**
- * Deletes an image from IndexedDB.
+ * Retrieves the content hash an image is stored under, which identical images share.
+ * @param id The unique key of the image.
+ * @returns The hash, or undefined for a missing image.
+ */
+export const retrieveImageHash = async (id: string): Promise<string | undefined> => {
+  const db = await initDB();
+  const value = await db.get(IMAGE_STORE_NAME, id);
+  return isImagePointer(value) ? value.blobHash : undefined;
+};
+
+/**
+ * Deletes an image from IndexedDB. Its data is deleted once no other image shares it.
  * @param id The unique key of the image to delete.
  */
 export const deleteImage = async (id: string): Promise<void> => {
     const db = await initDB();
-    await db.delete(IMAGE_STORE_NAME, id);
+    const tx = db.transaction([IMAGE_STORE_NAME, IMAGE_BLOB_STORE_NAME], 'readwrite');
+    const images = tx.objectStore(IMAGE_STORE_NAME);
+    const existing = await images.get(id);
+    if (isImagePointer(existing)) {
+        await releaseImageBlob(tx.objectStore(IMAGE_BLOB_STORE_NAME), existing.blobHash);
+    }
+    await images.delete(id);
+    await tx.done;
+};
+
+// Stored sizes of images, blob records and edit originals, in bytes. Data URLs from
+// before version 8 are ASCII, so their length is a fair estimate.
+const imageRecordSize = (value: any): number => {
+  if (value instanceof Blob) return value.size;
+  if (typeof value === 'string') return value.length;
+  if (value?.blob instanceof Blob) return value.blob.size + (value.thumbnail?.size ?? 0);
+  if (typeof value?.data === 'string') return value.data.length;
+  if (value?.original) return imageRecordSize(value.original);
+  return 0;
+};
+
+/**
+ * Measures what an image or edit original takes up in IndexedDB. Data shared with
+ * other images is counted in full.
+ * @param id The unique key of the image or source record.
+ * @returns The size in bytes, or 0 if not found.
+ */
+export const retrieveImageSize = async (id: string): Promise<number> => {
+  const db = await initDB();
+  const value = await db.get(IMAGE_STORE_NAME, id);
+  return imageRecordSize(isImagePointer(value) ? await db.get(IMAGE_BLOB_STORE_NAME, value.blobHash) : value);
+};
+
+export interface ImagePruneResult {
+  /** Unreferenced entries in the images store: images and edit originals. */
+  orphanedImages: number;
+  /** Distinct image data no referenced image points at. */
+  orphanedBlobs: number;
+  /** Approximate bytes the orphaned entries and data take up. */
+  orphanedBytes: number;
+}
+
+/**
+ * Finds every image and edit original that is not referenced, and every stored image
+ * data no referenced image points at. Unless dryRun is set they are deleted, and blob
+ * reference counts are recounted from the remaining images, repairing any left wrong
+ * by an interrupted save.
+ * @param referencedIds The imageIds and sourceImageIds that are still in use.
+ * @param dryRun Only report what would be deleted.
+ * @returns What was (or would be) deleted.
+ */
+export const pruneImages = async (referencedIds: Set<string>, dryRun = false): Promise<ImagePruneResult> => {
+  const db = await initDB();
+  const tx = db.transaction([IMAGE_STORE_NAME, IMAGE_BLOB_STORE_NAME], dryRun ? 'readonly' : 'readwrite');
+  const images = tx.objectStore(IMAGE_STORE_NAME);
+  const blobs = tx.objectStore(IMAGE_BLOB_STORE_NAME);
+  const result: ImagePruneResult = { orphanedImages: 0, orphanedBlobs: 0, orphanedBytes: 0 };
+
+  const refCounts = new Map<string, number>();
+  let cursor = await images.openCursor();
+  while (cursor) {
+    if (!referencedIds.has(String(cursor.key))) {
+      result.orphanedImages++;
+      result.orphanedBytes += imageRecordSize(cursor.value);
+      if (!dryRun) await cursor.delete();
+    } else if (isImagePointer(cursor.value)) {
+      refCounts.set(cursor.value.blobHash, (refCounts.get(cursor.value.blobHash) ?? 0) + 1);
+    }
+    cursor = await cursor.continue();
+  }
+
+  let blobCursor = await blobs.openCursor();
+  while (blobCursor) {
+    const refCount = refCounts.get(String(blobCursor.key)) ?? 0;
+    if (refCount === 0) {
+      result.orphanedBlobs++;
+      result.orphanedBytes += imageRecordSize(blobCursor.value);
+      if (!dryRun) await blobCursor.delete();
+    } else if (!dryRun && blobCursor.value.refCount !== refCount) {
+      await blobCursor.update({ ...blobCursor.value, refCount });
+    }
+    blobCursor = await blobCursor.continue();
+  }
+  await tx.done;
+  return result;
+};
+
+const putImageSource = async (db: any, id: string, source: any) => {
+  const original = typeof source.original === 'string' ? await toImageBlob(source.original) : source.original;
+  await db.put(IMAGE_STORE_NAME, { ...source, original }, id);
+};
+
+/**
+ * Stores an image's untouched original and its edit operations in IndexedDB.
+ * These records share the images store with the flattened images; the original is kept as a Blob.
+ * @param id A unique key for the source record.
+ * @param source The original image data URL and the edits applied to it.
+ */
+export const storeImageSource = async (id: string, source: object): Promise<void> => {
+  const db = await initDB();
+  await putImageSource(db, id, source);
+};
+
+/**
+ * Retrieves an image's original and edit operations from IndexedDB.
+ * @param id The unique key of the source record.
+ * @returns The source record with its original as a data URL, or undefined if not found.
+ */
+export const retrieveImageSource = async (id: string): Promise<any | undefined> => {
+  const db = await initDB();
+  const source = await db.get(IMAGE_STORE_NAME, id);
+  if (source?.original instanceof Blob) {
+    return { ...source, original: await blobToDataUrl(source.original) };
+  }
+  return source;
+};
+
+// One-time conversion of images stored as base64 data URLs before version 8, one
+// record at a time. Records that fail are left readable as they are, and the
+// migration runs again on the next launch.
+const migrateImagesToBlobs = async (db: any) => {
+  let failed = 0;
+  const ids: string[] = await db.getAllKeys(IMAGE_STORE_NAME);
+  for (const id of ids) {
+    try {
+      const value = await db.get(IMAGE_STORE_NAME, id);
+      if (typeof value?.original === 'string') {
+        await putImageSource(db, id, value);
+      } else if (typeof value === 'string' || isImagePointer(value)) {
+        const record = isImagePointer(value) ? await db.get(IMAGE_BLOB_STORE_NAME, value.blobHash) : null;
+        if (record?.blob instanceof Blob) continue;
+        const blob = await readImageBlob(db, value, false);
+        if (blob) await putImage(db, id, blob);
+      }
+    } catch (e) {
+      failed++;
+      console.error(`Failed to convert image (${id}) to a Blob:`, e);
+    }
+  }
+  if (failed === 0) {
+    localStorage.removeItem(BLOB_MIGRATION_KEY);
+  }
 };
 
 /**
@@ -83,3 +353,172 @@ export const deleteProject = async (id: number): Promise<void> => {
     const db = await initDB();
     await db.delete(PROJECT_STORE_NAME, id);
 };
+
+// Autosaved drafts share the projects store with saved projects. Saved projects are
+// keyed by numeric timestamps; drafts use string keys under this prefix, which
+// IndexedDB always sorts after numbers, so one key range selects them all.
+const DRAFT_KEY_PREFIX = 'draft:';
+
+/**
+ * Stores an autosaved draft in IndexedDB.
+ * @param id The draft's identifier (without the key prefix).
+ * @param draftData The draft record, including the editor state.
+ */
+export const storeDraft = async (id: string, draftData: object): Promise<void> => {
+  const db = await initDB();
+  await db.put(PROJECT_STORE_NAME, draftData, `${DRAFT_KEY_PREFIX}${id}`);
+};
+
+/**
+ * Retrieves every saved project from IndexedDB, including archived versions and
+ * projects no longer in the registry. Drafts are left out.
+ * @returns The projects with their timestamp keys, in key order.
+ */
+export const retrieveSavedProjects = async (): Promise<{ timestamp: number; projectData: any }[]> => {
+  const db = await initDB();
+  // Numeric keys sort before the drafts' string keys.
+  const range = IDBKeyRange.upperBound(Infinity);
+  const store = db.transaction(PROJECT_STORE_NAME).objectStore(PROJECT_STORE_NAME);
+  const [keys, values] = await Promise.all([store.getAllKeys(range), store.getAll(range)]);
+  return keys.map((timestamp: number, i: number) => ({ timestamp, projectData: values[i] }));
+};
+
+/**
+ * Retrieves every autosaved draft from IndexedDB.
+ * @returns The draft records, in key order.
+ */
+export const retrieveDrafts = async (): Promise<any[]> => {
+  const db = await initDB();
+  return db.getAll(PROJECT_STORE_NAME, IDBKeyRange.bound(DRAFT_KEY_PREFIX, `${DRAFT_KEY_PREFIX}\uffff`));
+};
+
+/**
+ * Deletes an autosaved draft from IndexedDB.
+ * @param id The draft's identifier (without the key prefix).
+ */
+export const deleteDraft = async (id: string): Promise<void> => {
+    const db = await initDB();
+    await db.delete(PROJECT_STORE_NAME, `${DRAFT_KEY_PREFIX}${id}`);
+};
+
+/**
+ * Stores a project registry record in IndexedDB.
+ * @param key The normalized project number the record belongs to.
+ * @param record The project's defaults and the reports written for it.
+ */
+export const storeProjectRecord = async (key: string, record: object): Promise<void> => {
+  const db = await initDB();
+  await db.put(REGISTRY_STORE_NAME, record, key);
+};
+
+/**
+ * Retrieves a project registry record from IndexedDB.
+ * @param key The normalized project number.
+ * @returns The record, or undefined if the project is not registered.
+ */
+export const retrieveProjectRecord = async (key: string): Promise<any | undefined> => {
+  const db = await initDB();
+  return db.get(REGISTRY_STORE_NAME, key);
+};
+
+/**
+ * Retrieves every project registry record from IndexedDB.
+ * @returns The records, in key order.
+ */
+export const retrieveProjectRecords = async (): Promise<any[]> => {
+  const db = await initDB();
+  return db.getAll(REGISTRY_STORE_NAME);
+};
+
+/**
+ * Deletes a project registry record from IndexedDB.
+ * @param key The normalized project number.
+ */
+export const deleteProjectRecord = async (key: string): Promise<void> => {
+    const db = await initDB();
+    await db.delete(REGISTRY_STORE_NAME, key);
+};
+
+/**
+ * Stores a report template in IndexedDB.
+ * @param id The template's unique identifier.
+ * @param template The template record.
+ */
+export const storeTemplate = async (id: string, template: object): Promise<void> => {
+  const db = await initDB();
+  await db.put(TEMPLATE_STORE_NAME, template, id);
+};
+
+/**
+ * Retrieves every report template from IndexedDB.
+ * @returns The template records, in key order.
+ */
+export const retrieveTemplates = async (): Promise<any[]> => {
+  const db = await initDB();
+  return db.getAll(TEMPLATE_STORE_NAME);
+};
+
+/**
+ * Deletes a report template from IndexedDB.
+ * @param id The template's unique identifier.
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+    const db = await initDB();
+    await db.delete(TEMPLATE_STORE_NAME, id);
+};
+
+/**
+ * Stores a DFR form definition in IndexedDB.
+ * @param id The definition's unique identifier.
+ * @param form The form definition.
+ */
+export const storeFormDefinition = async (id: string, form: object): Promise<void> => {
+  const db = await initDB();
+  await db.put(FORM_STORE_NAME, form, id);
+};
+
+/**
+ * Retrieves every stored DFR form definition from IndexedDB.
+ * @returns The form definitions, in key order.
+ */
+export const retrieveFormDefinitions = async (): Promise<any[]> => {
+  const db = await initDB();
+  return db.getAll(FORM_STORE_NAME);
+};
+
+/**
+ * Deletes a DFR form definition from IndexedDB.
+ * @param id The definition's unique identifier.
+ */
+export const deleteFormDefinition = async (id: string): Promise<void> => {
+    const db = await initDB();
+    await db.delete(FORM_STORE_NAME, id);
+};
+
+/**
+ * Stores a site map basemap in IndexedDB.
+ * @param id The basemap's unique identifier.
+ * @param basemap The basemap record, including its image or tiles.
+ */
+export const storeBasemap = async (id: string, basemap: object): Promise<void> => {
+  const db = await initDB();
+  await db.put(BASEMAP_STORE_NAME, basemap, id);
+};
+
+/**
+ * Retrieves every site map basemap from IndexedDB.
+ * @returns The basemap records, in key order.
+ */
+export const retrieveBasemaps = async (): Promise<any[]> => {
+  const db = await initDB();
+  return db.getAll(BASEMAP_STORE_NAME);
+};
+
+/**
+ * Deletes a site map basemap from IndexedDB.
+ * @param id The basemap's unique identifier.
+ */
+export const deleteBasemap = async (id: string): Promise<void> => {
+    const db = await initDB();
+    await db.delete(BASEMAP_STORE_NAME, id);
+};
@@ -0,0 +1,372 @@
+// Word (DOCX) renderer for report documents.
+// Takes the same ReportDocument the PDF engine draws, so an editable report has
+// the same header block, sections, checklist and photo pages as the PDF. Word
+// does the pagination itself: the info block sits in the page header so it
+// repeats on every page, and photo entries are kept to two per page.
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    Footer,
+    Header,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    PageNumber,
+    Paragraph,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    VerticalAlign,
+    WidthType,
+    convertMillimetersToTwip,
+    type ISectionOptions,
+} from 'docx';
+import { parseBulletLines, type BodyBlock, type HeaderBlock, type HeaderField, type PdfImage, type PhotoEntryBlock, type ReportDocument, type ReportLayout } from './pdfLayout';
+
+// --- Page Setup ---
+
+const TEAL = '007D8C';
+const FONT = 'Times New Roman';
+const BULLET_REFERENCE = 'report-bullets';
+
+const PAGE_WIDTH_MM = 215.9;
+const PAGE_HEIGHT_MM = 279.4;
+const HEADER_ALLOWANCE_MM = 55;
+const PHOTO_COLUMN_GAP_MM = 5;
+const MAX_PHOTOS_PER_PAGE = 2;
+
+interface DocxProfile {
+    margin: number;
+    uppercaseLabels: boolean;
+    photoTextRatio: number;
+}
+
+// Mirrors the PDF layout profiles.
+const PROFILES: Record<ReportLayout, DocxProfile> = {
+    photoLog: { margin: 10, uppercaseLabels: false, photoTextRatio: 0.40 },
+    dfr: { margin: 16.7, uppercaseLabels: true, photoTextRatio: 0.35 },
+};
+
+type ImageType = 'jpg' | 'png';
+
+interface DocxImage {
+    data: string | ArrayBuffer;
+    type: ImageType;
+}
+
+const twip = (mm: number) => convertMillimetersToTwip(mm);
+const mmToPx = (mm: number) => Math.round((mm * 96) / 25.4);
+
+const imageTypeOf = (dataUrl: string): ImageType => (dataUrl.startsWith('data:image/png') ? 'png' : 'jpg');
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+const TEAL_RULE = { style: BorderStyle.SINGLE, size: 12, color: TEAL };
+const THIN_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' };
+
+const NO_TABLE_BORDERS = {
+    top: NO_BORDER,
+    bottom: NO_BORDER,
+    left: NO_BORDER,
+    right: NO_BORDER,
+    insideHorizontal: NO_BORDER,
+    insideVertical: NO_BORDER,
+};
+
+// --- Helpers ---
+
+const loadLogo = async (src: string | undefined): Promise<DocxImage | null> => {
+    if (!src) return null;
+    try {
+        if (src.startsWith('data:')) return { data: src, type: imageTypeOf(src) };
+        // Bundled assets are served from the app itself, so this never leaves the machine.
+        const response = await fetch(src);
+        return { data: await response.arrayBuffer(), type: /\.png$/i.test(src) ? 'png' : 'jpg' };
+    } catch (e) {
+        console.error("Could not load logo for DOCX", e);
+        return null;
+    }
+};
+
+const imageRun = (image: PdfImage, maxWidthMm: number, maxHeightMm: number): ImageRun => {
+    const ratio = Math.min(maxWidthMm / image.width, maxHeightMm / image.height);
+    return new ImageRun({
+        type: imageTypeOf(image.data),
+        data: image.data,
+        transformation: { width: mmToPx(image.width * ratio), height: mmToPx(image.height * ratio) },
+    });
+};
+
+const fieldParagraph = (field: HeaderField, uppercase: boolean, labelSize: number, valueSize: number): Paragraph =>
+    new Paragraph({
+        spacing: { after: twip(1) },
+        children: [
+            new TextRun({ text: `${uppercase ? (field.label || '').toUpperCase() : field.label}: `, bold: true, size: labelSize * 2 }),
+            new TextRun({ text: field.value || '', size: valueSize * 2 }),
+        ],
+    });
+
+const textParagraphs = (text: string, size: number): Paragraph[] =>
+    (text || '').split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, size: size * 2 })] }));
+
+const ruleParagraph = (): Paragraph =>
+    new Paragraph({ border: { bottom: TEAL_RULE }, spacing: { before: twip(3), after: twip(3) }, children: [] });
+
+// --- Header and Footer ---
+
+const buildHeader = (header: HeaderBlock, profile: DocxProfile, logo: DocxImage | null): Header => {
+    const children: (Paragraph | Table)[] = [];
+
+    if (header.title) {
+        children.push(new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: NO_TABLE_BORDERS,
+            rows: [new TableRow({
+                children: [
+                    new TableCell({
+                        width: { size: 25, type: WidthType.PERCENTAGE },
+                        verticalAlign: VerticalAlign.CENTER,
+                        children: [new Paragraph({
+                            children: logo
+                                ? [new ImageRun({ type: logo.type, data: logo.data, transformation: { width: mmToPx(40), height: mmToPx(10) } })]
+                                : [],
+                        })],
+                    }),
+                    new TableCell({
+                        width: { size: 50, type: WidthType.PERCENTAGE },
+                        verticalAlign: VerticalAlign.CENTER,
+                        children: [new Paragraph({
+                            alignment: AlignmentType.CENTER,
+                            children: [new TextRun({ text: header.title, bold: true, size: 36, color: TEAL })],
+                        })],
+                    }),
+                    new TableCell({ width: { size: 25, type: WidthType.PERCENTAGE }, children: [new Paragraph({ children: [] })] }),
+                ],
+            })],
+        }));
+    }
+
+    const field = (f: HeaderField) => fieldParagraph(f, profile.uppercaseLabels, 12, 11);
+    const split = Math.round((header.columnSplit ?? (profile.uppercaseLabels ? 0.60 : 0.555)) * 100);
+    const rows = [
+        new TableRow({
+            children: [
+                new TableCell({ width: { size: split, type: WidthType.PERCENTAGE }, children: header.columns[0].map(field) }),
+                new TableCell({ width: { size: 100 - split, type: WidthType.PERCENTAGE }, children: header.columns[1].map(field) }),
+            ],
+        }),
+        ...(header.fullWidth || []).map(f => new TableRow({
+            children: [new TableCell({ columnSpan: 2, children: [field(f)] })],
+        })),
+    ];
+    children.push(new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: { ...NO_TABLE_BORDERS, top: TEAL_RULE, bottom: TEAL_RULE },
+        margins: { top: twip(1.5), bottom: twip(1.5) },
+        rows,
+    }));
+    children.push(new Paragraph({ children: [] }));
+
+    return new Header({ children });
+};
+
+const buildFooter = (): Footer =>
+    new Footer({
+        children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            border: { top: TEAL_RULE },
+            children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 20 })],
+        })],
+    });
+
+// --- Body ---
+
+const bodyChildren = (blocks: BodyBlock[]): (Paragraph | Table)[] => {
+    const children: (Paragraph | Table)[] = [];
+    blocks.forEach(block => {
+        switch (block.kind) {
+            case 'heading':
+                children.push(new Paragraph({
+                    keepNext: true,
+                    spacing: { before: twip(block.spaceBefore || 0), after: twip(2) },
+                    children: [new TextRun({ text: block.text, bold: true, size: block.level === 2 ? 24 : 26 })],
+                }));
+                break;
+            case 'bulletList': {
+                const lines = parseBulletLines(block.text);
+                lines.forEach((line, i) => {
+                    const after = twip(i === lines.length - 1 ? 1 + (block.spaceAfter || 0) : 1);
+                    if (!line || !line.text) {
+                        children.push(new Paragraph({ spacing: { after }, children: [] }));
+                        return;
+                    }
+                    const run = new TextRun({ text: line.text, size: 24 });
+                    children.push(line.bulleted
+                        ? new Paragraph({ numbering: { reference: BULLET_REFERENCE, level: Math.min(line.level, 8) }, spacing: { after }, children: [run] })
+                        : new Paragraph({ indent: { left: twip(line.indent) }, spacing: { after }, children: [run] }));
+                });
+                break;
+            }
+            case 'checklist':
+                children.push(new Paragraph({ spacing: { before: twip(block.spaceBefore ?? 4) }, children: [] }));
+                children.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: { top: THIN_BORDER, bottom: THIN_BORDER, left: THIN_BORDER, right: THIN_BORDER, insideHorizontal: THIN_BORDER, insideVertical: THIN_BORDER },
+                    margins: { top: twip(1), bottom: twip(1), left: twip(2), right: twip(2) },
+                    rows: block.items.map(item => new TableRow({
+                        cantSplit: true,
+                        children: [
+                            new TableCell({
+                                width: { size: 100 - block.options.length * 12, type: WidthType.PERCENTAGE },
+                                children: [new Paragraph({ children: [new TextRun({ text: item.label, size: 20 })] })],
+                            }),
+                            ...block.options.map(option => new TableCell({
+                                width: { size: 12, type: WidthType.PERCENTAGE },
+                                children: [new Paragraph({
+                                    children: [new TextRun({
+                                        text: `${option === item.value ? '☒' : '☐'} ${option}`,
+                                        bold: option === item.value,
+                                        color: option === item.value ? TEAL : undefined,
+                                        size: 20,
+                                    })],
+                                })],
+                            })),
+                        ],
+                    })),
+                }));
+                break;
+            case 'line':
+                children.push(new Paragraph({
+                    spacing: { before: twip(block.spaceBefore || 0) },
+                    children: [new TextRun({ text: block.text, bold: block.bold, size: (block.fontSize || 12) * 2 })],
+                }));
+                break;
+        }
+    });
+    return children;
+};
+
+// --- Photos ---
+
+const entryTextChildren = (entry: PhotoEntryBlock): Paragraph[] => [
+    ...entry.fields.map(field => fieldParagraph(field, false, 12, 12)),
+    new Paragraph({ spacing: { before: twip(1) }, children: [new TextRun({ text: 'Description:', bold: true, size: 24 })] }),
+    ...textParagraphs(entry.description, 12),
+];
+
+const photoChildren = (photos: PhotoEntryBlock[], profile: DocxProfile): (Paragraph | Table)[] => {
+    const contentWidth = PAGE_WIDTH_MM - profile.margin * 2;
+    const textWidth = (contentWidth - PHOTO_COLUMN_GAP_MM) * profile.photoTextRatio;
+    const imageWidth = contentWidth - PHOTO_COLUMN_GAP_MM - textWidth;
+    const maxImageHeight = (PAGE_HEIGHT_MM - profile.margin * 2 - HEADER_ALLOWANCE_MM) / MAX_PHOTOS_PER_PAGE - 12;
+
+    const children: (Paragraph | Table)[] = [];
+    photos.forEach((entry, i) => {
+        const startsPage = i > 0 && i % MAX_PHOTOS_PER_PAGE === 0;
+        if (i % MAX_PHOTOS_PER_PAGE !== 0) {
+            children.push(ruleParagraph());
+        } else if (startsPage) {
+            children.push(new Paragraph({ pageBreakBefore: true, children: [] }));
+        }
+        children.push(new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: NO_TABLE_BORDERS,
+            rows: [new TableRow({
+                cantSplit: true,
+                children: [
+                    new TableCell({
+                        width: { size: Math.round((textWidth / contentWidth) * 100), type: WidthType.PERCENTAGE },
+                        margins: { right: twip(PHOTO_COLUMN_GAP_MM) },
+                        children: entryTextChildren(entry),
+                    }),
+                    new TableCell({
+                        width: { size: 100 - Math.round((textWidth / contentWidth) * 100), type: WidthType.PERCENTAGE },
+                        children: [new Paragraph({
+                            alignment: AlignmentType.RIGHT,
+                            children: entry.image ? [imageRun(entry.image, imageWidth, maxImageHeight)] : [],
+                        })],
+                    }),
+                ],
+            })],
+        }));
+    });
+    return children;
+};
+
+const mapChildren = (maps: PhotoEntryBlock[], profile: DocxProfile, startOnNewPage: boolean): Paragraph[] => {
+    const contentWidth = PAGE_WIDTH_MM - profile.margin * 2;
+    const maxImageHeight = PAGE_HEIGHT_MM - profile.margin * 2 - HEADER_ALLOWANCE_MM - 50;
+    return maps.flatMap((entry, i) => [
+        new Paragraph({
+            pageBreakBefore: i > 0 || startOnNewPage,
+            alignment: AlignmentType.CENTER,
+            spacing: { after: twip(8) },
+            children: entry.image ? [imageRun(entry.image, contentWidth, maxImageHeight)] : [],
+        }),
+        ...entryTextChildren(entry),
+    ]);
+};
+
+// --- Document ---
+
+/**
+ * Renders a report document as an editable Word file.
+ * @param model The same document model passed to renderReport().
+ * @returns The .docx file contents.
+ */
+export const renderReportDocx = async (model: ReportDocument): Promise<Blob> => {
+    const profile = PROFILES[model.layout];
+    const logo = await loadLogo(model.logo);
+    const { body, photos, maps = [], bodyHeader, photoHeader } = model;
+
+    const page = {
+        size: { width: twip(PAGE_WIDTH_MM), height: twip(PAGE_HEIGHT_MM) },
+        margin: {
+            top: twip(profile.margin),
+            bottom: twip(profile.margin),
+            left: twip(profile.margin),
+            right: twip(profile.margin),
+            header: twip(profile.margin),
+            footer: twip(profile.margin / 2),
+        },
+    };
+    const section = (header: HeaderBlock, children: (Paragraph | Table)[]): ISectionOptions => ({
+        properties: { page },
+        headers: { default: buildHeader(header, profile, logo) },
+        footers: { default: buildFooter() },
+        children,
+    });
+
+    const sections: ISectionOptions[] = [];
+    if (body) {
+        sections.push(section(bodyHeader || photoHeader, bodyChildren(body)));
+    }
+    if (photos.length > 0 || maps.length > 0) {
+        sections.push(section(photoHeader, [
+            ...photoChildren(photos, profile),
+            ...mapChildren(maps, profile, photos.length > 0),
+        ]));
+    }
+    if (sections.length === 0) {
+        sections.push(section(photoHeader, [new Paragraph({ children: [] })]));
+    }
+
+    const doc = new Document({
+        styles: { default: { document: { run: { font: FONT, size: 24 } } } },
+        numbering: {
+            config: [{
+                reference: BULLET_REFERENCE,
+                levels: Array.from({ length: 9 }, (_, level) => ({
+                    level,
+                    format: LevelFormat.BULLET,
+                    text: '-',
+                    alignment: AlignmentType.LEFT,
+                    style: { paragraph: { indent: { left: twip(5 * (level + 1)), hanging: twip(3) } } },
+                })),
+            }],
+        },
+        sections,
+    });
+    return Packer.toBlob(doc);
+};
@@ -0,0 +1,154 @@
+// Autosave and crash recovery for open reports.
+// While a report is being edited, its state is written to the projects store as a
+// draft a couple of seconds after the last change. A draft is cleared as soon as the
+// report is explicitly saved; any draft still present on the next launch is offered
+// for restore on the landing page.
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AppType } from '../App';
+import { deleteDraft, retrieveDrafts, storeDraft } from './db';
+import { withSchemaVersion } from './migrations';
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+export interface ProjectDraft {
+    id: string;
+    type: AppType;
+    name: string;
+    projectNumber: string;
+    savedAt: number;
+    /** The recent project the draft was opened from, if any. */
+    projectTimestamp?: number;
+    /** The editor state. Stored photos keep their imageId; photos added since the last save keep their data URL. */
+    projectData: any;
+}
+
+/** Fields draftToInitialData adds next to the project data; editors must not keep them in report state. */
+export interface DraftSessionFields {
+    timestamp?: number;
+    draftId?: string;
+    draftSavedAt?: number;
+}
+
+interface DraftSnapshot {
+    name: string;
+    projectNumber: string;
+    projectData: object;
+}
+
+/**
+ * Lists the drafts left behind by earlier sessions.
+ * @returns The drafts, most recently saved first.
+ */
+export const getDrafts = async (): Promise<ProjectDraft[]> => {
+    try {
+        const drafts: ProjectDraft[] = await retrieveDrafts();
+        return drafts.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (e) {
+        console.error("Failed to read drafts from IndexedDB", e);
+        return [];
+    }
+};
+
+/**
+ * Builds the editor's initial data from a draft, so the editor keeps writing to the same draft.
+ * @param draft The draft being restored.
+ */
+export const draftToInitialData = (draft: ProjectDraft): DraftSessionFields & Record<string, any> => ({
+    ...draft.projectData,
+    timestamp: draft.projectTimestamp,
+    draftId: draft.id,
+    draftSavedAt: draft.savedAt,
+});
+
+/**
+ * Autosaves an editor's state as a draft.
+ * @param type The report type of the editor.
+ * @param initialData The editor's initial data; a restored draft carries its draftId.
+ * @param snapshot The current name, project number and state to save. projectData should be
+ * memoized so it only changes when the report does.
+ * @returns When the report was last saved (explicitly or as a draft), and a callback to
+ * call after every explicit save.
+ */
+export const useDraftAutosave = (type: AppType, initialData: any, snapshot: DraftSnapshot) => {
+    const draftIdRef = useRef<string>(initialData?.draftId || `${type}-${Date.now()}`);
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(initialData?.draftSavedAt ?? null);
+
+    const snapshotRef = useRef(snapshot);
+    snapshotRef.current = snapshot;
+    const projectTimestampRef = useRef<number | undefined>(initialData?.timestamp);
+    // The state last known to be saved; nothing is autosaved until the state differs from it.
+    const baselineRef = useRef(JSON.stringify(snapshot.projectData));
+    const lastWrittenRef = useRef<string | null>(null);
+    const resetBaselineRef = useRef(false);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const writeDraft = useCallback(async () => {
+        timerRef.current = null;
+        const { name, projectNumber, projectData } = snapshotRef.current;
+        const serialized = JSON.stringify(projectData);
+
+        if (resetBaselineRef.current) {
+            resetBaselineRef.current = false;
+            baselineRef.current = serialized;
+            return;
+        }
+        if (serialized === baselineRef.current || serialized === lastWrittenRef.current) return;
+
+        const savedAt = Date.now();
+        const draft: ProjectDraft = {
+            id: draftIdRef.current,
+            type,
+            name,
+            projectNumber,
+            savedAt,
+            projectTimestamp: projectTimestampRef.current,
+            projectData: withSchemaVersion(projectData),
+        };
+        try {
+            await storeDraft(draft.id, draft);
+            lastWrittenRef.current = serialized;
+            setLastSavedAt(savedAt);
+        } catch (e) {
+            console.error("Failed to autosave draft:", e);
+        }
+    }, [type]);
+
+    const scheduleWrite = useCallback(() => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(writeDraft, AUTOSAVE_DELAY_MS);
+    }, [writeDraft]);
+
+    useEffect(() => {
+        scheduleWrite();
+    }, [snapshot.projectData, scheduleWrite]);
+
+    // Flush a pending write when the editor closes or the window is unloaded.
+    useEffect(() => {
+        const flush = () => {
+            if (timerRef.current) {
+                clearTimeout(timerRef.current);
+                writeDraft();
+            }
+        };
+        window.addEventListener('beforeunload', flush);
+        return () => {
+            window.removeEventListener('beforeunload', flush);
+            flush();
+        };
+    }, [writeDraft]);
+
+    /**
+     * Records an explicit save (or a clean load): the draft is discarded and the state
+     * as of the next autosave tick becomes the new baseline.
+     * @param savedAt When the report was saved; defaults to now.
+     */
+    const markSaved = useCallback((savedAt: number = Date.now()) => {
+        resetBaselineRef.current = true;
+        lastWrittenRef.current = null;
+        setLastSavedAt(savedAt);
+        deleteDraft(draftIdRef.current).catch(e => console.error("Failed to clear draft:", e));
+        scheduleWrite();
+    }, [scheduleWrite]);
+
+    return { lastSavedAt, markSaved };
+};
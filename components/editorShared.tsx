@@ -0,0 +1,222 @@
+// Helpers and pieces of UI shared by the report editors.
+import React, { useCallback, useEffect, useRef } from 'react';
+import type { PhotoData } from '../types';
+import { DownloadIcon, CloseIcon } from './icons';
+
+// --- Helper Functions ---
+/** Formats a report date as YYYY/MM/DD for the name shown in the project list. */
+export const formatDateForRecentProject = (dateString: string): string => {
+    if (!dateString) return '';
+    try {
+        const tempDate = new Date(dateString);
+        if (isNaN(tempDate.getTime())) return dateString;
+        const year = tempDate.getFullYear();
+        const month = tempDate.getMonth();
+        const day = tempDate.getDate();
+        const utcDate = new Date(Date.UTC(year, month, day));
+        const formattedYear = utcDate.getUTCFullYear();
+        const formattedMonth = String(utcDate.getUTCMonth() + 1).padStart(2, '0');
+        const formattedDay = String(utcDate.getUTCDate()).padStart(2, '0');
+        return `${formattedYear}/${formattedMonth}/${formattedDay}`;
+    } catch (e) { return dateString; }
+};
+
+/**
+ * Letterboxes an image onto a white 1024x768 (4:3) canvas, the size every report photo is shown at.
+ * @throws If the image cannot be decoded, e.g. a corrupt JPEG or a HEIC file renamed to .jpg.
+ */
+export const autoCropImage = (imageUrl: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                resolve(imageUrl);
+                return;
+            }
+            const canvasWidth = 1024;
+            const canvasHeight = 768;
+            canvas.width = canvasWidth;
+            canvas.height = canvasHeight;
+            ctx.fillStyle = 'white';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            const targetAspectRatio = canvasWidth / canvasHeight;
+            const originalAspectRatio = img.width / img.height;
+            let drawWidth, drawHeight, drawX, drawY;
+            if (originalAspectRatio > targetAspectRatio) {
+                drawWidth = canvas.width;
+                drawHeight = drawWidth / originalAspectRatio;
+                drawX = 0;
+                drawY = (canvas.height - drawHeight) / 2;
+            } else {
+                drawHeight = canvas.height;
+                drawWidth = drawHeight * originalAspectRatio;
+                drawY = 0;
+                drawX = (canvas.width - drawWidth) / 2;
+            }
+            ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+            resolve(canvas.toDataURL('image/jpeg'));
+        };
+        img.onerror = () => reject(new Error('The image could not be read.'));
+        img.src = imageUrl;
+    });
+};
+
+/** Formats a report date as MM-DD-YYYY for use in a file name. */
+export const formatDateForFilename = (dateString: string): string => {
+    if (!dateString) return 'NoDate';
+    try {
+        const tempDate = new Date(dateString);
+        if (isNaN(tempDate.getTime())) {
+            return dateString.replace(/[^a-z0-9]/gi, '');
+        }
+        const year = tempDate.getFullYear();
+        const month = tempDate.getMonth();
+        const day = tempDate.getDate();
+        const utcDate = new Date(Date.UTC(year, month, day));
+        const formattedMonth = String(utcDate.getUTCMonth() + 1).padStart(2, '0');
+        const formattedDay = String(utcDate.getUTCDate()).padStart(2, '0');
+        const formattedYear = utcDate.getUTCFullYear();
+        return `${formattedMonth}-${formattedDay}-${formattedYear}`;
+    } catch (e) {
+        return dateString.replace(/[^a-z0-9]/gi, '');
+    }
+};
+
+/** Numbers site photos 1, 2, 3... and maps Map 1, Map 2... in list order. */
+export const renumberPhotos = (photos: PhotoData[]): PhotoData[] => {
+    let photoCounter = 0;
+    let mapCounter = 0;
+    return photos.map((photo) => {
+        if (photo.isMap) {
+            mapCounter++;
+            return { ...photo, photoNumber: `Map ${mapCounter}` };
+        } else {
+            photoCounter++;
+            return { ...photo, photoNumber: String(photoCounter) };
+        }
+    });
+};
+
+/**
+ * Runs the handler when Download Photos is chosen from the desktop app's menu.
+ * Only the editor that registered last reacts, and the latest handler is always the one called.
+ * @param handler The editor's photo download handler.
+ */
+export const useDownloadPhotosCommand = (handler: () => void) => {
+    const handlerRef = useRef(handler);
+    useEffect(() => {
+        handlerRef.current = handler;
+    }, [handler]);
+
+    const stableListener = useCallback(() => {
+        handlerRef.current();
+    }, []);
+
+    useEffect(() => {
+        const api = window.electronAPI;
+        if (api && api.onDownloadPhotos && api.removeAllDownloadPhotosListeners) {
+            // Defensively remove any lingering listeners so only this editor reacts to the menu command.
+            api.removeAllDownloadPhotosListeners();
+            api.onDownloadPhotos(stableListener);
+        }
+
+        return () => {
+            if (api && api.removeDownloadPhotosListener) {
+                api.removeDownloadPhotosListener(stableListener);
+            }
+        };
+    }, [stableListener]);
+};
+
+// --- UI Components ---
+export const PdfPreviewModal: React.FC<{ url: string; filename: string; onClose: () => void; }> = ({ url, filename, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        document.body.style.overflow = 'hidden';
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            document.body.style.overflow = 'auto';
+            if (url && url.startsWith('blob:')) {
+                URL.revokeObjectURL(url);
+            }
+        };
+    }, [onClose, url]);
+
+    const handleDownload = () => {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+            <div className="bg-white rounded-lg shadow-2xl w-full h-full flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b bg-gray-50">
+                    <h3 className="text-xl font-bold text-gray-800">PDF Preview</h3>
+                    <div className="flex items-center gap-4">
+                        <button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200">
+                            <DownloadIcon />
+                            <span>Download PDF</span>
+                        </button>
+                        <button onClick={onClose} className="text-gray-500 hover:text-gray-800 transition-colors" aria-label="Close preview">
+                            <CloseIcon className="h-8 w-8" />
+                        </button>
+                    </div>
+                </div>
+                <div className="flex-grow bg-gray-200">
+                    <object data={url} type="application/pdf" className="w-full h-full">
+                        <div className="flex flex-col items-center justify-center h-full bg-gray-100 p-8 text-center text-gray-700">
+                            <p className="mb-4 text-lg font-semibold">It appears your browser cannot preview PDFs directly.</p>
+                            <p className="mb-6">You can download the file to view it instead.</p>
+                            <a
+                                href={url}
+                                download={filename}
+                                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition duration-200"
+                            >
+                                <DownloadIcon />
+                                <span>Download PDF</span>
+                            </a>
+                        </div>
+                    </object>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const Section: React.FC<{ title: string; children: React.ReactNode; id?: string; }> = ({ title, children, id }) => (
+    <div id={id} className="bg-white p-6 shadow-md rounded-lg">
+        <h2 className="text-xl font-bold text-gray-800 border-b-2 border-gray-200 pb-2 mb-4">{title}</h2>
+        <div className="space-y-4">{children}</div>
+    </div>
+);
+
+/** Tells the user an older project file was upgraded on open and needs saving to keep the new format. */
+export const MigrationNotice: React.FC<{ onDismiss: () => void; }> = ({ onDismiss }) => (
+    <div className="bg-blue-100 border-l-4 border-blue-500 text-blue-700 p-4 mb-6 rounded-md shadow-sm" role="alert">
+        <div className="flex">
+            <div className="py-1">
+                <svg className="fill-current h-6 w-6 text-blue-500 mr-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M2.93 17.07A10 10 0 1 1 17.07 2.93 10 10 0 0 1 2.93 17.07zm12.73-1.41A8 8 0 1 0 4.34 4.34a8 8 0 0 0 11.32 11.32zM9 11V9h2v6H9v-4zm0-6h2v2H9V5z"/></svg>
+            </div>
+            <div>
+                <p className="font-bold">Project format updated</p>
+                <p className="text-sm">This project was opened in an older format and has been automatically updated. Please save the project to keep these changes.</p>
+            </div>
+            <button onClick={onDismiss} className="ml-auto -mx-1.5 -my-1.5 bg-blue-100 text-blue-500 rounded-lg focus:ring-2 focus:ring-blue-400 p-1.5 hover:bg-blue-200 inline-flex h-8 w-8" aria-label="Dismiss">
+                <span className="sr-only">Dismiss</span>
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"></path></svg>
+            </button>
+        </div>
+    </div>
+);
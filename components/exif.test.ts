@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PhotoData } from '../types';
+import { applyExifToPhoto, readExif } from './exif';
+
+// --- Building test images ---
+// A big-endian TIFF block with IFD0 at 8, the EXIF IFD at 200 and the GPS IFD at 300;
+// each IFD's out-of-line values follow its entries.
+
+interface TestEntry {
+    tag: number;
+    type: number;
+    count: number;
+    bytes: number[];
+}
+
+const ascii = (tag: number, text: string): TestEntry =>
+    ({ tag, type: 2, count: text.length + 1, bytes: [...Array.from(text, c => c.charCodeAt(0)), 0] });
+
+const long = (tag: number, value: number): TestEntry =>
+    ({ tag, type: 4, count: 1, bytes: [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff] });
+
+const rationals = (tag: number, values: [number, number][]): TestEntry =>
+    ({ tag, type: 5, count: values.length, bytes: values.flatMap(([n, d]) => [...long(0, n).bytes, ...long(0, d).bytes]) });
+
+const EXIF_IFD_OFFSET = 200;
+const GPS_IFD_OFFSET = 300;
+
+const writeIfd = (view: DataView, offset: number, entries: TestEntry[]) => {
+    view.setUint16(offset, entries.length);
+    let dataOffset = offset + 2 + entries.length * 12 + 4;
+    entries.forEach((entry, i) => {
+        const at = offset + 2 + i * 12;
+        view.setUint16(at, entry.tag);
+        view.setUint16(at + 2, entry.type);
+        view.setUint32(at + 4, entry.count);
+        if (entry.bytes.length <= 4) {
+            entry.bytes.forEach((byte, j) => view.setUint8(at + 8 + j, byte));
+        } else {
+            view.setUint32(at + 8, dataOffset);
+            entry.bytes.forEach((byte, j) => view.setUint8(dataOffset + j, byte));
+            dataOffset += entry.bytes.length;
+        }
+    });
+};
+
+const buildTiff = ({ ifd0 = [], exif = [], gps = [] }: { ifd0?: TestEntry[]; exif?: TestEntry[]; gps?: TestEntry[] }): Uint8Array => {
+    const bytes = new Uint8Array(512);
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, 0x4d4d);
+    view.setUint16(2, 42);
+    view.setUint32(4, 8);
+    writeIfd(view, 8, [...ifd0, long(0x8769, EXIF_IFD_OFFSET), long(0x8825, GPS_IFD_OFFSET)]);
+    writeIfd(view, EXIF_IFD_OFFSET, exif);
+    writeIfd(view, GPS_IFD_OFFSET, gps);
+    return bytes;
+};
+
+const buildJpeg = (tiff: Uint8Array): ArrayBuffer => {
+    const length = 2 + 6 + tiff.length;
+    return new Uint8Array([
+        0xff, 0xd8,
+        0xff, 0xe1, length >> 8, length & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff,
+        0xff, 0xd9,
+    ]).buffer;
+};
+
+const buildPng = (tiff: Uint8Array): ArrayBuffer => {
+    const length = [tiff.length >>> 24, (tiff.length >>> 16) & 0xff, (tiff.length >>> 8) & 0xff, tiff.length & 0xff];
+    return new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+        ...length, 0x65, 0x58, 0x49, 0x66, ...tiff, 0, 0, 0, 0,
+        0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0, 0, 0, 0,
+    ]).buffer;
+};
+
+// 52°7'47.25" N, 106°39'36.5" W, facing 47° (NE).
+const SASKATOON_GPS = [
+    ascii(0x0001, 'N'),
+    rationals(0x0002, [[52, 1], [7, 1], [4725, 100]]),
+    ascii(0x0003, 'W'),
+    rationals(0x0004, [[106, 1], [39, 1], [365, 10]]),
+    rationals(0x0011, [[47, 1]]),
+];
+
+describe('readExif', () => {
+    it('reads the capture time, position and direction from a JPEG', () => {
+        const exif = readExif(buildJpeg(buildTiff({
+            ifd0: [ascii(0x0132, '2025:10:02 08:00:00')],
+            exif: [ascii(0x9003, '2025:10:01 14:30:15')],
+            gps: SASKATOON_GPS,
+        })));
+
+        expect(exif.dateTaken).toEqual(new Date(2025, 9, 1, 14, 30, 15));
+        expect(exif.latitude).toBeCloseTo(52.12979, 5);
+        expect(exif.longitude).toBeCloseTo(-106.66014, 5);
+        expect(exif.direction).toBe(47);
+    });
+
+    it('falls back to DateTime when there is no DateTimeOriginal', () => {
+        const exif = readExif(buildJpeg(buildTiff({ ifd0: [ascii(0x0132, '2025:10:02 08:00:00')] })));
+
+        expect(exif).toEqual({ dateTaken: new Date(2025, 9, 2, 8, 0, 0) });
+    });
+
+    it('reads the eXIf chunk of a PNG', () => {
+        const exif = readExif(buildPng(buildTiff({ exif: [ascii(0x9003, '2024:06:30 09:15:00')] })));
+
+        expect(exif.dateTaken).toEqual(new Date(2024, 5, 30, 9, 15, 0));
+    });
+
+    it('ignores the 0,0 position cameras write without a fix', () => {
+        const exif = readExif(buildJpeg(buildTiff({
+            gps: [ascii(0x0001, 'N'), rationals(0x0002, [[0, 1], [0, 1], [0, 1]]), ascii(0x0003, 'E'), rationals(0x0004, [[0, 1], [0, 1], [0, 1]])],
+        })));
+
+        expect(exif).toEqual({});
+    });
+
+    it('returns nothing for images without metadata or files that are not images', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 4, 0, 0, 0, 0, 0, 0, 0xff, 0xd9]).buffer)).toEqual({});
+        expect(readExif(new TextEncoder().encode('not an image at all').buffer)).toEqual({});
+        // An EXIF segment cut off partway through its IFD.
+        expect(readExif(buildJpeg(buildTiff({ gps: SASKATOON_GPS })).slice(0, 40))).toEqual({});
+        vi.restoreAllMocks();
+    });
+});
+
+describe('applyExifToPhoto', () => {
+    const photo = (overrides: Partial<PhotoData> = {}): PhotoData => ({
+        id: 1, photoNumber: '1', date: '', location: '', description: '', direction: '', imageUrl: null, ...overrides,
+    });
+    const exif = { dateTaken: new Date(2025, 9, 1, 14, 30), latitude: 52.13124, longitude: -106.66021, direction: 47 };
+
+    it('fills empty fields from the metadata', () => {
+        expect(applyExifToPhoto(photo(), exif)).toMatchObject({
+            date: 'October 1, 2025',
+            location: '52.13124° N, 106.66021° W',
+            direction: 'NE',
+            latitude: 52.13124,
+            longitude: -106.66021,
+        });
+    });
+
+    it('replaces a date copied from the report header with the capture date', () => {
+        const updated = applyExifToPhoto(photo({ date: 'October 3, 2025' }), exif, 'October 3, 2025');
+
+        expect(updated.date).toBe('October 1, 2025');
+    });
+
+    it('keeps a date, location and direction the user entered', () => {
+        const entered = photo({ date: 'September 30, 2025', location: 'KP 1+100', direction: 'S' });
+        const updated = applyExifToPhoto(entered, exif, 'October 3, 2025');
+
+        expect(updated).toMatchObject({ date: 'September 30, 2025', location: 'KP 1+100', direction: 'S' });
+    });
+
+    it('keeps the position of a photo when the new image has none', () => {
+        const placed = photo({ latitude: 50.5, longitude: -104.6 });
+
+        expect(applyExifToPhoto(placed, { dateTaken: exif.dateTaken })).toMatchObject({ latitude: 50.5, longitude: -104.6 });
+    });
+
+    it('moves the position to the new image when it has one', () => {
+        const placed = photo({ latitude: 50.5, longitude: -104.6, location: 'Old pad' });
+
+        expect(applyExifToPhoto(placed, exif)).toMatchObject({ latitude: 52.13124, longitude: -106.66021, location: 'Old pad' });
+    });
+
+    it('leaves the direction of a map empty', () => {
+        expect(applyExifToPhoto(photo({ isMap: true }), exif).direction).toBe('');
+    });
+});
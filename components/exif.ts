@@ -0,0 +1,256 @@
+// Minimal EXIF reader for photos added to a report.
+// Reads the TIFF structure from a JPEG APP1 segment (or a PNG eXIf chunk) and pulls
+// out the capture time, GPS position and compass direction, so monitors don't have
+// to retype them for every photo. Anything missing or malformed is simply skipped.
+import type { PhotoData } from '../types';
+
+export interface ExifData {
+    /** DateTimeOriginal (or DateTime), in the camera's local time. */
+    dateTaken?: Date;
+    latitude?: number;
+    longitude?: number;
+    /** GPSImgDirection in degrees, 0 = north. */
+    direction?: number;
+}
+
+// --- Tags ---
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_IMG_DIRECTION = 0x0011;
+
+/** Byte size of one value of each TIFF field type. */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+// --- TIFF Parsing ---
+
+interface TiffReader {
+    view: DataView;
+    /** Offset of the TIFF header within the view; IFD offsets are relative to it. */
+    base: number;
+    littleEndian: boolean;
+}
+
+const readValue = (tiff: TiffReader, type: number, count: number, offset: number): TagValue | undefined => {
+    const { view, littleEndian } = tiff;
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        switch (type) {
+            case 1:
+            case 7:
+                values.push(view.getUint8(offset + i));
+                break;
+            case 3:
+                values.push(view.getUint16(offset + i * 2, littleEndian));
+                break;
+            case 4:
+                values.push(view.getUint32(offset + i * 4, littleEndian));
+                break;
+            case 9:
+                values.push(view.getInt32(offset + i * 4, littleEndian));
+                break;
+            case 5:
+            case 10: {
+                const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+                const numerator = read(offset + i * 8, littleEndian);
+                const denominator = read(offset + i * 8 + 4, littleEndian);
+                values.push(denominator ? numerator / denominator : 0);
+                break;
+            }
+            case 2:
+                return String.fromCharCode(
+                    ...Array.from({ length: count }, (_, j) => view.getUint8(offset + j))
+                ).replace(/\0+$/, '').trim();
+            default:
+                return undefined;
+        }
+    }
+    return values.length === 1 ? values[0] : values;
+};
+
+/** Reads every tag of the IFD at `ifdOffset` (relative to the TIFF header). */
+const readIfd = (tiff: TiffReader, ifdOffset: number): Map<number, TagValue> => {
+    const { view, base, littleEndian } = tiff;
+    const tags = new Map<number, TagValue>();
+    const start = base + ifdOffset;
+    if (start + 2 > view.byteLength) return tags;
+
+    const entryCount = view.getUint16(start, littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const count = view.getUint32(entry + 4, littleEndian);
+        const size = (TYPE_SIZES[type] || 0) * count;
+        if (!size) continue;
+        // Values of four bytes or less are stored inline; larger ones at an offset.
+        const valueOffset = size <= 4 ? entry + 8 : base + view.getUint32(entry + 8, littleEndian);
+        if (valueOffset + size > view.byteLength) continue;
+        const value = readValue(tiff, type, count, valueOffset);
+        if (value !== undefined) tags.set(tag, value);
+    }
+    return tags;
+};
+
+const parseExifDate = (value: TagValue | undefined): Date | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    if (!year || !month || !day) return undefined;
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+const parseCoordinate = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const [degrees, minutes, seconds] = value;
+    const decimal = degrees + minutes / 60 + seconds / 3600;
+    return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+const parseTiff = (view: DataView, base: number): ExifData => {
+    const byteOrder = view.getUint16(base);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+    const tiff: TiffReader = { view, base, littleEndian: byteOrder === 0x4949 };
+    if (view.getUint16(base + 2, tiff.littleEndian) !== 42) return {};
+
+    const ifd0 = readIfd(tiff, view.getUint32(base + 4, tiff.littleEndian));
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const gpsOffset = ifd0.get(TAG_GPS_IFD);
+    const exifIfd = typeof exifOffset === 'number' ? readIfd(tiff, exifOffset) : new Map<number, TagValue>();
+    const gpsIfd = typeof gpsOffset === 'number' ? readIfd(tiff, gpsOffset) : new Map<number, TagValue>();
+
+    const result: ExifData = {};
+    const dateTaken = parseExifDate(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) || parseExifDate(ifd0.get(TAG_DATE_TIME));
+    if (dateTaken) result.dateTaken = dateTaken;
+
+    const latitude = parseCoordinate(gpsIfd.get(TAG_GPS_LATITUDE), gpsIfd.get(TAG_GPS_LATITUDE_REF));
+    const longitude = parseCoordinate(gpsIfd.get(TAG_GPS_LONGITUDE), gpsIfd.get(TAG_GPS_LONGITUDE_REF));
+    // A 0,0 fix is what many cameras write when they have no signal.
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+        result.latitude = latitude;
+        result.longitude = longitude;
+    }
+
+    const direction = gpsIfd.get(TAG_GPS_IMG_DIRECTION);
+    if (typeof direction === 'number' && direction >= 0 && direction <= 360) {
+        result.direction = direction;
+    }
+    return result;
+};
+
+// --- Containers ---
+
+const findJpegTiff = (view: DataView): number | null => {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) return null;
+        const marker = view.getUint8(offset + 1);
+        // Start of scan: image data follows, no more metadata segments.
+        if (marker === 0xda) return null;
+        const length = view.getUint16(offset + 2);
+        const isExif = marker === 0xe1
+            && offset + 10 <= view.byteLength
+            && view.getUint32(offset + 4) === 0x45786966 // "Exif"
+            && view.getUint16(offset + 8) === 0;
+        if (isExif) return offset + 10;
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const findPngTiff = (view: DataView): number | null => {
+    let offset = 8;
+    while (offset + 8 <= view.byteLength) {
+        const length = view.getUint32(offset);
+        const type = view.getUint32(offset + 4);
+        if (type === 0x65584966) return offset + 8; // "eXIf"
+        if (type === 0x49454e44) return null; // "IEND"
+        offset += 12 + length;
+    }
+    return null;
+};
+
+/**
+ * Reads the capture date, GPS position and compass direction from an image file.
+ * @param buffer The raw bytes of a JPEG or PNG file.
+ * @returns Whatever metadata was found; an empty object if there is none.
+ */
+export const readExif = (buffer: ArrayBuffer): ExifData => {
+    try {
+        const view = new DataView(buffer);
+        if (view.byteLength < 12) return {};
+        let tiffOffset: number | null = null;
+        if (view.getUint16(0) === 0xffd8) {
+            tiffOffset = findJpegTiff(view);
+        } else if (view.getUint32(0) === 0x89504e47) {
+            tiffOffset = findPngTiff(view);
+        }
+        return tiffOffset === null ? {} : parseTiff(view, tiffOffset);
+    } catch (e) {
+        console.error("Could not read EXIF data", e);
+        return {};
+    }
+};
+
+// --- Formatting ---
+
+const CARDINAL_DIRECTIONS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+/**
+ * Converts a compass bearing to the nearest of the eight cardinal directions.
+ * @param degrees The bearing in degrees, 0 = north.
+ * @returns A direction such as "NE".
+ */
+export const toCardinalDirection = (degrees: number): string => {
+    const normalized = ((degrees % 360) + 360) % 360;
+    return CARDINAL_DIRECTIONS[Math.round(normalized / 45) % CARDINAL_DIRECTIONS.length];
+};
+
+/** Formats a capture date the way monitors write it, e.g. "October 1, 2025". */
+export const formatPhotoDate = (date: Date): string =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Formats a GPS position for the location field, e.g. "52.13124° N, 106.66021° W". */
+export const formatCoordinates = (latitude: number, longitude: number): string =>
+    `${Math.abs(latitude).toFixed(5)}° ${latitude < 0 ? 'S' : 'N'}, ${Math.abs(longitude).toFixed(5)}° ${longitude < 0 ? 'W' : 'E'}`;
+
+/**
+ * Fills a photo's empty date, location and direction fields from its image's EXIF data.
+ * Values the user has already entered are left alone; a date that is still the report's
+ * own date was copied from the header when the entry was added, so the capture date
+ * replaces it. The raw coordinates follow the image, but are kept when it has none, so a
+ * position entered by hand or placed on the map survives swapping in a photo without GPS.
+ * @param photo The photo whose image was just replaced.
+ * @param exif The metadata read from the new image.
+ * @param reportDate The report's date, which new entries start with.
+ * @returns The updated photo.
+ */
+export const applyExifToPhoto = (photo: PhotoData, exif: ExifData, reportDate?: string): PhotoData => {
+    const updated: PhotoData = { ...photo };
+    const { latitude, longitude } = exif;
+    if (latitude !== undefined && longitude !== undefined) {
+        updated.latitude = latitude;
+        updated.longitude = longitude;
+        if (!photo.location) {
+            updated.location = formatCoordinates(latitude, longitude);
+        }
+    }
+    const dateFromReport = !photo.date || (!!reportDate && photo.date.trim() === reportDate.trim());
+    if (dateFromReport && exif.dateTaken) {
+        updated.date = formatPhotoDate(exif.dateTaken);
+    }
+    if (!photo.direction && !photo.isMap && exif.direction !== undefined) {
+        updated.direction = toCardinalDirection(exif.direction);
+    }
+    return updated;
+};
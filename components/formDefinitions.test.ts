@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { FormDefinition } from '../types';
+import { BUILT_IN_FORMS, DFR_SASKPOWER_FORM, DFR_STANDARD_FORM, parseFormDefinitionFile, validateFormDefinition } from './formDefinitions';
+import { migrateProject } from './migrations';
+
+// A client form as it would be hand-written: the Standard DFR under a new id, as plain JSON.
+const clientForm = (): FormDefinition => ({ ...structuredClone(DFR_STANDARD_FORM), id: 'client-form', client: 'Client' });
+
+describe('validateFormDefinition', () => {
+    it('accepts the built-in forms', () => {
+        BUILT_IN_FORMS.forEach(form => expect(validateFormDefinition(structuredClone(form))).toEqual([]));
+    });
+
+    it('rejects data that is not a definition', () => {
+        expect(validateFormDefinition(null)).toEqual(['The definition is not a JSON object.']);
+        expect(validateFormDefinition([])).toEqual(['The definition is not a JSON object.']);
+    });
+
+    it('requires the PDF title and the checklist title', () => {
+        const form: Record<string, unknown> = { ...structuredClone(DFR_SASKPOWER_FORM), pdf: { ...DFR_SASKPOWER_FORM.pdf, title: undefined } };
+        form.checklist = { ...DFR_SASKPOWER_FORM.checklist, title: '' };
+
+        expect(validateFormDefinition(form)).toEqual([
+            '"pdf" must have a title, two header columns and a body list.',
+            '"checklist" must have a title, options and rows.',
+        ]);
+    });
+
+    it('requires the text of a PDF line and the title of an activities block', () => {
+        const form = clientForm();
+        const body: unknown[] = [{ kind: 'line' }, { kind: 'activities', field: 'generalActivity' }];
+        form.pdf.body = body as FormDefinition['pdf']['body'];
+
+        expect(validateFormDefinition(form)).toEqual([
+            'A PDF line needs its "text".',
+            'The PDF activities block needs a "title".',
+        ]);
+    });
+
+    it('requires labels on fields, checklist rows and sections', () => {
+        const form: Record<string, unknown> = { ...structuredClone(DFR_SASKPOWER_FORM) };
+        form.headerFields = [...DFR_SASKPOWER_FORM.headerFields.slice(1), { key: 'date' }];
+        form.sections = [...DFR_SASKPOWER_FORM.sections.slice(1), { key: DFR_SASKPOWER_FORM.sections[0].key, label: ' ' }];
+        form.checklist = { ...DFR_SASKPOWER_FORM.checklist, rows: [{ key: 'row1' }] };
+
+        expect(validateFormDefinition(form)).toEqual([
+            'The header field "date" needs a label.',
+            'The checklist row "row1" needs a label.',
+            `The section "${DFR_SASKPOWER_FORM.sections[0].key}" needs a label.`,
+        ]);
+    });
+
+    it('checks the types of optional properties', () => {
+        const form: Record<string, unknown> = { ...clientForm() };
+        form.headerFields = DFR_STANDARD_FORM.headerFields.map(field => field.key === 'date' ? { ...field, placeholder: 5, kind: 'date' } : field);
+        form.sections = DFR_STANDARD_FORM.sections.map(section => ({ ...section, rows: '15' }));
+
+        const problems = validateFormDefinition(form);
+
+        expect(problems).toContain('The header field "date" has an unknown kind "date".');
+        expect(problems).toContain('"placeholder" of the header field "date" must be text.');
+        expect(problems).toContain('"rows" of the section "generalActivity" must be a number.');
+    });
+});
+
+describe('parseFormDefinitionFile', () => {
+    it('reads a client form and fills in its client and version', () => {
+        const { client, version, ...rest } = clientForm();
+        const form = parseFormDefinitionFile(JSON.stringify(rest));
+
+        expect(form.client).toBe('');
+        expect(form.version).toBe(1);
+        expect(form.sections).toEqual(DFR_STANDARD_FORM.sections);
+    });
+
+    it('lists every problem of an invalid definition', () => {
+        const form = { ...clientForm(), pdf: { ...DFR_STANDARD_FORM.pdf, body: [{ kind: 'line' }] } };
+
+        expect(() => parseFormDefinitionFile(JSON.stringify(form))).toThrow('The form definition has problems:\n- A PDF line needs its "text".');
+    });
+
+    it('rejects the id of a built-in form', () => {
+        expect(() => parseFormDefinitionFile(JSON.stringify(DFR_STANDARD_FORM))).toThrow(/built-in form/);
+    });
+});
+
+describe('opening a form report', () => {
+    it('checks the embedded definition of a report at the current version', () => {
+        const form = { ...clientForm(), pdf: { ...DFR_STANDARD_FORM.pdf, body: [{ kind: 'line' }] } };
+        const report = { schemaVersion: 1, form, values: {}, locationActivities: [], photosData: [] };
+
+        expect(() => migrateProject('dfrForm', report)).toThrow('The form definition in this report file has problems:');
+    });
+
+    it('fills in missing lists of a report at the current version', () => {
+        const { project } = migrateProject('dfrForm', { schemaVersion: 1, form: clientForm() });
+
+        expect(project.values).toEqual({});
+        expect(project.locationActivities).toEqual([]);
+        expect(project.photosData).toEqual([]);
+    });
+});
@@ -0,0 +1,477 @@
+// Data-driven DFR forms.
+// A FormDefinition (see types.ts) declares a client's DFR: header fields, checklist
+// rows, bullet sections, validation rules and PDF layout. The generic DfrForm editor
+// renders any definition, so onboarding a new client's format means writing a JSON
+// definition rather than a new component, file type and AppType. The Standard and
+// SaskPower DFRs are re-expressed below as built-in definitions; they double as
+// starting points for new client forms.
+import type {
+    FormDefinition,
+    FormDfrProject,
+    FormFieldKind,
+    FormPdfBodyItem,
+    FormPdfHeaderField,
+    LocationActivity,
+} from '../types';
+import { deleteFormDefinition, retrieveFormDefinitions, storeFormDefinition } from './db';
+import { withSchemaVersion } from './migrations';
+import type { ProjectRecord } from './projectRegistry';
+import type { BodyBlock, HeaderBlock, HeaderField } from './pdfLayout';
+import { textSection } from './pdfLayout';
+
+export const FORM_REPORT_FILE_EXTENSION = 'xdfr';
+
+const CHECKLIST_OPTIONS = ['Yes', 'No', 'NA'];
+const FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// --- Built-in Definitions ---
+
+export const DFR_STANDARD_FORM: FormDefinition = {
+    id: 'builtin-dfr-standard',
+    name: 'Daily Field Report',
+    client: '',
+    version: 1,
+    description: 'The standard X-Terra Daily Field Report.',
+    headerFields: [
+        { key: 'date', label: 'Date', placeholder: 'October 1, 2025', required: true },
+        { key: 'projectNumber', label: 'Project #', required: true },
+        { key: 'proponent', label: 'Proponent', required: true },
+        { key: 'monitor', label: 'Monitor', required: true },
+        { key: 'location', label: 'Location', kind: 'textarea', required: true },
+        { key: 'envFileType', label: 'File Type', kind: 'select', options: ['IOCG Lease #', 'Disposition #', 'ENV File #', 'License #'], defaultValue: 'ENV File #' },
+        { key: 'projectName', label: 'Project Name', kind: 'textarea', required: true },
+        { key: 'envFileValue', label: 'File Number' },
+    ],
+    sections: [
+        { key: 'generalActivity', label: 'General Activity', rows: 15, required: true },
+        { key: 'communication', label: 'Communication', required: true },
+        { key: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions', required: true },
+        { key: 'environmentalProtection', label: 'Environmental Protection Measures & Mitigation', rows: 7, required: true },
+        { key: 'wildlifeObservations', label: 'Wildlife Observations', required: true },
+        { key: 'furtherRestoration', label: 'Further Restoration or Monitoring Required', required: true },
+    ],
+    locationActivities: true,
+    pdf: {
+        title: 'DAILY FIELD REPORT',
+        photoTitle: 'PHOTOGRAPHIC LOG',
+        columns: [
+            [{ field: 'date' }, { field: 'proponent' }, { field: 'location' }],
+            [{ field: 'projectNumber' }, { field: 'monitor' }, { field: 'envFileValue', labelField: 'envFileType' }],
+        ],
+        fullWidth: [{ field: 'projectName' }],
+        body: [
+            { kind: 'activities', title: 'Project Activities:', field: 'generalActivity' },
+            { kind: 'section', field: 'communication' },
+            { kind: 'section', field: 'weatherAndGroundConditions' },
+            { kind: 'section', field: 'environmentalProtection' },
+            { kind: 'section', field: 'wildlifeObservations' },
+            { kind: 'section', field: 'furtherRestoration' },
+        ],
+    },
+};
+
+export const DFR_SASKPOWER_FORM: FormDefinition = {
+    id: 'builtin-dfr-saskpower',
+    name: 'SaskPower Daily Field Report',
+    client: 'SaskPower',
+    version: 1,
+    description: 'The SaskPower Daily Field Report with the safety checklist.',
+    headerFields: [
+        { key: 'date', label: 'Date', placeholder: 'October 1, 2025', required: true },
+        { key: 'projectNumber', label: 'X-Terra Project #', required: true },
+        { key: 'proponent', label: 'Proponent', defaultValue: 'SaskPower' },
+        { key: 'envFileValue', label: 'ENV File Number', required: true },
+        { key: 'projectName', label: 'Project', required: true },
+        { key: 'vendorAndForeman', label: 'Vendor & Foreman', required: true },
+        { key: 'location', label: 'Location', kind: 'textarea', required: true },
+        { key: 'monitor', label: 'Environmental Monitor', required: true },
+        { key: 'totalHoursWorked', label: 'Total Hours Worked', required: true },
+    ],
+    checklist: {
+        title: 'Safety Checklist',
+        options: CHECKLIST_OPTIONS,
+        rows: [
+            { key: 'completedTailgate', label: 'Completed/Reviewed X-Terra Tailgate', defaultValue: 'Yes' },
+            { key: 'reviewedTailgate', label: 'Reviewed/Signed Crew Tailgate', defaultValue: 'Yes' },
+            { key: 'reviewedPermits', label: 'Reviewed Permit(s) with Crew(s)', defaultValue: 'Yes' },
+        ],
+    },
+    sections: [
+        { key: 'generalActivity', label: 'Project Activities (detailed description with timestamps)', rows: 10, required: true },
+        { key: 'equipmentOnsite', label: 'X-Terra Equipment Onsite', required: true },
+        { key: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions', required: true },
+        { key: 'environmentalProtection', label: 'Environmental Protection Measures and Mitigation', rows: 4, required: true },
+        { key: 'wildlifeObservations', label: 'Wildlife Observations', required: true },
+        { key: 'futureMonitoring', label: 'Future Monitoring Requirements', required: true },
+    ],
+    pdf: {
+        title: 'DAILY FIELD REPORT',
+        columns: [
+            [{ field: 'proponent' }, { field: 'projectName' }, { field: 'location' }, { field: 'envFileValue', label: 'Env File Number' }],
+            [{ field: 'date' }, { field: 'projectNumber' }, { field: 'monitor', label: 'Monitor' }, { field: 'vendorAndForeman', label: 'Vendor' }],
+        ],
+        columnSplit: 0.5,
+        body: [
+            { kind: 'section', field: 'generalActivity' },
+            { kind: 'section', field: 'equipmentOnsite' },
+            { kind: 'section', field: 'weatherAndGroundConditions' },
+            { kind: 'section', field: 'environmentalProtection' },
+            { kind: 'section', field: 'wildlifeObservations' },
+            { kind: 'section', field: 'futureMonitoring' },
+            { kind: 'checklist' },
+            { kind: 'line', text: 'Total Hours Worked: {totalHoursWorked}', bold: true },
+        ],
+    },
+};
+
+export const BUILT_IN_FORMS: FormDefinition[] = [DFR_STANDARD_FORM, DFR_SASKPOWER_FORM];
+
+export const isBuiltInForm = (form: FormDefinition): boolean => BUILT_IN_FORMS.some(f => f.id === form.id);
+
+// --- Checking Definitions ---
+
+type UncheckedObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is UncheckedObject =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isObjectList = (value: unknown): value is UncheckedObject[] =>
+    Array.isArray(value) && value.every(isObject);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+const FIELD_KINDS: FormFieldKind[] = ['text', 'textarea', 'select'];
+const PDF_BODY_KINDS: FormPdfBodyItem['kind'][] = ['section', 'activities', 'checklist', 'line'];
+
+type OptionalType = 'string' | 'number' | 'boolean';
+
+const OPTIONAL_TYPE_NAMES: Record<OptionalType, string> = { string: 'text', number: 'a number', boolean: 'true or false' };
+
+// Reports each optional property that is present but of the wrong type.
+const checkOptional = (item: UncheckedObject, properties: Record<string, OptionalType>, itemName: string, problems: string[]) => {
+    Object.entries(properties).forEach(([property, type]) => {
+        if (item[property] !== undefined && typeof item[property] !== type) {
+            problems.push(`"${property}" of ${itemName} must be ${OPTIONAL_TYPE_NAMES[type]}.`);
+        }
+    });
+};
+
+/**
+ * Checks that a definition is complete and internally consistent: every property the
+ * editor and the PDF read is present and of the right type.
+ * @param value A parsed definition, possibly hand-written.
+ * @returns A description of each problem; empty when the definition is usable.
+ */
+export const validateFormDefinition = (value: unknown): string[] => {
+    if (!isObject(value)) return ['The definition is not a JSON object.'];
+    const problems: string[] = [];
+    const { id, name, checklist } = value;
+    if (typeof id !== 'string' || !id.trim()) problems.push('"id" is required.');
+    if (typeof name !== 'string' || !name.trim()) problems.push('"name" is required.');
+    checkOptional(value, { client: 'string', description: 'string', locationActivities: 'boolean' }, 'the form', problems);
+
+    const headerFields = isObjectList(value.headerFields) ? value.headerFields : null;
+    if (!headerFields) problems.push('"headerFields" must be a list.');
+    const sections = isObjectList(value.sections) ? value.sections : null;
+    if (!sections) problems.push('"sections" must be a list.');
+
+    const pdf = isObject(value.pdf) ? value.pdf : null;
+    const pdfBody = pdf && isObjectList(pdf.body) ? pdf.body : null;
+    const pdfColumns = pdf && Array.isArray(pdf.columns) && pdf.columns.length === 2 && pdf.columns.every(isObjectList)
+        ? pdf.columns.flat() : null;
+    const pdfFullWidth = pdf && pdf.fullWidth === undefined ? [] : pdf && isObjectList(pdf.fullWidth) ? pdf.fullWidth : null;
+    if (!pdf || !isText(pdf.title) || !pdfBody || !pdfColumns || !pdfFullWidth) {
+        problems.push('"pdf" must have a title, two header columns and a body list.');
+    } else {
+        checkOptional(pdf, { photoTitle: 'string', columnSplit: 'number' }, 'the PDF layout', problems);
+    }
+
+    const checklistRows = isObject(checklist) && isObjectList(checklist.rows) ? checklist.rows : null;
+    const hasChecklistOptions = isObject(checklist) && isTextList(checklist.options) && checklist.options.length > 0;
+    if (checklist && (!isObject(checklist) || !isText(checklist.title) || !checklistRows || !hasChecklistOptions)) {
+        problems.push('"checklist" must have a title, options and rows.');
+    }
+    if (!headerFields || !sections || !pdfBody || !pdfColumns || !pdfFullWidth || problems.length > 0) return problems;
+
+    // Every key the definition stores a value under.
+    const seen = new Set<string>();
+    [...headerFields, ...(checklistRows || []), ...sections].forEach(({ key }) => {
+        if (typeof key !== 'string' || !FIELD_KEY_PATTERN.test(key)) {
+            problems.push(`"${key}" is not a valid field key. Use letters, digits and underscores, starting with a letter.`);
+        } else if (seen.has(key)) {
+            problems.push(`The field key "${key}" is used more than once.`);
+        } else {
+            seen.add(key);
+        }
+    });
+
+    headerFields.forEach(field => {
+        if (!isText(field.label)) problems.push(`The header field "${field.key}" needs a label.`);
+        if (field.kind !== undefined && !FIELD_KINDS.some(kind => kind === field.kind)) {
+            problems.push(`The header field "${field.key}" has an unknown kind "${field.kind}".`);
+        }
+        if (field.kind === 'select' && (!isTextList(field.options) || field.options.length === 0)) {
+            problems.push(`The select field "${field.key}" has no options.`);
+        }
+        checkOptional(field, { defaultValue: 'string', placeholder: 'string', required: 'boolean', patternMessage: 'string' }, `the header field "${field.key}"`, problems);
+        if (field.pattern !== undefined) {
+            try {
+                if (typeof field.pattern !== 'string') throw new TypeError('The pattern is not text.');
+                new RegExp(field.pattern);
+            } catch {
+                problems.push(`The pattern for "${field.key}" is not a valid regular expression.`);
+            }
+        }
+    });
+    (checklistRows || []).forEach(row => {
+        if (!isText(row.label)) problems.push(`The checklist row "${row.key}" needs a label.`);
+        checkOptional(row, { defaultValue: 'string', required: 'boolean' }, `the checklist row "${row.key}"`, problems);
+    });
+    sections.forEach(section => {
+        if (!isText(section.label)) problems.push(`The section "${section.key}" needs a label.`);
+        checkOptional(section, { pdfTitle: 'string', rows: 'number', placeholder: 'string', required: 'boolean' }, `the section "${section.key}"`, problems);
+    });
+
+    const headerKeys = new Set(headerFields.map(f => f.key));
+    const sectionKeys = new Set(sections.map(s => s.key));
+    [...pdfColumns, ...pdfFullWidth].forEach(item => {
+        if (!headerKeys.has(item.field)) problems.push(`The PDF header refers to an unknown field "${item.field}".`);
+        if (item.labelField && !headerKeys.has(item.labelField)) problems.push(`The PDF header refers to an unknown label field "${item.labelField}".`);
+        checkOptional(item, { label: 'string' }, `the PDF header field "${item.field}"`, problems);
+    });
+    pdfBody.forEach(item => {
+        if (item.kind === 'section' && !sectionKeys.has(item.field)) {
+            problems.push(`The PDF body refers to an unknown section "${item.field}".`);
+        } else if (item.kind === 'activities' && !isText(item.title)) {
+            problems.push('The PDF activities block needs a "title".');
+        } else if (item.kind === 'activities' && item.field && !sectionKeys.has(item.field)) {
+            problems.push(`The PDF activities block refers to an unknown section "${item.field}".`);
+        } else if (item.kind === 'checklist' && !checklist) {
+            problems.push('The PDF body includes the checklist, but the form has none.');
+        } else if (item.kind === 'line' && typeof item.text !== 'string') {
+            problems.push('A PDF line needs its "text".');
+        } else if (item.kind === 'line') {
+            checkOptional(item, { bold: 'boolean' }, 'a PDF line', problems);
+        } else if (!PDF_BODY_KINDS.some(kind => kind === item.kind)) {
+            problems.push(`Unknown PDF body item "${item.kind}".`);
+        }
+    });
+    return problems;
+};
+
+/**
+ * Reads a form definition from a JSON file.
+ * @param text The file contents.
+ * @throws If the file is not valid JSON or the definition has problems.
+ */
+export const parseFormDefinitionFile = (text: string): FormDefinition => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The form definition is not valid JSON.');
+    }
+    const problems = validateFormDefinition(parsed);
+    if (problems.length > 0) {
+        throw new Error(`The form definition has problems:\n- ${problems.join('\n- ')}`);
+    }
+    // validateFormDefinition has checked everything the editor and the PDF read.
+    const form = parsed as FormDefinition;
+    if (BUILT_IN_FORMS.some(f => f.id === form.id)) {
+        throw new Error('This definition uses the id of a built-in form. Give it a new "id" before importing.');
+    }
+    return { ...form, client: String(form.client || ''), version: Number(form.version) || 1 };
+};
+
+// --- Storage ---
+
+/**
+ * Loads every form that can be used for a new report.
+ * @returns The built-in forms, then the stored client forms ordered by client and name.
+ */
+export const getFormDefinitions = async (): Promise<FormDefinition[]> => {
+    let stored: FormDefinition[] = [];
+    try {
+        stored = await retrieveFormDefinitions();
+    } catch (e) {
+        console.error("Failed to read form definitions from IndexedDB", e);
+    }
+    stored.sort((a, b) => a.client.localeCompare(b.client) || a.name.localeCompare(b.name));
+    return [...BUILT_IN_FORMS, ...stored];
+};
+
+export const saveFormDefinition = async (form: FormDefinition): Promise<void> => {
+    await storeFormDefinition(form.id, form);
+};
+
+export const removeFormDefinition = async (id: string): Promise<void> => {
+    await deleteFormDefinition(id);
+};
+
+/**
+ * Saves a definition to a JSON file through the save dialog, or as a download in the browser.
+ * @param form The definition to export.
+ */
+export const exportFormDefinitionFile = async (form: FormDefinition): Promise<void> => {
+    const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+    const filename = `${sanitize(form.name) || 'dfr-form'}.json`;
+    const contents = JSON.stringify(form, null, 2);
+
+    // @ts-ignore
+    if (window.electronAPI) {
+        // @ts-ignore
+        await window.electronAPI.saveProject(contents, filename);
+    } else {
+        const blob = new Blob([contents], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.setAttribute('download', filename);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    }
+};
+
+// --- Reports ---
+
+/** The initial value of every field in a form. */
+export const createFormValues = (form: FormDefinition): Record<string, string> => {
+    const values: Record<string, string> = {};
+    form.headerFields.forEach(f => { values[f.key] = f.defaultValue ?? (f.kind === 'select' && f.options ? f.options[0] : ''); });
+    form.checklist?.rows.forEach(r => { values[r.key] = r.defaultValue ?? ''; });
+    form.sections.forEach(s => { values[s.key] = ''; });
+    return values;
+};
+
+/**
+ * Builds the initial data for a new report on a form.
+ * @param form The form to fill in.
+ * @param project The project the report is for; its header defaults fill the shared fields.
+ * @returns Editor initial data in the FormDfrProject shape.
+ */
+export const createFormReport = (form: FormDefinition, project?: ProjectRecord | null): FormDfrProject => {
+    const values = createFormValues(form);
+    if (project) {
+        const shared: Record<string, string> = { ...project.defaults, projectNumber: project.projectNumber };
+        Object.entries(shared).forEach(([key, value]) => {
+            if (key in values && value && value.trim()) values[key] = value;
+        });
+    }
+    return withSchemaVersion({ form, values, locationActivities: [], photosData: [] });
+};
+
+export interface FormValidationIssue {
+    key: string;
+    message: string;
+}
+
+/**
+ * Applies a form's required and pattern rules.
+ * @param form The form definition.
+ * @param values The report's values.
+ * @param locationActivities The report's location blocks, which satisfy a required activities section.
+ */
+export const validateFormValues = (form: FormDefinition, values: Record<string, string>, locationActivities: LocationActivity[]): FormValidationIssue[] => {
+    const issues: FormValidationIssue[] = [];
+    const isBlank = (key: string) => !(values[key] || '').trim();
+    const activitiesField = form.pdf.body.find(item => item.kind === 'activities');
+    const hasLocationActivities = locationActivities.some(a => a.activities && a.activities.trim());
+
+    form.headerFields.forEach(field => {
+        if (isBlank(field.key)) {
+            if (field.required) issues.push({ key: field.key, message: `${field.label} is required.` });
+        } else if (field.pattern && !new RegExp(field.pattern).test(values[field.key].trim())) {
+            issues.push({ key: field.key, message: field.patternMessage || `${field.label} is not in the expected format.` });
+        }
+    });
+    form.checklist?.rows.forEach(row => {
+        if (row.required && isBlank(row.key)) issues.push({ key: row.key, message: `Answer "${row.label}".` });
+    });
+    form.sections.forEach(section => {
+        const coveredByLocations = activitiesField?.kind === 'activities' && activitiesField.field === section.key && hasLocationActivities;
+        if (section.required && isBlank(section.key) && !coveredByLocations) {
+            issues.push({ key: section.key, message: `${section.label} is required.` });
+        }
+    });
+    return issues;
+};
+
+// --- PDF ---
+
+const headerFieldsFor = (form: FormDefinition, items: FormPdfHeaderField[], values: Record<string, string>): HeaderField[] =>
+    items.map(item => {
+        const definition = form.headerFields.find(f => f.key === item.field);
+        const label = (item.labelField && values[item.labelField]) || item.label || definition?.label || item.field;
+        return { label, value: values[item.field] || '' };
+    });
+
+/**
+ * Lays out a form report's header for the PDF.
+ * @returns The header for body pages and the header for photo pages.
+ */
+export const buildFormHeaders = (form: FormDefinition, values: Record<string, string>): { bodyHeader: HeaderBlock; photoHeader: HeaderBlock } => {
+    const info: HeaderBlock = {
+        columns: [headerFieldsFor(form, form.pdf.columns[0], values), headerFieldsFor(form, form.pdf.columns[1], values)],
+        ...(form.pdf.fullWidth ? { fullWidth: headerFieldsFor(form, form.pdf.fullWidth, values) } : {}),
+        ...(form.pdf.columnSplit !== undefined ? { columnSplit: form.pdf.columnSplit } : {}),
+    };
+    return {
+        bodyHeader: { ...info, title: form.pdf.title },
+        photoHeader: form.pdf.photoTitle ? { ...info, title: form.pdf.photoTitle } : info,
+    };
+};
+
+/**
+ * Lays out a form report's body text for the PDF, following the definition's PDF body list.
+ */
+export const buildFormBody = (form: FormDefinition, values: Record<string, string>, locationActivities: LocationActivity[]): BodyBlock[] => {
+    const body: BodyBlock[] = [];
+    const sectionTitle = (key: string) => {
+        const section = form.sections.find(s => s.key === key);
+        return section?.pdfTitle || `${section?.label || key}:`;
+    };
+
+    form.pdf.body.forEach(item => {
+        switch (item.kind) {
+            case 'section':
+                body.push(...textSection(sectionTitle(item.field), values[item.field]));
+                break;
+            case 'activities': {
+                const general = item.field ? values[item.field] : '';
+                const locations = locationActivities.filter(block => block.activities && block.activities.trim());
+                if (!(general && general.trim()) && locations.length === 0) break;
+                body.push({ kind: 'heading', text: item.title });
+                if (general && general.trim()) {
+                    body.push({ kind: 'bulletList', text: general });
+                }
+                locations.forEach(block => {
+                    body.push({ kind: 'heading', text: `Location: ${block.location || 'N/A'}`, level: 2 });
+                    body.push({ kind: 'bulletList', text: block.activities, spaceAfter: 2 });
+                });
+                break;
+            }
+            case 'checklist':
+                if (form.checklist) {
+                    body.push({
+                        kind: 'checklist',
+                        options: form.checklist.options,
+                        items: form.checklist.rows.map(row => ({ label: `${row.label}:`, value: values[row.key] || '' })),
+                    });
+                }
+                break;
+            case 'line':
+                body.push({
+                    kind: 'line',
+                    text: item.text.replace(/\{([A-Za-z0-9_]+)\}/g, (_, key) => values[key] || ''),
+                    bold: item.bold,
+                    fontSize: 10,
+                    spaceBefore: 4,
+                });
+                break;
+        }
+    });
+    return body;
+};
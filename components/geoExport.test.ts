@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationActivity, PhotoData } from '../types';
+import { buildGeoJson, buildKml, collectGeoFeatures, type GeoFeature } from './geoExport';
+
+const photo = (id: number, overrides: Partial<PhotoData> = {}): PhotoData => ({
+    id, photoNumber: String(id), date: 'October 1, 2025', location: '', description: '', direction: '', imageUrl: null, ...overrides,
+});
+
+const feature = (overrides: Partial<GeoFeature> = {}): GeoFeature => ({
+    name: 'Photo 1',
+    latitude: 52.13124,
+    longitude: -106.66021,
+    properties: { type: 'photo', photoNumber: '1', description: 'Topsoil windrow.' },
+    ...overrides,
+});
+
+describe('collectGeoFeatures', () => {
+    it('exports placed photos and location activities, skipping maps and items without coordinates', () => {
+        const photos = [
+            photo(1, { latitude: 52.1, longitude: -106.6, direction: 'NE', description: 'Culvert inlet.' }),
+            photo(2),
+            photo(3, { latitude: 52.2, longitude: -106.7, isMap: true }),
+        ];
+        const activities: LocationActivity[] = [
+            { id: 1, location: '', activities: 'Not placed.' },
+            { id: 2, location: 'KP 1+100', activities: 'Topsoil stripping.', latitude: 52.3, longitude: -106.8 },
+        ];
+
+        const features = collectGeoFeatures(photos, activities, { files: new Map([[1, '1.jpg']]) });
+
+        expect(features).toEqual([
+            {
+                name: 'Photo 1',
+                latitude: 52.1,
+                longitude: -106.6,
+                properties: {
+                    type: 'photo', photoNumber: '1', date: 'October 1, 2025', direction: 'NE', location: '', description: 'Culvert inlet.', file: '1.jpg',
+                },
+            },
+            {
+                name: 'Location L2: KP 1+100',
+                latitude: 52.3,
+                longitude: -106.8,
+                properties: { type: 'location', label: 'L2', location: 'KP 1+100', activities: 'Topsoil stripping.' },
+            },
+        ]);
+    });
+
+    it('tags every feature with its report in a project-wide export', () => {
+        const [point] = collectGeoFeatures([photo(1, { latitude: 52.1, longitude: -106.6 })], [], { report: 'Rush Lake DFR' });
+
+        expect(Object.keys(point.properties).slice(0, 2)).toEqual(['type', 'report']);
+        expect(point.properties.report).toBe('Rush Lake DFR');
+    });
+});
+
+describe('buildKml', () => {
+    it('writes a placemark per feature with its properties as extended data', () => {
+        const kml = buildKml([feature()], '25159 photo locations');
+
+        expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+        expect(kml).toContain('    <name>25159 photo locations</name>');
+        expect(kml).toContain('      <name>Photo 1</name>');
+        expect(kml).toContain('      <description>Topsoil windrow.</description>');
+        expect(kml).toContain('        <Data name="photoNumber"><value>1</value></Data>');
+        // KML puts longitude first.
+        expect(kml).toContain('<Point><coordinates>-106.66021,52.13124,0</coordinates></Point>');
+    });
+
+    it('uses the activities of a location as its description', () => {
+        const kml = buildKml([feature({ name: 'Location L1', properties: { type: 'location', activities: 'Seeding.' } })], 'Locations');
+
+        expect(kml).toContain('      <description>Seeding.</description>');
+    });
+
+    it('escapes markup in names, values and property keys', () => {
+        const kml = buildKml([feature({
+            name: 'Photo <1> & "2"',
+            properties: { 'a&b': 'Pipe < 2" & > 1"', description: '<b>Bold</b>' },
+        })], 'R&D "Site" <North>');
+
+        expect(kml).toContain('    <name>R&amp;D &quot;Site&quot; &lt;North&gt;</name>');
+        expect(kml).toContain('      <name>Photo &lt;1&gt; &amp; &quot;2&quot;</name>');
+        expect(kml).toContain('<Data name="a&amp;b"><value>Pipe &lt; 2&quot; &amp; &gt; 1&quot;</value></Data>');
+        expect(kml).toContain('      <description>&lt;b&gt;Bold&lt;/b&gt;</description>');
+        expect(kml).not.toContain('<b>');
+    });
+
+    it('writes an empty document when there are no features', () => {
+        expect(buildKml([], 'Empty')).toBe([
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<kml xmlns="http://www.opengis.net/kml/2.2">',
+            '  <Document>',
+            '    <name>Empty</name>',
+            '  </Document>',
+            '</kml>',
+            '',
+        ].join('\n'));
+    });
+});
+
+describe('buildGeoJson', () => {
+    it('writes a FeatureCollection of points, longitude first, with the name among the properties', () => {
+        const geoJson = JSON.parse(buildGeoJson([feature()], '25159 photo locations'));
+
+        expect(geoJson).toEqual({
+            type: 'FeatureCollection',
+            name: '25159 photo locations',
+            features: [{
+                type: 'Feature',
+                geometry: { type: 'Point', coordinates: [-106.66021, 52.13124] },
+                properties: { name: 'Photo 1', type: 'photo', photoNumber: '1', description: 'Topsoil windrow.' },
+            }],
+        });
+    });
+
+    it('keeps quotes, line breaks and markup intact through JSON', () => {
+        const text = 'Said "stop here",\nthen <left> & waited.';
+        const geoJson = JSON.parse(buildGeoJson([feature({ properties: { description: text } })], text));
+
+        expect(geoJson.name).toBe(text);
+        expect(geoJson.features[0].properties.description).toBe(text);
+    });
+});
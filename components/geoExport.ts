@@ -0,0 +1,198 @@
+// GIS exports of photo points and location activities, as KML (Google Earth) and
+// GeoJSON (ArcGIS, QGIS). Only items with coordinates are exported.
+import JSZip from 'jszip';
+import type { LocationActivity, PhotoData } from '../types';
+import { retrieveProject } from './db';
+import { getProjectRecords, getProjectKey } from './projectRegistry';
+import { hasCoordinates } from './siteMap';
+
+export const KML_FILENAME = 'photo-locations.kml';
+export const GEOJSON_FILENAME = 'photo-locations.geojson';
+
+/** A point feature with the properties written to both formats, in order. */
+export interface GeoFeature {
+    name: string;
+    latitude: number;
+    longitude: number;
+    properties: Record<string, string>;
+}
+
+/**
+ * Turns a report's photos and location activities into point features.
+ * @param photos The report's photos; map images and photos without coordinates are skipped.
+ * @param locationActivities The report's location activities, if it has any.
+ * @param options report names the source report (for project-wide exports); files gives each
+ *   photo's file name in the Download Photos zip, by photo id.
+ */
+export const collectGeoFeatures = (
+    photos: PhotoData[],
+    locationActivities: LocationActivity[] = [],
+    options: { report?: string; files?: Map<number, string> } = {}
+): GeoFeature[] => {
+    const reportProperty = options.report !== undefined ? { report: options.report } : {};
+    return [
+        ...photos.filter(p => !p.isMap && hasCoordinates(p)).map(photo => ({
+            name: `Photo ${photo.photoNumber}`,
+            latitude: photo.latitude!,
+            longitude: photo.longitude!,
+            properties: {
+                type: 'photo',
+                ...reportProperty,
+                photoNumber: photo.photoNumber,
+                date: photo.date || '',
+                direction: photo.direction || '',
+                location: photo.location || '',
+                description: photo.description || '',
+                ...(options.files?.has(photo.id) ? { file: options.files.get(photo.id)! } : {}),
+            },
+        })),
+        ...locationActivities.map((activity, index) => ({ activity, label: `L${index + 1}` }))
+            .filter(({ activity }) => hasCoordinates(activity))
+            .map(({ activity, label }) => ({
+                name: `Location ${label}${activity.location ? `: ${activity.location}` : ''}`,
+                latitude: activity.latitude!,
+                longitude: activity.longitude!,
+                properties: {
+                    type: 'location',
+                    ...reportProperty,
+                    label,
+                    location: activity.location || '',
+                    activities: activity.activities || '',
+                },
+            })),
+    ];
+};
+
+// --- Formats ---
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Writes features as a KML document; each property becomes ExtendedData. */
+export const buildKml = (features: GeoFeature[], documentName: string): string => {
+    const placemarks = features.map(feature => {
+        const data = Object.entries(feature.properties)
+            .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+            .join('\n');
+        const description = feature.properties.description || feature.properties.activities || '';
+        return [
+            '    <Placemark>',
+            `      <name>${escapeXml(feature.name)}</name>`,
+            `      <description>${escapeXml(description)}</description>`,
+            '      <ExtendedData>',
+            data,
+            '      </ExtendedData>',
+            `      <Point><coordinates>${feature.longitude},${feature.latitude},0</coordinates></Point>`,
+            '    </Placemark>',
+        ].join('\n');
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(documentName)}</name>`,
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+        '',
+    ].join('\n');
+};
+
+/** Writes features as a GeoJSON FeatureCollection (WGS 84, longitude first). */
+export const buildGeoJson = (features: GeoFeature[], documentName: string): string =>
+    JSON.stringify({
+        type: 'FeatureCollection',
+        name: documentName,
+        features: features.map(feature => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [feature.longitude, feature.latitude] },
+            properties: { name: feature.name, ...feature.properties },
+        })),
+    }, null, 2);
+
+/**
+ * Adds the KML and GeoJSON files to a Download Photos zip.
+ * @param files The photos' file names in the zip, as returned by addPhotosToArchive.
+ * @returns How many features were written; nothing is added when no item has coordinates.
+ */
+export const addGeoFilesToZip = (
+    zip: JSZip,
+    documentName: string,
+    photos: PhotoData[],
+    files: Map<number, string>,
+    locationActivities: LocationActivity[] = []
+): number => {
+    const features = collectGeoFeatures(photos, locationActivities, { files });
+    if (features.length > 0) {
+        zip.file(KML_FILENAME, buildKml(features, documentName));
+        zip.file(GEOJSON_FILENAME, buildGeoJson(features, documentName));
+    }
+    return features.length;
+};
+
+// --- Project export ---
+
+// Location activities live in different places depending on the report type.
+const getLocationActivities = (projectData: any): LocationActivity[] =>
+    projectData?.bodyData?.locationActivities || projectData?.locationActivities || [];
+
+/**
+ * Collects the photo points and location activities of every active report in a project.
+ * @param projectNumber The project to export.
+ * @returns The features, each tagged with the name of its report.
+ */
+export const collectProjectGeoFeatures = async (projectNumber: string): Promise<GeoFeature[]> => {
+    const key = getProjectKey(projectNumber);
+    const record = (await getProjectRecords()).find(r => getProjectKey(r.projectNumber) === key);
+    if (!record) return [];
+
+    const features: GeoFeature[] = [];
+    // Summary appendix photos are copies of DFR photos that are already exported.
+    for (const report of record.reports.filter(r => r.type !== 'summaryReport')) {
+        try {
+            const projectData = await retrieveProject(report.timestamp);
+            features.push(...collectGeoFeatures(projectData?.photosData || [], getLocationActivities(projectData), {
+                report: report.name || 'Untitled Project',
+            }));
+        } catch (e) {
+            console.error(`Failed to read report (${report.timestamp}) for the location export:`, e);
+        }
+    }
+    return features;
+};
+
+/**
+ * Saves a zip with the KML and GeoJSON of every photo point in a project.
+ * @returns How many features were exported; nothing is saved when there are none.
+ */
+export const exportProjectGeoFiles = async (projectNumber: string): Promise<number> => {
+    const features = await collectProjectGeoFeatures(projectNumber);
+    if (features.length === 0) return 0;
+
+    const documentName = `${projectNumber} photo locations`;
+    const zip = new JSZip();
+    zip.file(KML_FILENAME, buildKml(features, documentName));
+    zip.file(GEOJSON_FILENAME, buildGeoJson(features, documentName));
+
+    const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+    const zipFilename = `${sanitize(projectNumber) || 'project'}_Photo_Locations.zip`;
+    // @ts-ignore
+    if (window.electronAPI?.saveZipFile) {
+        const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+        // @ts-ignore
+        await window.electronAPI.saveZipFile(buffer, zipFilename);
+    } else {
+        const zipBlob = await zip.generateAsync({ type: 'blob' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(zipBlob);
+        link.setAttribute('download', zipFilename);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    }
+    return features.length;
+};
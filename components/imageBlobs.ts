@@ -0,0 +1,65 @@
+// Images in the IndexedDB image store are binary Blobs, identified by a hash of their
+// bytes so identical photos are stored once. Editors get data URLs from cropping and
+// files; these helpers convert between the two and make the editor grid's thumbnails.
+
+// Longest edge of a thumbnail, enough for the photo grid on high-density screens.
+const THUMBNAIL_SIZE = 600;
+const THUMBNAIL_QUALITY = 0.8;
+
+/**
+ * Hashes an image's bytes.
+ * @param blob The image.
+ * @returns The SHA-256 digest as lowercase hex.
+ */
+export const hashImageData = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Reads an image URL into a Blob.
+ * @param url A data URL, or an object URL still alive in this session.
+ */
+export const toImageBlob = async (url: string): Promise<Blob> => {
+    const response = await fetch(url);
+    return response.blob();
+};
+
+/** Reads a Blob into a data URL, the form jsPDF and project packages take. */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Scales an image down for the editor grid.
+ * @returns A JPEG thumbnail, or null if the image is already small or cannot be decoded
+ *   (the full image is shown instead).
+ */
+export const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const scale = THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height);
+        if (scale >= 1) {
+            bitmap.close();
+            return null;
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+    } catch (e) {
+        console.error("Could not create a thumbnail:", e);
+        return null;
+    }
+};
@@ -0,0 +1,256 @@
+// Non-destructive image edits.
+// A photo's untouched original is kept in the images store together with the list
+// of edits applied to it, so the edits can be changed or undone later. Every edit
+// is stored in the original image's coordinate space, normalized to 0-1, which lets
+// rotation and crop be changed in any order without moving the annotations.
+import { retrieveImageSource, storeImageSource } from './db';
+
+export interface NormalizedPoint {
+    x: number;
+    y: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type ImageEditOperation =
+    | { type: 'rotate'; degrees: 90 | -90 }
+    | { type: 'crop'; from: NormalizedPoint; to: NormalizedPoint }
+    | { type: 'arrow'; from: NormalizedPoint; to: NormalizedPoint; color: string }
+    | { type: 'circle'; from: NormalizedPoint; to: NormalizedPoint; color: string }
+    | { type: 'text'; at: NormalizedPoint; text: string; color: string };
+
+export type AnnotationOperation = Extract<ImageEditOperation, { type: 'arrow' | 'circle' | 'text' }>;
+
+/** The record kept in the images store under a photo's sourceImageId. */
+export interface ImageSource {
+    original: string;
+    operations: ImageEditOperation[];
+}
+
+interface NormalizedRect {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/** The net effect of an operation list: rotation and crop are the last ones applied. */
+export interface ResolvedEdits {
+    rotation: Rotation;
+    crop: NormalizedRect | null;
+    annotations: AnnotationOperation[];
+}
+
+const MAX_OUTPUT_SIZE = 2048;
+
+// --- Operations ---
+
+const toRect = (from: NormalizedPoint, to: NormalizedPoint): NormalizedRect => ({
+    left: Math.max(0, Math.min(from.x, to.x)),
+    top: Math.max(0, Math.min(from.y, to.y)),
+    right: Math.min(1, Math.max(from.x, to.x)),
+    bottom: Math.min(1, Math.max(from.y, to.y)),
+});
+
+/**
+ * Folds an operation list into the rotation, crop and annotations to draw.
+ * @param operations The edits in the order they were made.
+ */
+export const resolveEdits = (operations: ImageEditOperation[]): ResolvedEdits => {
+    let rotation = 0;
+    let crop: NormalizedRect | null = null;
+    const annotations: AnnotationOperation[] = [];
+    operations.forEach(op => {
+        if (op.type === 'rotate') {
+            rotation = (rotation + op.degrees + 360) % 360;
+        } else if (op.type === 'crop') {
+            crop = toRect(op.from, op.to);
+        } else {
+            annotations.push(op);
+        }
+    });
+    return { rotation: rotation as Rotation, crop, annotations };
+};
+
+// --- Geometry ---
+
+/** Maps a point in the original image to the rotated image (both normalized). */
+export const rotatePoint = (p: NormalizedPoint, rotation: Rotation): NormalizedPoint => {
+    switch (rotation) {
+        case 90: return { x: 1 - p.y, y: p.x };
+        case 180: return { x: 1 - p.x, y: 1 - p.y };
+        case 270: return { x: p.y, y: 1 - p.x };
+        default: return p;
+    }
+};
+
+/** Maps a point in the rotated image back to the original image (both normalized). */
+export const unrotatePoint = (p: NormalizedPoint, rotation: Rotation): NormalizedPoint => {
+    switch (rotation) {
+        case 90: return { x: p.y, y: 1 - p.x };
+        case 180: return { x: 1 - p.x, y: 1 - p.y };
+        case 270: return { x: 1 - p.y, y: p.x };
+        default: return p;
+    }
+};
+
+const rotateRect = (rect: NormalizedRect, rotation: Rotation): NormalizedRect => {
+    const a = rotatePoint({ x: rect.left, y: rect.top }, rotation);
+    const b = rotatePoint({ x: rect.right, y: rect.bottom }, rotation);
+    return toRect(a, b);
+};
+
+// --- Rendering ---
+
+export interface RenderOptions {
+    /** Draw the whole rotated image with the crop shown as an overlay, instead of cropping. */
+    showCropOverlay?: boolean;
+    /** The largest width or height of the result, in pixels. */
+    maxSize?: number;
+}
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: NormalizedPoint, to: NormalizedPoint, lineWidth: number) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const head = lineWidth * 4;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 6), to.y - head * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 6), to.y - head * Math.sin(angle + Math.PI / 6));
+    ctx.closePath();
+    ctx.fill();
+};
+
+/**
+ * Draws an image with its edits applied.
+ * @param image The loaded original image.
+ * @param operations The edits to apply.
+ * @param options Whether to crop or only outline the crop, and the size limit.
+ * @returns A canvas holding the result.
+ */
+export const renderEditedImage = (image: HTMLImageElement, operations: ImageEditOperation[], options: RenderOptions = {}): HTMLCanvasElement => {
+    const { rotation, crop, annotations } = resolveEdits(operations);
+    const quarterTurn = rotation === 90 || rotation === 270;
+    const rotatedWidth = quarterTurn ? image.height : image.width;
+    const rotatedHeight = quarterTurn ? image.width : image.height;
+
+    const rotatedCrop = crop && !options.showCropOverlay ? rotateRect(crop, rotation) : null;
+    const view = rotatedCrop || { left: 0, top: 0, right: 1, bottom: 1 };
+    const viewWidth = (view.right - view.left) * rotatedWidth;
+    const viewHeight = (view.bottom - view.top) * rotatedHeight;
+    const scale = Math.min(1, (options.maxSize || MAX_OUTPUT_SIZE) / Math.max(viewWidth, viewHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(viewWidth * scale));
+    canvas.height = Math.max(1, Math.round(viewHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    // Position of a normalized original-image point on this canvas.
+    const toCanvas = (p: NormalizedPoint): NormalizedPoint => {
+        const r = rotatePoint(p, rotation);
+        return {
+            x: (r.x - view.left) * rotatedWidth * scale,
+            y: (r.y - view.top) * rotatedHeight * scale,
+        };
+    };
+
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(-view.left * rotatedWidth, -view.top * rotatedHeight);
+    ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    ctx.restore();
+
+    // Annotations are sized relative to the whole image so they look the same after a crop.
+    const baseSize = Math.max(rotatedWidth, rotatedHeight) * scale;
+    const lineWidth = Math.max(2, baseSize * 0.006);
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = 'round';
+    annotations.forEach(annotation => {
+        ctx.strokeStyle = annotation.color;
+        ctx.fillStyle = annotation.color;
+        if (annotation.type === 'arrow') {
+            drawArrow(ctx, toCanvas(annotation.from), toCanvas(annotation.to), lineWidth);
+        } else if (annotation.type === 'circle') {
+            const a = toCanvas(annotation.from);
+            const b = toCanvas(annotation.to);
+            ctx.beginPath();
+            ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, 2 * Math.PI);
+            ctx.stroke();
+        } else {
+            // Text stays upright whatever the rotation; a white halo keeps it readable.
+            const at = toCanvas(annotation.at);
+            ctx.font = `bold ${Math.round(baseSize * 0.035)}px sans-serif`;
+            ctx.textBaseline = 'middle';
+            ctx.lineWidth = lineWidth * 1.5;
+            ctx.strokeStyle = 'white';
+            ctx.strokeText(annotation.text, at.x, at.y);
+            ctx.fillText(annotation.text, at.x, at.y);
+            ctx.lineWidth = lineWidth;
+        }
+    });
+
+    if (options.showCropOverlay && crop) {
+        const r = rotateRect(crop, rotation);
+        const x = r.left * canvas.width;
+        const y = r.top * canvas.height;
+        const w = (r.right - r.left) * canvas.width;
+        const h = (r.bottom - r.top) * canvas.height;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fillRect(0, 0, canvas.width, y);
+        ctx.fillRect(0, y + h, canvas.width, canvas.height - y - h);
+        ctx.fillRect(0, y, x, h);
+        ctx.fillRect(x + w, y, canvas.width - x - w, h);
+        ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+        ctx.strokeStyle = 'white';
+        ctx.strokeRect(x, y, w, h);
+    }
+    return canvas;
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(err);
+        img.src = url;
+    });
+};
+
+// --- Storage ---
+
+/**
+ * Loads a photo's original and edits, falling back to its current image when it has no source yet.
+ * @param sourceImageId The photo's sourceImageId, if any.
+ * @param imageUrl The photo's current (flattened) image.
+ */
+export const loadImageSource = async (sourceImageId: string | undefined, imageUrl: string): Promise<ImageSource> => {
+    if (sourceImageId) {
+        const source: ImageSource | undefined = await retrieveImageSource(sourceImageId);
+        if (source?.original) {
+            return { original: source.original, operations: source.operations || [] };
+        }
+    }
+    return { original: imageUrl, operations: [] };
+};
+
+/**
+ * Keeps an untouched original in the images store so it can be edited later.
+ * @param original The original image data URL, before any cropping.
+ * @returns The new sourceImageId for the photo, or undefined if it could not be stored.
+ */
+export const storeOriginalImage = async (original: string): Promise<string | undefined> => {
+    const sourceImageId = `source-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    try {
+        await storeImageSource(sourceImageId, { original, operations: [] } as ImageSource);
+        return sourceImageId;
+    } catch (e) {
+        console.error("Failed to keep the original image:", e);
+        return undefined;
+    }
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { PhotoData } from '../types';
+import { readExif } from './exif';
+import { embedPhotoMetadata, getPhotoCaption, type PhotoCaption } from './jpegMetadata';
+
+// --- Building and reading test images ---
+
+const segment = (marker: number, payload: number[] | Uint8Array): number[] =>
+    [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+const JFIF = segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const QUANTIZATION_TABLE = segment(0xdb, [0, ...new Array(64).fill(1)]);
+// Start of scan and the entropy-coded data that follows it, up to the end of image.
+const SCAN = [...segment(0xda, [1, 1, 0, 0, 0x3f, 0]), 0x12, 0x34, 0xff, 0x00, 0x56, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]): ArrayBuffer => new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN]).buffer;
+
+interface Segment {
+    marker: number;
+    payload: Uint8Array;
+}
+
+// The marker segments between the start of image and the start of scan.
+const readSegments = (bytes: Uint8Array): Segment[] => {
+    const segments: Segment[] = [];
+    let offset = 2;
+    while (bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        segments.push({ marker: bytes[offset + 1], payload: bytes.subarray(offset + 4, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    return segments;
+};
+
+const startsWith = (payload: Uint8Array, prefix: string) => new TextDecoder().decode(payload.subarray(0, prefix.length)) === prefix;
+
+const describeSegments = (bytes: Uint8Array): string[] => readSegments(bytes).map(({ marker, payload }) => {
+    if (marker === 0xe1 && startsWith(payload, 'Exif\0\0')) return 'EXIF';
+    if (marker === 0xe1 && startsWith(payload, 'http://ns.adobe.com/xap/1.0/\0')) return 'XMP';
+    if (marker === 0xed && startsWith(payload, 'Photoshop 3.0\0')) return 'IPTC';
+    return `0x${marker.toString(16)}`;
+});
+
+const xmpOf = (bytes: Uint8Array): string => {
+    const xmp = readSegments(bytes).find(({ payload }) => startsWith(payload, 'http://ns.adobe.com/xap/1.0/\0'))!;
+    return new TextDecoder().decode(xmp.payload);
+};
+
+const caption = (overrides: Partial<PhotoCaption> = {}): PhotoCaption => ({
+    title: 'Photo 3',
+    description: 'Topsoil windrow along the south boundary.',
+    location: 'KP 1+100',
+    direction: 'NE',
+    date: 'October 1, 2025',
+    latitude: 52.12979,
+    longitude: -106.66014,
+    report: 'Rush Lake DFR',
+    ...overrides,
+});
+
+describe('getPhotoCaption', () => {
+    const photo = (overrides: Partial<PhotoData> = {}): PhotoData => ({
+        id: 1, photoNumber: '3', date: '', location: '', description: '', direction: '', imageUrl: null, ...overrides,
+    });
+
+    it('titles photos by number and maps by their own label', () => {
+        expect(getPhotoCaption(photo(), 'Rush Lake DFR')).toMatchObject({ title: 'Photo 3', report: 'Rush Lake DFR' });
+        expect(getPhotoCaption(photo({ photoNumber: 'Map 1', isMap: true }), 'Rush Lake DFR').title).toBe('Map 1');
+    });
+});
+
+describe('embedPhotoMetadata', () => {
+    it('writes the EXIF, XMP and IPTC segments after APP0 and keeps the rest of the file as it was', () => {
+        const output = embedPhotoMetadata(jpeg(JFIF, QUANTIZATION_TABLE), caption());
+
+        expect(describeSegments(output)).toEqual(['0xe0', 'EXIF', 'XMP', 'IPTC', '0xdb']);
+        expect(Array.from(output.subarray(0, 2))).toEqual([0xff, 0xd8]);
+        expect(Array.from(output.subarray(output.length - SCAN.length))).toEqual(SCAN);
+    });
+
+    it('writes a caption the EXIF reader reads back', () => {
+        const output = embedPhotoMetadata(jpeg(JFIF), caption({ date: 'October 1, 2025 14:30:15' }));
+        const exif = readExif(output.slice().buffer);
+
+        expect(exif.dateTaken).toEqual(new Date(2025, 9, 1, 14, 30, 15));
+        expect(exif.latitude).toBeCloseTo(52.12979, 5);
+        expect(exif.longitude).toBeCloseTo(-106.66014, 5);
+        expect(exif.direction).toBe(45);
+    });
+
+    it('replaces metadata written by an earlier export instead of adding to it', () => {
+        const once = embedPhotoMetadata(jpeg(JFIF, QUANTIZATION_TABLE), caption({ description: 'First caption.' }));
+        const twice = embedPhotoMetadata(once.slice().buffer, caption({ description: 'Second caption.' }));
+
+        expect(describeSegments(twice)).toEqual(['0xe0', 'EXIF', 'XMP', 'IPTC', '0xdb']);
+        expect(xmpOf(twice)).toContain('Second caption.');
+        expect(xmpOf(twice)).not.toContain('First caption.');
+    });
+
+    it('keeps other APP1 segments', () => {
+        const other = segment(0xe1, ascii('Other metadata'));
+
+        expect(describeSegments(embedPhotoMetadata(jpeg(other), caption()))).toEqual(['EXIF', 'XMP', 'IPTC', '0xe1']);
+    });
+
+    it('escapes markup in the XMP packet', () => {
+        const xmp = xmpOf(embedPhotoMetadata(jpeg(JFIF), caption({ description: 'Pipe < 2" & > 1"', report: 'R&D <North>' })));
+
+        expect(xmp).toContain('<rdf:li xml:lang="x-default">Pipe &lt; 2&quot; &amp; &gt; 1&quot;</rdf:li>');
+        expect(xmp).toContain('<photoshop:Source>R&amp;D &lt;North&gt;</photoshop:Source>');
+    });
+
+    it('leaves out only the segments a very long caption would overflow', () => {
+        // As UTF-16 in the EXIF comment this takes 80,000 bytes, more than a segment holds.
+        const description = 'x'.repeat(40000);
+        const output = embedPhotoMetadata(jpeg(JFIF), caption({ description }));
+
+        expect(describeSegments(output)).toEqual(['0xe0', 'XMP', 'IPTC']);
+        expect(xmpOf(output)).toContain(description);
+    });
+
+    it('cuts IPTC text to its byte limit without splitting a character', () => {
+        // "é" is two bytes in UTF-8, so 33 of them do not fit the 64-byte object name.
+        const output = embedPhotoMetadata(jpeg(JFIF), caption({ title: 'é'.repeat(33) }));
+        const iptc = readSegments(output).find(({ marker }) => marker === 0xed)!.payload;
+        // Dataset 2:05, after the character set (1:90) and record version (2:00) datasets.
+        const at = iptc.findIndex((byte, i) => byte === 0x1c && iptc[i + 1] === 2 && iptc[i + 2] === 5);
+        const length = (iptc[at + 3] << 8) | iptc[at + 4];
+
+        expect(length).toBe(64);
+        expect(new TextDecoder().decode(iptc.subarray(at + 5, at + 5 + length))).toBe('é'.repeat(32));
+    });
+
+    it('returns files that are not JPEGs unchanged', () => {
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+        expect(embedPhotoMetadata(png.buffer, caption())).toEqual(png);
+    });
+});
@@ -0,0 +1,385 @@
+// Minimal JPEG metadata writer for exported photos.
+// Writes a photo's caption into the three places other software looks for it: EXIF
+// (including the XP* tags Windows Explorer shows and the GPS position), XMP (Adobe
+// products, ArcGIS and most DAMs) and IPTC (older captioning tools). Images that
+// are not JPEGs are returned unchanged.
+import type { PhotoData } from '../types';
+
+export interface PhotoCaption {
+    /** e.g. "Photo 3" or "Map 1". */
+    title: string;
+    description: string;
+    location: string;
+    direction: string;
+    /** The date as entered on the photo; written only if it can be parsed. */
+    date: string;
+    latitude?: number;
+    longitude?: number;
+    /** The report the photo belongs to. */
+    report: string;
+}
+
+const SOFTWARE = 'X-TES Digital Reporting';
+
+// --- Tags ---
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_SOFTWARE = 0x0131;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_XP_TITLE = 0x9c9b;
+const TAG_XP_COMMENT = 0x9c9c;
+const TAG_XP_KEYWORDS = 0x9c9e;
+const TAG_XP_SUBJECT = 0x9c9f;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_VERSION_ID = 0x0000;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_IMG_DIRECTION_REF = 0x0010;
+const TAG_GPS_IMG_DIRECTION = 0x0011;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// IPTC datasets (record 2 unless noted).
+const IPTC_CODED_CHARACTER_SET = 90; // record 1
+const IPTC_RECORD_VERSION = 0;
+const IPTC_OBJECT_NAME = 5;
+const IPTC_KEYWORDS = 25;
+const IPTC_DATE_CREATED = 55;
+const IPTC_SUB_LOCATION = 92;
+const IPTC_CAPTION = 120;
+
+const CARDINAL_BEARINGS: Record<string, number> = {
+    N: 0, NNE: 22.5, NE: 45, ENE: 67.5, E: 90, ESE: 112.5, SE: 135, SSE: 157.5,
+    S: 180, SSW: 202.5, SW: 225, WSW: 247.5, W: 270, WNW: 292.5, NW: 315, NNW: 337.5,
+};
+
+/**
+ * Describes a photo for its exported file.
+ * @param photo The photo.
+ * @param report The name of the report it belongs to.
+ */
+export const getPhotoCaption = (photo: PhotoData, report: string): PhotoCaption => ({
+    title: photo.isMap || /^map/i.test(photo.photoNumber) ? photo.photoNumber : `Photo ${photo.photoNumber}`,
+    description: photo.description || '',
+    location: photo.location || '',
+    direction: photo.direction || '',
+    date: photo.date || '',
+    latitude: photo.latitude,
+    longitude: photo.longitude,
+    report,
+});
+
+// --- Encoding ---
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+// Cuts UTF-8 text to a byte limit without splitting a character.
+const truncateUtf8 = (text: string, maxBytes: number): Uint8Array => {
+    // Every character takes at least one byte, so anything past maxBytes characters can go first.
+    text = text.slice(0, maxBytes);
+    let bytes = utf8(text);
+    while (bytes.length > maxBytes) {
+        text = text.slice(0, -1);
+        bytes = utf8(text);
+    }
+    return bytes;
+};
+
+const parseDate = (text: string): Date | null => {
+    if (!text.trim()) return null;
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Direction as a bearing in degrees, from "NE", "45" or "45°".
+const parseBearing = (direction: string): number | null => {
+    const text = direction.trim().toUpperCase();
+    if (text in CARDINAL_BEARINGS) return CARDINAL_BEARINGS[text];
+    const degrees = parseFloat(text);
+    return Number.isFinite(degrees) && degrees >= 0 && degrees < 360 ? degrees : null;
+};
+
+const hasGps = (caption: PhotoCaption) =>
+    typeof caption.latitude === 'number' && typeof caption.longitude === 'number'
+    && Number.isFinite(caption.latitude) && Number.isFinite(caption.longitude);
+
+// --- EXIF ---
+
+interface IfdEntry {
+    tag: number;
+    type: number;
+    count: number;
+    data: Uint8Array;
+}
+
+const asciiEntry = (tag: number, text: string): IfdEntry => {
+    const data = concat([utf8(text), new Uint8Array([0])]);
+    return { tag, type: TYPE_ASCII, count: data.length, data };
+};
+
+// Windows' XP* tags: UTF-16LE bytes, null-terminated.
+const xpEntry = (tag: number, text: string): IfdEntry => {
+    const data = new Uint8Array((text.length + 1) * 2);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        data[i * 2] = code & 0xff;
+        data[i * 2 + 1] = code >> 8;
+    }
+    return { tag, type: TYPE_BYTE, count: data.length, data };
+};
+
+const longEntry = (tag: number, value: number): IfdEntry => {
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, value, true);
+    return { tag, type: TYPE_LONG, count: 1, data };
+};
+
+const rationalEntry = (tag: number, values: [number, number][]): IfdEntry => {
+    const data = new Uint8Array(values.length * 8);
+    const view = new DataView(data.buffer);
+    values.forEach(([numerator, denominator], i) => {
+        view.setUint32(i * 8, numerator, true);
+        view.setUint32(i * 8 + 4, denominator, true);
+    });
+    return { tag, type: TYPE_RATIONAL, count: values.length, data };
+};
+
+// Degrees, minutes and hundredths of seconds.
+const toDms = (decimal: number): [number, number][] => {
+    const value = Math.abs(decimal);
+    const degrees = Math.floor(value);
+    const minutes = Math.floor((value - degrees) * 60);
+    const seconds = Math.round(((value - degrees) * 60 - minutes) * 60 * 100);
+    return [[degrees, 1], [minutes, 1], [seconds, 100]];
+};
+
+const ifdSize = (entries: IfdEntry[]) =>
+    2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+
+// Writes one IFD at an offset within the TIFF block (little-endian), with its out-of-line values after it.
+const writeIfd = (target: DataView, bytes: Uint8Array, offset: number, entries: IfdEntry[]) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    target.setUint16(offset, sorted.length, true);
+    let dataOffset = offset + 2 + sorted.length * 12 + 4;
+    sorted.forEach((entry, i) => {
+        const at = offset + 2 + i * 12;
+        target.setUint16(at, entry.tag, true);
+        target.setUint16(at + 2, entry.type, true);
+        target.setUint32(at + 4, entry.count, true);
+        if (entry.data.length <= 4) {
+            bytes.set(entry.data, at + 8);
+        } else {
+            target.setUint32(at + 8, dataOffset, true);
+            bytes.set(entry.data, dataOffset);
+            dataOffset += entry.data.length + (entry.data.length % 2);
+        }
+    });
+    target.setUint32(offset + 2 + sorted.length * 12, 0, true);
+};
+
+const buildExifSegment = (caption: PhotoCaption): Uint8Array => {
+    const ifd0: IfdEntry[] = [
+        asciiEntry(TAG_SOFTWARE, SOFTWARE),
+        xpEntry(TAG_XP_TITLE, caption.title),
+    ];
+    if (caption.description) {
+        ifd0.push(asciiEntry(TAG_IMAGE_DESCRIPTION, caption.description));
+        ifd0.push(xpEntry(TAG_XP_COMMENT, caption.description));
+    }
+    if (caption.location) ifd0.push(xpEntry(TAG_XP_SUBJECT, caption.location));
+    const keywords = [caption.location, caption.direction && `Facing ${caption.direction}`, caption.report].filter(Boolean);
+    if (keywords.length > 0) ifd0.push(xpEntry(TAG_XP_KEYWORDS, keywords.join('; ')));
+
+    const exifIfd: IfdEntry[] = [];
+    const date = parseDate(caption.date);
+    if (date) {
+        exifIfd.push(asciiEntry(TAG_DATE_TIME_ORIGINAL,
+            `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`));
+    }
+
+    const gpsIfd: IfdEntry[] = [];
+    if (hasGps(caption)) {
+        gpsIfd.push({ tag: TAG_GPS_VERSION_ID, type: TYPE_BYTE, count: 4, data: new Uint8Array([2, 3, 0, 0]) });
+        gpsIfd.push(asciiEntry(TAG_GPS_LATITUDE_REF, caption.latitude! < 0 ? 'S' : 'N'));
+        gpsIfd.push(rationalEntry(TAG_GPS_LATITUDE, toDms(caption.latitude!)));
+        gpsIfd.push(asciiEntry(TAG_GPS_LONGITUDE_REF, caption.longitude! < 0 ? 'W' : 'E'));
+        gpsIfd.push(rationalEntry(TAG_GPS_LONGITUDE, toDms(caption.longitude!)));
+        const bearing = parseBearing(caption.direction);
+        if (bearing !== null) {
+            gpsIfd.push(asciiEntry(TAG_GPS_IMG_DIRECTION_REF, 'T'));
+            gpsIfd.push(rationalEntry(TAG_GPS_IMG_DIRECTION, [[Math.round(bearing * 100), 100]]));
+        }
+    }
+
+    // Pointer entries are sized up front; their values are filled in once the layout is known.
+    const exifPointer = longEntry(TAG_EXIF_IFD, 0);
+    const gpsPointer = longEntry(TAG_GPS_IFD, 0);
+    if (exifIfd.length > 0) ifd0.push(exifPointer);
+    if (gpsIfd.length > 0) ifd0.push(gpsPointer);
+
+    const ifd0Offset = 8;
+    const exifOffset = ifd0Offset + ifdSize(ifd0);
+    const gpsOffset = exifOffset + (exifIfd.length > 0 ? ifdSize(exifIfd) : 0);
+    const tiffLength = gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0);
+    new DataView(exifPointer.data.buffer).setUint32(0, exifOffset, true);
+    new DataView(gpsPointer.data.buffer).setUint32(0, gpsOffset, true);
+
+    const tiff = new Uint8Array(tiffLength);
+    const view = new DataView(tiff.buffer);
+    tiff.set([0x49, 0x49, 0x2a, 0x00]); // "II", 42
+    view.setUint32(4, ifd0Offset, true);
+    writeIfd(view, tiff, ifd0Offset, ifd0);
+    if (exifIfd.length > 0) writeIfd(view, tiff, exifOffset, exifIfd);
+    if (gpsIfd.length > 0) writeIfd(view, tiff, gpsOffset, gpsIfd);
+
+    return concat([new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0]), tiff]); // "Exif\0\0"
+};
+
+// --- XMP ---
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// XMP writes GPS as degrees and decimal minutes with the hemisphere, e.g. "52,7.8744N".
+const toXmpCoordinate = (decimal: number, positive: string, negative: string) => {
+    const value = Math.abs(decimal);
+    const degrees = Math.floor(value);
+    return `${degrees},${((value - degrees) * 60).toFixed(4)}${decimal < 0 ? negative : positive}`;
+};
+
+const buildXmpSegment = (caption: PhotoCaption): Uint8Array => {
+    const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+    const properties = [
+        `<dc:title>${alt(caption.title)}</dc:title>`,
+        caption.description && `<dc:description>${alt(caption.description)}</dc:description>`,
+        caption.location && `<Iptc4xmpCore:Location>${escapeXml(caption.location)}</Iptc4xmpCore:Location>`,
+        caption.report && `<photoshop:Source>${escapeXml(caption.report)}</photoshop:Source>`,
+        caption.direction && `<photoshop:Instructions>Facing ${escapeXml(caption.direction)}</photoshop:Instructions>`,
+    ];
+    const date = parseDate(caption.date);
+    if (date) {
+        properties.push(`<photoshop:DateCreated>${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}</photoshop:DateCreated>`);
+    }
+    if (hasGps(caption)) {
+        properties.push(`<exif:GPSLatitude>${toXmpCoordinate(caption.latitude!, 'N', 'S')}</exif:GPSLatitude>`);
+        properties.push(`<exif:GPSLongitude>${toXmpCoordinate(caption.longitude!, 'E', 'W')}</exif:GPSLongitude>`);
+    }
+    const bearing = parseBearing(caption.direction);
+    if (bearing !== null) {
+        properties.push(`<exif:GPSImgDirectionRef>T</exif:GPSImgDirectionRef><exif:GPSImgDirection>${Math.round(bearing * 100)}/100</exif:GPSImgDirection>`);
+    }
+
+    const packet = [
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '<rdf:Description rdf:about=""'
+            + ' xmlns:dc="http://purl.org/dc/elements/1.1/"'
+            + ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"'
+            + ' xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/"'
+            + ' xmlns:exif="http://ns.adobe.com/exif/1.0/">',
+        ...properties.filter(Boolean),
+        '</rdf:Description>',
+        '</rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="w"?>',
+    ].join('\n');
+    return concat([utf8('http://ns.adobe.com/xap/1.0/\0'), utf8(packet)]);
+};
+
+// --- IPTC ---
+
+const iptcDataset = (record: number, dataset: number, data: Uint8Array): Uint8Array =>
+    concat([new Uint8Array([0x1c, record, dataset, data.length >> 8, data.length & 0xff]), data]);
+
+const buildIptcSegment = (caption: PhotoCaption): Uint8Array => {
+    const datasets = [
+        iptcDataset(1, IPTC_CODED_CHARACTER_SET, new Uint8Array([0x1b, 0x25, 0x47])), // UTF-8
+        iptcDataset(2, IPTC_RECORD_VERSION, new Uint8Array([0, 4])),
+        iptcDataset(2, IPTC_OBJECT_NAME, truncateUtf8(caption.title, 64)),
+    ];
+    if (caption.description) datasets.push(iptcDataset(2, IPTC_CAPTION, truncateUtf8(caption.description, 2000)));
+    if (caption.location) datasets.push(iptcDataset(2, IPTC_SUB_LOCATION, truncateUtf8(caption.location, 32)));
+    const date = parseDate(caption.date);
+    if (date) datasets.push(iptcDataset(2, IPTC_DATE_CREATED, utf8(`${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`)));
+    if (caption.direction) datasets.push(iptcDataset(2, IPTC_KEYWORDS, truncateUtf8(`Facing ${caption.direction}`, 64)));
+
+    const iptc = concat(datasets);
+    const size = new Uint8Array(4);
+    new DataView(size.buffer).setUint32(0, iptc.length);
+    // One Photoshop image resource (0x0404, IPTC) with an empty name, padded to an even length.
+    return concat([
+        utf8('Photoshop 3.0\0'),
+        utf8('8BIM'),
+        new Uint8Array([0x04, 0x04, 0x00, 0x00]),
+        size,
+        iptc,
+        new Uint8Array(iptc.length % 2),
+    ]);
+};
+
+// --- Container ---
+
+const segment = (marker: number, payload: Uint8Array): Uint8Array => {
+    const length = payload.length + 2;
+    return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: string) =>
+    prefix.split('').every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+/**
+ * Writes a caption into a JPEG's EXIF, XMP and IPTC metadata, replacing any already there.
+ * @param image The JPEG file's bytes.
+ * @param caption What to write.
+ * @returns The new file; non-JPEG input is returned unchanged.
+ */
+export const embedPhotoMetadata = (image: ArrayBuffer, caption: PhotoCaption): Uint8Array => {
+    const bytes = new Uint8Array(image);
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+
+    const kept: Uint8Array[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: the rest is image data.
+        if (marker === 0xda) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const payloadStart = offset + 4;
+        const isOldMetadata = (marker === 0xe1 && (startsWith(bytes, payloadStart, 'Exif') || startsWith(bytes, payloadStart, 'http://ns.adobe.com/xap/')))
+            || (marker === 0xed && startsWith(bytes, payloadStart, 'Photoshop 3.0'));
+        if (!isOldMetadata) kept.push(bytes.subarray(offset, offset + 2 + length));
+        offset += 2 + length;
+    }
+
+    const segments = [
+        segment(0xe1, buildExifSegment(caption)),
+        segment(0xe1, buildXmpSegment(caption)),
+        segment(0xed, buildIptcSegment(caption)),
+    ].filter(s => s.length <= 0xffff + 2);
+    // JFIF readers expect APP0 straight after the start of image, so it stays first.
+    const app0 = kept.filter(s => s[1] === 0xe0);
+    const others = kept.filter(s => s[1] !== 0xe0);
+    return concat([bytes.subarray(0, 2), ...app0, ...segments, ...others, bytes.subarray(offset)]);
+};
@@ -0,0 +1,151 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateProject } from './migrations';
+
+// Project files as older versions of the app wrote them, before schemaVersion existed.
+const loadFixture = (name: string): unknown =>
+    JSON.parse(readFileSync(new URL(`./__fixtures__/legacy/${name}.json`, import.meta.url), 'utf8'));
+
+describe('migrateProject', () => {
+    describe('SaskPower DFR', () => {
+        it('folds activityBlocks into the general activity', () => {
+            const { project, migrated } = migrateProject('dfrSaskpower', loadFixture('dfrSaskpower-activityBlocks'));
+
+            expect(migrated).toBe(true);
+            expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+            expect(project.generalActivity).toBe([
+                'Crews mobilized to site.',
+                '--- Location: Structure 14 ---\nMatting placed.',
+                '--- Location: Unspecified ---\nSpill kit checked.',
+            ].join('\n\n'));
+            expect(project.locationActivities).toEqual([]);
+            expect(project).not.toHaveProperty('activityBlocks');
+            expect(project.photosData).toHaveLength(1);
+            expect(project.envFileNumber).toBe('ENV-2231');
+        });
+
+        it('moves projectActivities into the general activity', () => {
+            const { project, migrated } = migrateProject('dfrSaskpower', loadFixture('dfrSaskpower-projectActivities'));
+
+            expect(migrated).toBe(true);
+            expect(project.generalActivity).toBe('Vegetation clearing along the access road.');
+            expect(project).not.toHaveProperty('projectActivities');
+            expect(project.locationActivities).toEqual([]);
+            expect(project.photosData).toEqual([]);
+        });
+
+        it('appends locationActivities_old to the existing general activity', () => {
+            const { project, migrated } = migrateProject('dfrSaskpower', loadFixture('dfrSaskpower-locationActivities_old'));
+
+            expect(migrated).toBe(true);
+            expect(project.generalActivity).toBe([
+                'Daily inspection completed.',
+                '--- Location: Cell 2 ---\nBerm repaired.',
+                '--- Location: Unspecified ---\nSignage replaced.',
+            ].join('\n\n'));
+            expect(project).not.toHaveProperty('locationActivities_old');
+            expect(project.locationActivities).toEqual([]);
+        });
+    });
+
+    describe('Standard DFR', () => {
+        it('builds the body from textData', () => {
+            const { project, migrated } = migrateProject('dfrStandard', loadFixture('dfrStandard-textData'));
+
+            expect(migrated).toBe(true);
+            expect(project).not.toHaveProperty('textData');
+            expect(project.bodyData).toEqual({
+                generalActivity: 'Topsoil stripping on the right-of-way.',
+                locationActivities: [],
+                communication: 'Tailgate with prime contractor.',
+                weatherAndGroundConditions: 'Overcast, frozen ground',
+                environmentalProtection: 'Topsoil windrowed separately.',
+                wildlifeObservations: 'Two mule deer.',
+                furtherRestoration: 'None required.',
+            });
+            expect(project.photosData).toHaveLength(1);
+        });
+
+        it('moves bodyData.projectActivities into the general activity', () => {
+            const { project, migrated } = migrateProject('dfrStandard', loadFixture('dfrStandard-projectActivities'));
+
+            expect(migrated).toBe(true);
+            expect(project.bodyData.generalActivity).toBe('Hydrovac crossing at the road.');
+            expect(project.bodyData.locationActivities).toEqual([]);
+            expect(project.bodyData).not.toHaveProperty('projectActivities');
+            expect(project.bodyData.weatherAndGroundConditions).toBe('Clear');
+            expect(project.photosData).toEqual([]);
+        });
+
+        it('splits activityBlocks into general and per-location activities', () => {
+            const { project, migrated } = migrateProject('dfrStandard', loadFixture('dfrStandard-activityBlocks'));
+
+            expect(migrated).toBe(true);
+            expect(project.bodyData.generalActivity).toBe('Backfill of the trench.');
+            expect(project.bodyData.locationActivities).toEqual([
+                { id: 2, location: 'KP 1+100', activities: 'Subsoil replaced.' },
+            ]);
+            expect(project.bodyData).not.toHaveProperty('activityBlocks');
+            expect(project.bodyData.communication).toBe('Radio check-ins.');
+        });
+
+        it('replaces envFile with envFileType and envFileValue', () => {
+            const { project, migrated } = migrateProject('dfrStandard', loadFixture('dfrStandard-envFile'));
+
+            expect(migrated).toBe(true);
+            expect(project.headerData).not.toHaveProperty('envFile');
+            expect(project.headerData.envFileType).toBe('ENV File #');
+            expect(project.headerData.envFileValue).toBe('E-44');
+            expect(project.bodyData.generalActivity).toBe('Final clean-up.');
+        });
+    });
+
+    describe('photo logs', () => {
+        it('stamps an unversioned photo log without changing it', () => {
+            const data = loadFixture('photoLog-unversioned');
+            const { project, migrated } = migrateProject('photoLog', data);
+
+            expect(migrated).toBe(false);
+            expect(project).toEqual({ ...(data as object), schemaVersion: CURRENT_SCHEMA_VERSION });
+            expect(project.photosData.map(photo => photo.photoNumber)).toEqual(['1', '2']);
+        });
+
+        it('gives an unversioned combined log without photos an empty photo list', () => {
+            const { project, migrated } = migrateProject('combinedLog', loadFixture('combinedLog-unversioned'));
+
+            expect(migrated).toBe(true);
+            expect(project.photosData).toEqual([]);
+            expect(project.headerData.projectNumber).toBe('21-003');
+        });
+    });
+
+    describe('versions', () => {
+        it('leaves a file at the current version alone', () => {
+            const { project: current } = migrateProject('dfrStandard', loadFixture('dfrStandard-textData'));
+            const { project, migrated } = migrateProject('dfrStandard', current);
+
+            expect(migrated).toBe(false);
+            expect(project).toEqual(current);
+        });
+
+        it('fills in the lists of a summary at the current version', () => {
+            const { project, migrated } = migrateProject('summaryReport', { schemaVersion: CURRENT_SCHEMA_VERSION, summary: { projectName: 'Pipeline' } });
+
+            expect(migrated).toBe(false);
+            expect(project.summary.days).toEqual([]);
+            expect(project.summary.photoSources).toEqual({});
+            expect(project.photosData).toEqual([]);
+        });
+
+        it('rejects a file saved by a newer version', () => {
+            const data = { ...(loadFixture('photoLog-unversioned') as object), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+            expect(() => migrateProject('photoLog', data)).toThrow(/newer version/);
+        });
+
+        it('rejects data that is not a project', () => {
+            expect(() => migrateProject('photoLog', null)).toThrow('Invalid project file format.');
+            expect(() => migrateProject('photoLog', [])).toThrow('Invalid project file format.');
+        });
+    });
+});
@@ -0,0 +1,300 @@
+// Versioned project file schema.
+// Every save writes `schemaVersion: CURRENT_SCHEMA_VERSION`. Files written before
+// versioning existed have no schemaVersion and are treated as version 0. On load,
+// the ordered migrations registered for the report type upgrade the file to the
+// current shapes in types.ts.
+import type { AppType } from '../App';
+import type {
+    DfrHeaderData,
+    DfrSaskpowerProject,
+    DfrStandardBodyData,
+    DfrStandardProject,
+    FormDfrProject,
+    LocationActivity,
+    PhotoData,
+    PhotoLogProject,
+    SummaryReportData,
+    SummaryReportProject,
+} from '../types';
+import { validateFormDefinition } from './formDefinitions';
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// --- Legacy Shapes ---
+// Kept here rather than in types.ts: nothing outside the migrations should see them.
+
+type ActivityBlockType = 'location' | 'general';
+
+/** Mixed general/location activity array used before the split into generalActivity and locationActivities. */
+interface LegacyActivityBlock {
+    id: number;
+    type: ActivityBlockType;
+    location?: string;
+    activities: string;
+}
+
+/** Body text stored under `textData` by the earliest Standard DFR files. */
+interface LegacyDfrTextData {
+    projectActivities?: string;
+    communication?: string;
+    weatherAndGroundConditions?: string;
+    environmentalProtection?: string;
+    wildlifeObservations?: string;
+    furtherRestoration?: string;
+}
+
+/** Standard DFR body before the activities split; either activityBlocks or projectActivities held the activities. */
+interface LegacyDfrStandardBody extends Partial<DfrStandardBodyData> {
+    activityBlocks?: LegacyActivityBlock[];
+    projectActivities?: string;
+}
+
+/** Standard DFR header before envFile was split into a type and a value. */
+interface LegacyDfrHeaderData extends Partial<DfrHeaderData> {
+    envFile?: string;
+}
+
+interface LegacyDfrStandardFile extends Partial<Omit<DfrStandardProject, 'headerData' | 'bodyData'>> {
+    headerData?: LegacyDfrHeaderData;
+    bodyData?: LegacyDfrStandardBody;
+    textData?: LegacyDfrTextData;
+}
+
+interface LegacyDfrSaskpowerFile extends Partial<DfrSaskpowerProject> {
+    activityBlocks?: LegacyActivityBlock[];
+    projectActivities?: string;
+    locationActivities_old?: LocationActivity[];
+}
+
+interface LegacySummaryReportFile extends Partial<Omit<SummaryReportProject, 'summary'>> {
+    summary?: Partial<SummaryReportData>;
+}
+
+// --- Registry ---
+
+interface ProjectFileMap {
+    photoLog: PhotoLogProject;
+    combinedLog: PhotoLogProject;
+    dfrStandard: DfrStandardProject;
+    dfrSaskpower: DfrSaskpowerProject;
+    dfrForm: FormDfrProject;
+    summaryReport: SummaryReportProject;
+}
+
+/** What a file of each type may hold at any schema version, as parsed and before migrating. */
+interface ProjectFileHistory {
+    photoLog: Partial<PhotoLogProject>;
+    combinedLog: Partial<PhotoLogProject>;
+    dfrStandard: LegacyDfrStandardFile;
+    dfrSaskpower: LegacyDfrSaskpowerFile;
+    dfrForm: Partial<FormDfrProject>;
+    summaryReport: LegacySummaryReportFile;
+}
+
+export type VersionedProjectType = keyof ProjectFileMap & AppType;
+
+interface Migration<T extends VersionedProjectType> {
+    /** The schema version a file is at after this migration runs. */
+    toVersion: number;
+    description: string;
+    /** Returns the upgraded data, or the same object if there was nothing to change. */
+    migrate: (data: ProjectFileHistory[T]) => ProjectFileHistory[T];
+}
+
+const listOrEmpty = <T>(value: T[] | undefined): T[] => Array.isArray(value) ? value : [];
+
+const ensurePhotoList = <T extends { photosData?: PhotoData[] }>(data: T): T =>
+    Array.isArray(data.photosData) ? data : { ...data, photosData: [] };
+
+const ensureSummaryLists = (data: LegacySummaryReportFile): LegacySummaryReportFile => {
+    if (!data.summary) {
+        throw new Error('This file is missing its summary.');
+    }
+    const { summary } = data;
+    if (Array.isArray(summary.days) && summary.photoSources && Array.isArray(data.photosData)) return data;
+    return {
+        ...data,
+        summary: { ...summary, days: listOrEmpty(summary.days), photoSources: summary.photoSources || {} },
+        photosData: listOrEmpty(data.photosData),
+    };
+};
+
+const ensureFormLists = (data: Partial<FormDfrProject>): Partial<FormDfrProject> => {
+    if (!data.form) {
+        throw new Error('This report file is missing its form definition.');
+    }
+    // The embedded definition may have been written by hand or by another machine's form editor.
+    const problems = validateFormDefinition(data.form);
+    if (problems.length > 0) {
+        throw new Error(`The form definition in this report file has problems:\n- ${problems.join('\n- ')}`);
+    }
+    if (data.values && Array.isArray(data.locationActivities) && Array.isArray(data.photosData)) return data;
+    return {
+        ...data,
+        values: data.values || {},
+        locationActivities: listOrEmpty(data.locationActivities),
+        photosData: listOrEmpty(data.photosData),
+    };
+};
+
+const migrateDfrStandardActivities = (data: LegacyDfrStandardFile): LegacyDfrStandardFile => {
+    const { textData, ...rest } = data;
+    const loadedBody: LegacyDfrStandardBody = data.bodyData || {};
+    const loadedText: LegacyDfrTextData = textData || {};
+    let changed = textData !== undefined || data.bodyData === undefined;
+    let bodyData = loadedBody;
+
+    if (loadedBody.generalActivity === undefined && loadedBody.locationActivities === undefined) {
+        changed = true;
+        let general = '';
+        let locations: LocationActivity[] = [];
+
+        if (Array.isArray(loadedBody.activityBlocks)) {
+            const blocks = loadedBody.activityBlocks;
+            const generalBlock = blocks.find(b => b.type === 'general');
+            general = generalBlock ? generalBlock.activities : '';
+            locations = blocks
+                .filter(b => b.type === 'location')
+                .map(({ id, location, activities }) => ({ id, location: location || '', activities }));
+        } else if (loadedBody.projectActivities) {
+            general = loadedBody.projectActivities;
+        } else if (loadedText.projectActivities) {
+            general = loadedText.projectActivities;
+        }
+
+        bodyData = {
+            generalActivity: general,
+            locationActivities: locations,
+            communication: loadedBody.communication || loadedText.communication || '',
+            weatherAndGroundConditions: loadedBody.weatherAndGroundConditions || loadedText.weatherAndGroundConditions || '',
+            environmentalProtection: loadedBody.environmentalProtection || loadedText.environmentalProtection || '',
+            wildlifeObservations: loadedBody.wildlifeObservations || loadedText.wildlifeObservations || '',
+            furtherRestoration: loadedBody.furtherRestoration || loadedText.furtherRestoration || '',
+        };
+    }
+
+    let headerData = data.headerData;
+    if (headerData && headerData.envFile !== undefined) {
+        changed = true;
+        const { envFile, ...header } = headerData;
+        headerData = { ...header, envFileType: 'ENV File #', envFileValue: envFile };
+    }
+
+    if (!changed) return data;
+    return ensurePhotoList({ ...rest, headerData, bodyData });
+};
+
+const migrateDfrSaskpowerActivities = (data: LegacyDfrSaskpowerFile): LegacyDfrSaskpowerFile => {
+    const { activityBlocks, projectActivities, locationActivities_old, ...rest } = data;
+    const blocks = listOrEmpty(activityBlocks);
+    const currentLocations = listOrEmpty(data.locationActivities);
+    const oldLocations = listOrEmpty(locationActivities_old);
+
+    if (!projectActivities && !blocks.length && !currentLocations.length && !oldLocations.length) {
+        return Array.isArray(data.photosData) && Array.isArray(data.locationActivities)
+            ? data
+            : { ...data, locationActivities: [], photosData: listOrEmpty(data.photosData) };
+    }
+
+    // SaskPower reports no longer have per-location blocks, so every legacy
+    // activity field is folded into the general activity text.
+    const activitiesToMerge = new Set<string>();
+    if (data.generalActivity) activitiesToMerge.add(data.generalActivity);
+    if (projectActivities) activitiesToMerge.add(projectActivities);
+
+    const allLocationActivities: LocationActivity[] = [...currentLocations, ...oldLocations];
+    blocks.forEach(block => {
+        if (block.type === 'general' && block.activities) {
+            activitiesToMerge.add(block.activities);
+        } else if (block.type === 'location') {
+            allLocationActivities.push({ id: block.id, location: block.location || '', activities: block.activities });
+        }
+    });
+    allLocationActivities.forEach(loc => {
+        activitiesToMerge.add(`--- Location: ${loc.location || 'Unspecified'} ---\n${loc.activities}`);
+    });
+
+    return {
+        ...rest,
+        generalActivity: Array.from(activitiesToMerge).join('\n\n'),
+        locationActivities: [],
+        photosData: listOrEmpty(data.photosData),
+    };
+};
+
+const MIGRATIONS: { [T in VersionedProjectType]: Migration<T>[] } = {
+    photoLog: [
+        { toVersion: 1, description: 'Ensure the photo list is present', migrate: ensurePhotoList },
+    ],
+    combinedLog: [
+        { toVersion: 1, description: 'Ensure the photo list is present', migrate: ensurePhotoList },
+    ],
+    dfrStandard: [
+        { toVersion: 1, description: 'Split activities into general and per-location text; replace envFile with envFileType/envFileValue', migrate: migrateDfrStandardActivities },
+    ],
+    dfrSaskpower: [
+        { toVersion: 1, description: 'Fold projectActivities, activityBlocks and location activities into generalActivity', migrate: migrateDfrSaskpowerActivities },
+    ],
+    // Form reports and summaries were versioned from the start; their lists are checked on every load below.
+    dfrForm: [],
+    summaryReport: [],
+};
+
+/**
+ * Checks run on every load, whatever the file's version. A schema version says which shape a
+ * file was written in, not that it is complete, so a file at the current version still gets them.
+ */
+const LOAD_CHECKS: { [T in VersionedProjectType]?: (data: ProjectFileHistory[T]) => ProjectFileHistory[T] } = {
+    dfrForm: ensureFormLists,
+    summaryReport: ensureSummaryLists,
+};
+
+export interface MigrationResult<T> {
+    project: T;
+    /** True when an older shape was actually rewritten (not just stamped with a version). */
+    migrated: boolean;
+}
+
+/**
+ * Upgrades project data of any historical shape to the current schema.
+ * @param type The report type the data belongs to.
+ * @param data Parsed project data from a file or the projects store.
+ * @returns The upgraded project and whether its shape changed.
+ */
+export const migrateProject = <T extends VersionedProjectType>(type: T, data: unknown): MigrationResult<ProjectFileMap[T]> => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Invalid project file format.');
+    }
+    const { schemaVersion } = data as { schemaVersion?: unknown };
+    const fromVersion = typeof schemaVersion === 'number' ? schemaVersion : 0;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error('This project was saved by a newer version of X-TES Digital Reporting. Please update the application to open it.');
+    }
+
+    let project = data as ProjectFileHistory[T];
+    let migrated = false;
+    const migrations: Migration<T>[] = MIGRATIONS[type];
+    migrations
+        .filter(migration => migration.toVersion > fromVersion)
+        .forEach(migration => {
+            const next = migration.migrate(project);
+            if (next !== project) migrated = true;
+            project = next;
+        });
+    const check = LOAD_CHECKS[type];
+    if (check) project = check(project);
+
+    // The migrations and load checks leave every list and section of the current shape in place.
+    const upgraded = { ...project, schemaVersion: CURRENT_SCHEMA_VERSION } as ProjectFileMap[T];
+    return { project: upgraded, migrated };
+};
+
+/**
+ * Stamps data with the current schema version before it is written anywhere.
+ * @param data The project data about to be saved.
+ * @returns The same data with schemaVersion set.
+ */
+export const withSchemaVersion = <T extends object>(data: T): T & { schemaVersion: number } => ({
+    ...data,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+});
@@ -0,0 +1,150 @@
+// PDF export with an image quality and file size budget.
+// Photos are stored as 1024x768 JPEGs at the browser's default quality. Before a
+// report is rendered, every image is re-encoded at the report's export settings,
+// and if a target size is set the images are recompressed step by step until the
+// PDF fits (or the lowest acceptable quality is reached).
+import type { jsPDF } from 'jspdf';
+import type { PdfExportSettings } from '../types';
+import { renderReport, type PdfImage, type PhotoEntryBlock, type ReportDocument } from './pdfLayout';
+
+export const DEFAULT_PDF_EXPORT_SETTINGS: PdfExportSettings = {
+    maxImageSize: 1024,
+    jpegQuality: 0.85,
+    targetSizeMb: null,
+};
+
+export const IMAGE_SIZE_OPTIONS = [
+    { value: 1024, label: 'Full (1024 px)' },
+    { value: 800, label: 'Medium (800 px)' },
+    { value: 640, label: 'Small (640 px)' },
+    { value: 480, label: 'Smallest (480 px)' },
+];
+
+// The budget search never goes below these, so photos stay legible.
+const MIN_JPEG_QUALITY = 0.4;
+const MIN_IMAGE_SIZE = 400;
+const QUALITY_STEP = 0.1;
+const SIZE_STEP = 0.8;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface BudgetedReport {
+    doc: jsPDF;
+    sizeBytes: number;
+    /** The settings the images were finally encoded at. */
+    settingsUsed: PdfExportSettings;
+    /** False when the target could not be reached even at the lowest quality. */
+    withinTarget: boolean;
+}
+
+/**
+ * Re-encodes one image as a JPEG no larger than maxSize on its longest edge.
+ * @param image The measured source image.
+ * @param maxSize The longest edge in pixels.
+ * @param quality The JPEG quality, 0-1.
+ * @returns The re-encoded image, or the original if it could not be drawn.
+ */
+export const recompressImage = (image: PdfImage, maxSize: number, quality: number): Promise<PdfImage> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                resolve(image);
+                return;
+            }
+            // JPEG has no transparency; keep PNG maps on white rather than black.
+            ctx.fillStyle = 'white';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve({ data: canvas.toDataURL('image/jpeg', quality), width: canvas.width, height: canvas.height });
+        };
+        img.onerror = () => resolve(image);
+        img.src = image.data;
+    });
+};
+
+const compressEntries = async (entries: PhotoEntryBlock[] | undefined, settings: PdfExportSettings): Promise<PhotoEntryBlock[] | undefined> => {
+    if (!entries) return entries;
+    const compressed: PhotoEntryBlock[] = [];
+    // One image at a time keeps memory flat on large reports.
+    for (const entry of entries) {
+        compressed.push({
+            ...entry,
+            image: entry.image ? await recompressImage(entry.image, settings.maxImageSize, settings.jpegQuality) : null,
+        });
+    }
+    return compressed;
+};
+
+const renderAt = async (model: ReportDocument, settings: PdfExportSettings) => {
+    const doc = renderReport({
+        ...model,
+        photos: (await compressEntries(model.photos, settings)) || [],
+        maps: await compressEntries(model.maps, settings),
+    });
+    return { doc, sizeBytes: doc.output('arraybuffer').byteLength };
+};
+
+/** The next, smaller encoding to try, or null once the floor is reached. */
+const nextSmallerSettings = (settings: PdfExportSettings): PdfExportSettings | null => {
+    if (settings.jpegQuality - QUALITY_STEP >= MIN_JPEG_QUALITY - 1e-9) {
+        return { ...settings, jpegQuality: Math.round((settings.jpegQuality - QUALITY_STEP) * 100) / 100 };
+    }
+    const smallerSize = Math.round(settings.maxImageSize * SIZE_STEP);
+    if (smallerSize >= MIN_IMAGE_SIZE) {
+        return { ...settings, maxImageSize: smallerSize };
+    }
+    return null;
+};
+
+/**
+ * Renders a report with its images encoded at the export settings, recompressing
+ * until the PDF is under the target size when one is set.
+ * @param model The report to render, with images at their stored quality.
+ * @param settings The report's export settings.
+ * @param onAttempt Called before each render with the settings being tried.
+ * @returns The rendered document and its size.
+ */
+export const renderReportWithinBudget = async (
+    model: ReportDocument,
+    settings: PdfExportSettings,
+    onAttempt?: (settings: PdfExportSettings) => void
+): Promise<BudgetedReport> => {
+    const targetBytes = settings.targetSizeMb ? settings.targetSizeMb * BYTES_PER_MB : null;
+    let current = settings;
+    onAttempt?.(current);
+    let result = await renderAt(model, current);
+
+    while (targetBytes && result.sizeBytes > targetBytes) {
+        const next = nextSmallerSettings(current);
+        if (!next) break;
+        current = next;
+        onAttempt?.(current);
+        result = await renderAt(model, current);
+    }
+
+    return {
+        ...result,
+        settingsUsed: current,
+        withinTarget: !targetBytes || result.sizeBytes <= targetBytes,
+    };
+};
+
+/**
+ * Estimates the PDF size at the given image settings, ignoring the size target.
+ * @param model The report to estimate.
+ * @param settings The image resolution and quality to estimate at.
+ * @returns The size in bytes.
+ */
+export const estimatePdfSize = async (model: ReportDocument, settings: PdfExportSettings): Promise<number> => {
+    const { sizeBytes } = await renderAt(model, settings);
+    return sizeBytes;
+};
+
+export const formatFileSize = (bytes: number): string =>
+    bytes >= BYTES_PER_MB ? `${(bytes / BYTES_PER_MB).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
@@ -0,0 +1,54 @@
+// Browser-side helpers that turn editor photos into entries for the PDF layout engine.
+import type { PhotoData } from '../types';
+import type { HeaderField, PdfImage, PhotoEntryBlock } from './pdfLayout';
+import { getFullImageUrl } from './photoImages';
+
+// Helper function to get image dimensions asynchronously
+export const getImageDimensions = (url: string): Promise<{ width: number; height: number }> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve({ width: img.width, height: img.height });
+        img.onerror = (err) => reject(err);
+        img.src = url;
+    });
+};
+
+/**
+ * Measures an image so the layout engine can size it without touching the DOM.
+ * @param url The image data URL.
+ * @returns The measured image, or null if there is no image or it fails to load.
+ */
+export const loadPdfImage = async (url: string | null | undefined): Promise<PdfImage | null> => {
+    if (!url) return null;
+    try {
+        const { width, height } = await getImageDimensions(url);
+        return { data: url, width, height };
+    } catch (e) {
+        console.error("Could not load image for PDF", e);
+        return null;
+    }
+};
+
+/**
+ * Builds PDF photo entries from editor photos, reading stored images at full resolution.
+ * @param photos The photos to include, in order.
+ * @param getFields Returns the caption fields shown above each description.
+ * @returns One entry per photo with its image measured.
+ */
+export const buildPhotoEntries = (
+    photos: PhotoData[],
+    getFields: (photo: PhotoData) => HeaderField[]
+): Promise<PhotoEntryBlock[]> =>
+    Promise.all(photos.map(async (photo) => ({
+        fields: getFields(photo),
+        description: photo.description,
+        image: await loadPdfImage(await getFullImageUrl(photo)),
+    })));
+
+/** Caption fields used by the DFR photo log pages. */
+export const dfrPhotoFields = (photo: PhotoData): HeaderField[] => [
+    { label: photo.isMap ? 'Map' : 'Photo', value: photo.photoNumber },
+    ...(photo.isMap ? [] : [{ label: 'Direction', value: photo.direction || 'N/A' }]),
+    { label: 'Date', value: photo.date },
+    { label: 'Location', value: photo.location },
+];
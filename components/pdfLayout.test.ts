@@ -0,0 +1,143 @@
+import type { jsPDF } from 'jspdf';
+import { describe, expect, it } from 'vitest';
+import { renderReport, textSection, type BodyBlock, type HeaderBlock, type PdfImage, type PhotoEntryBlock } from './pdfLayout';
+
+// The smallest JPEG jsPDF accepts: a 40x30 frame header and nothing to decode.
+const IMAGE: PdfImage = {
+    data: `data:image/jpeg;base64,${Buffer.from([
+        0xff, 0xd8, 0xff, 0xc0, 0, 17, 8, 0, 30, 0, 40, 3, 1, 0x11, 0, 2, 0x11, 0, 3, 0x11, 0, 0xff, 0xd9,
+    ]).toString('base64')}`,
+    width: 40,
+    height: 30,
+};
+
+const header = (title: string): HeaderBlock => ({
+    title,
+    columns: [[{ label: 'Date', value: 'October 1, 2025' }], [{ label: 'Project', value: '25159' }]],
+    fullWidth: [{ label: 'Project Name', value: 'Rush Lake SWD Pipeline' }],
+});
+
+const photo = (number: number, description = 'Topsoil windrow along the south boundary.'): PhotoEntryBlock => ({
+    fields: [{ label: 'Photo', value: String(number) }, { label: 'Date', value: 'October 1, 2025' }],
+    description,
+    image: IMAGE,
+});
+
+// The drawing commands of each page; jsPDF keeps them uncompressed until output.
+const pageContents = (doc: jsPDF): string[] =>
+    (doc.internal as unknown as { pages: (string[] | null)[] }).pages.slice(1).map(page => (page || []).join('\n'));
+
+// The 1-based page whose text matches, or 0 when no page does.
+const pageOf = (doc: jsPDF, pattern: RegExp): number => pageContents(doc).findIndex(page => pattern.test(page)) + 1;
+
+const imagesPerPage = (doc: jsPDF): number[] => pageContents(doc).map(page => (page.match(/ Do\b/g) || []).length);
+
+const bullets = (count: number, prefix: string): string =>
+    Array.from({ length: count }, (_, i) => `- ${prefix} ${i + 1}`).join('\n');
+
+const bulletList = (count: number, prefix: string): BodyBlock => ({ kind: 'bulletList', text: bullets(count, prefix) });
+
+describe('renderReport', () => {
+    it('draws the header alone on one page when there is nothing else', () => {
+        const doc = renderReport({ layout: 'photoLog', photoHeader: header('PHOTOGRAPHIC LOG'), photos: [] });
+
+        expect(doc.getNumberOfPages()).toBe(1);
+        expect(pageOf(doc, /\(PHOTOGRAPHIC LOG\) Tj/)).toBe(1);
+        expect(pageOf(doc, /\(Page 1 of 1\) Tj/)).toBe(1);
+    });
+
+    describe('body pages', () => {
+        it('breaks a long body across pages, repeating the header and numbering every page', () => {
+            const doc = renderReport({
+                layout: 'dfr',
+                bodyHeader: header('DAILY FIELD REPORT'),
+                photoHeader: header('PHOTOGRAPHIC LOG'),
+                body: textSection('General Activity:', bullets(80, 'Activity')),
+                photos: [],
+            });
+            const pages = pageContents(doc);
+
+            expect(pages.length).toBeGreaterThan(1);
+            pages.forEach((page, i) => {
+                expect(page).toContain('(DAILY FIELD REPORT) Tj');
+                expect(page).toContain(`(Page ${i + 1} of ${pages.length}) Tj`);
+            });
+            expect(pageOf(doc, /\(Activity 1\) Tj/)).toBe(1);
+            expect(pageOf(doc, /\(Activity 80\) Tj/)).toBe(pages.length);
+        });
+
+        it('moves a bullet that would cross the bottom margin to the next page whole', () => {
+            const words = Array.from({ length: 150 }, (_, i) => `w${i + 1}`).join(' ');
+            const doc = renderReport({
+                layout: 'dfr',
+                photoHeader: header('DAILY FIELD REPORT'),
+                body: [bulletList(30, 'Filler'), { kind: 'bulletList', text: `- ${words}` }],
+                photos: [],
+            });
+
+            expect(doc.getNumberOfPages()).toBe(2);
+            expect(pageOf(doc, /\(Filler 30\) Tj/)).toBe(1);
+            // The wrapped field starts and ends on the second page.
+            expect(pageOf(doc, /\(w1 w2 /)).toBe(2);
+            expect(pageOf(doc, / w150\) Tj/)).toBe(2);
+        });
+
+        it('keeps a heading on the page of the text that follows it', () => {
+            const doc = renderReport({
+                layout: 'dfr',
+                photoHeader: header('DAILY FIELD REPORT'),
+                // The heading alone would still fit at the bottom of the first page.
+                body: [bulletList(33, 'Filler'), { kind: 'heading', text: 'Wildlife Observations:' }, { kind: 'bulletList', text: '- Common Raven' }],
+                photos: [],
+            });
+
+            expect(doc.getNumberOfPages()).toBe(2);
+            expect(pageOf(doc, /\(Wildlife Observations:\) Tj/)).toBe(2);
+            expect(pageOf(doc, /\(Common Raven\) Tj/)).toBe(2);
+        });
+    });
+
+    describe('photo pages', () => {
+        it('places photos two to a page after the body', () => {
+            const doc = renderReport({
+                layout: 'dfr',
+                bodyHeader: header('DAILY FIELD REPORT'),
+                photoHeader: header('PHOTOGRAPHIC LOG'),
+                body: textSection('Communication:', '- Tailgate meeting.'),
+                photos: [1, 2, 3, 4, 5].map(n => photo(n)),
+            });
+
+            expect(doc.getNumberOfPages()).toBe(4);
+            expect(imagesPerPage(doc)).toEqual([0, 2, 2, 1]);
+            expect(pageOf(doc, /\(PHOTOGRAPHIC LOG\) Tj/)).toBe(2);
+        });
+
+        it('gives a photo with a caption too tall to share a page a page of its own', () => {
+            const longDescription = Array.from({ length: 40 }, (_, i) => `Observation ${i + 1}.`).join('\n');
+            const doc = renderReport({
+                layout: 'photoLog',
+                photoHeader: header('PHOTOGRAPHIC LOG'),
+                photos: [photo(1), photo(2, longDescription), photo(3)],
+            });
+
+            expect(imagesPerPage(doc)).toEqual([1, 1, 1]);
+            expect(pageOf(doc, /\(Observation 40\.\) Tj/)).toBe(2);
+        });
+
+        it('draws each map on its own page after the photos', () => {
+            const doc = renderReport({
+                layout: 'dfr',
+                photoHeader: header('PHOTOGRAPHIC LOG'),
+                photos: [photo(1)],
+                maps: [
+                    { fields: [{ label: 'Map', value: 'Map 1' }], description: 'Site overview.', image: IMAGE },
+                    { fields: [{ label: 'Map', value: 'Map 2' }], description: 'Access route.', image: IMAGE },
+                ],
+            });
+
+            expect(imagesPerPage(doc)).toEqual([1, 1, 1]);
+            expect(pageOf(doc, /\(Site overview\.\) Tj/)).toBe(2);
+            expect(pageOf(doc, /\(Access route\.\) Tj/)).toBe(3);
+        });
+    });
+});
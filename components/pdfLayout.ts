@@ -0,0 +1,579 @@
+// Shared layout engine for every PDF the app produces.
+// Reports describe their content as a ReportDocument (header blocks, text
+// sections, bullet lists and photo entries) and this module paginates and draws
+// it. It has no DOM dependencies: images arrive already measured, so the engine
+// can run against a headless jsPDF instance in Node.
+import { jsPDF } from 'jspdf';
+
+// --- Document Model ---
+
+export type ReportLayout = 'photoLog' | 'dfr';
+
+export interface PdfImage {
+    data: string; // Data URL (or any source jsPDF.addImage accepts)
+    width: number;
+    height: number;
+}
+
+export interface HeaderField {
+    label: string;
+    value: string;
+}
+
+export interface HeaderBlock {
+    /** Title drawn beside the logo. Omit for a compact header with the info block only. */
+    title?: string;
+    columns: [HeaderField[], HeaderField[]];
+    fullWidth?: HeaderField[];
+    /** Fraction of the content width at which the second column starts. */
+    columnSplit?: number;
+}
+
+export type BodyBlock =
+    | { kind: 'heading'; text: string; level?: 1 | 2; spaceBefore?: number }
+    | { kind: 'bulletList'; text: string; spaceAfter?: number }
+    | { kind: 'checklist'; options: string[]; items: { label: string; value: string }[]; spaceBefore?: number }
+    | { kind: 'line'; text: string; bold?: boolean; fontSize?: number; spaceBefore?: number };
+
+export interface PhotoEntryBlock {
+    fields: HeaderField[];
+    description: string;
+    image: PdfImage | null;
+}
+
+export interface ReportDocument {
+    layout: ReportLayout;
+    logo?: string;
+    /** Header for pages carrying body text. Defaults to photoHeader. */
+    bodyHeader?: HeaderBlock;
+    photoHeader: HeaderBlock;
+    body?: BodyBlock[];
+    photos: PhotoEntryBlock[];
+    /** Entries drawn one per page with the image scaled to fill the page. */
+    maps?: PhotoEntryBlock[];
+}
+
+// --- Layout Profiles ---
+
+interface LayoutProfile {
+    margin: number;
+    ruleInset: number;
+    bottomLimit: number;
+    footerRuleOffset: number;
+    pageNumberOffset: number;
+    header: {
+        bandHeight: number;
+        paddingTop: number;
+        bottomPadding: number;
+        labelSize: number;
+        valueSize: number;
+        labelGap: number;
+        rowGap: number;
+        uppercase: boolean;
+        columnSplit: number;
+        bodyGap: number;
+        photoGap: number;
+    };
+    photo: {
+        textRatio: number;
+        labelSize: number;
+        valueSize: number;
+        labelGap: number;
+        rowGap: number;
+        spread: boolean;
+    };
+}
+
+const TEAL: [number, number, number] = [0, 125, 140];
+
+const PROFILES: Record<ReportLayout, LayoutProfile> = {
+    photoLog: {
+        margin: 10,
+        ruleInset: 10,
+        bottomLimit: 15,
+        footerRuleOffset: 12,
+        pageNumberOffset: 7,
+        header: {
+            bandHeight: 18,
+            paddingTop: 5,
+            bottomPadding: 2,
+            labelSize: 13,
+            valueSize: 12,
+            labelGap: 1,
+            rowGap: 2,
+            uppercase: false,
+            columnSplit: 0.555,
+            bodyGap: 0,
+            photoGap: 0,
+        },
+        photo: {
+            textRatio: 0.40,
+            labelSize: 13,
+            valueSize: 12,
+            labelGap: 1,
+            rowGap: 2,
+            spread: true,
+        },
+    },
+    dfr: {
+        margin: 16.7,
+        ruleInset: 12.7,
+        bottomLimit: 16.7,
+        footerRuleOffset: 12.7,
+        pageNumberOffset: 8.7,
+        header: {
+            bandHeight: 15,
+            paddingTop: 4,
+            bottomPadding: -1.5,
+            labelSize: 12,
+            valueSize: 11,
+            labelGap: 2,
+            rowGap: 1.5,
+            uppercase: true,
+            columnSplit: 0.60,
+            bodyGap: 6,
+            photoGap: 1,
+        },
+        photo: {
+            textRatio: 0.35,
+            labelSize: 12,
+            valueSize: 12,
+            labelGap: 2,
+            rowGap: 1.5,
+            spread: false,
+        },
+    },
+};
+
+const MAX_PHOTOS_PER_PAGE = 2;
+const PHOTO_SEPARATOR_HEIGHT = 10;
+const PHOTO_COLUMN_GAP = 5;
+
+// --- Body Helpers ---
+
+/**
+ * Builds the blocks for a titled text section, or nothing if the content is blank.
+ * @param title The section title.
+ * @param content Free text; lines starting with '-' become bullets, two spaces per indent level.
+ * @returns The blocks to append to a document body.
+ */
+export const textSection = (title: string, content: string | undefined, spaceBefore = 4): BodyBlock[] => {
+    if (!content || !content.trim()) return [];
+    return [
+        { kind: 'heading', text: title, level: 1, spaceBefore },
+        { kind: 'bulletList', text: content },
+    ];
+};
+
+export interface BulletLine {
+    text: string;
+    bulleted: boolean;
+    /** Nesting depth: one level per two leading spaces. */
+    level: number;
+    /** Left indent in mm. */
+    indent: number;
+}
+
+/**
+ * Splits BulletPointEditor text into lines, with null for blank lines.
+ * Shared with the DOCX exporter so both formats nest bullets the same way.
+ */
+export const parseBulletLines = (text: string): (BulletLine | null)[] =>
+    text.split('\n').map(line => {
+        if (line.trim() === '') return null;
+        const indentationMatch = line.match(/^\s*/);
+        const indentation = indentationMatch ? indentationMatch[0].length : 0;
+        const trimmed = line.trim();
+        const bulleted = trimmed.startsWith('-');
+        const level = Math.floor(indentation / 2);
+        return {
+            text: bulleted ? trimmed.substring(1).trim() : trimmed,
+            bulleted,
+            level,
+            indent: level * 5,
+        };
+    });
+
+// --- Engine ---
+
+interface PlacedEntry {
+    entry: PhotoEntryBlock;
+    height: number;
+}
+
+/**
+ * Renders a report document to a new letter-sized PDF.
+ * @param model The document to lay out.
+ * @returns The finished jsPDF instance, ready for output().
+ */
+export const renderReport = (model: ReportDocument): jsPDF => {
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'letter' });
+    const profile = PROFILES[model.layout];
+    const { margin } = profile;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - margin * 2;
+    const maxY = pageHeight - profile.bottomLimit;
+
+    const drawRule = (docInstance: jsPDF, y: number) => {
+        docInstance.setLineWidth(0.5);
+        docInstance.setDrawColor(...TEAL);
+        docInstance.line(profile.ruleInset, y, pageWidth - profile.ruleInset, y);
+    };
+
+    // --- Header ---
+
+    // Draws a header block and returns the y position of its closing rule.
+    const drawHeader = (docInstance: jsPDF, header: HeaderBlock, withLogo = true): number => {
+        const style = profile.header;
+        let ruleY = profile.ruleInset;
+
+        if (header.title) {
+            if (withLogo && model.logo) {
+                docInstance.addImage(model.logo, 'JPEG', margin, margin, 40, 10);
+            }
+            docInstance.setFontSize(18);
+            docInstance.setFont('times', 'bold');
+            docInstance.setTextColor(...TEAL);
+            docInstance.text(header.title, pageWidth / 2, margin + 7, { align: 'center' });
+            docInstance.setTextColor(0, 0, 0);
+            ruleY = margin + style.bandHeight;
+        }
+        drawRule(docInstance, ruleY);
+
+        const drawField = (field: HeaderField, x: number, y: number, maxWidth: number): number => {
+            const labelText = `${style.uppercase ? (field.label || '').toUpperCase() : field.label}:`;
+            docInstance.setFontSize(style.labelSize);
+            docInstance.setFont('times', 'bold');
+            const labelWidth = docInstance.getTextWidth(labelText);
+            const labelHeight = docInstance.getTextDimensions(labelText).h;
+            docInstance.text(labelText, x, y);
+
+            docInstance.setFontSize(style.valueSize);
+            docInstance.setFont('times', 'normal');
+            const valueLines = docInstance.splitTextToSize(field.value || ' ', maxWidth - labelWidth - style.labelGap);
+            docInstance.text(valueLines, x + labelWidth + style.labelGap, y);
+            return Math.max(labelHeight, docInstance.getTextDimensions(valueLines).h);
+        };
+
+        const split = header.columnSplit ?? style.columnSplit;
+        const col2X = margin + contentWidth * split;
+        const col1MaxWidth = col2X - margin - 5;
+        const col2MaxWidth = contentWidth * (1 - split);
+
+        const startY = ruleY + style.paddingTop;
+        let y1 = startY;
+        let y2 = startY;
+        header.columns[0].forEach(field => { y1 += drawField(field, margin, y1, col1MaxWidth) + style.rowGap; });
+        header.columns[1].forEach(field => { y2 += drawField(field, col2X, y2, col2MaxWidth) + style.rowGap; });
+
+        let y = Math.max(y1, y2);
+        (header.fullWidth || []).forEach(field => { y += drawField(field, margin, y, contentWidth) + style.rowGap; });
+
+        const closingRuleY = y - style.rowGap + style.bottomPadding;
+        drawRule(docInstance, closingRuleY);
+        return closingRuleY;
+    };
+
+    // Measures a header by drawing it on a scratch document.
+    const measureHeader = (header: HeaderBlock): number =>
+        drawHeader(new jsPDF({ orientation: 'p', unit: 'mm', format: 'letter' }), header, false);
+
+    // --- Body ---
+
+    const firstBulletLineHeight = (text: string): number => {
+        const first = parseBulletLines(text).find(line => line && line.text);
+        if (!first) return 0;
+        doc.setFontSize(12);
+        doc.setFont('times', 'normal');
+        const textMaxWidth = contentWidth - (first.bulleted ? 5 : 0) - first.indent;
+        return doc.getTextDimensions(doc.splitTextToSize(first.text, textMaxWidth)).h;
+    };
+
+    const renderBody = (blocks: BodyBlock[], header: HeaderBlock) => {
+        let y = drawHeader(doc, header) + profile.header.bodyGap;
+
+        const newPage = () => {
+            doc.addPage();
+            y = drawHeader(doc, header) + profile.header.bodyGap;
+        };
+
+        blocks.forEach((block, index) => {
+            switch (block.kind) {
+                case 'heading': {
+                    const size = block.level === 2 ? 12 : 13;
+                    doc.setFontSize(size);
+                    doc.setFont('times', 'bold');
+                    const height = doc.getTextDimensions(block.text).h + 2;
+                    const spaceBefore = block.spaceBefore || 0;
+                    // Keep a heading on the same page as the first line that follows it.
+                    const next = blocks[index + 1];
+                    const followingHeight = next && next.kind === 'bulletList' ? firstBulletLineHeight(next.text) : 0;
+                    if (y + spaceBefore + height + followingHeight > maxY) {
+                        newPage();
+                    } else {
+                        y += spaceBefore;
+                    }
+                    doc.setFontSize(size);
+                    doc.setFont('times', 'bold');
+                    doc.text(block.text, margin, y);
+                    y += height;
+                    break;
+                }
+                case 'bulletList': {
+                    doc.setFontSize(12);
+                    doc.setFont('times', 'normal');
+                    parseBulletLines(block.text).forEach(line => {
+                        if (!line) {
+                            if (y + 3 <= maxY) y += 3;
+                            return;
+                        }
+                        if (!line.text) return;
+                        const textMaxWidth = contentWidth - (line.bulleted ? 5 : 0) - line.indent;
+                        const splitText = doc.splitTextToSize(line.text, textMaxWidth);
+                        const textHeight = doc.getTextDimensions(splitText).h;
+                        if (y + textHeight > maxY) {
+                            newPage();
+                            doc.setFontSize(12);
+                            doc.setFont('times', 'normal');
+                        }
+                        if (line.bulleted) {
+                            doc.text('-', margin + 2 + line.indent, y);
+                        }
+                        doc.text(splitText, margin + (line.bulleted ? 5 : 0) + line.indent, y);
+                        y += textHeight + 2;
+                    });
+                    y += block.spaceAfter || 0;
+                    break;
+                }
+                case 'checklist': {
+                    const spaceBefore = block.spaceBefore ?? 4;
+                    const rowHeight = 8;
+                    const circleRadius = 1.5;
+                    const spaceBetweenOptions = 20;
+                    if (y + spaceBefore + block.items.length * rowHeight + 10 > maxY) {
+                        newPage();
+                    }
+                    y += spaceBefore;
+                    block.items.forEach(item => {
+                        doc.setFontSize(10);
+                        doc.setFont('times', 'normal');
+                        doc.setTextColor(0, 0, 0);
+                        doc.text(item.label, margin, y);
+                        doc.setLineWidth(0.25);
+                        doc.setDrawColor(0, 0, 0);
+                        let currentX = pageWidth - margin - block.options.length * spaceBetweenOptions;
+                        block.options.forEach(option => {
+                            const circleY = y - circleRadius / 2;
+                            if (option === item.value) {
+                                doc.setFillColor(...TEAL);
+                                doc.circle(currentX, circleY, circleRadius, 'FD');
+                            } else {
+                                doc.circle(currentX, circleY, circleRadius, 'S');
+                            }
+                            doc.text(option, currentX + circleRadius + 2, y);
+                            currentX += spaceBetweenOptions;
+                        });
+                        y += rowHeight;
+                    });
+                    break;
+                }
+                case 'line': {
+                    const setLineFont = () => {
+                        doc.setFontSize(block.fontSize || 12);
+                        doc.setFont('times', block.bold ? 'bold' : 'normal');
+                    };
+                    setLineFont();
+                    const height = doc.getTextDimensions(block.text).h;
+                    const spaceBefore = block.spaceBefore || 0;
+                    if (y + spaceBefore + height > maxY) {
+                        newPage();
+                        setLineFont();
+                    } else {
+                        y += spaceBefore;
+                    }
+                    doc.text(block.text, margin, y);
+                    y += height;
+                    break;
+                }
+            }
+        });
+    };
+
+    // --- Photos ---
+
+    // Lays out the caption fields and description of an entry and returns the
+    // height used. Measuring and drawing share this path so they never disagree.
+    const layoutEntryText = (entry: PhotoEntryBlock, x: number, yStart: number, width: number, draw: boolean): number => {
+        const style = profile.photo;
+
+        doc.setFontSize(style.valueSize);
+        const ascent = doc.getTextDimensions('Photo').h * 0.75;
+        let y = yStart + ascent;
+
+        entry.fields.forEach(field => {
+            const labelText = `${field.label}:`;
+            doc.setFontSize(style.labelSize);
+            doc.setFont('times', 'bold');
+            const labelWidth = doc.getTextWidth(labelText);
+            const labelHeight = doc.getTextDimensions(labelText).h;
+            if (draw) doc.text(labelText, x, y);
+
+            doc.setFontSize(style.valueSize);
+            doc.setFont('times', 'normal');
+            const valueLines = doc.splitTextToSize(field.value || ' ', width - labelWidth - style.labelGap);
+            if (draw) doc.text(valueLines, x + labelWidth + style.labelGap, y);
+            y += Math.max(labelHeight, doc.getTextDimensions(valueLines).h) + style.rowGap;
+        });
+
+        doc.setFontSize(style.labelSize);
+        doc.setFont('times', 'bold');
+        if (draw) doc.text('Description:', x, y);
+        y += doc.getTextDimensions('Description:').h + style.rowGap;
+
+        doc.setFontSize(style.valueSize);
+        doc.setFont('times', 'normal');
+        const descLines = doc.splitTextToSize(entry.description || ' ', width);
+        if (draw) doc.text(descLines, x, y);
+        y += doc.getTextDimensions(descLines).h;
+
+        return y - yStart;
+    };
+
+    const columnGapWidth = contentWidth - PHOTO_COLUMN_GAP;
+    const textBlockWidth = columnGapWidth * profile.photo.textRatio;
+    const imageBlockWidth = columnGapWidth - textBlockWidth;
+    const imageX = margin + textBlockWidth + PHOTO_COLUMN_GAP;
+
+    const measureEntry = (entry: PhotoEntryBlock): number => {
+        const textHeight = layoutEntryText(entry, margin, 0, textBlockWidth, false);
+        const imageHeight = entry.image ? entry.image.height * (imageBlockWidth / entry.image.width) : 0;
+        return Math.max(textHeight, imageHeight);
+    };
+
+    const drawEntry = (entry: PhotoEntryBlock, y: number) => {
+        layoutEntryText(entry, margin, y, textBlockWidth, true);
+        if (entry.image) {
+            const scaledHeight = entry.image.height * (imageBlockWidth / entry.image.width);
+            doc.addImage(entry.image.data, 'JPEG', imageX, y, imageBlockWidth, scaledHeight);
+        }
+    };
+
+    // Groups entries into pages of at most two, moving an entry on when it would overflow.
+    const paginatePhotos = (entries: PhotoEntryBlock[], header: HeaderBlock): PlacedEntry[][] => {
+        const pageContentHeight = maxY - (measureHeader(header) + profile.header.photoGap);
+        const pages: PlacedEntry[][] = [];
+        let current: PlacedEntry[] = [];
+        let currentHeight = 0;
+
+        entries.forEach(entry => {
+            const height = measureEntry(entry);
+            const spaceNeeded = height + (current.length > 0 ? PHOTO_SEPARATOR_HEIGHT : 0);
+            if (current.length > 0 && (current.length >= MAX_PHOTOS_PER_PAGE || currentHeight + spaceNeeded > pageContentHeight)) {
+                pages.push(current);
+                current = [];
+                currentHeight = 0;
+            }
+            currentHeight += current.length > 0 ? spaceNeeded : height;
+            current.push({ entry, height });
+        });
+        if (current.length > 0) pages.push(current);
+        return pages;
+    };
+
+    const renderPhotoPage = (group: PlacedEntry[], header: HeaderBlock) => {
+        let y = drawHeader(doc, header) + profile.header.photoGap;
+        const available = maxY - y;
+        const totalHeight = group.reduce((sum, item) => sum + item.height, 0);
+
+        if (profile.photo.spread) {
+            // A lone photo is spaced as if the page held two, then closed off with a rule.
+            const contentHeight = group.length === 1 ? totalHeight * 2 : totalHeight;
+            const gapCount = group.length === 1 ? 4 : group.length * 2;
+            const gap = available - contentHeight > 0 ? (available - contentHeight) / gapCount : 2;
+            y += gap;
+            group.forEach((item, i) => {
+                drawEntry(item.entry, y);
+                y += item.height;
+                if (i < group.length - 1 || group.length === 1) {
+                    y += gap;
+                    drawRule(doc, y);
+                    y += gap;
+                }
+            });
+            return;
+        }
+
+        if (group.length === 1) {
+            drawEntry(group[0].entry, y);
+            return;
+        }
+        const tightGap = 4;
+        const remaining = available - totalHeight - tightGap * 2;
+        const largeGap = remaining > 0 ? remaining / 2 : 2;
+        group.forEach((item, i) => {
+            y += tightGap;
+            drawEntry(item.entry, y);
+            y += item.height;
+            if (i < group.length - 1) {
+                y += largeGap;
+                drawRule(doc, y);
+            }
+        });
+    };
+
+    const renderMapPage = (entry: PhotoEntryBlock, header: HeaderBlock) => {
+        const y = drawHeader(doc, header) + profile.header.photoGap;
+        const footerAndGapHeight = 25;
+        const textHeight = layoutEntryText(entry, margin, 0, contentWidth, false);
+        let yAfterImage = y;
+
+        if (entry.image) {
+            const availableHeight = pageHeight - y - footerAndGapHeight - textHeight;
+            const ratio = Math.min(contentWidth / entry.image.width, availableHeight / entry.image.height);
+            const drawWidth = entry.image.width * ratio;
+            const drawHeight = entry.image.height * ratio;
+            const drawX = margin + (contentWidth - drawWidth) / 2;
+            doc.addImage(entry.image.data, 'JPEG', drawX, y, drawWidth, drawHeight);
+            yAfterImage = y + drawHeight + 8;
+        }
+        layoutEntryText(entry, margin, yAfterImage, contentWidth, true);
+    };
+
+    // --- Pages ---
+
+    const { body, photos, maps = [], bodyHeader, photoHeader } = model;
+    let started = false;
+    const nextPage = () => {
+        if (started) doc.addPage();
+        started = true;
+    };
+
+    if (body) {
+        nextPage();
+        renderBody(body, bodyHeader || photoHeader);
+    }
+    paginatePhotos(photos, photoHeader).forEach(group => {
+        nextPage();
+        renderPhotoPage(group, photoHeader);
+    });
+    maps.forEach(map => {
+        nextPage();
+        renderMapPage(map, photoHeader);
+    });
+    if (!started) {
+        drawHeader(doc, photoHeader);
+    }
+
+    const totalPages = doc.getNumberOfPages();
+    for (let i = 1; i <= totalPages; i++) {
+        doc.setPage(i);
+        drawRule(doc, pageHeight - profile.footerRuleOffset);
+        doc.setFontSize(10);
+        doc.setFont('times', 'normal');
+        doc.setTextColor(0, 0, 0);
+        doc.text(`Page ${i} of ${totalPages}`, pageWidth - profile.ruleInset, pageHeight - profile.pageNumberOffset, { align: 'right' });
+    }
+
+    return doc;
+};
@@ -0,0 +1,126 @@
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import type { PhotoData } from '../types';
+import { buildManifestCsv, buildManifestRows, importPhotoArchive, parseManifestCsv, type PhotoManifestRow } from './photoArchive';
+
+vi.mock('./imageEdits', () => ({
+    storeOriginalImage: vi.fn(async () => 'source-1'),
+}));
+
+const row = (overrides: Partial<PhotoManifestRow> = {}): PhotoManifestRow => ({
+    file: '1.jpg',
+    photoNumber: '1',
+    date: 'October 1, 2025',
+    location: 'KP 1+100',
+    direction: 'NE',
+    description: 'Topsoil windrow.',
+    isMap: false,
+    latitude: 52.13124,
+    longitude: -106.66021,
+    sourceReport: 'Rush Lake DFR',
+    ...overrides,
+});
+
+describe('buildManifestCsv', () => {
+    it('writes a header and CRLF rows after a byte order mark', () => {
+        const csv = buildManifestCsv([row()]);
+
+        expect(csv).toBe(
+            '\uFEFFfile,photoNumber,date,location,direction,description,isMap,latitude,longitude,sourceReport\r\n'
+            + '1.jpg,1,"October 1, 2025",KP 1+100,NE,Topsoil windrow.,false,52.13124,-106.66021,Rush Lake DFR\r\n'
+        );
+    });
+
+    it('quotes values with commas, quotes and line breaks and leaves missing coordinates empty', () => {
+        const csv = buildManifestCsv([row({ description: 'Said "stop here",\nthen left.', latitude: null, longitude: null })]);
+
+        expect(csv).toContain(',"Said ""stop here"",\nthen left.",false,,,Rush Lake DFR\r\n');
+    });
+});
+
+describe('parseManifestCsv', () => {
+    it('reads back what buildManifestCsv writes', () => {
+        const rows = [
+            row(),
+            row({ file: 'Map_1.png', photoNumber: 'Map 1', description: 'Said "stop here",\r\nthen left.', isMap: true, latitude: null, longitude: null }),
+        ];
+
+        expect(parseManifestCsv(buildManifestCsv(rows))).toEqual(rows);
+    });
+
+    it('reads LF line endings and a file without a byte order mark', () => {
+        const csv = 'file,photoNumber,description\n1.jpg,1,Culvert inlet\n2.jpg,2,Culvert outlet\n';
+
+        expect(parseManifestCsv(csv).map(r => r.description)).toEqual(['Culvert inlet', 'Culvert outlet']);
+    });
+
+    it('fills in columns the file leaves out and skips blank lines', () => {
+        const [parsed, ...rest] = parseManifestCsv('\uFEFF file , description\r\n\r\n1.jpg,"Culvert, inlet"\r\n\r\n');
+
+        expect(rest).toEqual([]);
+        expect(parsed).toEqual({
+            file: '1.jpg',
+            photoNumber: '',
+            date: '',
+            location: '',
+            direction: '',
+            description: 'Culvert, inlet',
+            isMap: false,
+            latitude: null,
+            longitude: null,
+            sourceReport: '',
+        });
+    });
+
+    it('reads short rows and unreadable coordinates as empty', () => {
+        const [parsed] = parseManifestCsv('file,photoNumber,latitude,longitude\r\n1.jpg,1,north');
+
+        expect(parsed).toMatchObject({ photoNumber: '1', latitude: null, longitude: null });
+    });
+
+    it('returns no rows for an empty file', () => {
+        expect(parseManifestCsv('')).toEqual([]);
+        expect(parseManifestCsv('\uFEFF')).toEqual([]);
+    });
+});
+
+describe('importPhotoArchive', () => {
+    const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+    const photo = (id: number, overrides: Partial<PhotoData> = {}): PhotoData => ({
+        id, photoNumber: String(id), date: '', location: '', description: '', direction: '', imageUrl: null, ...overrides,
+    });
+
+    const archive = async (manifest: { name: string; content: string }): Promise<File> => {
+        const zip = new JSZip();
+        zip.file('1.jpg', JPEG_BYTES);
+        zip.file('2.jpg', JPEG_BYTES);
+        zip.file(manifest.name, manifest.content);
+        return new File([await zip.generateAsync({ type: 'arraybuffer' })], 'photos.zip', { type: 'application/zip' });
+    };
+
+    const rows = buildManifestRows([
+        photo(1, { description: 'Own photo.' }),
+        photo(2, { description: 'Imported photo.', provenance: { reportName: 'Pipeline Reclamation', projectNumber: '24-101', photoNumber: '3' } }),
+    ], 'Rush Lake Combined Log');
+
+    it('credits photos from another report to it and leaves the archive\'s own photos alone', async () => {
+        const file = await archive({ name: 'photos.json', content: JSON.stringify({ version: 1, report: 'Rush Lake Combined Log', photos: rows }) });
+
+        const imported = await importPhotoArchive(file, async url => url, () => {});
+
+        expect(imported.map(p => p.details?.provenance)).toEqual([
+            undefined,
+            { reportName: 'Pipeline Reclamation', projectNumber: '', photoNumber: '' },
+        ]);
+    });
+
+    it('tells the archive\'s own report apart in a CSV manifest', async () => {
+        const csvRows = [...rows, { ...rows[0], file: '1.jpg', photoNumber: '3' }];
+        const file = await archive({ name: 'photos.csv', content: buildManifestCsv(csvRows) });
+
+        const imported = await importPhotoArchive(file, async url => url, () => {});
+
+        expect(imported.map(p => p.details?.provenance?.reportName)).toEqual([undefined, 'Pipeline Reclamation', undefined]);
+    });
+});
@@ -0,0 +1,327 @@
+// The Download Photos zip: the report's images plus photos.csv and photos.json
+// manifests describing them, one row per photo. The manifests are also what lets
+// such a zip be imported back into a report.
+import JSZip from 'jszip';
+import type { PhotoData } from '../types';
+import { importPhotoFiles, type ImportedPhoto } from './photoImport';
+import { storeOriginalImage } from './imageEdits';
+import { embedPhotoMetadata, getPhotoCaption } from './jpegMetadata';
+import { getFullImageUrl } from './photoImages';
+
+export const MANIFEST_CSV_FILENAME = 'photos.csv';
+export const MANIFEST_JSON_FILENAME = 'photos.json';
+const MANIFEST_VERSION = 1;
+
+const IMAGE_FILE_PATTERN = /\.(jpe?g|png)$/i;
+
+export interface PhotoManifestRow {
+    file: string;
+    photoNumber: string;
+    date: string;
+    location: string;
+    direction: string;
+    description: string;
+    isMap: boolean;
+    latitude: number | null;
+    longitude: number | null;
+    sourceReport: string;
+}
+
+// Column order of photos.csv.
+const CSV_COLUMNS: (keyof PhotoManifestRow)[] = [
+    'file', 'photoNumber', 'date', 'location', 'direction', 'description', 'isMap', 'latitude', 'longitude', 'sourceReport',
+];
+
+export const isPhotoArchiveFile = (file: File) => /\.zip$/i.test(file.name);
+
+/**
+ * Names the image file of each photo in the zip, from its photo number.
+ * Photos that would share a name get a numeric suffix.
+ * @param imageTypes The MIME type of each photo's image, by photo id; the extension follows it, and
+ *   photos without one are named .jpg.
+ * @returns File names keyed by photo id.
+ */
+export const getPhotoArchiveFilenames = (photos: PhotoData[], imageTypes?: Map<number, string>): Map<number, string> => {
+    const names = new Map<number, string>();
+    const used = new Set<string>();
+    photos.forEach(photo => {
+        const base = (photo.photoNumber || 'photo').replace(/[^a-z0-9_.\-]/gi, '_');
+        const extension = imageTypes?.get(photo.id) === 'image/png' ? 'png' : 'jpg';
+        let name = `${base}.${extension}`;
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+            name = `${base}_${n}.${extension}`;
+        }
+        used.add(name.toLowerCase());
+        names.set(photo.id, name);
+    });
+    return names;
+};
+
+/**
+ * Describes a report's photos for the manifests.
+ * @param photos The photos being written to the zip.
+ * @param sourceReport The name of the report they belong to; an imported photo's provenance wins.
+ * @param filenames The photos' file names in the zip, from getPhotoArchiveFilenames.
+ */
+export const buildManifestRows = (
+    photos: PhotoData[],
+    sourceReport: string,
+    filenames: Map<number, string> = getPhotoArchiveFilenames(photos)
+): PhotoManifestRow[] =>
+    photos.map(photo => ({
+        file: filenames.get(photo.id)!,
+        photoNumber: photo.photoNumber,
+        date: photo.date || '',
+        location: photo.location || '',
+        direction: photo.direction || '',
+        description: photo.description || '',
+        isMap: !!photo.isMap,
+        latitude: photo.latitude ?? null,
+        longitude: photo.longitude ?? null,
+        // Photos imported into a Combined Log are credited to the report they came from.
+        sourceReport: photo.provenance?.reportName || sourceReport,
+    }));
+
+// --- CSV ---
+
+const escapeCsvValue = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const buildManifestCsv = (rows: PhotoManifestRow[]): string => {
+    const lines = rows.map(row => CSV_COLUMNS.map(column => {
+        const value = row[column];
+        return escapeCsvValue(value === null ? '' : String(value));
+    }).join(','));
+    // A byte order mark so Excel reads the file as UTF-8.
+    return '\uFEFF' + [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+// Splits CSV text into rows of values, following RFC 4180 quoting.
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    if (value || row.length > 0) {
+        row.push(value);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const parseCoordinate = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+};
+
+// Reads a manifest row from either format, tolerating missing columns.
+const toManifestRow = (raw: Record<string, unknown>): PhotoManifestRow => ({
+    file: String(raw.file ?? ''),
+    photoNumber: String(raw.photoNumber ?? ''),
+    date: String(raw.date ?? ''),
+    location: String(raw.location ?? ''),
+    direction: String(raw.direction ?? ''),
+    description: String(raw.description ?? ''),
+    isMap: raw.isMap === true || String(raw.isMap).toLowerCase() === 'true',
+    latitude: parseCoordinate(raw.latitude),
+    longitude: parseCoordinate(raw.longitude),
+    sourceReport: String(raw.sourceReport ?? ''),
+});
+
+export const parseManifestCsv = (text: string): PhotoManifestRow[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map(h => h.trim());
+    return rows.map(values => toManifestRow(Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']))));
+};
+
+// --- Export ---
+
+export interface PhotoArchiveResult {
+    /** The file name of each photo written to the zip, by photo id. */
+    files: Map<number, string>;
+    /** Photos left out because their image could not be read. */
+    missing: PhotoData[];
+}
+
+/**
+ * Writes a report's photos, captioned in their own metadata, and their manifests into a zip.
+ * A photo whose image cannot be read is left out of the zip and the manifests.
+ * @param zip The zip being built.
+ * @param photos The photos to write.
+ * @param sourceReport The name of the report, recorded on every row not imported from another report.
+ * @returns The file names written and the photos left out.
+ */
+export const addPhotosToArchive = async (zip: JSZip, photos: PhotoData[], sourceReport: string): Promise<PhotoArchiveResult> => {
+    const images: { photo: PhotoData; image: Blob }[] = [];
+    const missing: PhotoData[] = [];
+    for (const photo of photos) {
+        try {
+            const imageUrl = await getFullImageUrl(photo);
+            if (!imageUrl) {
+                missing.push(photo);
+                continue;
+            }
+            images.push({ photo, image: await (await fetch(imageUrl)).blob() });
+        } catch (e) {
+            console.error(`Failed to read the image of photo ${photo.photoNumber}:`, e);
+            missing.push(photo);
+        }
+    }
+
+    const archived = images.map(({ photo }) => photo);
+    const files = getPhotoArchiveFilenames(archived, new Map(images.map(({ photo, image }) => [photo.id, image.type])));
+    const rows = buildManifestRows(archived, sourceReport, files);
+    for (let i = 0; i < images.length; i++) {
+        // The caption travels inside the image too, for when it is copied away from the manifests.
+        zip.file(rows[i].file, embedPhotoMetadata(await images[i].image.arrayBuffer(), getPhotoCaption(images[i].photo, rows[i].sourceReport)));
+    }
+    zip.file(MANIFEST_CSV_FILENAME, buildManifestCsv(rows));
+    zip.file(MANIFEST_JSON_FILENAME, JSON.stringify({
+        version: MANIFEST_VERSION,
+        report: sourceReport,
+        exportedAt: new Date().toISOString(),
+        photos: rows,
+    }, null, 2));
+    return { files, missing };
+};
+
+/** The message telling the user which photos addPhotosToArchive left out. */
+export const describeMissingPhotos = (missing: PhotoData[]): string =>
+    `${missing.length === 1 ? 'Photo' : 'Photos'} ${missing.map(photo => photo.photoNumber || '(unnumbered)').join(', ')} `
+    + `${missing.length === 1 ? 'was' : 'were'} left out of the zip because ${missing.length === 1 ? 'its image' : 'their images'} could not be found. `
+    + 'Re-attach the image, or open a saved copy of the report that still has it.';
+
+// --- Import ---
+
+interface PhotoManifest {
+    /** The report the zip was downloaded from. */
+    report: string;
+    rows: PhotoManifestRow[];
+}
+
+// photos.csv has no report column of its own; most of its rows carry the name of the report
+// the zip came from, and only photos imported into that report name another.
+const getMostCommonSourceReport = (rows: PhotoManifestRow[]): string => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => counts.set(row.sourceReport, (counts.get(row.sourceReport) || 0) + 1));
+    let report = '';
+    counts.forEach((count, name) => {
+        if (count > (counts.get(report) || 0)) report = name;
+    });
+    return report;
+};
+
+const readManifest = async (zip: JSZip): Promise<PhotoManifest | null> => {
+    const jsonEntry = zip.file(new RegExp(`(^|/)${MANIFEST_JSON_FILENAME.replace('.', '\\.')}$`, 'i'))[0];
+    if (jsonEntry) {
+        const parsed = JSON.parse(await jsonEntry.async('string'));
+        const rows = Array.isArray(parsed) ? parsed : parsed?.photos;
+        if (Array.isArray(rows)) {
+            const manifestRows = rows.map(toManifestRow);
+            const report = typeof parsed?.report === 'string' ? parsed.report : getMostCommonSourceReport(manifestRows);
+            return { report, rows: manifestRows };
+        }
+    }
+    const csvEntry = zip.file(new RegExp(`(^|/)${MANIFEST_CSV_FILENAME.replace('.', '\\.')}$`, 'i'))[0];
+    if (csvEntry) {
+        const rows = parseManifestCsv(await csvEntry.async('string'));
+        return { report: getMostCommonSourceReport(rows), rows };
+    }
+    return null;
+};
+
+const mimeTypeFor = (fileName: string) => (/\.png$/i.test(fileName) ? 'image/png' : 'image/jpeg');
+
+/**
+ * Rebuilds photos from a zip, such as one made by Download Photos.
+ * With a manifest, photos keep its order and captions and their images are used as-is.
+ * Without one, every image in the zip is imported like dropped files.
+ * @param file The zip file.
+ * @param cropImage The editor's crop step, used only for zips without a manifest.
+ * @param onProgress Called before each photo with the number already done and the total.
+ * @returns The photos, with their manifest captions in details. A photo credited to another report
+ *   than the one the zip came from keeps that credit as its provenance.
+ * @throws If the file is not a zip or holds no images.
+ */
+export const importPhotoArchive = async (
+    file: File,
+    cropImage: (imageUrl: string) => Promise<string>,
+    onProgress: (done: number, total: number) => void
+): Promise<ImportedPhoto[]> => {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const manifest = await readManifest(zip);
+
+    if (!manifest) {
+        const images = Object.values(zip.files).filter(entry => !entry.dir && IMAGE_FILE_PATTERN.test(entry.name));
+        if (images.length === 0) throw new Error(`${file.name} contains no JPEG or PNG images.`);
+        const files = await Promise.all(images.map(async entry => new File(
+            [await entry.async('blob')],
+            entry.name.split('/').pop()!,
+            { type: mimeTypeFor(entry.name), lastModified: entry.date.getTime() }
+        )));
+        return importPhotoFiles(files, cropImage, onProgress);
+    }
+
+    const { report, rows } = manifest;
+    const imported: ImportedPhoto[] = [];
+    for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        onProgress(i, rows.length);
+        const entry = zip.file(new RegExp(`(^|/)${row.file.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`))[0];
+        if (!entry) {
+            console.error(`${row.file} is listed in the manifest but missing from ${file.name}.`);
+            continue;
+        }
+        const imageUrl = `data:${mimeTypeFor(row.file)};base64,${await entry.async('base64')}`;
+        imported.push({
+            fileName: row.file,
+            imageUrl,
+            sourceImageId: await storeOriginalImage(imageUrl),
+            exif: {},
+            details: {
+                date: row.date,
+                location: row.location,
+                direction: row.direction,
+                description: row.description,
+                isMap: row.isMap || undefined,
+                latitude: row.latitude ?? undefined,
+                longitude: row.longitude ?? undefined,
+                // The manifest keeps only the report's name; the photo's number there is not recorded.
+                provenance: row.sourceReport && row.sourceReport !== report
+                    ? { reportName: row.sourceReport, projectNumber: '', photoNumber: '' }
+                    : undefined,
+            },
+        });
+    }
+    onProgress(rows.length, rows.length);
+    if (imported.length === 0) throw new Error(`None of the photos listed in ${file.name} could be found.`);
+    return imported;
+};
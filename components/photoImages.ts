@@ -0,0 +1,51 @@
+// Photo images in the editors.
+// A photo whose image is already stored shows a thumbnail through an object URL;
+// its full resolution is read from IndexedDB only when the PDF, DOCX, zip export,
+// image viewer or image editor needs it. Photos added since the last save hold the
+// data URL of their cropped image until they are stored.
+import type { PhotoData } from '../types';
+import { retrieveImage, retrieveImageBlob, retrieveImageHash } from './db';
+
+// Object URLs of thumbnails, by content hash, shared by every photo showing the same
+// image. Thumbnails are small, so they stay alive for the session rather than being
+// revoked when an editor closes and reopened moments later.
+const thumbnailUrls = new Map<string, string>();
+
+/** True if the URL is a thumbnail of a stored image rather than the image itself. */
+export const isStoredImageUrl = (url: string | null | undefined): boolean => !!url && url.startsWith('blob:');
+
+const getThumbnailUrl = async (imageId: string): Promise<string | null> => {
+    const hash = await retrieveImageHash(imageId);
+    const cached = hash ? thumbnailUrls.get(hash) : undefined;
+    if (cached) return cached;
+    const blob = await retrieveImageBlob(imageId, true);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    if (hash) thumbnailUrls.set(hash, url);
+    return url;
+};
+
+/**
+ * Gives stored photos their thumbnails for the editor grid.
+ * Photos carrying their own data URL (from legacy files) keep it. Object URLs saved in
+ * drafts did not survive the session that made them, so they are looked up again.
+ * @param photos The photos of a report being opened.
+ */
+export const loadPhotoThumbnails = (photos: PhotoData[]): Promise<PhotoData[]> =>
+    Promise.all(photos.map(async (photo) => {
+        if (photo.imageId && (!photo.imageUrl || isStoredImageUrl(photo.imageUrl))) {
+            return { ...photo, imageUrl: await getThumbnailUrl(photo.imageId) };
+        }
+        return photo;
+    }));
+
+/**
+ * Reads a photo's image at full resolution.
+ * @returns A data URL, or null if the photo has no image.
+ */
+export const getFullImageUrl = async (photo: Pick<PhotoData, 'imageUrl' | 'imageId'>): Promise<string | null> => {
+    if (photo.imageId && (!photo.imageUrl || isStoredImageUrl(photo.imageUrl))) {
+        return (await retrieveImage(photo.imageId)) || null;
+    }
+    return photo.imageUrl;
+};
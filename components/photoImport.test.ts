@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { autoCropImage } from './editorShared';
+import { importPhotoFiles } from './photoImport';
+
+vi.mock('./imageEdits', () => ({
+    storeOriginalImage: vi.fn(async () => 'source-1'),
+}));
+
+// Stand-ins for the browser APIs the import uses. The fake Image decodes anything that
+// starts with a JPEG start-of-image marker and fails on everything else.
+class FakeFileReader {
+    result: string | null = null;
+    error: Error | null = null;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    readAsDataURL(file: File) {
+        file.arrayBuffer().then(buffer => {
+            this.result = `data:${file.type};base64,${Buffer.from(buffer).toString('base64')}`;
+            this.onload?.();
+        });
+    }
+}
+
+class FakeImage {
+    width = 800;
+    height = 600;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    set src(url: string) {
+        const bytes = Buffer.from(url.split(',')[1], 'base64');
+        setTimeout(() => (bytes[0] === 0xff && bytes[1] === 0xd8 ? this.onload?.() : this.onerror?.()));
+    }
+}
+
+const JPEG_BYTES = [0xff, 0xd8, 0xff, 0xd9];
+
+const imageFile = (name: string, bytes: number[], lastModified: number) =>
+    new File([new Uint8Array(bytes)], name, { type: 'image/jpeg', lastModified });
+
+describe('importPhotoFiles', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('skips a file that cannot be decoded and imports the rest', async () => {
+        vi.stubGlobal('FileReader', FakeFileReader);
+        vi.stubGlobal('Image', FakeImage);
+        // Without a 2D context autoCropImage keeps the decoded image as it is.
+        vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const onProgress = vi.fn();
+
+        const imported = await importPhotoFiles([
+            imageFile('IMG_0001.jpg', JPEG_BYTES, 1),
+            // A HEIC photo renamed to .jpg.
+            imageFile('IMG_0002.jpg', [0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70], 2),
+            imageFile('IMG_0003.jpg', JPEG_BYTES, 3),
+        ], autoCropImage, onProgress);
+
+        expect(imported.map(photo => photo.fileName)).toEqual(['IMG_0001.jpg', 'IMG_0003.jpg']);
+        expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+        expect(console.error).toHaveBeenCalledWith('Could not import IMG_0002.jpg:', expect.any(Error));
+    });
+});
@@ -0,0 +1,100 @@
+// Bulk photo import: turns a drop of many image files (or whole folders) into
+// cropped images with their EXIF data, ordered by capture time.
+import type { PhotoData } from '../types';
+import { readExif, type ExifData } from './exif';
+import { storeOriginalImage } from './imageEdits';
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+export interface ImportedPhoto {
+    fileName: string;
+    imageUrl: string;
+    /** Key of the kept original, for later non-destructive edits. */
+    sourceImageId?: string;
+    exif: ExifData;
+    /** Captions and credits carried over from a photo zip's manifest; applied after the EXIF data. */
+    details?: Partial<Pick<PhotoData, 'date' | 'location' | 'direction' | 'description' | 'isMap' | 'latitude' | 'longitude' | 'provenance'>>;
+}
+
+export const isSupportedImageFile = (file: File) => SUPPORTED_IMAGE_TYPES.includes(file.type);
+
+const readFileAsDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+};
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [file];
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const files: File[] = [];
+        // readEntries returns a directory's contents in batches; an empty batch means done.
+        let batch: FileSystemEntry[];
+        do {
+            batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+            for (const child of batch) {
+                files.push(...await readEntryFiles(child));
+            }
+        } while (batch.length > 0);
+        return files;
+    }
+    return [];
+};
+
+/**
+ * Collects the files from a drop, descending into any dropped folders.
+ * Must be called synchronously from the drop handler, before the DataTransfer is released.
+ * @param dataTransfer The drop event's DataTransfer.
+ * @returns Every file that was dropped.
+ */
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files);
+    }
+    const files = await Promise.all(entries.map(readEntryFiles));
+    return files.flat();
+};
+
+/**
+ * Reads, crops and dates a batch of image files one at a time, keeping each original.
+ * @param files The image files to import.
+ * @param cropImage The editor's crop step, applied to each image's data URL.
+ * @param onProgress Called before each file with the number already done and the total.
+ * @returns The imported photos sorted by capture time. Files without one are placed by their
+ * modified time instead.
+ */
+export const importPhotoFiles = async (
+    files: File[],
+    cropImage: (imageUrl: string) => Promise<string>,
+    onProgress: (done: number, total: number) => void
+): Promise<ImportedPhoto[]> => {
+    const imported: (ImportedPhoto & { sortTime: number })[] = [];
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        onProgress(i, files.length);
+        try {
+            const exif = readExif(await file.arrayBuffer());
+            const original = await readFileAsDataUrl(file);
+            const sourceImageId = await storeOriginalImage(original);
+            const imageUrl = await cropImage(original);
+            imported.push({ fileName: file.name, imageUrl, sourceImageId, exif, sortTime: exif.dateTaken?.getTime() ?? file.lastModified });
+        } catch (e) {
+            console.error(`Could not import ${file.name}:`, e);
+        }
+    }
+    onProgress(files.length, files.length);
+
+    return imported
+        .sort((a, b) => a.sortTime - b.sortTime || a.fileName.localeCompare(b.fileName, undefined, { numeric: true }))
+        .map(({ sortTime, ...photo }) => photo);
+};
@@ -0,0 +1,105 @@
+// Photos imported from one report into another (the Combined Log's imports).
+// Imported photos get copies of their images and edit originals rather than the
+// source report's image ids, so removing one from the new report can never delete
+// the source's images, and each records the report, project and number it came from.
+import type { PhotoData, PhotoProvenance } from '../types';
+import { retrieveImageSource, storeImageSource } from './db';
+import { hashImageData, toImageBlob } from './imageBlobs';
+import { getFullImageUrl } from './photoImages';
+
+export interface ReportPhotoImport {
+    photos: PhotoData[];
+    /** Photos whose image could not be found, e.g. legacy files that referenced another machine's images. */
+    missingImages: number;
+}
+
+/** The project number of saved report data of any type. */
+export const getReportProjectNumber = (projectData: any): string =>
+    projectData?.headerData?.projectNumber ?? projectData?.values?.projectNumber ?? projectData?.summary?.projectNumber ?? projectData?.projectNumber ?? '';
+
+/**
+ * Names report data read from a file, which carries no registry name.
+ * @returns The project name and date, e.g. "Pipeline Reclamation (October 1, 2025)".
+ */
+export const describeReportData = (projectData: any): string => {
+    const header = projectData?.headerData ?? projectData?.values ?? projectData ?? {};
+    const name = header.projectName || 'Untitled Project';
+    return header.date ? `${name} (${header.date})` : name;
+};
+
+/** Formats a photo's provenance for captions, e.g. "Pipeline Reclamation, 24-101, Photo 3". */
+export const formatPhotoProvenance = (provenance: PhotoProvenance): string =>
+    [provenance.reportName, provenance.projectNumber, provenance.photoNumber ? `Photo ${provenance.photoNumber}` : '']
+        .filter(Boolean)
+        .join(', ');
+
+/**
+ * Copies a report's photos for import into another report.
+ * @param projectData The source report's data.
+ * @param reportName The source report's name, recorded on each photo.
+ * @param ownsImageIds True when the photos' image ids were created for this import (as when a
+ *   project package is read) and can be kept; otherwise the images are copied.
+ */
+export const importReportPhotos = async (projectData: any, reportName: string, ownsImageIds = false): Promise<ReportPhotoImport> => {
+    const sourcePhotos: PhotoData[] = Array.isArray(projectData?.photosData) ? projectData.photosData : [];
+    const projectNumber = getReportProjectNumber(projectData);
+    const photos: PhotoData[] = [];
+    let missingImages = 0;
+
+    for (const photo of sourcePhotos) {
+        const imageUrl = await getFullImageUrl(photo);
+        if (!imageUrl) missingImages++;
+
+        let sourceImageId = photo.sourceImageId;
+        if (sourceImageId && !ownsImageIds) {
+            const source = await retrieveImageSource(sourceImageId);
+            sourceImageId = undefined;
+            if (source) {
+                sourceImageId = `source-${Date.now()}-${photos.length}`;
+                await storeImageSource(sourceImageId, source);
+            }
+        }
+
+        photos.push({
+            ...photo,
+            id: Date.now() + Math.random(),
+            imageUrl,
+            imageId: ownsImageIds ? photo.imageId : undefined,
+            sourceImageId,
+            // Photos imported again from a Combined Log keep the report they first came from.
+            provenance: photo.provenance || { reportName, projectNumber, photoNumber: photo.photoNumber },
+        });
+    }
+    return { photos, missingImages };
+};
+
+/**
+ * Finds imported photos whose image is already in the report, or appears earlier in
+ * the same import, as when one DFR is imported twice or a photo log overlaps a DFR.
+ * @param existing The report's current photos.
+ * @param imported The photos about to be added.
+ * @returns The ids of the imported photos that are duplicates.
+ */
+export const findDuplicatePhotos = async (existing: PhotoData[], imported: PhotoData[]): Promise<Set<number>> => {
+    // Hashes the full image, since thumbnails of the same image differ from it.
+    const hashPhoto = async (photo: PhotoData) => {
+        const imageUrl = await getFullImageUrl(photo);
+        return imageUrl ? hashImageData(await toImageBlob(imageUrl)) : null;
+    };
+    const seen = new Set<string>();
+    for (const photo of existing) {
+        const hash = await hashPhoto(photo);
+        if (hash) seen.add(hash);
+    }
+    const duplicates = new Set<number>();
+    for (const photo of imported) {
+        const hash = await hashPhoto(photo);
+        if (!hash) continue;
+        if (seen.has(hash)) {
+            duplicates.add(photo.id);
+        } else {
+            seen.add(hash);
+        }
+    }
+    return duplicates;
+};
@@ -0,0 +1,131 @@
+// Portable project files.
+// A saved .plog/.clog/.dfr/.spdfr is a zip package holding project.json and every
+// photo under images/ (with the untouched original of any edited photo), so a project
+// opens with its photos on any machine.
+// Plain JSON project files from earlier versions are still read.
+import JSZip from 'jszip';
+import type { PhotoData } from '../types';
+import { retrieveImageSource, storeImage, storeImageSource } from './db';
+import type { ImageEditOperation, ImageSource } from './imageEdits';
+import { getFullImageUrl } from './photoImages';
+
+const PROJECT_ENTRY = 'project.json';
+const IMAGE_FOLDER = 'images';
+
+/** A photo as written into project.json: the image lives in the package, not inline. */
+type PackagedPhoto = Omit<PhotoData, 'imageUrl' | 'imageId' | 'sourceImageId'> & {
+    imageFile?: string;
+    /** The untouched original and its edits, when the photo has them. */
+    source?: { imageFile: string; operations: ImageEditOperation[] };
+};
+
+interface ProjectWithPhotos {
+    photosData: PhotoData[];
+}
+
+/** True if the bytes are a zip project package rather than a legacy JSON file. */
+export const isProjectPackage = (data: Uint8Array) =>
+    data.length > 3 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+const parseDataUrl = (dataUrl: string): { mime: string; base64: string } | null => {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    return match ? { mime: match[1], base64: match[2] } : null;
+};
+
+const extensionForMime = (mime: string) => (mime === 'image/png' ? 'png' : 'jpg');
+const mimeForFile = (fileName: string) => (fileName.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg');
+
+/**
+ * Builds a self-contained project package.
+ * Images come from the photo's data URL, or from IndexedDB when the photo holds only an imageId or a thumbnail.
+ * @param project The project data to save, including photosData.
+ * @returns The zip package bytes, ready to be written to disk.
+ */
+export const createProjectPackage = async <T extends ProjectWithPhotos>(project: T): Promise<Uint8Array<ArrayBuffer>> => {
+    const zip = new JSZip();
+
+    const addImage = (dataUrl: string, name: string): string | null => {
+        const parsed = parseDataUrl(dataUrl);
+        if (!parsed) return null;
+        const imageFile = `${IMAGE_FOLDER}/${name}.${extensionForMime(parsed.mime)}`;
+        zip.file(imageFile, parsed.base64, { base64: true });
+        return imageFile;
+    };
+
+    const packagedPhotos: PackagedPhoto[] = await Promise.all(
+        project.photosData.map(async (photo, index) => {
+            const { imageUrl, imageId, sourceImageId, ...rest } = photo;
+            const packaged: PackagedPhoto = { ...rest };
+            const image = await getFullImageUrl(photo);
+            const imageFile = image ? addImage(image, `${index + 1}-${photo.id}`) : null;
+            if (imageFile) packaged.imageFile = imageFile;
+
+            const source: ImageSource | undefined = sourceImageId ? await retrieveImageSource(sourceImageId) : undefined;
+            const sourceFile = source?.original ? addImage(source.original, `${index + 1}-${photo.id}-original`) : null;
+            if (sourceFile) packaged.source = { imageFile: sourceFile, operations: source?.operations || [] };
+            return packaged;
+        })
+    );
+
+    zip.file(PROJECT_ENTRY, JSON.stringify({ ...project, photosData: packagedPhotos }));
+    // JSZip always allocates a plain ArrayBuffer; the cast lets the bytes go straight into a Blob.
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }) as Promise<Uint8Array<ArrayBuffer>>;
+};
+
+/**
+ * Reads a project file of either format.
+ * Photos in a package, and their originals, are restored into the IndexedDB images store.
+ * @param data The raw file bytes (or text, for legacy JSON read elsewhere).
+ * @returns The parsed project data with each photo's imageId set; editors load the images from IndexedDB.
+ */
+export const readProjectFile = async (data: Uint8Array | string): Promise<any> => {
+    if (typeof data === 'string') {
+        return JSON.parse(data);
+    }
+    if (!isProjectPackage(data)) {
+        return JSON.parse(new TextDecoder().decode(data));
+    }
+
+    const zip = await JSZip.loadAsync(data);
+    const projectEntry = zip.file(PROJECT_ENTRY);
+    if (!projectEntry) {
+        throw new Error('The project package does not contain project.json.');
+    }
+    const project = JSON.parse(await projectEntry.async('string'));
+    const projectNumber = project.headerData?.projectNumber ?? project.projectNumber;
+    const photos: PackagedPhoto[] = Array.isArray(project.photosData) ? project.photosData : [];
+
+    project.photosData = await Promise.all(
+        photos.map(async ({ imageFile, source, ...photo }): Promise<PhotoData> => {
+            const restored: PhotoData = { ...photo, imageUrl: null };
+            const entry = imageFile ? zip.file(imageFile) : null;
+            if (imageFile && entry) {
+                restored.imageId = `${projectNumber || 'proj'}-${photo.id}-${Date.now()}`;
+                await storeImage(restored.imageId, new Blob([await entry.async('arraybuffer')], { type: mimeForFile(imageFile) }));
+            }
+            const sourceEntry = source ? zip.file(source.imageFile) : null;
+            if (source && sourceEntry) {
+                const original = `data:${mimeForFile(source.imageFile)};base64,${await sourceEntry.async('base64')}`;
+                restored.sourceImageId = `source-${Date.now()}-${photo.id}`;
+                await storeImageSource(restored.sourceImageId, { original, operations: source.operations } as ImageSource);
+            }
+            return restored;
+        })
+    );
+    return project;
+};
+
+/**
+ * The message shown when a project file cannot be opened.
+ * @param error What reading or upgrading the file threw.
+ */
+export const describeProjectFileError = (error: unknown): string => {
+    // JSON.parse throws SyntaxError: the file is neither a package nor a legacy JSON project.
+    const reason = error instanceof SyntaxError || !(error instanceof Error)
+        ? 'The file is not a project package, or a JSON project file from an earlier version.'
+        : error.message;
+    return `Could not open the project file. ${reason}\n\n`
+        + 'Project files are zip packages holding the report and its photos. JSON project files saved by '
+        + 'earlier versions open too: they are upgraded to the current format when opened, and saving '
+        + 'them again writes a package.';
+};
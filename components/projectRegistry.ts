@@ -0,0 +1,407 @@
+// Project registry.
+// Every report belongs to an X-Terra project number. The registry keeps one record
+// per project number in IndexedDB holding the project's header defaults and every
+// report ever saved for it. It replaces the recent-projects list that used to live
+// in localStorage, which was capped and deleted older reports as new ones arrived.
+// Nothing is deleted implicitly: replaced versions and stale reports move to the
+// project's archive, and only deleteReport removes data for good.
+import type { AppType } from '../App';
+import type { DfrHeaderData, DfrSaskpowerData, HeaderData, PhotoData, SummaryReportData } from '../types';
+import {
+    deleteImage,
+    deleteProject,
+    deleteProjectRecord,
+    retrieveDrafts,
+    retrieveProject,
+    retrieveProjectRecord,
+    retrieveProjectRecords,
+    retrieveSavedProjects,
+    storeProject,
+    storeProjectRecord,
+} from './db';
+import { withSchemaVersion } from './migrations';
+
+export interface ProjectReport {
+    type: AppType;
+    name: string;
+    projectNumber: string;
+    timestamp: number; // Key of the report in the projects store
+    /** When the report moved to the archive; unset for active reports. */
+    archivedAt?: number;
+    /** The timestamp of the newer version that replaced this one, if any. */
+    replacedBy?: number;
+    /** The timestamp of the report this one was continued from, if any. */
+    continuedFrom?: number;
+}
+
+/** Header values shared by every report for a project. */
+export interface ProjectDefaults {
+    proponent: string;
+    projectName: string;
+    location: string;
+    monitor: string;
+    envFileType: string;
+    envFileValue: string;
+}
+
+export interface ProjectRecord {
+    /** The project number as it was last entered. */
+    projectNumber: string;
+    defaults: ProjectDefaults;
+    /** Active reports, newest first. */
+    reports: ProjectReport[];
+    /** Replaced versions and reports moved out of the active list, most recently archived first. */
+    archived: ProjectReport[];
+    updatedAt: number;
+}
+
+/**
+ * The parts of a stored report the registry reads, at any schema version. Each report type
+ * keeps its header in one of these places; photos are only looked at for their image keys.
+ */
+interface StoredReportData {
+    // SaskPower DFRs keep their header fields at the top level.
+    proponent?: string;
+    projectName?: string;
+    location?: string;
+    environmentalMonitor?: string;
+    envFileNumber?: string;
+    headerData?: Partial<DfrHeaderData>;
+    // Form reports keep their values flat, under the shared header keys.
+    values?: Record<string, string>;
+    summary?: Partial<SummaryReportData>;
+    photosData?: Pick<PhotoData, 'imageId' | 'sourceImageId'>[];
+    continuedFrom?: number;
+}
+
+/** The header a new report starts with, by report type, when built from a project's defaults. */
+export interface ReportFromDefaultsMap {
+    photoLog: { headerData: HeaderData };
+    combinedLog: { headerData: HeaderData };
+    dfrStandard: { headerData: HeaderData & Pick<DfrHeaderData, 'monitor' | 'envFileValue'> & Partial<Pick<DfrHeaderData, 'envFileType'>> };
+    dfrSaskpower: Pick<DfrSaskpowerData, 'proponent' | 'projectName' | 'location' | 'projectNumber' | 'environmentalMonitor' | 'envFileNumber'>;
+    dfrForm: { headerData: HeaderData };
+    summaryReport: { headerData: HeaderData };
+}
+
+/** A new report's initial data built from a project's defaults: its header with no photos yet. */
+export type ReportFromDefaults<T extends AppType = AppType> = ReportFromDefaultsMap[T] & { photosData: PhotoData[] } & { schemaVersion: number };
+
+// The localStorage list the registry replaces; imported once, then removed.
+const LEGACY_RECENT_PROJECTS_KEY = 'xtec_recent_projects';
+
+const EMPTY_DEFAULTS: ProjectDefaults = {
+    proponent: '',
+    projectName: '',
+    location: '',
+    monitor: '',
+    envFileType: '',
+    envFileValue: '',
+};
+
+/** Registry key for a project number: case and surrounding spaces are ignored. */
+export const getProjectKey = (projectNumber: string): string => (projectNumber || '').trim().toUpperCase();
+
+const reportIdentity = (report: Pick<ProjectReport, 'type' | 'name'>) => `${report.type}-${report.name}`;
+
+// Records written before the archive existed have no archived list.
+const normalizeRecord = (record: ProjectRecord): ProjectRecord => ({ ...record, archived: record.archived || [] });
+
+const toArchived = (report: ProjectReport, archivedAt: number, replacedBy?: number): ProjectReport => ({
+    ...report,
+    archivedAt,
+    ...(replacedBy !== undefined ? { replacedBy } : {}),
+});
+
+const toActive = (report: ProjectReport): ProjectReport => {
+    const { archivedAt, replacedBy, ...active } = report;
+    return active;
+};
+
+// --- Defaults ---
+
+/**
+ * Reads the project-level header values out of a saved report.
+ * @param type The report type.
+ * @param projectData The report as stored in the projects store.
+ */
+export const extractProjectDefaults = (type: AppType, projectData: StoredReportData | null | undefined): Partial<ProjectDefaults> => {
+    if (!projectData) return {};
+    if (type === 'dfrSaskpower') {
+        return {
+            proponent: projectData.proponent,
+            projectName: projectData.projectName,
+            location: projectData.location,
+            monitor: projectData.environmentalMonitor,
+            envFileValue: projectData.envFileNumber,
+        };
+    }
+    if (type === 'summaryReport') {
+        const summary = projectData.summary || {};
+        return {
+            proponent: summary.proponent,
+            projectName: summary.projectName,
+            location: summary.location,
+            monitor: summary.monitor,
+        };
+    }
+    // Form reports keep their values flat, under the shared header keys.
+    const header = type === 'dfrForm' ? projectData.values || {} : projectData.headerData || {};
+    return {
+        proponent: header.proponent,
+        projectName: header.projectName,
+        location: header.location,
+        monitor: header.monitor,
+        envFileType: header.envFileType,
+        envFileValue: header.envFileValue,
+    };
+};
+
+// Later reports win, but a blank field never wipes out a known default.
+const mergeDefaults = (current: ProjectDefaults, update: Partial<ProjectDefaults>): ProjectDefaults => {
+    const merged = { ...current };
+    (Object.keys(EMPTY_DEFAULTS) as (keyof ProjectDefaults)[]).forEach(field => {
+        const value = update[field];
+        if (typeof value === 'string' && value.trim()) {
+            merged[field] = value;
+        }
+    });
+    return merged;
+};
+
+const headerFromDefaults = ({ proponent, projectName, location }: ProjectDefaults, projectNumber: string): HeaderData =>
+    ({ proponent, projectName, location, date: '', projectNumber });
+
+const plainHeaderFromDefaults = (defaults: ProjectDefaults, projectNumber: string) =>
+    ({ headerData: headerFromDefaults(defaults, projectNumber) });
+
+const REPORT_DEFAULTS_BUILDERS: { [T in AppType]: (defaults: ProjectDefaults, projectNumber: string) => ReportFromDefaultsMap[T] } = {
+    photoLog: plainHeaderFromDefaults,
+    combinedLog: plainHeaderFromDefaults,
+    dfrStandard: (defaults, projectNumber) => ({
+        headerData: {
+            ...headerFromDefaults(defaults, projectNumber),
+            monitor: defaults.monitor,
+            envFileValue: defaults.envFileValue,
+            ...(defaults.envFileType ? { envFileType: defaults.envFileType } : {}),
+        },
+    }),
+    dfrSaskpower: (defaults, projectNumber) => ({
+        proponent: defaults.proponent,
+        projectName: defaults.projectName,
+        location: defaults.location,
+        projectNumber,
+        environmentalMonitor: defaults.monitor,
+        envFileNumber: defaults.envFileValue,
+    }),
+    dfrForm: plainHeaderFromDefaults,
+    summaryReport: plainHeaderFromDefaults,
+};
+
+/**
+ * Builds the initial data for a new report pre-filled with a project's defaults.
+ * @param type The report type to create.
+ * @param record The project the report belongs to.
+ * @returns Editor initial data in the report's project file shape.
+ */
+export const createReportFromDefaults = <T extends AppType>(type: T, record: ProjectRecord): ReportFromDefaults<T> => {
+    const build: (defaults: ProjectDefaults, projectNumber: string) => ReportFromDefaultsMap[T] = REPORT_DEFAULTS_BUILDERS[type];
+    const photosData: PhotoData[] = [];
+    return withSchemaVersion({ ...build(record.defaults, record.projectNumber), photosData });
+};
+
+// --- Reading ---
+
+const collectImageIds = (projectData: StoredReportData | null | undefined, into: Set<string>) => {
+    if (!Array.isArray(projectData?.photosData)) return;
+    for (const photo of projectData.photosData) {
+        if (photo.imageId) into.add(photo.imageId);
+        if (photo.sourceImageId) into.add(photo.sourceImageId);
+    }
+};
+
+/**
+ * Collects the imageIds and sourceImageIds every record in the projects store points
+ * at: saved reports, archived versions, projects missing from the registry and drafts.
+ * @param exceptTimestamp A report to leave out, such as one about to be deleted.
+ */
+export const getReferencedImageIds = async (exceptTimestamp?: number): Promise<Set<string>> => {
+    const referenced = new Set<string>();
+    const projects = await retrieveSavedProjects();
+    projects.forEach(({ timestamp, projectData }) => {
+        if (timestamp !== exceptTimestamp) collectImageIds(projectData, referenced);
+    });
+    const drafts = await retrieveDrafts();
+    drafts.forEach(draft => collectImageIds(draft.projectData, referenced));
+    return referenced;
+};
+
+// Versions of a report share imageIds, so an image is only deleted once no other
+// saved report, archived version or draft still points at it.
+const deleteReportData = async (timestamp: number) => {
+    const projectData = await retrieveProject(timestamp);
+    const candidates = new Set<string>();
+    collectImageIds(projectData, candidates);
+
+    if (candidates.size > 0) {
+        const stillReferenced = await getReferencedImageIds(timestamp);
+        for (const id of candidates) {
+            if (!stillReferenced.has(id)) await deleteImage(id);
+        }
+    }
+    await deleteProject(timestamp);
+};
+
+const registerReport = async (report: ProjectReport, defaults: Partial<ProjectDefaults>) => {
+    const key = getProjectKey(report.projectNumber);
+    const existing: ProjectRecord | undefined = await retrieveProjectRecord(key);
+    const record = existing ? normalizeRecord(existing) : { projectNumber: report.projectNumber, defaults: EMPTY_DEFAULTS, reports: [], archived: [], updatedAt: 0 };
+
+    const identity = reportIdentity(report);
+    const replaced = record.reports.filter(r => reportIdentity(r) === identity && r.timestamp !== report.timestamp);
+    const updated: ProjectRecord = {
+        projectNumber: report.projectNumber || record.projectNumber,
+        defaults: mergeDefaults(record.defaults, defaults),
+        reports: [report, ...record.reports.filter(r => reportIdentity(r) !== identity)],
+        archived: [...replaced.map(r => toArchived(r, report.timestamp, report.timestamp)), ...record.archived],
+        updatedAt: Math.max(record.updatedAt, report.timestamp),
+    };
+    await storeProjectRecord(key, updated);
+};
+
+// Moves the old localStorage recents list into the registry, oldest first so the
+// newest report of each project ends up on top.
+const importLegacyRecentProjects = async () => {
+    let legacy: ProjectReport[] = [];
+    try {
+        const stored = localStorage.getItem(LEGACY_RECENT_PROJECTS_KEY);
+        if (!stored) return;
+        legacy = JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to parse recent projects from localStorage", e);
+        return;
+    }
+    for (const report of [...legacy].reverse()) {
+        try {
+            const projectData = await retrieveProject(report.timestamp);
+            if (!projectData) continue;
+            await registerReport(report, extractProjectDefaults(report.type, projectData));
+        } catch (e) {
+            console.error(`Failed to import recent project (${report.timestamp}) into the registry:`, e);
+        }
+    }
+    localStorage.removeItem(LEGACY_RECENT_PROJECTS_KEY);
+};
+
+/**
+ * Loads every registered project.
+ * @returns The projects, most recently updated first.
+ */
+export const getProjectRecords = async (): Promise<ProjectRecord[]> => {
+    try {
+        await importLegacyRecentProjects();
+        const records: ProjectRecord[] = await retrieveProjectRecords();
+        return records.map(normalizeRecord).sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+        console.error("Failed to load the project registry:", e);
+        return [];
+    }
+};
+
+/** Every active report across all projects, newest first. */
+export const getAllReports = async (): Promise<ProjectReport[]> => {
+    const records = await getProjectRecords();
+    return records.flatMap(r => r.reports).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// --- Writing ---
+
+/**
+ * Saves a report and files it under its project number. A report with the same type
+ * and name in the same project is replaced by the new version; the old version moves
+ * to the project's archive.
+ * @param projectData The report in its storage shape (images replaced by imageIds).
+ * @param reportInfo The report's type, display name and project number.
+ * @returns The timestamp the report was stored under.
+ */
+export const saveReportToRegistry = async (projectData: StoredReportData, reportInfo: { type: AppType; name: string; projectNumber: string; }): Promise<number> => {
+    const timestamp = Date.now();
+
+    try {
+        await storeProject(timestamp, withSchemaVersion(projectData));
+    } catch (e) {
+        console.error("Failed to save project to IndexedDB:", e);
+        alert("Could not save the project to the local database. Your browser's storage might be full or corrupted.");
+        return timestamp;
+    }
+
+    try {
+        const report: ProjectReport = { ...reportInfo, timestamp };
+        if (typeof projectData?.continuedFrom === 'number') {
+            report.continuedFrom = projectData.continuedFrom;
+        }
+        await registerReport(report, extractProjectDefaults(reportInfo.type, projectData));
+    } catch (e) {
+        console.error("Failed to update the project registry:", e);
+        alert("Could not add the report to the project registry. Your browser's storage might be full.");
+    }
+    return timestamp;
+};
+
+// Applies a change to the record that holds a report; does nothing if the project is not registered.
+const updateRecordFor = async (report: ProjectReport, update: (record: ProjectRecord) => ProjectRecord) => {
+    const key = getProjectKey(report.projectNumber);
+    const existing: ProjectRecord | undefined = await retrieveProjectRecord(key);
+    if (!existing) return;
+    const updated = update(normalizeRecord(existing));
+    if (updated.reports.length === 0 && updated.archived.length === 0) {
+        await deleteProjectRecord(key);
+    } else {
+        await storeProjectRecord(key, updated);
+    }
+};
+
+/**
+ * Moves an active report to its project's archive. Its data is kept.
+ * @param report The report to archive.
+ */
+export const archiveReport = async (report: ProjectReport): Promise<void> => {
+    await updateRecordFor(report, record => ({
+        ...record,
+        reports: record.reports.filter(r => r.timestamp !== report.timestamp),
+        archived: [toArchived(report, Date.now()), ...record.archived.filter(r => r.timestamp !== report.timestamp)],
+    }));
+};
+
+/**
+ * Moves an archived report back to its project's active reports.
+ * @param report The archived report to restore.
+ */
+export const restoreReport = async (report: ProjectReport): Promise<void> => {
+    await updateRecordFor(report, record => ({
+        ...record,
+        reports: [toActive(report), ...record.reports.filter(r => r.timestamp !== report.timestamp)].sort((a, b) => b.timestamp - a.timestamp),
+        archived: record.archived.filter(r => r.timestamp !== report.timestamp),
+    }));
+};
+
+/**
+ * Permanently deletes a report, its images and its registry entry, whether it is
+ * active or archived. Images still used by another report are kept. A project left
+ * without any reports is removed from the registry. Callers must confirm with the
+ * user first.
+ * @param report The report to delete.
+ */
+export const deleteReport = async (report: ProjectReport): Promise<void> => {
+    try {
+        await deleteReportData(report.timestamp);
+    } catch (e) {
+        console.error("Failed to delete project data from DB:", e);
+    }
+
+    await updateRecordFor(report, record => ({
+        ...record,
+        reports: record.reports.filter(r => r.timestamp !== report.timestamp),
+        archived: record.archived.filter(r => r.timestamp !== report.timestamp),
+    }));
+};
@@ -0,0 +1,119 @@
+// Continuing a DFR from the previous day's report.
+// On multi-week jobs most of a DFR is the same from one day to the next. A
+// continuation copies the header and whichever sections the monitor picks into a
+// new report dated today with no photos, and records which report it continued so
+// the project history can show the chain.
+import type { DfrHeaderData, DfrSaskpowerData, DfrStandardBodyData, PdfExportSettings, PhotoData } from '../types';
+import { formatPhotoDate } from './exif';
+import { migrateProject, withSchemaVersion } from './migrations';
+
+export type ContinuableReportType = 'dfrStandard' | 'dfrSaskpower';
+
+export interface ContinuableSection<F extends string = string> {
+    field: F;
+    label: string;
+    /** Copied unless the monitor unticks it. */
+    defaultSelected: boolean;
+}
+
+const SASKPOWER_CHECKLIST_FIELDS: (keyof DfrSaskpowerData)[] = ['completedTailgate', 'reviewedTailgate', 'reviewedPermits'];
+
+/** The sections a monitor can choose to carry over, per report type. The header is always copied. */
+export const CONTINUABLE_SECTIONS: {
+    dfrStandard: ContinuableSection<keyof DfrStandardBodyData>[];
+    /** checklist stands for every checklist answer. */
+    dfrSaskpower: ContinuableSection<keyof DfrSaskpowerData | 'checklist'>[];
+} = {
+    dfrStandard: [
+        { field: 'generalActivity', label: 'General Activity', defaultSelected: false },
+        { field: 'locationActivities', label: 'Location-Specific Activities', defaultSelected: false },
+        { field: 'communication', label: 'Communication', defaultSelected: false },
+        { field: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions', defaultSelected: true },
+        { field: 'environmentalProtection', label: 'Environmental Protection Measures & Mitigation', defaultSelected: true },
+        { field: 'wildlifeObservations', label: 'Wildlife Observations', defaultSelected: false },
+        { field: 'furtherRestoration', label: 'Further Restoration or Monitoring Required', defaultSelected: true },
+    ],
+    dfrSaskpower: [
+        { field: 'checklist', label: 'Checklist answers', defaultSelected: true },
+        { field: 'generalActivity', label: 'Project Activities', defaultSelected: false },
+        { field: 'equipmentOnsite', label: 'X-Terra Equipment Onsite', defaultSelected: true },
+        { field: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions', defaultSelected: true },
+        { field: 'environmentalProtection', label: 'Environmental Protection Measures and Mitigation', defaultSelected: true },
+        { field: 'wildlifeObservations', label: 'Wildlife Observations', defaultSelected: false },
+        { field: 'futureMonitoring', label: 'Future Monitoring Requirements', defaultSelected: true },
+    ],
+};
+
+export const isContinuableReportType = (type: string): type is ContinuableReportType =>
+    type === 'dfrStandard' || type === 'dfrSaskpower';
+
+export const getDefaultContinuationSections = (type: ContinuableReportType): string[] =>
+    CONTINUABLE_SECTIONS[type].filter(s => s.defaultSelected).map(s => s.field);
+
+interface ContinuationFields {
+    schemaVersion: number;
+    exportSettings?: PdfExportSettings;
+    photosData: PhotoData[];
+    continuedFrom: number;
+}
+
+/** A continued report: the copied header and sections of its type, with no photos. */
+export type ContinuationReport = ContinuationFields & (
+    | Partial<DfrSaskpowerData>
+    | { headerData: DfrHeaderData; bodyData: Partial<DfrStandardBodyData> }
+);
+
+/**
+ * Builds a new report that continues a stored one.
+ * @param type The report type.
+ * @param previousData The previous report as stored in the projects store.
+ * @param previousTimestamp The previous report's key, recorded as continuedFrom.
+ * @param sections The section fields to copy (see CONTINUABLE_SECTIONS).
+ * @param today The date to give the new report.
+ * @returns Editor initial data in the report's project file shape.
+ */
+export const createContinuationReport = (
+    type: ContinuableReportType,
+    previousData: unknown,
+    previousTimestamp: number,
+    sections: string[],
+    today: Date = new Date()
+): ContinuationReport => {
+    const selected = new Set(sections);
+    const date = formatPhotoDate(today);
+
+    if (type === 'dfrSaskpower') {
+        const { project } = migrateProject('dfrSaskpower', previousData);
+        const report: Partial<DfrSaskpowerData> = {
+            proponent: project.proponent,
+            projectName: project.projectName,
+            location: project.location,
+            vendorAndForeman: project.vendorAndForeman,
+            projectNumber: project.projectNumber,
+            environmentalMonitor: project.environmentalMonitor,
+            envFileNumber: project.envFileNumber,
+            date,
+        };
+        const copy = <K extends keyof DfrSaskpowerData>(field: K) => { report[field] = project[field]; };
+        CONTINUABLE_SECTIONS.dfrSaskpower.forEach(({ field }) => {
+            if (!selected.has(field)) return;
+            if (field === 'checklist') SASKPOWER_CHECKLIST_FIELDS.forEach(copy);
+            else copy(field);
+        });
+        return withSchemaVersion({ ...report, exportSettings: project.exportSettings, photosData: [], continuedFrom: previousTimestamp });
+    }
+
+    const { project } = migrateProject('dfrStandard', previousData);
+    const bodyData: Partial<DfrStandardBodyData> = {};
+    const copy = <K extends keyof DfrStandardBodyData>(field: K) => { bodyData[field] = project.bodyData[field]; };
+    CONTINUABLE_SECTIONS.dfrStandard.forEach(({ field }) => {
+        if (selected.has(field)) copy(field);
+    });
+    return withSchemaVersion({
+        headerData: { ...project.headerData, date },
+        bodyData,
+        exportSettings: project.exportSettings,
+        photosData: [],
+        continuedFrom: previousTimestamp,
+    });
+};
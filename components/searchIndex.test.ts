@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PhotoData } from '../types';
+import { retrieveProject } from './db';
+import { getProjectRecords, type ProjectRecord, type ProjectReport } from './projectRegistry';
+import { buildSearchIndex, buildSnippet, searchReports, type SnippetPart } from './searchIndex';
+
+vi.mock('./db', () => ({
+    retrieveProject: vi.fn(),
+}));
+
+vi.mock('./projectRegistry', () => ({
+    getProjectRecords: vi.fn(),
+}));
+
+// The snippet as text, with highlighted words in [brackets].
+const render = (parts: SnippetPart[]): string => parts.map(part => (part.highlight ? `[${part.text}]` : part.text)).join('');
+
+describe('buildSnippet', () => {
+    it('highlights every word the terms match, whatever its case or ending', () => {
+        const parts = buildSnippet("Red-tailed Hawk over the crew's pad; two hawks nesting.", ['hawk', 'crew']);
+
+        expect(render(parts)).toBe("Red-tailed [Hawk] over the [crew's] pad; two [hawks] nesting.");
+        expect(parts.filter(part => part.highlight)).toHaveLength(3);
+    });
+
+    it('only matches terms at the start of a word', () => {
+        expect(render(buildSnippet('Mohawk Trail crossing.', ['hawk']))).toBe('Mohawk Trail crossing.');
+    });
+
+    it('puts the text on one line', () => {
+        expect(render(buildSnippet('Culvert\n\n  inlet   cleaned.', ['inlet']))).toBe('Culvert [inlet] cleaned.');
+    });
+
+    it('cuts long text to whole words around the first match and marks the cuts', () => {
+        const before = Array.from({ length: 40 }, (_, i) => `before${i + 1}`).join(' ');
+        const after = Array.from({ length: 40 }, (_, i) => `after${i + 1}`).join(' ');
+        const parts = buildSnippet(`${before} culvert ${after}`, ['culvert']);
+        const text = render(parts);
+
+        expect(parts[0]).toEqual({ text: '…', highlight: false });
+        expect(parts[parts.length - 1]).toEqual({ text: '…', highlight: false });
+        expect(text).toContain(' [culvert] ');
+        expect(text).toMatch(/^…before\d+ /);
+        expect(text).toMatch(/ after\d+…$/);
+        // The window is at most 160 characters, the cut marks aside.
+        expect(text.length - '……[]'.length).toBeLessThanOrEqual(160);
+        // About 50 characters of lead-in before the match.
+        expect(text.indexOf('[culvert]')).toBeGreaterThan(40);
+        expect(text.indexOf('[culvert]')).toBeLessThanOrEqual(51);
+    });
+
+    it('starts at the beginning when the match is near it', () => {
+        const parts = buildSnippet(`Culvert inlet cleaned. ${'Then more work. '.repeat(20)}`, ['inlet']);
+
+        expect(parts[0]).toEqual({ text: 'Culvert ', highlight: false });
+        expect(parts[1]).toEqual({ text: 'inlet', highlight: true });
+    });
+
+    it('shows the start of the text when there is nothing to highlight', () => {
+        const text = 'x'.repeat(200);
+
+        expect(buildSnippet(text, [])).toEqual([{ text: 'x'.repeat(160), highlight: false }]);
+    });
+});
+
+describe('searchReports', () => {
+    const photo = (id: number, description: string): PhotoData => ({
+        id, photoNumber: String(id), date: '', location: '', description, direction: '', imageUrl: null,
+    });
+
+    const report = (timestamp: number, name: string): ProjectReport => ({ type: 'photoLog', name, projectNumber: '25159', timestamp });
+
+    // Saved reports are cached by timestamp for the session, so every test uses its own.
+    const index = async (projects: Record<number, { name: string; photos: PhotoData[] }>) => {
+        const reports = Object.entries(projects).map(([timestamp, { name }]) => report(Number(timestamp), name));
+        const record: ProjectRecord = {
+            projectNumber: '25159',
+            defaults: { proponent: '', projectName: '', location: '', monitor: '', envFileType: '', envFileValue: '' },
+            reports,
+            archived: [],
+            updatedAt: 0,
+        };
+        vi.mocked(getProjectRecords).mockResolvedValue([record]);
+        vi.mocked(retrieveProject).mockImplementation(async timestamp => ({
+            schemaVersion: 1,
+            headerData: { projectName: projects[timestamp].name, projectNumber: '25159', proponent: '', location: '', date: '' },
+            photosData: projects[timestamp].photos,
+        }));
+        return buildSearchIndex();
+    };
+
+    it('highlights the words each match was found by in its snippet', async () => {
+        const searchIndex = await index({
+            1: { name: 'Rush Lake', photos: [photo(1, 'Hawks nesting near the culvert.'), photo(2, 'Topsoil windrow.')] },
+        });
+
+        const [result] = searchReports(searchIndex, 'hawk culvert');
+
+        expect(result.matches.map(match => render(match.snippet))).toEqual(['[Hawks] nesting near the [culvert].']);
+        expect(result.matches[0]).toMatchObject({ label: 'Photo 1 description', target: { kind: 'photo', id: 1 } });
+    });
+
+    it('ranks reports matching more of the words first', async () => {
+        const searchIndex = await index({
+            11: { name: 'Rush Lake', photos: [photo(1, 'Culvert inlet.')] },
+            12: { name: 'Swift Current', photos: [photo(1, 'Hawk over the culvert.')] },
+        });
+
+        const results = searchReports(searchIndex, 'hawk culvert');
+
+        expect(results.map(result => result.report.name)).toEqual(['Swift Current', 'Rush Lake']);
+        expect(render(results[1].matches[0].snippet)).toBe('[Culvert] inlet.');
+    });
+
+    it('returns nothing for a query of only stop words', async () => {
+        const searchIndex = await index({ 21: { name: 'Rush Lake', photos: [photo(1, 'The culvert.')] } });
+
+        expect(searchReports(searchIndex, 'the and of')).toEqual([]);
+    });
+});
@@ -0,0 +1,379 @@
+// Full-text search over saved reports.
+// Every registered report (active or archived) is split into fields: its header,
+// each DFR body section, each location activity and each photo's caption. The
+// fields are tokenized into an inverted index, and a search ranks reports by how
+// many of the query's words they contain and how strongly. Each match carries the
+// field it came from so the editor can scroll straight to it.
+import { useEffect } from 'react';
+import type { AppType } from '../App';
+import type { DfrSaskpowerData, DfrStandardBodyData, LocationActivity, PhotoData } from '../types';
+import { retrieveProject } from './db';
+import { migrateProject } from './migrations';
+import { getProjectRecords, type ProjectReport } from './projectRegistry';
+
+export type SearchTarget =
+    | { kind: 'header' }
+    | { kind: 'field'; field: string }
+    | { kind: 'locationActivity'; id: number }
+    | { kind: 'photo'; id: number };
+
+export interface SnippetPart {
+    text: string;
+    highlight: boolean;
+}
+
+export interface SearchMatch {
+    target: SearchTarget;
+    label: string;
+    snippet: SnippetPart[];
+    score: number;
+}
+
+export interface SearchResult {
+    report: ProjectReport;
+    archived: boolean;
+    score: number;
+    /** Best match first. */
+    matches: SearchMatch[];
+}
+
+interface IndexedField {
+    target: SearchTarget;
+    label: string;
+    text: string;
+    weight: number;
+}
+
+interface IndexedReport {
+    report: ProjectReport;
+    archived: boolean;
+    fields: IndexedField[];
+}
+
+interface Posting {
+    reportIndex: number;
+    fieldIndex: number;
+    count: number;
+}
+
+export interface SearchIndex {
+    reports: IndexedReport[];
+    postings: Map<string, Posting[]>;
+}
+
+const HEADER_WEIGHT = 3;
+const LOCATION_WEIGHT = 1.5;
+const TEXT_WEIGHT = 1;
+const PHRASE_BONUS = 2;
+// A word that only starts with the query term ("hawkins" for "hawk") counts less than the word itself.
+const PREFIX_MATCH_FACTOR = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+const SNIPPET_BEFORE = 50;
+const SNIPPET_LENGTH = 160;
+const HIGHLIGHT_DURATION_MS = 2500;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'with', 'that', 'this', 'was']);
+
+const DFR_STANDARD_SECTIONS: { field: keyof DfrStandardBodyData; label: string }[] = [
+    { field: 'generalActivity', label: 'General Activity' },
+    { field: 'communication', label: 'Communication' },
+    { field: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions' },
+    { field: 'environmentalProtection', label: 'Environmental Protection Measures & Mitigation' },
+    { field: 'wildlifeObservations', label: 'Wildlife Observations' },
+    { field: 'furtherRestoration', label: 'Further Restoration or Monitoring Required' },
+];
+
+const DFR_SASKPOWER_SECTIONS: { field: keyof DfrSaskpowerData; label: string }[] = [
+    { field: 'generalActivity', label: 'Project Activities' },
+    { field: 'equipmentOnsite', label: 'X-Terra Equipment Onsite' },
+    { field: 'weatherAndGroundConditions', label: 'Weather and Ground Conditions' },
+    { field: 'environmentalProtection', label: 'Environmental Protection Measures and Mitigation' },
+    { field: 'wildlifeObservations', label: 'Wildlife Observations' },
+    { field: 'futureMonitoring', label: 'Future Monitoring Requirements' },
+];
+
+// A saved report never changes (every save gets a new timestamp), so its fields can be cached for the session.
+const fieldCache = new Map<number, IndexedField[]>();
+
+// --- Tokenizing ---
+
+const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9]+(?:['’][a-z]+)?/g) || []).map(t => t.replace(/['’]/g, ''));
+
+const queryTerms = (query: string): string[] => {
+    const terms = tokenize(query).filter(t => !STOP_WORDS.has(t));
+    return [...new Set(terms)];
+};
+
+// --- Indexing ---
+
+/**
+ * Splits a saved report into the fields the search covers.
+ * @param type The report type.
+ * @param projectData The report as stored in the projects store, in any schema version.
+ */
+export const extractSearchFields = (type: AppType, projectData: unknown): IndexedField[] => {
+    if (!projectData) return [];
+    const fields: IndexedField[] = [];
+    const add = (target: SearchTarget, label: string, text: unknown, weight: number) => {
+        if (typeof text === 'string' && text.trim()) {
+            fields.push({ target, label, text, weight });
+        }
+    };
+    const addHeader = (values: (string | undefined)[]) =>
+        add({ kind: 'header' }, 'Project details', values.filter(Boolean).join(' · '), HEADER_WEIGHT);
+    const addSections = <T>(sections: { field: keyof T & string; label: string }[], values: T) =>
+        sections.forEach(({ field, label }) => add({ kind: 'field', field }, label, values[field], TEXT_WEIGHT));
+    const addLocationActivities = (activities: LocationActivity[]) =>
+        activities.forEach(activity => {
+            const label = activity.location ? `Location activity: ${activity.location}` : 'Location activity';
+            add({ kind: 'locationActivity', id: activity.id }, label, [activity.location, activity.activities].filter(Boolean).join('\n'), LOCATION_WEIGHT);
+        });
+
+    let photos: PhotoData[];
+    switch (type) {
+        case 'summaryReport': {
+            const { summary, photosData } = migrateProject(type, projectData).project;
+            addHeader([summary.projectName, summary.projectNumber, summary.proponent, summary.location, summary.monitor]);
+            add({ kind: 'field', field: 'overview' }, 'Overview', summary.overview, TEXT_WEIGHT);
+            summary.days.forEach(day => {
+                add({ kind: 'field', field: `day-${day.date}` }, `Activities ${day.date}`, day.activities, TEXT_WEIGHT);
+            });
+            add({ kind: 'field', field: 'wildlifeObservations' }, 'Wildlife Observations', summary.wildlifeObservations, TEXT_WEIGHT);
+            photos = photosData;
+            break;
+        }
+        case 'dfrForm': {
+            const { form, values, locationActivities, photosData } = migrateProject(type, projectData).project;
+            addHeader(form.headerFields.map(field => values[field.key]));
+            // A form report's sections are whatever its embedded definition declares.
+            addSections(form.sections.map(section => ({ field: section.key, label: section.label })), values);
+            addLocationActivities(locationActivities);
+            photos = photosData;
+            break;
+        }
+        case 'dfrSaskpower': {
+            const { project } = migrateProject(type, projectData);
+            addHeader([project.projectName, project.projectNumber, project.proponent, project.location, project.environmentalMonitor, project.vendorAndForeman]);
+            addSections(DFR_SASKPOWER_SECTIONS, project);
+            addLocationActivities(project.locationActivities);
+            photos = project.photosData;
+            break;
+        }
+        case 'dfrStandard': {
+            const { headerData, bodyData, photosData } = migrateProject(type, projectData).project;
+            addHeader([headerData.projectName, headerData.projectNumber, headerData.proponent, headerData.location, headerData.monitor]);
+            addSections(DFR_STANDARD_SECTIONS, bodyData);
+            addLocationActivities(bodyData.locationActivities);
+            photos = photosData;
+            break;
+        }
+        default: {
+            const { headerData, photosData } = migrateProject(type, projectData).project;
+            addHeader([headerData.projectName, headerData.projectNumber, headerData.proponent, headerData.location]);
+            photos = photosData;
+        }
+    }
+
+    photos.forEach(photo => {
+        const label = `${photo.isMap ? 'Map' : 'Photo'} ${photo.photoNumber || ''}`.trim();
+        add({ kind: 'photo', id: photo.id }, `${label} location`, photo.location, LOCATION_WEIGHT);
+        add({ kind: 'photo', id: photo.id }, `${label} description`, photo.description, TEXT_WEIGHT);
+    });
+    return fields;
+};
+
+/**
+ * Builds the search index over every registered report.
+ * @returns The index, ready for searchReports.
+ */
+export const buildSearchIndex = async (): Promise<SearchIndex> => {
+    const reports: IndexedReport[] = [];
+    const records = await getProjectRecords();
+    const entries = records.flatMap(record => [
+        ...record.reports.map(report => ({ report, archived: false })),
+        ...record.archived.map(report => ({ report, archived: true })),
+    ]);
+
+    for (const { report, archived } of entries) {
+        let fields = fieldCache.get(report.timestamp);
+        if (!fields) {
+            try {
+                fields = extractSearchFields(report.type, await retrieveProject(report.timestamp));
+            } catch (e) {
+                console.error(`Failed to index report (${report.timestamp}):`, e);
+                fields = [];
+            }
+            fieldCache.set(report.timestamp, fields);
+        }
+        reports.push({ report, archived, fields });
+    }
+
+    const postings = new Map<string, Posting[]>();
+    reports.forEach((indexed, reportIndex) => {
+        indexed.fields.forEach((field, fieldIndex) => {
+            const counts = new Map<string, number>();
+            tokenize(field.text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+            counts.forEach((count, token) => {
+                const list = postings.get(token) || [];
+                list.push({ reportIndex, fieldIndex, count });
+                postings.set(token, list);
+            });
+        });
+    });
+    return { reports, postings };
+};
+
+// --- Searching ---
+
+// Index tokens a query term matches: the exact word, or any word it starts when the term is long enough.
+const matchingTokens = (index: SearchIndex, term: string): string[] => {
+    if (term.length < MIN_PREFIX_LENGTH) {
+        return index.postings.has(term) ? [term] : [];
+    }
+    return [...index.postings.keys()].filter(token => token.startsWith(term));
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cuts a window of text around the first matched word and marks every matched word in it.
+ * @param text The field text.
+ * @param terms The query terms that matched the field.
+ */
+export const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    if (terms.length === 0) return [{ text: flat.slice(0, SNIPPET_LENGTH), highlight: false }];
+    const pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})[a-z0-9'’]*`, 'gi');
+
+    const first = flat.search(pattern);
+    let start = Math.max(0, (first < 0 ? 0 : first) - SNIPPET_BEFORE);
+    if (start > 0) {
+        const space = flat.indexOf(' ', start);
+        start = space >= 0 && space < (first < 0 ? flat.length : first) ? space + 1 : start;
+    }
+    let end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    if (end < flat.length) {
+        const space = flat.lastIndexOf(' ', end);
+        end = space > start ? space : end;
+    }
+    const window = flat.slice(start, end);
+
+    const parts: SnippetPart[] = [];
+    if (start > 0) parts.push({ text: '…', highlight: false });
+    let last = 0;
+    for (const match of window.matchAll(pattern)) {
+        const at = match.index ?? 0;
+        if (at > last) parts.push({ text: window.slice(last, at), highlight: false });
+        parts.push({ text: match[0], highlight: true });
+        last = at + match[0].length;
+    }
+    if (last < window.length) parts.push({ text: window.slice(last), highlight: false });
+    if (end < flat.length) parts.push({ text: '…', highlight: false });
+    return parts;
+};
+
+/**
+ * Ranks reports against a query. Reports matching more of the query's words rank
+ * first; within that, rarer words, header matches and exact phrases count more.
+ * @param index The index from buildSearchIndex.
+ * @param query The words to search for.
+ * @param limit The most results to return.
+ */
+export const searchReports = (index: SearchIndex, query: string, limit = 20): SearchResult[] => {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+    const reportCount = Math.max(1, index.reports.length);
+    const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    // reportIndex -> fieldIndex -> { score, terms matched in that field }
+    const fieldHits = new Map<number, Map<number, { score: number; terms: Set<string> }>>();
+    const reportTerms = new Map<number, Set<string>>();
+
+    terms.forEach(term => {
+        const postings = matchingTokens(index, term).flatMap(token =>
+            (index.postings.get(token) || []).map(posting => ({ ...posting, factor: token === term ? 1 : PREFIX_MATCH_FACTOR }))
+        );
+        const reportsWithTerm = new Set(postings.map(p => p.reportIndex)).size;
+        const idf = Math.log(1 + reportCount / Math.max(1, reportsWithTerm));
+        postings.forEach(({ reportIndex, fieldIndex, count, factor }) => {
+            const field = index.reports[reportIndex].fields[fieldIndex];
+            const fields = fieldHits.get(reportIndex) || new Map();
+            const hit = fields.get(fieldIndex) || { score: 0, terms: new Set<string>() };
+            hit.score += field.weight * idf * factor * (1 + Math.log(count));
+            hit.terms.add(term);
+            fields.set(fieldIndex, hit);
+            fieldHits.set(reportIndex, fields);
+            reportTerms.set(reportIndex, (reportTerms.get(reportIndex) || new Set()).add(term));
+        });
+    });
+
+    const results: (SearchResult & { coverage: number })[] = [];
+    fieldHits.forEach((fields, reportIndex) => {
+        const indexed = index.reports[reportIndex];
+        const matches: SearchMatch[] = [];
+        fields.forEach((hit, fieldIndex) => {
+            const field = indexed.fields[fieldIndex];
+            const isPhrase = terms.length > 1 && field.text.toLowerCase().replace(/\s+/g, ' ').includes(phrase);
+            matches.push({
+                target: field.target,
+                label: field.label,
+                snippet: buildSnippet(field.text, [...hit.terms]),
+                score: hit.score * (isPhrase ? PHRASE_BONUS : 1) * hit.terms.size,
+            });
+        });
+        matches.sort((a, b) => b.score - a.score);
+        results.push({
+            report: indexed.report,
+            archived: indexed.archived,
+            score: matches.reduce((sum, m) => sum + m.score, 0),
+            matches,
+            coverage: reportTerms.get(reportIndex)?.size || 0,
+        });
+    });
+
+    return results
+        .sort((a, b) => b.coverage - a.coverage || b.score - a.score || b.report.timestamp - a.report.timestamp)
+        .slice(0, limit)
+        .map(({ coverage, ...result }) => result);
+};
+
+// --- Jumping to a match ---
+
+/** The DOM id editors give the element a search target points at. */
+export const getSearchTargetElementId = (target: SearchTarget): string => {
+    switch (target.kind) {
+        case 'field': return `search-field-${target.field}`;
+        case 'locationActivity': return `search-location-activity-${target.id}`;
+        case 'photo': return `search-photo-${target.id}`;
+        default: return 'search-header';
+    }
+};
+
+/**
+ * Scrolls an editor to a search match once it has rendered, and briefly outlines it.
+ * @param target The match to show; nothing happens when it is undefined.
+ */
+export const useSearchTargetFocus = (target: SearchTarget | undefined) => {
+    useEffect(() => {
+        if (!target) return;
+        const elementId = getSearchTargetElementId(target);
+        let attempts = 0;
+        let highlightTimer: ReturnType<typeof setTimeout> | undefined;
+        // The editor loads the report asynchronously, so wait for the element to appear.
+        const poll = setInterval(() => {
+            const element = document.getElementById(elementId);
+            attempts++;
+            if (!element && attempts < 30) return;
+            clearInterval(poll);
+            if (!element) return;
+            element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            element.classList.add('ring-4', 'ring-amber-400');
+            highlightTimer = setTimeout(() => element.classList.remove('ring-4', 'ring-amber-400'), HIGHLIGHT_DURATION_MS);
+        }, 100);
+        return () => {
+            clearInterval(poll);
+            if (highlightTimer) clearTimeout(highlightTimer);
+        };
+    }, [target]);
+};
@@ -0,0 +1,453 @@
+// Site maps.
+// Photos and location activities carry coordinates (from EXIF or placed by hand on
+// the map). They are drawn over a basemap imported once per project: either a
+// georeferenced site plan image or a folder of XYZ tiles exported from a GIS tool.
+// Nothing is fetched from the network, so the map works in the field. The same
+// drawing code renders the photo location key map page of the PDF.
+import JSZip from 'jszip';
+import type { GeoBounds, LocationActivity, PhotoData, SiteBasemap, SitePlanBasemap, TileBasemap } from '../types';
+import { deleteBasemap, retrieveBasemaps, storeBasemap } from './db';
+import { getProjectKey } from './projectRegistry';
+import type { PhotoEntryBlock } from './pdfLayout';
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+export interface MapMarker extends GeoPoint {
+    /** Unique across kinds, e.g. "photo-3". */
+    key: string;
+    kind: 'photo' | 'location';
+    id: number;
+    label: string;
+    /** Shown in the marker's tooltip and the key map legend. */
+    description: string;
+}
+
+/** The area a map shows and how coordinates are laid out across it. */
+export interface MapFrame {
+    /** Site plans are stretched linearly between their corners; tiles use Web Mercator. */
+    projection: 'linear' | 'mercator';
+    bounds: GeoBounds;
+}
+
+const TILE_SIZE = 256;
+const MAX_TILES_DRAWN = 400;
+// Smallest area shown around the markers, roughly 200 m.
+const MIN_SPAN_DEGREES = 0.002;
+const FRAME_PADDING = 0.15;
+const DEFAULT_ASPECT = 4 / 3;
+const KEY_MAP_WIDTH = 1600;
+const PHOTO_MARKER_COLOR = '#007D8C';
+const LOCATION_MARKER_COLOR = '#D97706';
+const TILE_PATH_PATTERN = /(?:^|\/)(\d+)\/(\d+)\/(\d+)\.(png|jpe?g)$/i;
+
+export const hasCoordinates = (item: { latitude?: number; longitude?: number }): item is GeoPoint =>
+    typeof item.latitude === 'number' && typeof item.longitude === 'number'
+    && Number.isFinite(item.latitude) && Number.isFinite(item.longitude);
+
+export const formatCoordinates = (point: GeoPoint): string =>
+    `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+
+/**
+ * Lists the map markers for a report.
+ * @param photos The report's photos; map images and photos without coordinates are skipped.
+ * @param locationActivities The report's location activities, if it has any.
+ */
+export const collectMarkers = (photos: PhotoData[], locationActivities: LocationActivity[] = []): MapMarker[] => [
+    ...photos.filter(p => !p.isMap && hasCoordinates(p)).map(photo => ({
+        key: `photo-${photo.id}`,
+        kind: 'photo' as const,
+        id: photo.id,
+        label: photo.photoNumber,
+        description: [`Photo ${photo.photoNumber}`, photo.location].filter(Boolean).join(': '),
+        latitude: photo.latitude!,
+        longitude: photo.longitude!,
+    })),
+    ...locationActivities.map((activity, index) => ({ activity, label: `L${index + 1}` }))
+        .filter(({ activity }) => hasCoordinates(activity))
+        .map(({ activity, label }) => ({
+            key: `location-${activity.id}`,
+            kind: 'location' as const,
+            id: activity.id,
+            label,
+            description: [`Location ${label}`, activity.location].filter(Boolean).join(': '),
+            latitude: activity.latitude!,
+            longitude: activity.longitude!,
+        })),
+];
+
+// --- Projection ---
+
+// Coordinates on a plane where x grows east and y grows south. Mercator units are
+// zoom-0 tile widths (0 to 1 across the world).
+const toPlane = (projection: MapFrame['projection'], latitude: number, longitude: number) => {
+    if (projection === 'linear') return { x: longitude, y: -latitude };
+    const phi = (latitude * Math.PI) / 180;
+    return {
+        x: (longitude + 180) / 360,
+        y: (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2,
+    };
+};
+
+const fromPlane = (projection: MapFrame['projection'], x: number, y: number): GeoPoint => {
+    if (projection === 'linear') return { latitude: -y, longitude: x };
+    return {
+        latitude: (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI,
+        longitude: x * 360 - 180,
+    };
+};
+
+const planeExtent = (frame: MapFrame) => {
+    const topLeft = toPlane(frame.projection, frame.bounds.north, frame.bounds.west);
+    const bottomRight = toPlane(frame.projection, frame.bounds.south, frame.bounds.east);
+    return { left: topLeft.x, top: topLeft.y, right: bottomRight.x, bottom: bottomRight.y };
+};
+
+/**
+ * Places a coordinate within a frame.
+ * @returns The position as fractions of the map's width and height (0-1 inside the frame).
+ */
+export const projectPoint = (frame: MapFrame, point: GeoPoint): { x: number; y: number } => {
+    const extent = planeExtent(frame);
+    const p = toPlane(frame.projection, point.latitude, point.longitude);
+    return {
+        x: (p.x - extent.left) / (extent.right - extent.left),
+        y: (p.y - extent.top) / (extent.bottom - extent.top),
+    };
+};
+
+/** The coordinate at a position given as fractions of the map's width and height. */
+export const unprojectPoint = (frame: MapFrame, x: number, y: number): GeoPoint => {
+    const extent = planeExtent(frame);
+    return fromPlane(
+        frame.projection,
+        extent.left + x * (extent.right - extent.left),
+        extent.top + y * (extent.bottom - extent.top)
+    );
+};
+
+const boundsAround = (points: GeoPoint[]): GeoBounds => {
+    const lats = points.map(p => p.latitude);
+    const lons = points.map(p => p.longitude);
+    const north = Math.max(...lats);
+    const south = Math.min(...lats);
+    const east = Math.max(...lons);
+    const west = Math.min(...lons);
+    const padLat = Math.max(north - south, MIN_SPAN_DEGREES) * FRAME_PADDING + Math.max(0, MIN_SPAN_DEGREES - (north - south)) / 2;
+    const padLon = Math.max(east - west, MIN_SPAN_DEGREES) * FRAME_PADDING + Math.max(0, MIN_SPAN_DEGREES - (east - west)) / 2;
+    return { north: north + padLat, south: south - padLat, east: east + padLon, west: west - padLon };
+};
+
+// Widens the shorter side of a frame so it fills a canvas of the given aspect without distortion.
+const fitFrameToAspect = (frame: MapFrame, aspect: number): MapFrame => {
+    const extent = planeExtent(frame);
+    let width = extent.right - extent.left;
+    let height = extent.bottom - extent.top;
+    const centerX = (extent.left + extent.right) / 2;
+    const centerY = (extent.top + extent.bottom) / 2;
+    if (width / height > aspect) height = width / aspect;
+    else width = height * aspect;
+    const topLeft = fromPlane(frame.projection, centerX - width / 2, centerY - height / 2);
+    const bottomRight = fromPlane(frame.projection, centerX + width / 2, centerY + height / 2);
+    return {
+        projection: frame.projection,
+        bounds: { north: topLeft.latitude, west: topLeft.longitude, south: bottomRight.latitude, east: bottomRight.longitude },
+    };
+};
+
+/**
+ * Works out what a map should show.
+ * A site plan always shows the whole plan. Tiles and the plain grid zoom to the markers.
+ * @param basemap The project's basemap, if it has one.
+ * @param markers The markers to show.
+ * @param aspect Width over height of the canvas; ignored for site plans, which keep the image's aspect.
+ * @returns The frame, or null when there is nothing to show.
+ */
+export const getMapFrame = (basemap: SiteBasemap | null, markers: GeoPoint[], aspect = DEFAULT_ASPECT): MapFrame | null => {
+    if (basemap?.kind === 'sitePlan') {
+        return { projection: 'linear', bounds: basemap.bounds };
+    }
+    if (markers.length > 0) {
+        return fitFrameToAspect({ projection: 'mercator', bounds: boundsAround(markers) }, aspect);
+    }
+    if (basemap?.kind === 'tiles') {
+        return fitFrameToAspect({ projection: 'mercator', bounds: basemap.bounds }, aspect);
+    }
+    return null;
+};
+
+// --- Drawing ---
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = url;
+    });
+
+/** Width over height of a site plan image, for sizing its canvas. */
+export const getBasemapAspect = async (basemap: SiteBasemap | null): Promise<number> => {
+    if (basemap?.kind !== 'sitePlan') return DEFAULT_ASPECT;
+    try {
+        const img = await loadImage(basemap.imageUrl);
+        return img.width / img.height;
+    } catch {
+        return DEFAULT_ASPECT;
+    }
+};
+
+const drawTiles = async (ctx: CanvasRenderingContext2D, basemap: TileBasemap, frame: MapFrame, width: number, height: number) => {
+    const extent = planeExtent(frame);
+    const spanX = extent.right - extent.left;
+    let zoom = Math.ceil(Math.log2(width / (TILE_SIZE * spanX)));
+    zoom = Math.min(basemap.maxZoom, Math.max(basemap.minZoom, zoom));
+
+    const tileRange = (z: number) => {
+        const n = 2 ** z;
+        return {
+            n,
+            x0: Math.floor(extent.left * n), x1: Math.floor(extent.right * n),
+            y0: Math.floor(extent.top * n), y1: Math.floor(extent.bottom * n),
+        };
+    };
+    let range = tileRange(zoom);
+    while (zoom > basemap.minZoom && (range.x1 - range.x0 + 1) * (range.y1 - range.y0 + 1) > MAX_TILES_DRAWN) {
+        zoom--;
+        range = tileRange(zoom);
+    }
+
+    const scale = width / spanX;
+    const jobs: Promise<void>[] = [];
+    for (let x = range.x0; x <= range.x1; x++) {
+        for (let y = range.y0; y <= range.y1; y++) {
+            const tile = basemap.tiles[`${zoom}/${x}/${y}`];
+            if (!tile) continue;
+            jobs.push(loadImage(tile).then(img => {
+                const left = (x / range.n - extent.left) * scale;
+                const top = (y / range.n - extent.top) * (height / (extent.bottom - extent.top));
+                // Overdraw by a pixel so rounding never leaves seams between tiles.
+                ctx.drawImage(img, left, top, scale / range.n + 1, (height / (extent.bottom - extent.top)) / range.n + 1);
+            }).catch(() => undefined));
+        }
+    }
+    await Promise.all(jobs);
+};
+
+const drawGrid = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 1;
+    const step = Math.max(40, Math.round(width / 16));
+    for (let x = step; x < width; x += step) {
+        ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
+    }
+    for (let y = step; y < height; y += step) {
+        ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke();
+    }
+};
+
+const drawMarkers = (ctx: CanvasRenderingContext2D, frame: MapFrame, markers: MapMarker[], width: number, height: number) => {
+    const radius = Math.max(10, Math.round(width / 90));
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+    markers.forEach(marker => {
+        const { x, y } = projectPoint(frame, marker);
+        const cx = x * width;
+        const cy = y * height;
+        ctx.fillStyle = marker.kind === 'photo' ? PHOTO_MARKER_COLOR : LOCATION_MARKER_COLOR;
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = Math.max(2, radius / 5);
+        ctx.beginPath();
+        if (marker.kind === 'photo') {
+            ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        } else {
+            ctx.rect(cx - radius, cy - radius, radius * 2, radius * 2);
+        }
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(marker.label, cx, cy);
+    });
+};
+
+/**
+ * Draws a map onto a canvas that has already been sized.
+ * @param canvas The target canvas.
+ * @param basemap The basemap to draw, or null for a plain grid.
+ * @param frame The area to show (see getMapFrame).
+ * @param markers Markers to draw onto the canvas; the editor overlays its own clickable markers instead.
+ */
+export const paintSiteMap = async (canvas: HTMLCanvasElement, basemap: SiteBasemap | null, frame: MapFrame, markers: MapMarker[] = []): Promise<void> => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = canvas;
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillRect(0, 0, width, height);
+
+    if (basemap?.kind === 'sitePlan') {
+        try {
+            ctx.drawImage(await loadImage(basemap.imageUrl), 0, 0, width, height);
+        } catch (e) {
+            console.error("Failed to draw the site plan:", e);
+        }
+    } else if (basemap?.kind === 'tiles') {
+        await drawTiles(ctx, basemap, frame, width, height);
+    } else {
+        drawGrid(ctx, width, height);
+    }
+    drawMarkers(ctx, frame, markers, width, height);
+};
+
+// --- Basemaps ---
+
+const newBasemapId = () => `basemap-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Lists the basemaps that can be used for a project.
+ * @param projectNumber The report's project number.
+ * @returns The project's own basemaps and shared ones, most recently used first.
+ */
+export const getBasemaps = async (projectNumber: string): Promise<SiteBasemap[]> => {
+    const key = getProjectKey(projectNumber);
+    try {
+        const basemaps: SiteBasemap[] = await retrieveBasemaps();
+        return basemaps
+            .filter(b => !b.projectKey || b.projectKey === key)
+            .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    } catch (e) {
+        console.error("Failed to read basemaps from IndexedDB", e);
+        return [];
+    }
+};
+
+/** The basemap a project's maps are drawn on: the one most recently chosen for it. */
+export const getProjectBasemap = async (projectNumber: string): Promise<SiteBasemap | null> =>
+    (await getBasemaps(projectNumber))[0] || null;
+
+/** Makes a basemap the one a project's maps are drawn on. */
+export const markBasemapUsed = async (basemap: SiteBasemap): Promise<SiteBasemap> => {
+    const updated = { ...basemap, lastUsedAt: Date.now() };
+    await storeBasemap(updated.id, updated);
+    return updated;
+};
+
+export const removeBasemap = async (id: string): Promise<void> => {
+    await deleteBasemap(id);
+};
+
+/** Describes what is wrong with a set of corner coordinates, or returns null if they are usable. */
+export const checkBounds = (bounds: GeoBounds): string | null => {
+    const { north, south, east, west } = bounds;
+    if (![north, south, east, west].every(Number.isFinite)) return 'Enter all four edges in decimal degrees.';
+    if (north > 90 || south < -90 || east > 180 || west < -180) return 'Latitudes must be within ±90 and longitudes within ±180.';
+    if (north <= south) return 'The north edge must be above the south edge.';
+    if (east <= west) return 'The east edge must be right of the west edge.';
+    return null;
+};
+
+/**
+ * Imports a site plan or aerial image as a basemap.
+ * @param imageUrl The image as a data URL.
+ * @param name Display name.
+ * @param bounds The coordinates of the image's edges.
+ * @param projectNumber The project it belongs to; empty to share it across projects.
+ * @throws If the bounds are unusable.
+ */
+export const importSitePlan = async (imageUrl: string, name: string, bounds: GeoBounds, projectNumber: string): Promise<SitePlanBasemap> => {
+    const problem = checkBounds(bounds);
+    if (problem) throw new Error(problem);
+    const basemap: SitePlanBasemap = {
+        id: newBasemapId(),
+        kind: 'sitePlan',
+        name: name.trim() || 'Site plan',
+        projectKey: getProjectKey(projectNumber),
+        lastUsedAt: Date.now(),
+        imageUrl,
+        bounds,
+    };
+    await storeBasemap(basemap.id, basemap);
+    return basemap;
+};
+
+/**
+ * Imports a zip of XYZ tiles ({z}/{x}/{y}.png or .jpg) as a basemap.
+ * @param data The zip file's bytes.
+ * @param name Display name.
+ * @param projectNumber The project it belongs to; empty to share it across projects.
+ * @throws If the zip holds no tiles.
+ */
+export const importTileArchive = async (data: ArrayBuffer, name: string, projectNumber: string): Promise<TileBasemap> => {
+    const zip = await JSZip.loadAsync(data);
+    const tiles: Record<string, string> = {};
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && TILE_PATH_PATTERN.test(entry.name));
+    for (const entry of entries) {
+        const [, z, x, y, ext] = entry.name.match(TILE_PATH_PATTERN)!;
+        const mime = ext.toLowerCase() === 'png' ? 'image/png' : 'image/jpeg';
+        tiles[`${z}/${x}/${y}`] = `data:${mime};base64,${await entry.async('base64')}`;
+    }
+    const keys = Object.keys(tiles).map(k => k.split('/').map(Number));
+    if (keys.length === 0) {
+        throw new Error('No map tiles were found. The zip should contain folders named {zoom}/{x}/{y}.png.');
+    }
+
+    const zooms = keys.map(([z]) => z);
+    const maxZoom = Math.max(...zooms);
+    const deepest = keys.filter(([z]) => z === maxZoom);
+    const n = 2 ** maxZoom;
+    const topLeft = fromPlane('mercator', Math.min(...deepest.map(([, x]) => x)) / n, Math.min(...deepest.map(([, , y]) => y)) / n);
+    const bottomRight = fromPlane('mercator', (Math.max(...deepest.map(([, x]) => x)) + 1) / n, (Math.max(...deepest.map(([, , y]) => y)) + 1) / n);
+
+    const basemap: TileBasemap = {
+        id: newBasemapId(),
+        kind: 'tiles',
+        name: name.trim() || 'Map tiles',
+        projectKey: getProjectKey(projectNumber),
+        lastUsedAt: Date.now(),
+        minZoom: Math.min(...zooms),
+        maxZoom,
+        bounds: { north: topLeft.latitude, west: topLeft.longitude, south: bottomRight.latitude, east: bottomRight.longitude },
+        tiles,
+    };
+    await storeBasemap(basemap.id, basemap);
+    return basemap;
+};
+
+// --- PDF ---
+
+/**
+ * Renders the photo location key map for the PDF.
+ * @param projectNumber The report's project number, which selects the basemap.
+ * @param photos The report's photos.
+ * @param locationActivities The report's location activities, if any.
+ * @returns A map page entry, or null when nothing has coordinates.
+ */
+export const buildKeyMapEntry = async (
+    projectNumber: string,
+    photos: PhotoData[],
+    locationActivities: LocationActivity[] = []
+): Promise<PhotoEntryBlock | null> => {
+    const markers = collectMarkers(photos, locationActivities);
+    if (markers.length === 0) return null;
+
+    const basemap = await getProjectBasemap(projectNumber);
+    const aspect = await getBasemapAspect(basemap);
+    const frame = getMapFrame(basemap, markers, aspect);
+    if (!frame) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = KEY_MAP_WIDTH;
+    canvas.height = Math.round(KEY_MAP_WIDTH / aspect);
+    await paintSiteMap(canvas, basemap, frame, markers);
+
+    return {
+        fields: [
+            { label: 'Map', value: 'Photo Location Key Map' },
+            ...(basemap ? [{ label: 'Basemap', value: basemap.name }] : []),
+        ],
+        description: markers.map(m => `${m.description} (${formatCoordinates(m)})`).join('\n'),
+        image: { data: canvas.toDataURL('image/jpeg', 0.9), width: canvas.width, height: canvas.height },
+    };
+};
@@ -0,0 +1,181 @@
+// Storage lifecycle.
+// Reports live in one of two tiers: active reports are listed on the landing page,
+// archived ones (replaced versions and reports left untouched for a while) are kept
+// out of the way but stay openable. The retention policy decides when reports move
+// to the archive and, only if the user opts in, when archived reports are deleted.
+import { pruneImages, retrieveDrafts, retrieveImageSize, retrieveProject, type ImagePruneResult } from './db';
+import { archiveReport, deleteReport, getProjectRecords, getReferencedImageIds, type ProjectReport } from './projectRegistry';
+
+export interface RetentionPolicy {
+    /** Active reports not saved for this many days move to the archive; null never archives automatically. */
+    archiveAfterDays: number | null;
+    /** Archived reports are permanently deleted this many days after archiving; null keeps them until deleted by hand. */
+    deleteArchivedAfterDays: number | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    archiveAfterDays: 180,
+    deleteArchivedAfterDays: null,
+};
+
+export interface ReportUsage {
+    report: ProjectReport;
+    archived: boolean;
+    /** Approximate bytes used by the report and its images. */
+    bytes: number;
+}
+
+export interface StorageUsage {
+    /** What the browser reports for the whole app, when available. */
+    usageBytes: number | null;
+    quotaBytes: number | null;
+    activeBytes: number;
+    archivedBytes: number;
+    draftBytes: number;
+    /** Largest first. */
+    reports: ReportUsage[];
+}
+
+export interface RetentionResult {
+    archived: number;
+    deleted: number;
+}
+
+const RETENTION_POLICY_KEY = 'xtec_retention_policy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Policy ---
+
+export const getRetentionPolicy = (): RetentionPolicy => {
+    try {
+        const stored = localStorage.getItem(RETENTION_POLICY_KEY);
+        return stored ? { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) } : DEFAULT_RETENTION_POLICY;
+    } catch (e) {
+        console.error("Failed to parse retention policy from localStorage", e);
+        return DEFAULT_RETENTION_POLICY;
+    }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy): void => {
+    localStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+};
+
+/**
+ * Archives stale reports and deletes expired archived reports as the policy allows.
+ * Called when the landing page loads.
+ * @param policy The retention policy to apply.
+ * @param now The current time, in milliseconds.
+ * @returns How many reports were archived and deleted.
+ */
+export const applyRetentionPolicy = async (policy: RetentionPolicy, now: number = Date.now()): Promise<RetentionResult> => {
+    const result: RetentionResult = { archived: 0, deleted: 0 };
+    if (policy.archiveAfterDays === null && policy.deleteArchivedAfterDays === null) {
+        return result;
+    }
+
+    const records = await getProjectRecords();
+    for (const record of records) {
+        if (policy.archiveAfterDays !== null) {
+            const cutoff = now - policy.archiveAfterDays * DAY_MS;
+            for (const report of record.reports.filter(r => r.timestamp < cutoff)) {
+                try {
+                    await archiveReport(report);
+                    result.archived++;
+                } catch (e) {
+                    console.error(`Failed to archive report (${report.timestamp}):`, e);
+                }
+            }
+        }
+        if (policy.deleteArchivedAfterDays !== null) {
+            const cutoff = now - policy.deleteArchivedAfterDays * DAY_MS;
+            for (const report of record.archived.filter(r => (r.archivedAt ?? r.timestamp) < cutoff)) {
+                try {
+                    await deleteReport(report);
+                    result.deleted++;
+                } catch (e) {
+                    console.error(`Failed to delete expired archived report (${report.timestamp}):`, e);
+                }
+            }
+        }
+    }
+    return result;
+};
+
+// --- Usage ---
+
+const measureReport = async (timestamp: number): Promise<number> => {
+    const projectData = await retrieveProject(timestamp);
+    if (!projectData) return 0;
+    let bytes = JSON.stringify(projectData).length;
+    const imageIds = new Set<string>();
+    for (const photo of Array.isArray(projectData.photosData) ? projectData.photosData : []) {
+        if (photo.imageId) imageIds.add(photo.imageId);
+        if (photo.sourceImageId) imageIds.add(photo.sourceImageId);
+    }
+    for (const id of imageIds) {
+        bytes += await retrieveImageSize(id);
+    }
+    return bytes;
+};
+
+/**
+ * Measures how much storage each report uses. Images shared between reports are
+ * stored once but counted for every report that uses them.
+ * @returns The per-report usage, largest first, with totals per tier.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    const reports: ReportUsage[] = [];
+    const records = await getProjectRecords();
+    for (const record of records) {
+        for (const report of record.reports) {
+            reports.push({ report, archived: false, bytes: await measureReport(report.timestamp) });
+        }
+        for (const report of record.archived) {
+            reports.push({ report, archived: true, bytes: await measureReport(report.timestamp) });
+        }
+    }
+
+    const drafts = await retrieveDrafts();
+    const draftBytes = drafts.reduce((sum, draft) => sum + JSON.stringify(draft).length, 0);
+
+    let usageBytes: number | null = null;
+    let quotaBytes: number | null = null;
+    try {
+        const estimate = await navigator.storage?.estimate();
+        usageBytes = estimate?.usage ?? null;
+        quotaBytes = estimate?.quota ?? null;
+    } catch (e) {
+        console.error("Failed to read the storage estimate:", e);
+    }
+
+    return {
+        usageBytes,
+        quotaBytes,
+        activeBytes: reports.filter(r => !r.archived).reduce((sum, r) => sum + r.bytes, 0),
+        archivedBytes: reports.filter(r => r.archived).reduce((sum, r) => sum + r.bytes, 0),
+        draftBytes,
+        reports: reports.sort((a, b) => b.bytes - a.bytes),
+    };
+};
+
+// --- Cleanup ---
+
+// Images are deleted eagerly only when a photo is removed or a report deleted, so
+// those of failed saves, re-saves under new imageIds and abandoned drafts pile up.
+// Anything no record in the projects store references is garbage. Neither function
+// may run while a report is open: photos added since its last save are referenced
+// by nothing yet.
+
+/**
+ * Reports which images and edit originals are unreferenced, without deleting them.
+ * @returns How many entries and distinct image data are orphaned, and their size.
+ */
+export const findOrphanedImages = async (): Promise<ImagePruneResult> =>
+    pruneImages(await getReferencedImageIds(), true);
+
+/**
+ * Deletes every unreferenced image and edit original, and any image data left unused.
+ * @returns What was deleted.
+ */
+export const cleanUpOrphanedImages = async (): Promise<ImagePruneResult> =>
+    pruneImages(await getReferencedImageIds());
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AppType } from '../App';
+import { retrieveProject } from './db';
+import { getProjectRecords, type ProjectRecord } from './projectRegistry';
+import {
+    formatSummaryPeriod,
+    gatherSummary,
+    getMonthPeriod,
+    getTotalHoursWorked,
+    getWeekPeriod,
+    parseReportDay,
+} from './summaryDigest';
+
+vi.mock('./db', () => ({
+    retrieveImage: vi.fn(),
+    retrieveProject: vi.fn(),
+}));
+
+vi.mock('./projectRegistry', async importOriginal => ({
+    ...await importOriginal<typeof import('./projectRegistry')>(),
+    getProjectRecords: vi.fn(),
+}));
+
+describe('periods', () => {
+    it('takes the week as the seven days ending today', () => {
+        expect(getWeekPeriod(new Date(2025, 9, 15))).toEqual({ start: '2025-10-09', end: '2025-10-15' });
+    });
+
+    it('carries the week back across the start of a month and a year', () => {
+        expect(getWeekPeriod(new Date(2025, 9, 3))).toEqual({ start: '2025-09-27', end: '2025-10-03' });
+        expect(getWeekPeriod(new Date(2026, 0, 2, 23, 59))).toEqual({ start: '2025-12-27', end: '2026-01-02' });
+    });
+
+    it('takes a month from its first to its last day', () => {
+        expect(getMonthPeriod(0, new Date(2025, 9, 15))).toEqual({ start: '2025-10-01', end: '2025-10-31' });
+        expect(getMonthPeriod(0, new Date(2024, 1, 10))).toEqual({ start: '2024-02-01', end: '2024-02-29' });
+        expect(getMonthPeriod(0, new Date(2025, 1, 10))).toEqual({ start: '2025-02-01', end: '2025-02-28' });
+    });
+
+    it('offsets the month across the year', () => {
+        expect(getMonthPeriod(-1, new Date(2026, 0, 20))).toEqual({ start: '2025-12-01', end: '2025-12-31' });
+        // The 31st of a month still steps back a whole calendar month.
+        expect(getMonthPeriod(-1, new Date(2025, 2, 31))).toEqual({ start: '2025-02-01', end: '2025-02-28' });
+    });
+
+    it('formats a period for the report header', () => {
+        expect(formatSummaryPeriod('2025-10-01', '2025-10-07')).toBe('October 1, 2025 to October 7, 2025');
+        expect(formatSummaryPeriod('2025-10-01', '2025-10-01')).toBe('October 1, 2025');
+        expect(formatSummaryPeriod('2025-10-01', '')).toBe('October 1, 2025');
+        expect(formatSummaryPeriod('', '')).toBe('');
+    });
+});
+
+describe('parseReportDay', () => {
+    it('reads the dates DFRs are written with as a local day', () => {
+        expect(parseReportDay('October 1, 2025')).toBe('2025-10-01');
+        expect(parseReportDay('Oct 9 2025')).toBe('2025-10-09');
+    });
+
+    it('returns null for a blank or unreadable date', () => {
+        expect(parseReportDay(undefined)).toBeNull();
+        expect(parseReportDay('  ')).toBeNull();
+        expect(parseReportDay('the first Tuesday')).toBeNull();
+    });
+});
+
+describe('getTotalHoursWorked', () => {
+    const day = (hoursWorked: string) => ({ date: '2025-10-01', sources: [], activities: '', hoursWorked });
+
+    it('adds up the hours it can read', () => {
+        expect(getTotalHoursWorked([day('10'), day('9.5 hrs'), day(''), day('n/a'), day('0.25')])).toBe('19.75');
+    });
+
+    it('is blank when no day has hours', () => {
+        expect(getTotalHoursWorked([day(''), day('n/a')])).toBe('');
+    });
+});
+
+describe('gatherSummary', () => {
+    const saskpower = (date: string, generalActivity: string, totalHoursWorked = '') =>
+        ({ schemaVersion: 1, date, generalActivity, totalHoursWorked, locationActivities: [], photosData: [] });
+
+    const useReports = (reports: { name: string; type?: AppType; data: object }[]) => {
+        const record: ProjectRecord = {
+            projectNumber: '25159',
+            defaults: { proponent: '', projectName: '', location: '', monitor: '', envFileType: '', envFileValue: '' },
+            reports: reports.map(({ name, type = 'dfrSaskpower' }, i) => ({ type, name, projectNumber: '25159', timestamp: i + 1 })),
+            archived: [],
+            updatedAt: 0,
+        };
+        vi.mocked(getProjectRecords).mockResolvedValue([record]);
+        vi.mocked(retrieveProject).mockImplementation(async timestamp => reports[timestamp - 1].data);
+    };
+
+    it('buckets the DFRs inside the period by day, first day and last day included', async () => {
+        useReports([
+            { name: 'Day after', data: saskpower('October 8, 2025', 'Too late.') },
+            { name: 'Last day', data: saskpower('October 7, 2025', 'Seeding.', '8') },
+            { name: 'First day', data: saskpower('October 1, 2025', 'Stripping.', '10') },
+            { name: 'Day before', data: saskpower('September 30, 2025', 'Too early.') },
+        ]);
+
+        const { days } = await gatherSummary('25159', '2025-10-01', '2025-10-07', false);
+
+        expect(days).toEqual([
+            { date: '2025-10-01', sources: ['First day'], activities: 'Stripping.', hoursWorked: '10' },
+            { date: '2025-10-07', sources: ['Last day'], activities: 'Seeding.', hoursWorked: '8' },
+        ]);
+    });
+
+    it('merges the DFRs of one day under their names and adds up their hours', async () => {
+        useReports([
+            { name: 'Crew A', data: saskpower('October 2, 2025', 'Matting placed.', '10') },
+            { name: 'Crew B', data: saskpower('Oct 2, 2025', 'Spill kit checked.', '4.5') },
+        ]);
+
+        const { days } = await gatherSummary('25159', '2025-10-01', '2025-10-07', false);
+
+        expect(days).toEqual([{
+            date: '2025-10-02',
+            sources: ['Crew A', 'Crew B'],
+            activities: '- Crew A:\n  Matting placed.\n- Crew B:\n  Spill kit checked.',
+            hoursWorked: '14.5',
+        }]);
+    });
+
+    it('lists undated DFRs and skips reports that are not DFRs', async () => {
+        useReports([
+            { name: 'No date', data: saskpower('', 'Unknown day.') },
+            { name: 'Photos', type: 'photoLog', data: { schemaVersion: 1, headerData: { date: 'October 2, 2025' }, photosData: [] } },
+            { name: 'Dated', data: saskpower('October 2, 2025', 'Known day.') },
+        ]);
+
+        const { days, undated } = await gatherSummary('25159', '2025-10-01', '2025-10-07', false);
+
+        expect(days.map(day => day.sources)).toEqual([['Dated']]);
+        expect(undated).toEqual(['No date']);
+    });
+});
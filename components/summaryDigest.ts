@@ -0,0 +1,343 @@
+// Weekly and monthly summary reports.
+// A summary gathers a project's active DFRs for a date range from the projects
+// store and digests them: one entry per day with its activities and hours worked,
+// the wildlife observations of the whole period, and a pool of the DFRs' photos
+// to pick an appendix from. The digest is only a starting point; the editor
+// keeps the text as written until it is rebuilt.
+import type { AppType } from '../App';
+import type { LocationActivity, PhotoData, SummaryDay, SummaryReportData, SummaryReportProject } from '../types';
+import { retrieveImage, retrieveProject } from './db';
+import { migrateProject, withSchemaVersion } from './migrations';
+import { getProjectKey, getProjectRecords, type ProjectRecord, type ProjectReport } from './projectRegistry';
+import { textSection, type BodyBlock, type HeaderBlock } from './pdfLayout';
+
+export const SUMMARY_REPORT_FILE_EXTENSION = 'xsum';
+
+// The report types a summary is built from.
+const SOURCE_TYPES = ['dfrStandard', 'dfrSaskpower', 'dfrForm'] as const;
+type SummarySourceType = typeof SOURCE_TYPES[number];
+
+const isSourceType = (type: AppType): type is SummarySourceType => SOURCE_TYPES.some(t => t === type);
+
+/** A photo of one of the period's DFRs that can be added to the appendix. */
+export interface SummaryPhotoCandidate {
+    /** Identifies the photo across rebuilds: the report's timestamp and the photo's id. */
+    key: string;
+    /** The day of the report it belongs to, as YYYY-MM-DD. */
+    day: string;
+    reportName: string;
+    /** The photo with its image loaded. */
+    photo: PhotoData;
+}
+
+export interface SummaryGathering {
+    days: SummaryDay[];
+    wildlifeObservations: string;
+    candidates: SummaryPhotoCandidate[];
+    /** Names of the project's DFRs left out because their date could not be read. */
+    undated: string[];
+}
+
+// --- Dates ---
+
+const toIsoDay = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromIsoDay = (day: string): Date => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date);
+};
+
+/** Reads a DFR's free-text date ("October 1, 2025") as YYYY-MM-DD, or null if it cannot be read. */
+export const parseReportDay = (text: string | undefined): string | null => {
+    if (!text || !text.trim()) return null;
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : toIsoDay(date);
+};
+
+/** Formats a YYYY-MM-DD day for headings, e.g. "Wednesday, October 1, 2025". */
+export const formatSummaryDay = (day: string): string =>
+    fromIsoDay(day).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Formats a period for the report header, e.g. "October 1, 2025 to October 7, 2025". */
+export const formatSummaryPeriod = (start: string, end: string): string => {
+    const format = (day: string) => fromIsoDay(day).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    if (!start || !end) return start ? format(start) : end ? format(end) : '';
+    return start === end ? format(start) : `${format(start)} to ${format(end)}`;
+};
+
+/** The last seven days, ending today. */
+export const getWeekPeriod = (today = new Date()): { start: string; end: string } => {
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6);
+    return { start: toIsoDay(start), end: toIsoDay(today) };
+};
+
+/** A calendar month; offset -1 is the previous month. */
+export const getMonthPeriod = (offset = 0, today = new Date()): { start: string; end: string } => {
+    const start = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+    const end = new Date(today.getFullYear(), today.getMonth() + offset + 1, 0);
+    return { start: toIsoDay(start), end: toIsoDay(end) };
+};
+
+// --- Digest ---
+
+/** The figures a summary takes from one DFR, whatever its type. */
+interface ReportDigest {
+    date: string | undefined;
+    generalActivity: string;
+    locationActivities: LocationActivity[];
+    hoursWorked: string;
+    wildlifeObservations: string;
+    photos: PhotoData[];
+}
+
+const digestReport = (type: SummarySourceType, stored: unknown): ReportDigest => {
+    switch (type) {
+        case 'dfrSaskpower': {
+            const data = migrateProject(type, stored).project;
+            return {
+                date: data.date,
+                generalActivity: data.generalActivity || '',
+                locationActivities: data.locationActivities || [],
+                hoursWorked: data.totalHoursWorked || '',
+                wildlifeObservations: data.wildlifeObservations || '',
+                photos: data.photosData || [],
+            };
+        }
+        case 'dfrForm': {
+            const { form, values, locationActivities, photosData } = migrateProject(type, stored).project;
+            // A form's general activity is whichever section its activities block names.
+            const activitiesItem = form.pdf.body.find(item => item.kind === 'activities');
+            const activitiesField = activitiesItem?.kind === 'activities' && activitiesItem.field;
+            return {
+                date: values.date,
+                generalActivity: (activitiesField ? values[activitiesField] : values.generalActivity) || '',
+                locationActivities: locationActivities || [],
+                hoursWorked: values.totalHoursWorked || '',
+                wildlifeObservations: values.wildlifeObservations || '',
+                photos: photosData || [],
+            };
+        }
+        case 'dfrStandard': {
+            const { headerData, bodyData, photosData } = migrateProject(type, stored).project;
+            return {
+                date: headerData.date,
+                generalActivity: bodyData.generalActivity || '',
+                locationActivities: bodyData.locationActivities || [],
+                hoursWorked: '',
+                wildlifeObservations: bodyData.wildlifeObservations || '',
+                photos: photosData || [],
+            };
+        }
+    }
+};
+
+const indent = (text: string) => text.trim().split(/\r?\n/).map(line => `  ${line}`).join('\n');
+
+// A report's activities as bullet text, with each location as a bullet of its own.
+const activitiesText = (digest: ReportDigest): string => {
+    const parts: string[] = [];
+    if (digest.generalActivity.trim()) parts.push(digest.generalActivity.trim());
+    digest.locationActivities
+        .filter(block => block.activities && block.activities.trim())
+        .forEach(block => parts.push(`- Location: ${block.location || 'N/A'}\n${indent(block.activities)}`));
+    return parts.join('\n');
+};
+
+const parseHours = (text: string): number | null => {
+    const hours = parseFloat(text);
+    return Number.isFinite(hours) ? hours : null;
+};
+
+// Adds up hours written as text ("10", "9.5 hrs"); blank when none can be read.
+const sumHours = (texts: string[]): string => {
+    const hours = texts.map(parseHours).filter((h): h is number => h !== null);
+    return hours.length > 0 ? String(Math.round(hours.reduce((sum, h) => sum + h, 0) * 100) / 100) : '';
+};
+
+/** Adds up the days' hours worked; blank when no day has any. */
+export const getTotalHoursWorked = (days: SummaryDay[]): string => sumHours(days.map(day => day.hoursWorked));
+
+/** Identifies a DFR photo in the appendix's photo sources. */
+export const getSummaryPhotoKey = (reportTimestamp: number, photoId: number) => `${reportTimestamp}:${photoId}`;
+
+// --- Gathering ---
+
+/**
+ * Reads the project's active DFRs dated within a period and digests them.
+ * @param projectNumber The project to summarize.
+ * @param periodStart First day of the period, as YYYY-MM-DD.
+ * @param periodEnd Last day of the period, as YYYY-MM-DD.
+ * @param withPhotos Also load the DFRs' photos as appendix candidates.
+ */
+export const gatherSummary = async (
+    projectNumber: string,
+    periodStart: string,
+    periodEnd: string,
+    withPhotos = true
+): Promise<SummaryGathering> => {
+    const key = getProjectKey(projectNumber);
+    const record = (await getProjectRecords()).find(r => getProjectKey(r.projectNumber) === key);
+
+    const sources: { report: ProjectReport; day: string; digest: ReportDigest }[] = [];
+    const undated: string[] = [];
+    for (const report of record?.reports || []) {
+        const { type } = report;
+        if (!isSourceType(type)) continue;
+        try {
+            const stored = await retrieveProject(report.timestamp);
+            if (!stored) continue;
+            const digest = digestReport(type, stored);
+            const day = parseReportDay(digest.date);
+            if (!day) {
+                undated.push(report.name || 'Untitled Project');
+            } else if (day >= periodStart && day <= periodEnd) {
+                sources.push({ report, day, digest });
+            }
+        } catch (e) {
+            console.error(`Failed to read report (${report.timestamp}) for the summary:`, e);
+        }
+    }
+    sources.sort((a, b) => a.day.localeCompare(b.day) || a.report.timestamp - b.report.timestamp);
+
+    const days: SummaryDay[] = [];
+    for (const source of sources) {
+        let day = days.find(d => d.date === source.day);
+        if (!day) {
+            day = { date: source.day, sources: [], activities: '', hoursWorked: '' };
+            days.push(day);
+        }
+        day.sources.push(source.report.name || 'Untitled Project');
+    }
+    days.forEach(day => {
+        const daySources = sources.filter(s => s.day === day.date);
+        // Several reports on one day are kept apart under their names.
+        day.activities = daySources.length === 1
+            ? activitiesText(daySources[0].digest)
+            : daySources
+                .map(s => ({ name: s.report.name || 'Untitled Project', text: activitiesText(s.digest) }))
+                .filter(({ text }) => text)
+                .map(({ name, text }) => `- ${name}:\n${indent(text)}`)
+                .join('\n');
+        day.hoursWorked = sumHours(daySources.map(s => s.digest.hoursWorked));
+    });
+
+    const wildlifeObservations = sources
+        .filter(s => s.digest.wildlifeObservations.trim())
+        .map(s => `- ${formatSummaryDay(s.day)}:\n${indent(s.digest.wildlifeObservations)}`)
+        .join('\n');
+
+    const candidates: SummaryPhotoCandidate[] = [];
+    if (withPhotos) {
+        for (const source of sources) {
+            for (const photo of source.digest.photos) {
+                if (photo.isMap) continue;
+                const imageUrl = photo.imageUrl || (photo.imageId ? await retrieveImage(photo.imageId) : null);
+                if (!imageUrl) continue;
+                candidates.push({
+                    key: getSummaryPhotoKey(source.report.timestamp, photo.id),
+                    day: source.day,
+                    reportName: source.report.name || 'Untitled Project',
+                    photo: { ...photo, imageUrl },
+                });
+            }
+        }
+    }
+
+    return { days, wildlifeObservations, candidates, undated };
+};
+
+/**
+ * Builds the initial data for a new summary of a project's DFRs.
+ * @param project The project to summarize; its header defaults fill the summary header.
+ * @param periodStart First day of the period, as YYYY-MM-DD.
+ * @param periodEnd Last day of the period, as YYYY-MM-DD.
+ * @returns Editor initial data in the SummaryReportProject shape.
+ */
+export const createSummaryReport = async (project: ProjectRecord, periodStart: string, periodEnd: string): Promise<SummaryReportProject> => {
+    const { days, wildlifeObservations } = await gatherSummary(project.projectNumber, periodStart, periodEnd, false);
+    return withSchemaVersion({
+        summary: {
+            projectNumber: project.projectNumber,
+            projectName: project.defaults.projectName,
+            proponent: project.defaults.proponent,
+            location: project.defaults.location,
+            monitor: project.defaults.monitor,
+            periodStart,
+            periodEnd,
+            overview: '',
+            days,
+            wildlifeObservations,
+            photoSources: {},
+        },
+        photosData: [],
+    });
+};
+
+/** An empty summary, for the editor opened without a project. */
+export const createEmptySummary = (): SummaryReportData => ({
+    projectNumber: '',
+    projectName: '',
+    proponent: '',
+    location: '',
+    monitor: '',
+    periodStart: '',
+    periodEnd: '',
+    overview: '',
+    days: [],
+    wildlifeObservations: '',
+    photoSources: {},
+});
+
+/** The summary's name in the project registry. */
+export const getSummaryReportName = (summary: SummaryReportData): string => {
+    const period = formatSummaryPeriod(summary.periodStart, summary.periodEnd);
+    return `${summary.projectName || 'Untitled Summary Report'} (Summary${period ? `, ${period}` : ''})`;
+};
+
+// --- PDF ---
+
+/** Lays out the summary's header for the PDF: the report title on body pages, the appendix title on photo pages. */
+export const buildSummaryHeaders = (summary: SummaryReportData): { bodyHeader: HeaderBlock; photoHeader: HeaderBlock } => {
+    const columns: HeaderBlock['columns'] = [
+        [
+            { label: 'Period', value: formatSummaryPeriod(summary.periodStart, summary.periodEnd) },
+            { label: 'Proponent', value: summary.proponent },
+            { label: 'Location', value: summary.location },
+        ],
+        [
+            { label: 'Project #', value: summary.projectNumber },
+            { label: 'Monitor', value: summary.monitor },
+            { label: 'Days Reported', value: String(summary.days.length) },
+        ],
+    ];
+    const fullWidth = [{ label: 'Project Name', value: summary.projectName }];
+    return {
+        bodyHeader: { title: 'SUMMARY REPORT', columns, fullWidth },
+        photoHeader: { title: 'PHOTO APPENDIX', columns, fullWidth },
+    };
+};
+
+/** Lays out the summary's body text for the PDF. */
+export const buildSummaryBody = (summary: SummaryReportData): BodyBlock[] => {
+    const body: BodyBlock[] = [...textSection('Overview:', summary.overview, 0)];
+    const reportedDays = summary.days.filter(day => day.activities.trim() || day.hoursWorked.trim());
+    if (reportedDays.length > 0) {
+        body.push({ kind: 'heading', text: 'Daily Activities:', spaceBefore: body.length > 0 ? 4 : 0 });
+        reportedDays.forEach(day => {
+            body.push({ kind: 'heading', text: formatSummaryDay(day.date), level: 2 });
+            if (day.hoursWorked.trim()) {
+                body.push({ kind: 'line', text: `Hours Worked: ${day.hoursWorked}` });
+            }
+            if (day.activities.trim()) {
+                body.push({ kind: 'bulletList', text: day.activities, spaceAfter: 2 });
+            }
+        });
+    }
+    const totalHours = getTotalHoursWorked(summary.days);
+    if (totalHours) {
+        body.push({ kind: 'line', text: `Total Hours Worked (SaskPower DFRs): ${totalHours}`, bold: true, spaceBefore: 4 });
+    }
+    body.push(...textSection('Wildlife Observations:', summary.wildlifeObservations));
+    return body;
+};
@@ -0,0 +1,190 @@
+// Report templates and per-client presets.
+// A template is a report with everything day-specific stripped out: header values,
+// boilerplate body text, default checklist answers and placeholder location
+// activities. Templates live in IndexedDB and can be exported to .xtpl files to
+// share between machines.
+import type {
+    DfrHeaderData,
+    DfrSaskpowerData,
+    DfrStandardBodyData,
+    HeaderData,
+    PhotoData,
+    ReportTemplate,
+    ReportTemplateDataMap,
+    TemplateReportType,
+} from '../types';
+import { deleteTemplate, retrieveTemplates, storeTemplate } from './db';
+import { withSchemaVersion } from './migrations';
+import { createReportFromDefaults, type ProjectRecord, type ReportFromDefaults } from './projectRegistry';
+
+export const TEMPLATE_FILE_EXTENSION = 'xtpl';
+const TEMPLATE_FILE_FORMAT = 'xtes-report-template';
+const TEMPLATE_FILE_VERSION = 1;
+
+const TEMPLATE_TYPES: TemplateReportType[] = ['photoLog', 'dfrStandard', 'dfrSaskpower'];
+
+const newTemplateId = () => `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isTemplateReportType = (type: string): type is TemplateReportType =>
+    (TEMPLATE_TYPES as string[]).includes(type);
+
+// --- Storage ---
+
+/**
+ * Loads the saved templates.
+ * @param type Only return templates for this report type.
+ * @returns The templates, ordered by client and then name.
+ */
+export const getReportTemplates = async (type?: TemplateReportType): Promise<ReportTemplate[]> => {
+    try {
+        const templates: ReportTemplate[] = await retrieveTemplates();
+        return templates
+            .filter(t => !type || t.type === type)
+            .sort((a, b) => a.client.localeCompare(b.client) || a.name.localeCompare(b.name));
+    } catch (e) {
+        console.error("Failed to read templates from IndexedDB", e);
+        return [];
+    }
+};
+
+export const saveReportTemplate = async (template: ReportTemplate): Promise<void> => {
+    await storeTemplate(template.id, template);
+};
+
+export const deleteReportTemplate = async (id: string): Promise<void> => {
+    await deleteTemplate(id);
+};
+
+// --- Building ---
+
+/** The parts of a report's current state a template is made from. */
+export interface TemplateSourceMap {
+    photoLog: { headerData: HeaderData };
+    dfrStandard: { headerData: DfrHeaderData; bodyData: DfrStandardBodyData };
+    dfrSaskpower: DfrSaskpowerData;
+}
+
+// The date and hours describe one day's work and never belong in a template.
+const TEMPLATE_BUILDERS: { [T in TemplateReportType]: (report: TemplateSourceMap[T]) => ReportTemplateDataMap[T] } = {
+    photoLog: ({ headerData: { date, ...headerData } }) => ({ headerData }),
+    dfrStandard: ({ headerData: { date, ...headerData }, bodyData }) => ({ headerData, bodyData }),
+    dfrSaskpower: ({ date, totalHoursWorked, ...data }) => data,
+};
+
+/**
+ * Makes a template from a report's current state.
+ * @param type The report type.
+ * @param report The report's header (and body) data.
+ * @param name The template's display name.
+ * @param client The client the template is a preset for, if any.
+ */
+export const createTemplateFromReport = <T extends TemplateReportType>(type: T, report: TemplateSourceMap[T], name: string, client: string): ReportTemplate<T> => {
+    const buildData: (report: TemplateSourceMap[T]) => ReportTemplateDataMap[T] = TEMPLATE_BUILDERS[type];
+    // TypeScript cannot see that type and data vary together under the generic T.
+    return {
+        id: newTemplateId(),
+        name: name.trim(),
+        client: client.trim(),
+        type,
+        data: buildData(report),
+        updatedAt: Date.now(),
+    } as ReportTemplate<T>;
+};
+
+// Copies the non-blank values of overlay over base.
+const overlayFilled = <T extends object>(base: T, overlay: Partial<T>): T => {
+    const merged = { ...base };
+    (Object.keys(overlay) as (keyof T)[]).forEach(key => {
+        const value = overlay[key];
+        if (typeof value === 'string' ? value.trim() : value !== undefined && value !== null) {
+            merged[key] = value as T[keyof T];
+        }
+    });
+    return merged;
+};
+
+/** A new report's initial data: the template's fields with no photos yet. */
+export type ReportFromTemplate = ReportTemplateDataMap[TemplateReportType] & { schemaVersion: number; photosData: PhotoData[] };
+
+/**
+ * Builds the initial data for a new report from a template.
+ * @param template The template to start from.
+ * @param project The project the report is for; its header defaults win over the template's.
+ * @returns Editor initial data in the report's project file shape.
+ */
+export const createReportFromTemplate = (template: ReportTemplate, project?: ProjectRecord | null): ReportFromTemplate => {
+    switch (template.type) {
+        case 'dfrSaskpower': {
+            const fromProject = project ? createReportFromDefaults(template.type, project) : null;
+            const { photosData, schemaVersion, ...projectFields }: Partial<ReportFromDefaults<'dfrSaskpower'>> = fromProject || {};
+            return withSchemaVersion({ ...overlayFilled(structuredClone(template.data), projectFields), photosData: [] });
+        }
+        case 'dfrStandard': {
+            const fromProject = project ? createReportFromDefaults(template.type, project) : null;
+            const data = structuredClone(template.data);
+            const headerData = overlayFilled<Partial<DfrHeaderData>>(data.headerData || {}, fromProject?.headerData || {});
+            return withSchemaVersion({ headerData, bodyData: data.bodyData || {}, photosData: [] });
+        }
+        default: {
+            const fromProject = project ? createReportFromDefaults(template.type, project) : null;
+            const data = structuredClone(template.data);
+            const headerData = overlayFilled<Partial<HeaderData>>(data.headerData || {}, fromProject?.headerData || {});
+            return withSchemaVersion({ headerData, photosData: [] });
+        }
+    }
+};
+
+// --- Files ---
+
+/** Serializes a template for an .xtpl file. */
+export const serializeTemplate = (template: ReportTemplate): string =>
+    JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, template }, null, 2);
+
+/**
+ * Reads an .xtpl file. The template gets a new id so importing never overwrites an existing one.
+ * @param text The file contents.
+ * @throws If the file is not a template file.
+ */
+export const parseTemplateFile = (text: string): ReportTemplate => {
+    const parsed = JSON.parse(text);
+    const template = parsed?.template;
+    if (parsed?.format !== TEMPLATE_FILE_FORMAT || !template || !isTemplateReportType(template.type) || !template.data || typeof template.data !== 'object') {
+        throw new Error('Not a report template file.');
+    }
+    if (parsed.version > TEMPLATE_FILE_VERSION) {
+        throw new Error('This template was saved by a newer version of X-TES Digital Reporting. Please update the application to open it.');
+    }
+    return {
+        id: newTemplateId(),
+        name: String(template.name || 'Imported template'),
+        client: String(template.client || ''),
+        type: template.type,
+        data: template.data,
+        updatedAt: Date.now(),
+    };
+};
+
+/**
+ * Saves a template to an .xtpl file through the save dialog, or as a download in the browser.
+ * @param template The template to export.
+ */
+export const exportTemplateFile = async (template: ReportTemplate): Promise<void> => {
+    const sanitize = (name: string) => name.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
+    const filename = `${[sanitize(template.client), sanitize(template.name)].filter(Boolean).join('_') || 'template'}.${TEMPLATE_FILE_EXTENSION}`;
+    const contents = serializeTemplate(template);
+
+    // @ts-ignore
+    if (window.electronAPI) {
+        // @ts-ignore
+        await window.electronAPI.saveProject(contents, filename);
+    } else {
+        const blob = new Blob([contents], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.setAttribute('download', filename);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    }
+};
@@ -23,6 +23,16 @@ module.exports = {
         ext: 'clog',
         name: 'X-TES Combined Log',
         icon: 'assets/COMBINEDLOGICON.ico'
+      },
+      {
+        ext: 'xdfr',
+        name: 'X-TES Client Form DFR',
+        icon: 'assets/XTERRAICON.ico'
+      },
+      {
+        ext: 'xsum',
+        name: 'X-TES Summary Report',
+        icon: 'assets/XTERRAICON.ico'
       }
     ]
   },
@@ -16,7 +16,7 @@ if (!gotTheLock) {
       if (mainWindow.isMinimized()) mainWindow.restore();
       mainWindow.focus();
       const filePath = commandLine.find(arg =>
-        arg.endsWith('.dfr') || arg.endsWith('.spdfr') || arg.endsWith('.plog') || arg.endsWith('.clog')
+        arg.endsWith('.dfr') || arg.endsWith('.spdfr') || arg.endsWith('.plog') || arg.endsWith('.clog') || arg.endsWith('.xdfr') || arg.endsWith('.xsum')
       );
       if (filePath) {
         mainWindow.webContents.send('open-file-path', filePath);
@@ -183,7 +183,7 @@ function createWindow() {
 
   mainWindow.webContents.on('did-finish-load', () => {
     const filePath = process.argv.find(arg =>
-      arg.endsWith('.dfr') || arg.endsWith('.spdfr') || arg.endsWith('.plog') || arg.endsWith('.clog')
+      arg.endsWith('.dfr') || arg.endsWith('.spdfr') || arg.endsWith('.plog') || arg.endsWith('.clog') || arg.endsWith('.xdfr') || arg.endsWith('.xsum')
     );
     if (filePath) {
       mainWindow.webContents.send('open-file-path', filePath);
@@ -251,6 +251,9 @@ app.whenReady().then(() => {
     else if (ext === '.dfr') filters = [{ name: 'X-TES DFR Project', extensions: ['dfr'] }];
     else if (ext === '.plog') filters = [{ name: 'X-TES Photo Log', extensions: ['plog'] }];
     else if (ext === '.clog') filters = [{ name: 'X-TES Combined Log', extensions: ['clog'] }];
+    else if (ext === '.xdfr') filters = [{ name: 'X-TES Client Form DFR', extensions: ['xdfr'] }];
+    else if (ext === '.xsum') filters = [{ name: 'X-TES Summary Report', extensions: ['xsum'] }];
+    else if (ext === '.xtpl') filters = [{ name: 'X-TES Report Template', extensions: ['xtpl'] }];
 
     const { filePath } = await dialog.showSaveDialog(window, {
       title: 'Save Project',
@@ -260,7 +263,8 @@ app.whenReady().then(() => {
 
     if (filePath) {
       try {
-        fs.writeFileSync(filePath, data);
+        // Projects are saved as zip packages; plain strings are still accepted.
+        fs.writeFileSync(filePath, typeof data === 'string' ? data : Buffer.from(data));
         return { success: true, path: filePath };
       } catch (err) {
         console.error('Failed to save project file:', err);
@@ -278,7 +282,9 @@ app.whenReady().then(() => {
     else if (fileType === 'dfr') filters.push({ name: 'DFR Standard Files', extensions: ['dfr'] });
     else if (fileType === 'spdfr') filters.push({ name: 'SaskPower DFR Files', extensions: ['spdfr'] });
     else if (fileType === 'clog') filters.push({ name: 'Combined Log Files', extensions: ['clog'] });
-    else filters.push({ name: 'All Project Files', extensions: ['plog', 'dfr', 'spdfr', 'clog'] });
+    else if (fileType === 'xdfr') filters.push({ name: 'Client Form DFR Files', extensions: ['xdfr'] });
+    else if (fileType === 'xsum') filters.push({ name: 'Summary Report Files', extensions: ['xsum'] });
+    else filters.push({ name: 'All Project Files', extensions: ['plog', 'dfr', 'spdfr', 'clog', 'xdfr', 'xsum'] });
 
     filters.push({ name: 'All Files', extensions: ['*'] });
 
@@ -290,7 +296,8 @@ app.whenReady().then(() => {
 
     if (filePaths && filePaths.length > 0) {
       try {
-        const data = fs.readFileSync(filePaths[0], 'utf-8');
+        // Returned as raw bytes: the renderer tells packages and legacy JSON apart.
+        const data = fs.readFileSync(filePaths[0]);
         return data;
       } catch (err) {
         console.error('Failed to read project file:', err);
@@ -302,7 +309,7 @@ app.whenReady().then(() => {
 
   ipcMain.handle('read-file', async (event, filePath) => {
     try {
-      const data = fs.readFileSync(filePath, 'utf-8');
+      const data = fs.readFileSync(filePath);
       return { success: true, data, path: filePath };
     } catch (err) {
       console.error('Failed to read file:', err);
@@ -350,15 +357,35 @@ app.whenReady().then(() => {
     return { success: false };
   });
 
+  ipcMain.handle('save-docx-file', async (event, data, defaultPath) => {
+    const window = BrowserWindow.getFocusedWindow();
+    const { filePath } = await dialog.showSaveDialog(window, {
+      title: 'Save Word Document',
+      defaultPath: defaultPath || 'report.docx',
+      filters: [{ name: 'Word Documents', extensions: ['docx'] }],
+    });
+
+    if (filePath) {
+      try {
+        fs.writeFileSync(filePath, Buffer.from(data));
+        return { success: true, path: filePath };
+      } catch (err) {
+        console.error('Failed to save Word document:', err);
+        return { success: false, error: err.message };
+      }
+    }
+    return { success: false };
+  });
+
   ipcMain.handle('load-multiple-projects', async (event) => {
     const window = BrowserWindow.getFocusedWindow();
     const { filePaths } = await dialog.showOpenDialog(window, {
       title: 'Import Photos from Files',
       properties: ['openFile', 'multiSelections'],
       filters: [
-        { name: 'All Project Files', extensions: ['plog', 'dfr', 'spdfr', 'json', 'clog'] },
+        { name: 'All Project Files', extensions: ['plog', 'dfr', 'spdfr', 'json', 'clog', 'xdfr'] },
         { name: 'Photo Log Files', extensions: ['plog', 'clog'] },
-        { name: 'DFR Files', extensions: ['dfr', 'spdfr'] },
+        { name: 'DFR Files', extensions: ['dfr', 'spdfr', 'xdfr'] },
         { name: 'JSON files', extensions: ['json'] },
         { name: 'All Files', extensions: ['*'] }
       ]
@@ -367,7 +394,7 @@ app.whenReady().then(() => {
     if (filePaths && filePaths.length > 0) {
       try {
         const filesContent = filePaths.map(filePath => {
-          return fs.readFileSync(filePath, 'utf-8');
+          return fs.readFileSync(filePath);
         });
         return { success: true, data: filesContent };
       } catch (err) {
@@ -13,4 +13,5 @@ contextBridge.exposeInMainWorld('electronAPI', {
   removeDownloadPhotosListener: (callback) => ipcRenderer.removeListener('download-photos', callback),
   removeAllDownloadPhotosListeners: () => ipcRenderer.removeAllListeners('download-photos'),
   saveZipFile: (data, defaultPath) => ipcRenderer.invoke('save-zip-file', data, defaultPath),
+  saveDocxFile: (data, defaultPath) => ipcRenderer.invoke('save-docx-file', data, defaultPath),
 });
\ No newline at end of file
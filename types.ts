@@ -10,45 +10,24 @@ export interface HeaderData {
 
 export interface DfrHeaderData extends HeaderData {
     monitor: string;
-    envFile?: string; // For backward compatibility
     envFileType: string;
     envFileValue: string;
 }
 
-export interface DfrTextData {
-    projectActivities: string;
-    communication: string;
-    weatherAndGroundConditions: string;
-    environmentalProtection: string;
-    wildlifeObservations: string;
-    furtherRestoration: string;
-}
-
 // --- New DFR Structure Types ---
 export interface LocationActivity {
     id: number;
     location: string;
     activities: string;
-}
-
-export type ActivityBlockType = 'location' | 'general';
-
-// Kept for backward compatibility migration from mixed-type arrays
-export interface ActivityBlock {
-    id: number;
-    type: ActivityBlockType;
-    location?: string;
-    activities: string;
+    /** Position placed on the site map, in decimal degrees. */
+    latitude?: number;
+    longitude?: number;
 }
 
 export interface DfrStandardBodyData {
     generalActivity: string;
     locationActivities: LocationActivity[];
 
-    // Old fields for migration logic
-    activityBlocks?: ActivityBlock[];
-    projectActivities?: string; 
-
     communication: string;
     weatherAndGroundConditions: string;
     environmentalProtection: string;
@@ -64,8 +43,23 @@ export interface PhotoData {
   description: string;
   imageUrl: string | null;
   imageId?: string;
+  /** Key of the untouched original and its edit operations in the images store. */
+  sourceImageId?: string;
   direction?: string;
   isMap?: boolean;
+  /** Position in decimal degrees, read from the image's EXIF data or placed on the site map. */
+  latitude?: number;
+  longitude?: number;
+  /** Where the photo came from, when it was imported from another report. */
+  provenance?: PhotoProvenance;
+}
+
+export interface PhotoProvenance {
+  /** Name of the report the photo was imported from. */
+  reportName: string;
+  projectNumber: string;
+  /** The photo's number in that report. */
+  photoNumber: string;
 }
 
 // --- SaskPower DFR Types ---
@@ -84,11 +78,6 @@ export interface DfrSaskpowerData {
     generalActivity: string;
     locationActivities: LocationActivity[];
 
-    // Old fields for migration logic
-    activityBlocks?: ActivityBlock[];
-    projectActivities?: string; 
-    locationActivities_old?: LocationActivity[]; // Another legacy format
-
     totalHoursWorked: string;
     
     completedTailgate: ChecklistOption;
@@ -100,4 +89,240 @@ export interface DfrSaskpowerData {
     environmentalProtection: string;
     wildlifeObservations: string;
     futureMonitoring: string;
-}
\ No newline at end of file
+}
+
+// --- PDF Export Settings ---
+export interface PdfExportSettings {
+    /** Longest edge of each embedded image, in pixels. */
+    maxImageSize: number;
+    /** JPEG quality of each embedded image, 0-1. */
+    jpegQuality: number;
+    /** Largest acceptable PDF size in MB; images are recompressed further to fit. Null for no limit. */
+    targetSizeMb: number | null;
+    /** Add a page showing every placed photo on the project's site map. */
+    includeKeyMap?: boolean;
+    /** Add a Source line to each imported photo's caption (Combined Log). */
+    includePhotoSources?: boolean;
+}
+
+// --- Project Files ---
+// The shapes written to .plog/.clog/.dfr/.spdfr files and to the projects store.
+// Older shapes are upgraded by the migrations in components/migrations.ts.
+export interface PhotoLogProject {
+    schemaVersion: number;
+    headerData: HeaderData;
+    photosData: PhotoData[];
+    exportSettings?: PdfExportSettings;
+}
+
+export interface DfrStandardProject {
+    schemaVersion: number;
+    headerData: DfrHeaderData;
+    bodyData: DfrStandardBodyData;
+    photosData: PhotoData[];
+    exportSettings?: PdfExportSettings;
+    /** Timestamp of the stored report this one was continued from. */
+    continuedFrom?: number;
+}
+
+export interface DfrSaskpowerProject extends DfrSaskpowerData {
+    schemaVersion: number;
+    photosData: PhotoData[];
+    exportSettings?: PdfExportSettings;
+    /** Timestamp of the stored report this one was continued from. */
+    continuedFrom?: number;
+}
+
+// --- Report Templates ---
+export type TemplateReportType = 'photoLog' | 'dfrStandard' | 'dfrSaskpower';
+
+/** What a template keeps of each report type: its project data without photos, dates or export settings. */
+export interface ReportTemplateDataMap {
+    photoLog: { headerData: Partial<HeaderData> };
+    dfrStandard: { headerData: Partial<DfrHeaderData>; bodyData: Partial<DfrStandardBodyData> };
+    dfrSaskpower: Partial<DfrSaskpowerData>;
+}
+
+interface ReportTemplateFields<T extends TemplateReportType> {
+    id: string;
+    name: string;
+    /** The client this template is a preset for; empty for a general template. */
+    client: string;
+    type: T;
+    data: ReportTemplateDataMap[T];
+    updatedAt: number;
+}
+
+export type ReportTemplate<T extends TemplateReportType = TemplateReportType> = {
+    [K in T]: ReportTemplateFields<K>;
+}[T];
+// --- Site Maps ---
+// Basemaps are imported once per project and kept in IndexedDB so the site map works offline.
+export interface GeoBounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+interface SiteBasemapBase {
+    id: string;
+    name: string;
+    /** Registry key of the project the basemap belongs to; empty to offer it on every project. */
+    projectKey: string;
+    /** The basemap most recently used for a project is the one its reports show. */
+    lastUsedAt: number;
+}
+
+/** A site plan or aerial image whose corners have been given coordinates. */
+export interface SitePlanBasemap extends SiteBasemapBase {
+    kind: 'sitePlan';
+    imageUrl: string;
+    bounds: GeoBounds;
+}
+
+/** Web Mercator XYZ tiles, keyed "z/x/y", as exported by most GIS tools. */
+export interface TileBasemap extends SiteBasemapBase {
+    kind: 'tiles';
+    minZoom: number;
+    maxZoom: number;
+    bounds: GeoBounds;
+    tiles: Record<string, string>;
+}
+
+export type SiteBasemap = SitePlanBasemap | TileBasemap;
+
+// --- DFR Form Definitions ---
+// A form definition describes a client's DFR as data: header fields, checklist rows,
+// bullet sections, validation rules and PDF layout. Reports made from one are edited
+// by the generic DfrForm editor and saved as .xdfr files with the definition embedded.
+// Header fields keyed projectNumber, projectName, date, proponent, location, monitor,
+// envFileType and envFileValue are shared with the project registry.
+export type FormFieldKind = 'text' | 'textarea' | 'select';
+
+export interface FormFieldDefinition {
+    key: string;
+    label: string;
+    kind?: FormFieldKind;
+    /** Choices for a select field. */
+    options?: string[];
+    defaultValue?: string;
+    placeholder?: string;
+    required?: boolean;
+    /** Regular expression a non-empty value must match. */
+    pattern?: string;
+    /** Shown when the value does not match the pattern. */
+    patternMessage?: string;
+}
+
+export interface FormChecklistRow {
+    key: string;
+    label: string;
+    defaultValue?: string;
+    required?: boolean;
+}
+
+export interface FormChecklistDefinition {
+    title: string;
+    /** The answers offered for every row, e.g. Yes/No/NA. */
+    options: string[];
+    rows: FormChecklistRow[];
+}
+
+export interface FormSectionDefinition {
+    key: string;
+    label: string;
+    /** Heading in the PDF; defaults to the label followed by a colon. */
+    pdfTitle?: string;
+    rows?: number;
+    placeholder?: string;
+    required?: boolean;
+}
+
+/** A header value in the PDF. The label comes from labelField's value, then label, then the field's own label. */
+export interface FormPdfHeaderField {
+    field: string;
+    label?: string;
+    labelField?: string;
+}
+
+export type FormPdfBodyItem =
+    | { kind: 'section'; field: string }
+    /** A heading followed by a general section and the location-specific activities. */
+    | { kind: 'activities'; title: string; field?: string }
+    | { kind: 'checklist' }
+    /** A single line; {key} is replaced with that field's value. */
+    | { kind: 'line'; text: string; bold?: boolean };
+
+export interface FormPdfLayout {
+    title: string;
+    /** Title on photo pages; omit for the compact info block only. */
+    photoTitle?: string;
+    columns: [FormPdfHeaderField[], FormPdfHeaderField[]];
+    fullWidth?: FormPdfHeaderField[];
+    columnSplit?: number;
+    body: FormPdfBodyItem[];
+}
+
+export interface FormDefinition {
+    id: string;
+    name: string;
+    client: string;
+    /** Bumped by the author whenever the definition changes. */
+    version: number;
+    description?: string;
+    headerFields: FormFieldDefinition[];
+    checklist?: FormChecklistDefinition;
+    sections: FormSectionDefinition[];
+    /** Offer per-location activity blocks, as the Standard DFR does. */
+    locationActivities?: boolean;
+    pdf: FormPdfLayout;
+}
+
+export interface FormDfrProject {
+    schemaVersion: number;
+    /** The definition the report was written against, so the file opens on any machine. */
+    form: FormDefinition;
+    /** Header, checklist and section values by key. */
+    values: Record<string, string>;
+    locationActivities: LocationActivity[];
+    photosData: PhotoData[];
+    exportSettings?: PdfExportSettings;
+}
+
+// --- Summary Reports ---
+// A weekly or monthly roll-up of a project's stored DFRs. The text starts as a digest
+// of the DFRs in the period and is edited like any other report before export.
+export interface SummaryDay {
+    /** The day, as YYYY-MM-DD. */
+    date: string;
+    /** Names of the DFRs the day was built from. */
+    sources: string[];
+    activities: string;
+    /** Hours worked from SaskPower DFRs; empty when none of the day's reports record them. */
+    hoursWorked: string;
+}
+
+export interface SummaryReportData {
+    projectNumber: string;
+    projectName: string;
+    proponent: string;
+    location: string;
+    monitor: string;
+    /** First and last day of the period, as YYYY-MM-DD. */
+    periodStart: string;
+    periodEnd: string;
+    overview: string;
+    days: SummaryDay[];
+    wildlifeObservations: string;
+    /** Where each appendix photo was copied from, as a photo key, by photo id. */
+    photoSources: Record<number, string>;
+}
+
+export interface SummaryReportProject {
+    schemaVersion: number;
+    summary: SummaryReportData;
+    /** The selected-photos appendix. */
+    photosData: PhotoData[];
+    exportSettings?: PdfExportSettings;
+}